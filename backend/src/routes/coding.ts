@@ -2,12 +2,19 @@ import express from 'express';
 import { LDPCService } from '../services/ldpcService';
 import { DecodingService, DecodingConfig } from '../services/decodingService';
 import { ChannelService, ChannelConfig } from '../services/channelService';
+import { SparseMatrixService } from '../services/sparseMatrixService';
+import { DecoderRegistry } from '../services/decoders';
+import { NonBinaryLDPCService } from '../services/nonBinaryLdpcService';
+import { GaloisFieldService } from '../services/galoisFieldService';
+import { RandomService } from '../services/randomService';
+import { ModulationService } from '../services/modulationService';
+import { LDPCGraph } from '../types';
 
 const router = express.Router();
 
 router.post('/encode', (req, res) => {
   try {
-    const { information, graph } = req.body;
+    const { information, graph, method = 'systematic', parityStructure } = req.body;
     if (!information || !graph || 
         !Array.isArray(information) || !graph.nodes || !graph.edges) {
       return res.status(400).json({
@@ -21,6 +28,48 @@ router.post('/encode', (req, res) => {
       });
     }
 
+    const validMethods = ['systematic', 'generator', 'alt', 'dual-diagonal'];
+    if (!validMethods.includes(method)) {
+      return res.status(400).json({
+        error: `Unsupported encoding method: ${method}`
+      });
+    }
+
+    // ALT 与双对角编码只需要稀疏H：不生成G，也不做最小距离搜索
+    if (method === 'alt' || method === 'dual-diagonal') {
+      const { parityCheck } = LDPCService.buildSparseParityCheck(graph);
+      if (parityCheck.m === 0 || parityCheck.n === 0) {
+        return res.status(400).json({
+          error: 'Cannot generate valid matrix from graph'
+        });
+      }
+
+      const result = LDPCService.encodeFromParityCheck(information, parityCheck, method, parityStructure);
+      if (result.k !== undefined && information.length !== result.k) {
+        return res.status(400).json({
+          error: `Information bit length must be ${result.k}, currently ${information.length}`
+        });
+      }
+      // H 不满足所选方法（ALT 的间隙矩阵 φ 奇异、不是双对角结构）
+      if (result.error) {
+        return res.status(400).json({
+          error: result.error
+        });
+      }
+
+      return res.json({
+        codeword: result.codeword,
+        success: result.success,
+        message: result.message || result.error,
+        method: result.method,
+        informationPositions: result.informationPositions,
+        gap: result.gap,
+        parityStructure: result.parityStructure,
+        n: parityCheck.n,
+        k: result.k
+      });
+    }
+
     // 从图形生成矩阵
     const matrixResult = LDPCService.generateMatricesFromGraph(graph);
     if (!matrixResult.isValid) {
@@ -36,12 +85,17 @@ router.post('/encode', (req, res) => {
       });
     }
 
-    const result = LDPCService.encode(information, matrixResult.G, matrixResult.columnPermutation, matrixResult.H);
+    // parityStructure：可选的校验部分结构声明（如 QC 码的 {type: 'dual-diagonal', Z}）
+    const result = LDPCService.encode(information, matrixResult.G, matrixResult.columnPermutation, matrixResult.H, method, parityStructure);
     
     res.json({
       codeword: result.codeword,
       success: result.success,
-      message: result.message,
+      message: result.message || result.error,
+      method: result.method,
+      informationPositions: result.informationPositions,
+      gap: result.gap,
+      parityStructure: result.parityStructure,
       H: matrixResult.H,
       G: matrixResult.G,
       n: matrixResult.n,
@@ -80,9 +134,10 @@ router.post('/decode', (req, res) => {
       });
     }
 
-    if (maxIterations < 1 || maxIterations > 200) {
+    const settings = DecoderRegistry.validate({ algorithm, maxIterations });
+    if ('error' in settings) {
       return res.status(400).json({
-        error: 'Maximum iterations must be between 1-200'
+        error: settings.error
       });
     }
 
@@ -123,7 +178,11 @@ router.post('/decode', (req, res) => {
       return res.json(response);
     }
     
-    const result = LDPCService.decode(received, matrixResult.H, maxIterations, algorithm);
+    const result = DecodingService.decode(received, matrixResult.H, {
+      ...settings,
+      earlyTermination: true,
+      channelType: 'BSC'
+    });
     console.log('✅ [后端路由] 解码完成，结果:', { 
       success: result.success, 
       iterations: result.iterations, 
@@ -156,27 +215,83 @@ router.post('/decode', (req, res) => {
   }
 });
 
+// 把按 CSR 边编号记录的消息映射到图的边/节点 id，前端据此逐次回放
+function buildMessagePlayback(
+  graph: LDPCGraph,
+  { parityCheck, bitNodes, checkNodes }: ReturnType<typeof LDPCService.buildSparseParityCheck>,
+  iterationHistory: any[]
+) {
+  const edgeByNodes = new Map<string, string>();
+  for (const edge of graph.edges) {
+    edgeByNodes.set(`${edge.source}|${edge.target}`, edge.id);
+    edgeByNodes.set(`${edge.target}|${edge.source}`, edge.id);
+  }
+
+  const edgeIds: (string | null)[] = [];
+  for (let i = 0; i < parityCheck.m; i++) {
+    for (let e = parityCheck.rowPtr[i]; e < parityCheck.rowPtr[i + 1]; e++) {
+      edgeIds.push(edgeByNodes.get(`${checkNodes[i].id}|${bitNodes[parityCheck.colIdx[e]].id}`) ?? null);
+    }
+  }
+
+  return {
+    edgeIds,
+    bitNodeIds: bitNodes.map(node => node.id),
+    checkNodeIds: checkNodes.map(node => node.id),
+    frames: iterationHistory
+      .filter(entry => entry.checkToVariable)
+      .map(entry => ({
+        iteration: entry.iteration,
+        checkToVariable: entry.checkToVariable,
+        unsatisfiedChecks: entry.unsatisfiedChecks,
+        decoded: entry.decoded
+      }))
+  };
+}
+
 // Enhanced decoding endpoint with full algorithm support
 router.post('/decode-enhanced', (req, res) => {
   try {
-    const { received, H, config } = req.body;
+    const { received, H, graph, config } = req.body;
     
-    if (!received || !H || !config || 
-        !Array.isArray(received) || !Array.isArray(H)) {
+    if (!received || (!H && !graph) || !config || !Array.isArray(received)) {
       return res.status(400).json({
         error: 'Invalid decoding parameters: missing required parameters'
       });
     }
 
-    // Validate H matrix structure
-    if (H.length === 0 || !Array.isArray(H[0])) {
-      return res.status(400).json({
-        error: 'Parity check matrix H format invalid'
-      });
+    // H（稠密二维数组或稀疏 {m, n, rows}）与 graph 二选一；给出 graph 时可把逐边消息映射回图的边
+    let parityCheck;
+    let graphNodes: ReturnType<typeof LDPCService.buildSparseParityCheck> | null = null;
+    if (H) {
+      if (!SparseMatrixService.isMatrixInput(H)) {
+        return res.status(400).json({
+          error: 'Parity check matrix H format invalid'
+        });
+      }
+      try {
+        parityCheck = SparseMatrixService.from(H);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Parity check matrix H format invalid: ' + (error instanceof Error ? error.message : 'Unknown error')
+        });
+      }
+    } else {
+      if (!Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) {
+        return res.status(400).json({
+          error: 'Invalid graph data'
+        });
+      }
+      graphNodes = LDPCService.buildSparseParityCheck(graph);
+      parityCheck = graphNodes.parityCheck;
+      if (parityCheck.m === 0 || parityCheck.n === 0) {
+        return res.status(400).json({
+          error: 'Graph must contain bit nodes and check nodes'
+        });
+      }
     }
 
-    const n = H[0].length;
-    // const m = H.length; // Not used in current validation
+    const n = parityCheck.n;
     
     // Validate received data length
     if (received.length !== n) {
@@ -185,24 +300,9 @@ router.post('/decode-enhanced', (req, res) => {
       });
     }
 
-    // Validate algorithm
-    const validAlgorithms = ['belief-propagation', 'min-sum', 'sum-product', 
-                           'gallager-a', 'gallager-b', 'layered'];
-    if (!validAlgorithms.includes(config.algorithm)) {
-      return res.status(400).json({
-        error: `Unsupported algorithm: ${config.algorithm}`
-      });
-    }
-
-    // Validate iterations
-    if (config.maxIterations && (config.maxIterations < 1 || config.maxIterations > 200)) {
-      return res.status(400).json({
-        error: 'Maximum iterations must be between 1-200'
-      });
-    }
-
     // Prepare decoding configuration with defaults
     const decodingConfig: DecodingConfig = {
+      ...DecoderRegistry.pickParameters(config),
       algorithm: config.algorithm,
       maxIterations: config.maxIterations || 50,
       scalingFactor: config.scalingFactor,
@@ -212,9 +312,28 @@ router.post('/decode-enhanced', (req, res) => {
       channelType: config.channelType,
       snr: config.snr,
       crossoverProb: config.crossoverProb,
-      erasureProb: config.erasureProb
+      erasureProb: config.erasureProb,
+      quantization: config.quantization ?? undefined,
+      osdOrder: config.osdOrder ?? undefined,
+      updateBudget: config.updateBudget ?? undefined,
+      recordMessages: config.recordMessages === true,
+      softOutput: config.softOutput === true
     };
 
+    // 算法与参数按注册表中的模式校验
+    const validated = DecoderRegistry.validate(decodingConfig);
+    if ('error' in validated) {
+      return res.status(400).json({
+        error: validated.error
+      });
+    }
+    const codeError = DecoderRegistry.checkCode(validated.algorithm, parityCheck);
+    if (codeError) {
+      return res.status(400).json({
+        error: codeError
+      });
+    }
+
     // Validate received data based on channel type and LLR input
     if (!config.llrInput) {
       // For hard decisions and BEC, validate values
@@ -246,7 +365,7 @@ router.post('/decode-enhanced', (req, res) => {
     }
 
     // Call enhanced decoding service
-    const result = DecodingService.decode(received, H, decodingConfig);
+    const result = DecodingService.decode(received, parityCheck, validated);
     
     res.json({
       decoded: result.decoded,
@@ -254,7 +373,17 @@ router.post('/decode-enhanced', (req, res) => {
       iterations: result.iterations,
       correctedErrors: result.correctedErrors,
       message: result.message,
-      iterationHistory: result.iterationHistory
+      iterationHistory: result.iterationHistory,
+      quantizationStats: 'quantizationStats' in result ? result.quantizationStats : undefined,
+      erasure: 'erasure' in result ? result.erasure : undefined,
+      lp: 'lp' in result ? result.lp : undefined,
+      messageUpdates: result.messageUpdates,
+      osdApplied: result.osdApplied ?? false,
+      osd: result.osd,
+      softOutput: result.softOutput,
+      playback: validated.recordMessages && graphNodes
+        ? buildMessagePlayback(graph, graphNodes, result.iterationHistory || [])
+        : undefined
     });
     
   } catch (error) {
@@ -268,15 +397,10 @@ router.post('/decode-enhanced', (req, res) => {
 // Algorithm information endpoint
 router.get('/algorithms', (_req, res) => {
   try {
-    const algorithms = ['belief-propagation', 'min-sum', 'sum-product', 
-                       'gallager-a', 'gallager-b', 'layered'] as const;
-    
-    const algorithmInfo = algorithms.reduce((acc, alg) => {
-      acc[alg] = DecodingService.getAlgorithmInfo(alg);
-      return acc;
-    }, {} as Record<string, any>);
-    
-    res.json(algorithmInfo);
+    res.json({
+      success: true,
+      algorithms: DecoderRegistry.list().map(definition => DecoderRegistry.describe(definition))
+    });
   } catch (error) {
     console.error('Algorithm info error:', error);
     res.status(500).json({
@@ -304,32 +428,58 @@ router.post('/channel-transmit', (req, res) => {
     }
 
     // Validate channel configuration
-    const validChannelTypes = ['BSC', 'AWGN', 'AWGN-SOFT', 'Rayleigh', 'BEC'];
+    const validChannelTypes = ['BSC', 'AWGN', 'AWGN-SOFT', 'Rayleigh', 'BEC', 'Gilbert-Elliott', 'Markov-AWGN'];
     if (!validChannelTypes.includes(channelConfig.type)) {
       return res.status(400).json({
         error: `Unsupported channel type: ${channelConfig.type}`
       });
     }
 
+    // Optional higher-order modulation for the AWGN and Rayleigh channels
+    const modulation = ModulationService.resolve(channelConfig);
+    if ('error' in modulation) {
+      return res.status(400).json({ error: modulation.error });
+    }
+    if (channelConfig.codeRate !== undefined && !(channelConfig.codeRate > 0 && channelConfig.codeRate <= 1)) {
+      return res.status(400).json({ error: 'codeRate must be in (0, 1]' });
+    }
+
+    // State transition and per-state parameters of the Gilbert-Elliott and Markov-AWGN channels
+    const burst = ChannelService.resolveBurst(channelConfig.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ error: burst.error });
+    }
+
+    // Optional seed for reproducible noise; the seed actually used is echoed back
+    const random = RandomService.resolve(req.body.seed);
+    if ('error' in random) {
+      return res.status(400).json({ error: random.error });
+    }
+
     // Prepare channel configuration
     const config: ChannelConfig = {
       type: channelConfig.type,
       snr: channelConfig.snr,
       crossoverProb: channelConfig.crossoverProb,
       erasureProb: channelConfig.erasureProb,
-      variance: channelConfig.variance
+      variance: channelConfig.variance,
+      ...modulation,
+      codeRate: channelConfig.codeRate,
+      burst
     };
 
     // Transmit through channel
-    const result = ChannelService.transmitThroughChannel(codeword, config);
+    const result = ChannelService.transmitThroughChannel(codeword, config, random);
     
     res.json({
       success: true,
+      seed: random.seed,
       transmitted: result.transmitted,
       received: result.received,
       errors: result.errors,
       errorCount: result.errorCount,
       channelLLR: result.channelLLR,
+      states: result.states,
       channelInfo: ChannelService.getChannelInfo(config.type)
     });
     
@@ -344,7 +494,7 @@ router.post('/channel-transmit', (req, res) => {
 // Channel information endpoint
 router.get('/channels', (_req, res) => {
   try {
-    const channelTypes = ['BSC', 'AWGN', 'AWGN-SOFT', 'Rayleigh', 'BEC'] as const;
+    const channelTypes = ['BSC', 'AWGN', 'AWGN-SOFT', 'Rayleigh', 'BEC', 'Gilbert-Elliott', 'Markov-AWGN'] as const;
     
     const channelInfo = channelTypes.reduce((acc, type) => {
       acc[type] = ChannelService.getChannelInfo(type);
@@ -392,4 +542,138 @@ router.post('/channel-capacity', (req, res) => {
   }
 });
 
+// GF(2^p) arithmetic tables
+router.get('/nonbinary/field/:p', (req, res) => {
+  try {
+    const p = Number(req.params.p);
+    if (!Number.isInteger(p) || p < 1 || p > GaloisFieldService.MAX_EXTENSION_DEGREE) {
+      return res.status(400).json({
+        error: `p must be an integer between 1 and ${GaloisFieldService.MAX_EXTENSION_DEGREE}`
+      });
+    }
+
+    res.json({
+      success: true,
+      p,
+      ...GaloisFieldService.tables(p)
+    });
+  } catch (error) {
+    console.error('GF(q) table error:', error);
+    res.status(500).json({
+      error: 'Error occurred while building GF(q) tables'
+    });
+  }
+});
+
+// Non-binary LDPC encoding; H is given over GF(q) or built from the graph's edge labels
+router.post('/nonbinary/encode', (req, res) => {
+  try {
+    // The seed drives randomizeCoefficients (and random information symbols when encoding)
+    const random = RandomService.resolve(req.body.seed);
+    if ('error' in random) {
+      return res.status(400).json({ error: random.error });
+    }
+    const code = NonBinaryLDPCService.resolveCode(req.body, random);
+    if ('error' in code) {
+      return res.status(400).json({ error: code.error });
+    }
+
+    const encoder = NonBinaryLDPCService.createEncoder(code);
+    const { information } = req.body;
+    let symbols: number[];
+    if (information === undefined) {
+      symbols = Array.from({ length: encoder.k }, () => random.int(code.q));
+    } else if (!Array.isArray(information) || information.length !== encoder.k) {
+      return res.status(400).json({
+        error: `information must be an array of ${encoder.k} GF(${code.q}) symbols`
+      });
+    } else {
+      symbols = information;
+    }
+
+    const codeword = NonBinaryLDPCService.encode(encoder, symbols);
+
+    res.json({
+      success: true,
+      q: code.q,
+      n: code.structure.n,
+      k: encoder.k,
+      H: NonBinaryLDPCService.toDense(code),
+      information: symbols,
+      informationPositions: encoder.informationPositions,
+      codeword,
+      binaryImage: NonBinaryLDPCService.toBinaryImage(codeword, code.p),
+      seed: random.seed
+    });
+  } catch (error) {
+    console.error('Non-binary encoding error:', error);
+    res.status(500).json({
+      error: 'Error occurred during non-binary encoding: ' + (error instanceof Error ? error.message : 'Unknown error')
+    });
+  }
+});
+
+// Non-binary LDPC decoding (FFT-based q-ary sum-product) from binary-image LLRs or hard symbols
+router.post('/nonbinary/decode', (req, res) => {
+  try {
+    // Same seed as the encode request reproduces randomized coefficients
+    const random = RandomService.resolve(req.body.seed);
+    if ('error' in random) {
+      return res.status(400).json({ error: random.error });
+    }
+    const code = NonBinaryLDPCService.resolveCode(req.body, random);
+    if ('error' in code) {
+      return res.status(400).json({ error: code.error });
+    }
+
+    const { llr, received, crossoverProb = 0.05, maxIterations = 50, earlyTermination = true } = req.body;
+    const binaryLength = code.structure.n * code.p;
+
+    let channelLLR: number[];
+    if (Array.isArray(llr)) {
+      if (llr.length !== binaryLength || llr.some((value: any) => typeof value !== 'number' || !Number.isFinite(value))) {
+        return res.status(400).json({
+          error: `llr must contain ${binaryLength} finite values (binary image, ${code.p} bits per symbol)`
+        });
+      }
+      channelLLR = llr;
+    } else if (Array.isArray(received)) {
+      if (received.length !== code.structure.n || received.some((symbol: any) => !Number.isInteger(symbol) || symbol < 0 || symbol >= code.q)) {
+        return res.status(400).json({
+          error: `received must contain ${code.structure.n} GF(${code.q}) symbols`
+        });
+      }
+      if (!(crossoverProb > 0 && crossoverProb < 0.5)) {
+        return res.status(400).json({ error: 'crossoverProb must be in (0, 0.5)' });
+      }
+      // 硬判决符号按二进制像上的 BSC 计算比特 LLR
+      const magnitude = Math.log((1 - crossoverProb) / crossoverProb);
+      channelLLR = NonBinaryLDPCService.toBinaryImage(received, code.p).map(bit => (bit === 0 ? magnitude : -magnitude));
+    } else {
+      return res.status(400).json({
+        error: 'Provide either llr (binary image) or received symbols'
+      });
+    }
+
+    if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > 1000) {
+      return res.status(400).json({ error: 'maxIterations must be an integer between 1 and 1000' });
+    }
+
+    console.log(`🔧 [非二元译码] GF(${code.q}), n=${code.structure.n}, m=${code.structure.m}`);
+    const result = NonBinaryLDPCService.decode(channelLLR, code, { maxIterations, earlyTermination });
+
+    res.json({
+      ...result,
+      q: code.q,
+      algorithm: 'fft-spa',
+      seed: random.seed
+    });
+  } catch (error) {
+    console.error('Non-binary decoding error:', error);
+    res.status(500).json({
+      error: 'Error occurred during non-binary decoding: ' + (error instanceof Error ? error.message : 'Unknown error')
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,5 +1,7 @@
 import express from 'express';
 import { LDPCGraph } from '../types';
+import { LDPCService } from '../services/ldpcService';
+import { ConstructionService } from '../services/constructionService';
 
 const router = express.Router();
 
@@ -89,9 +91,9 @@ router.post('/export', (req, res) => {
           `${node.id},${node.type},${node.position.x},${node.position.y},${node.label}`
         ).join('\n');
       
-      const edgesCsv = 'id,source,target\n' + 
+      const edgesCsv = 'id,source,target,coefficient\n' + 
         graph.edges.map(edge => 
-          `${edge.id},${edge.source},${edge.target}`
+          `${edge.id},${edge.source},${edge.target},${edge.coefficient ?? 1}`
         ).join('\n');
       
       exportData = `# Nodes\n${nodesCsv}\n\n# Edges\n${edgesCsv}`;
@@ -230,6 +232,10 @@ router.post('/auto-connect', (req, res) => {
       });
     }
 
+    if (strategy === 'peg') {
+      return pegConnect(req, res);
+    }
+
     const bitNodes = graph.nodes.filter((n: any) => n.type === 'bit');
     const checkNodes = graph.nodes.filter((n: any) => n.type === 'check');
     
@@ -397,4 +403,45 @@ router.post('/auto-connect', (req, res) => {
   }
 });
 
+// PEG构造：可沿用已有节点，也可根据 bitCount / checkCount 新建节点
+const pegConnect = (req: express.Request, res: express.Response) => {
+  const { graph, degreeDistribution, bitCount, checkCount } = req.body;
+  const { bitNodes, checkNodes } = LDPCService.orderGraphNodes(graph as LDPCGraph);
+
+  const n = bitNodes.length > 0 ? bitNodes.length : parseInt(bitCount);
+  const m = checkNodes.length > 0 ? checkNodes.length : parseInt(checkCount);
+
+  if (!n || !m || n < 1 || m < 1) {
+    return res.status(400).json({
+      error: 'Graph must contain both bit nodes and check nodes'
+    });
+  }
+
+  if (degreeDistribution !== undefined && (typeof degreeDistribution !== 'object' || Array.isArray(degreeDistribution))) {
+    return res.status(400).json({
+      error: 'degreeDistribution must map variable degrees to node fractions'
+    });
+  }
+
+  const result = ConstructionService.progressiveEdgeGrowth(n, m, degreeDistribution);
+  const resultGraph = ConstructionService.buildGraphFromMatrix(result.H, bitNodes, checkNodes);
+  const girths = result.localGirths.filter((g): g is number => g !== null);
+
+  res.json({
+    success: true,
+    graph: resultGraph,
+    strategy: 'peg',
+    statistics: {
+      bitNodes: n,
+      checkNodes: m,
+      connections: resultGraph.edges.length,
+      density: resultGraph.edges.length / (n * m),
+      variableDegrees: result.variableDegrees,
+      checkDegrees: result.checkDegrees,
+      girth: girths.length > 0 ? Math.min(...girths) : null
+    },
+    timestamp: new Date().toISOString()
+  });
+};
+
 export default router;
\ No newline at end of file
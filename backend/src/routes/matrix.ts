@@ -1,5 +1,8 @@
 import express from 'express';
 import { LDPCService } from '../services/ldpcService';
+import { AnalysisService } from '../services/analysisService';
+import { QCLDPCService } from '../services/qcLdpcService';
+import { SparseMatrixService } from '../services/sparseMatrixService';
 import { LDPCGraph } from '../types';
 import { error, log } from 'console';
 
@@ -119,4 +122,250 @@ router.post('/analyze', (req, res) => {
   }
 });
 
+router.post('/girth', (req, res) => {
+  try {
+    const { graph, maxCycleLength = 8, maxCycles = 100 } = req.body;
+    let H: number[][] = req.body.H;
+    let bitNodes: { id: string }[] | null = null;
+    let checkNodes: { id: string }[] | null = null;
+
+    if (graph) {
+      if (!graph.nodes || !graph.edges) {
+        return res.status(400).json({
+          error: '无效的图数据'
+        });
+      }
+      const built = LDPCService.buildParityCheckMatrix(graph as LDPCGraph);
+      H = built.H;
+      bitNodes = built.bitNodes;
+      checkNodes = built.checkNodes;
+    }
+
+    if (!H || !Array.isArray(H) || H.length === 0) {
+      return res.status(400).json({
+        error: '无效的矩阵数据'
+      });
+    }
+
+    const analysis = AnalysisService.analyzeGirth(H, maxCycleLength, maxCycles);
+
+    // 将环上的 (校验, 比特) 索引映射回图中的边ID，便于前端高亮
+    if (graph && bitNodes && checkNodes) {
+      const toEdgeIds = createEdgeIdMapper(graph as LDPCGraph, bitNodes, checkNodes);
+      analysis.shortestCycles.forEach(cycle => {
+        cycle.edgeIds = toEdgeIds(cycle.edges);
+      });
+    }
+
+    res.json({
+      success: true,
+      analysis,
+      bitNodeIds: bitNodes ? bitNodes.map(node => node.id) : undefined,
+      checkNodeIds: checkNodes ? checkNodes.map(node => node.id) : undefined
+    });
+  } catch (error) {
+    console.error('Girth analysis error:', error);
+    res.status(500).json({
+      error: '围长分析过程中发生错误'
+    });
+  }
+});
+
+// 最小距离与重量分布：小码穷举，大码在时间限制内用 Brouwer–Zimmermann 搜索给出上下界
+router.post('/min-distance', (req, res) => {
+  try {
+    const { graph, timeLimitMs = 5000, maxEnumeratorK } = req.body;
+    let H = req.body.H;
+
+    if (graph) {
+      if (!graph.nodes || !graph.edges) {
+        return res.status(400).json({
+          error: '无效的图数据'
+        });
+      }
+      H = LDPCService.buildSparseParityCheck(graph as LDPCGraph).parityCheck;
+    }
+
+    if (!SparseMatrixService.isMatrixInput(H) && !SparseMatrixService.isSparse(H)) {
+      return res.status(400).json({
+        error: '无效的矩阵数据'
+      });
+    }
+
+    if (typeof timeLimitMs !== 'number' || timeLimitMs < 100 || timeLimitMs > 60000) {
+      return res.status(400).json({
+        error: '时间限制必须在 100-60000 毫秒之间'
+      });
+    }
+
+    const analysis = AnalysisService.analyzeMinimumDistance(H, { timeLimitMs, maxEnumeratorK });
+    console.log(`📏 [最小距离] ${analysis.status}: d=${analysis.minDistance} (${analysis.lowerBound}..${analysis.upperBound}), ${analysis.elapsedMs}ms`);
+
+    res.json({
+      success: true,
+      analysis
+    });
+  } catch (error) {
+    console.error('Minimum distance analysis error:', error);
+    res.status(500).json({
+      error: '最小距离分析过程中发生错误'
+    });
+  }
+});
+
+// 停止集搜索：有界分支定界，返回不超过 sizeLimit 的停止集及其在图中的节点/边
+router.post('/stopping-sets', (req, res) => {
+  try {
+    const { graph, sizeLimit = 8, maxSets = 100 } = req.body;
+    const input = resolveDenseInput(graph, req.body.H);
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    if (!Number.isInteger(sizeLimit) || sizeLimit < 1 || sizeLimit > 20) {
+      return res.status(400).json({
+        error: '停止集大小限制必须在 1-20 之间'
+      });
+    }
+    if (!Number.isInteger(maxSets) || maxSets < 1 || maxSets > 1000) {
+      return res.status(400).json({
+        error: '返回数量必须在 1-1000 之间'
+      });
+    }
+
+    const analysis = AnalysisService.analyzeStoppingSets(input.H, sizeLimit, maxSets);
+    console.log(`🛑 [停止集] 限制 ${sizeLimit}: 停止距离 ${analysis.stoppingDistance ?? '-'}, 共 ${analysis.sets.length} 个${analysis.truncated ? '（已截断）' : ''}`);
+
+    if (input.bitNodes && input.checkNodes) {
+      const toEdgeIds = createEdgeIdMapper(graph as LDPCGraph, input.bitNodes, input.checkNodes);
+      analysis.sets.forEach(set => {
+        set.edgeIds = toEdgeIds(set.edges);
+      });
+    }
+
+    res.json({
+      success: true,
+      analysis,
+      bitNodeIds: input.bitNodes ? input.bitNodes.map(node => node.id) : undefined,
+      checkNodeIds: input.checkNodes ? input.checkNodes.map(node => node.id) : undefined
+    });
+  } catch (error) {
+    console.error('Stopping set analysis error:', error);
+    res.status(500).json({
+      error: '停止集分析过程中发生错误'
+    });
+  }
+});
+
+// 基本 (a,b) 陷阱集搜索：a ≤ maxA，b ≤ maxB
+router.post('/trapping-sets', (req, res) => {
+  try {
+    const { graph, maxA = 6, maxB = 2, maxSets = 100 } = req.body;
+    const input = resolveDenseInput(graph, req.body.H);
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    if (!Number.isInteger(maxA) || maxA < 2 || maxA > 12) {
+      return res.status(400).json({
+        error: 'a 的上限必须在 2-12 之间'
+      });
+    }
+    if (!Number.isInteger(maxB) || maxB < 0 || maxB > 6) {
+      return res.status(400).json({
+        error: 'b 的上限必须在 0-6 之间'
+      });
+    }
+    if (!Number.isInteger(maxSets) || maxSets < 1 || maxSets > 1000) {
+      return res.status(400).json({
+        error: '返回数量必须在 1-1000 之间'
+      });
+    }
+
+    const analysis = AnalysisService.analyzeTrappingSets(input.H, maxA, maxB, maxSets);
+    console.log(`🪤 [陷阱集] a≤${maxA}, b≤${maxB}: 共 ${analysis.sets.length} 个${analysis.truncated ? '（已截断）' : ''}`);
+
+    if (input.bitNodes && input.checkNodes) {
+      const toEdgeIds = createEdgeIdMapper(graph as LDPCGraph, input.bitNodes, input.checkNodes);
+      analysis.sets.forEach(set => {
+        set.edgeIds = toEdgeIds(set.edges);
+      });
+    }
+
+    res.json({
+      success: true,
+      analysis,
+      bitNodeIds: input.bitNodes ? input.bitNodes.map(node => node.id) : undefined,
+      checkNodeIds: input.checkNodes ? input.checkNodes.map(node => node.id) : undefined
+    });
+  } catch (error) {
+    console.error('Trapping set analysis error:', error);
+    res.status(500).json({
+      error: '陷阱集分析过程中发生错误'
+    });
+  }
+});
+
+router.post('/qc-expand', (req, res) => {
+  try {
+    const { baseMatrix } = req.body;
+    const Z = parseInt(req.body.Z);
+
+    const errors = QCLDPCService.validateBaseMatrix(baseMatrix, Z);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: '无效的基矩阵数据',
+        errors
+      });
+    }
+
+    const result = QCLDPCService.expand(baseMatrix, Z);
+    console.log(`✅ QC基矩阵展开完成: ${result.m} × ${result.n} (Z=${Z})`);
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('QC expansion error:', error);
+    res.status(500).json({
+      error: 'QC基矩阵展开过程中发生错误'
+    });
+  }
+});
+
+// 从图或直接给出的 H 得到稠密校验矩阵；来自图时同时返回节点顺序
+function resolveDenseInput(graph: any, H: any): {
+  H: number[][];
+  bitNodes: { id: string }[] | null;
+  checkNodes: { id: string }[] | null;
+} | { error: string } {
+  if (graph) {
+    if (!graph.nodes || !graph.edges) {
+      return { error: '无效的图数据' };
+    }
+    return LDPCService.buildParityCheckMatrix(graph as LDPCGraph);
+  }
+  if (!H || !Array.isArray(H) || H.length === 0) {
+    return { error: '无效的矩阵数据' };
+  }
+  return { H, bitNodes: null, checkNodes: null };
+}
+
+// 将 (校验, 比特) 索引对映射回图中的边ID，便于前端高亮
+function createEdgeIdMapper(
+  graph: LDPCGraph,
+  bitNodes: { id: string }[],
+  checkNodes: { id: string }[]
+): (edges: [number, number][]) => string[] {
+  const edgeIdByPair = new Map<string, string>();
+  graph.edges.forEach(edge => {
+    edgeIdByPair.set(`${edge.source}|${edge.target}`, edge.id);
+    edgeIdByPair.set(`${edge.target}|${edge.source}`, edge.id);
+  });
+  return edges => edges
+    .map(([c, v]) => edgeIdByPair.get(`${checkNodes[c].id}|${bitNodes[v].id}`))
+    .filter((id): id is string => !!id);
+}
+
 export default router;
\ No newline at end of file
@@ -1,93 +1,35 @@
 import express from 'express';
-import { DecodingService } from '../services/decodingService';
+import { SparseMatrixService } from '../services/sparseMatrixService';
+import { ChannelService, BurstChannelParameters } from '../services/channelService';
+import { TestService, DecoderSettings, LabeledDecoderSettings, SimulationChannel, ErrorPattern } from '../services/testService';
+import { NonBinaryLDPCService } from '../services/nonBinaryLdpcService';
+import { DecoderRegistry } from '../services/decoders';
+import { RandomGenerator, RandomService } from '../services/randomService';
+import { ModulationService, ModulationSettings } from '../services/modulationService';
 
 const router = express.Router();
 
-function erf(x: number): number {
-  const a1 =  0.254829592;
-  const a2 = -0.284496736;
-  const a3 =  1.421413741;
-  const a4 = -1.453152027;
-  const a5 =  1.061405429;
-  const p  =  0.3275911;
-
-  const sign = x >= 0 ? 1 : -1;
-  x = Math.abs(x);
-
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-
-  return sign * y;
+// 译码参数可以平铺在请求体中（algorithm、maxIterations 等），也可以放在 decodingConfig 对象里，后者优先。
+// 顶层的 seed 是整个仿真的种子，译码器自己的种子只能放在 decodingConfig 中
+function readDecoderSettings(body: any, defaults: DecoderSettings): DecoderSettings | { error: string } {
+  const { seed, ...settings } = body;
+  return TestService.resolveDecoderSettings({ ...settings, ...(body.decodingConfig || {}) }, defaults);
 }
 
-// 使用真实的编码器进行编码
-function encodeInformation(information: number[], G: number[][]): number[] {
-  const n = G[0].length;
-  const k = G.length;
-  
-  if (information.length !== k) {
-    throw new Error(`信息位长度 ${information.length} 与G矩阵行数 ${k} 不匹配`);
-  }
-  
-  const codeword = new Array(n).fill(0);
-  for (let i = 0; i < k; i++) {
-    for (let j = 0; j < n; j++) {
-      codeword[j] ^= information[i] * G[i][j];
-    }
-  }
-  
-  return codeword;
+// 仿真种子：缺省时随机选取，响应的 metadata.seed 回显实际使用的种子，可据此逐帧复现
+function readRandom(body: any): RandomGenerator | { error: string } {
+  return RandomService.resolve(body.seed);
 }
 
-// 生成错误序列
-function generateErrors(codeword: number[], errorRate: number, errorType: 'random' | 'burst', burstLength?: number): { received: number[], errorCount: number } {
-  const received = [...codeword];
-  let errorCount = 0;
-  
-  if (errorType === 'random') {
-    for (let i = 0; i < received.length; i++) {
-      if (Math.random() < errorRate) {
-        received[i] = 1 - received[i];
-        errorCount++;
-      }
-    }
-  } else if (errorType === 'burst' && burstLength) {
-    if (Math.random() < errorRate) {
-      const startPos = Math.floor(Math.random() * (received.length - burstLength + 1));
-      for (let i = startPos; i < Math.min(startPos + burstLength, received.length); i++) {
-        received[i] = 1 - received[i];
-        errorCount++;
-      }
-    }
-  }
-  
-  return { received, errorCount };
-}
+const SIMULATION_CHANNELS: SimulationChannel[] = ['BSC', 'AWGN', 'Rayleigh', 'BEC', 'Gilbert-Elliott', 'Markov-AWGN'];
 
-// 信道模拟
-function simulateChannel(codeword: number[], channelType: string, snr: number): { received: number[], errorCount: number } {
-  const received = [...codeword];
-  let errorCount = 0;
-  let errorProb = 0;
-  
-  if (channelType === 'BSC') {
-    errorProb = 1 / (1 + Math.pow(10, snr / 10));
-  } else if (channelType === 'AWGN') {
-    const variance = 1 / (2 * Math.pow(10, snr / 10));
-    errorProb = 0.5 * (1 - erf(1 / Math.sqrt(2 * variance)));
-  } else if (channelType === 'Rayleigh') {
-    const avgSNR = Math.pow(10, snr / 10);
-    errorProb = 0.5 * (1 - Math.sqrt(avgSNR / (1 + avgSNR)));
-  }
-  
-  for (let i = 0; i < received.length; i++) {
-    if (Math.random() < errorProb) {
-      received[i] = 1 - received[i];
-      errorCount++;
-    }
-  }
-  
-  return { received, errorCount };
+const BURST_CHANNELS: SimulationChannel[] = ['Gilbert-Elliott', 'Markov-AWGN'];
+
+const ERROR_PATTERNS: ErrorPattern[] = ['random', 'burst', 'erasure', 'gilbert-elliott'];
+
+// 突发信道参数：错误率仿真与 channel-comparison 取请求体的 burst，BER/FER 仿真取 channel.burst
+function readBurst(input: any): BurstChannelParameters | { error: string } {
+  return ChannelService.resolveBurst(input);
 }
 
 router.post('/ber-analysis', async (req, res) => {
@@ -98,85 +40,43 @@ router.post('/ber-analysis', async (req, res) => {
       errorRates = [0.01, 0.02, 0.05, 0.1, 0.15, 0.2],
       testsPerPoint = 100,
       errorType = 'random',
-      burstLength,
-      maxIterations = 50,
-      algorithm = 'gallager-a'
+      burstLength
     } = req.body;
 
+    const decoder = readDecoderSettings(req.body, { algorithm: 'gallager-a', maxIterations: 50 });
+    if ('error' in decoder) {
+      return res.status(400).json({ success: false, error: decoder.error });
+    }
+    const random = readRandom(req.body);
+    if ('error' in random) {
+      return res.status(400).json({ success: false, error: random.error });
+    }
+    if (!ERROR_PATTERNS.includes(errorType)) {
+      return res.status(400).json({ success: false, error: `errorType must be one of ${ERROR_PATTERNS.join(', ')}` });
+    }
+    const burst = readBurst(req.body.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ success: false, error: burst.error });
+    }
+    const { algorithm, maxIterations } = decoder;
+
+    const parityCheck = SparseMatrixService.from(H);
+    const codeError = DecoderRegistry.checkCode(algorithm, parityCheck);
+    if (codeError) {
+      return res.status(400).json({ success: false, error: codeError });
+    }
+
     console.log('🔧 [BER分析] 开始BER分析，参数:', {
       errorRates: errorRates.length,
       testsPerPoint,
       errorType,
       algorithm,
-      matrixSize: `${H.length}x${H[0].length}`
+      matrixSize: `${parityCheck.m}x${parityCheck.n}`
     });
 
-    const results = [];
-    let totalTests = 0;
-    let totalErrors = 0;
-    let totalCorrected = 0;
-
-    for (const errorRate of errorRates) {
-      let errorCount = 0;
-      let correctedCount = 0;
-      let totalIterations = 0;
-      let convergenceCount = 0;
-
-      for (let test = 0; test < testsPerPoint; test++) {
-        // 生成随机信息位
-        const informationBits = Array.from({ length: G.length }, () => Math.random() < 0.5 ? 1 : 0);
-        
-        // 使用真实编码器编码
-        const codeword = encodeInformation(informationBits, G);
-
-        // 添加信道错误
-        const { received, errorCount: actualErrors } = generateErrors(codeword, errorRate, errorType, burstLength);
-
-        if (actualErrors > 0) {
-          errorCount++;
-          totalErrors++;
-
-          // 使用真实的解码服务进行解码
-          const decodingResult = DecodingService.decode(received, H, {
-            algorithm: algorithm as any,
-            maxIterations,
-            earlyTermination: true,
-            channelType: 'BSC',
-            crossoverProb: errorRate
-          });
-
-          totalIterations += decodingResult.iterations;
-          if (decodingResult.success) {
-            convergenceCount++;
-            // 检查是否正确解码到原始码字
-            const isCorrect = decodingResult.decoded.every((bit, idx) => bit === codeword[idx]);
-            if (isCorrect) {
-              correctedCount++;
-              totalCorrected++;
-            }
-          }
-        }
-        totalTests++;
-      }
-
-      const ber = errorCount > 0 ? (errorCount - correctedCount) / (testsPerPoint * G[0].length) : 0;
-      const correctionRate = errorCount > 0 ? correctedCount / errorCount : 1;
-      const avgIterations = convergenceCount > 0 ? totalIterations / convergenceCount : 0;
-      const convergenceRate = testsPerPoint > 0 ? convergenceCount / testsPerPoint : 0;
-
-      results.push({
-        errorRate,
-        ber,
-        correctionRate,
-        totalTests: testsPerPoint,
-        totalErrors: errorCount,
-        correctedErrors: correctedCount,
-        avgIterations,
-        convergenceRate
-      });
-
-      console.log(`🔧 [BER分析] 错误率 ${errorRate}: BER=${ber.toFixed(6)}, 纠错率=${correctionRate.toFixed(3)}`);
-    }
+    const results = TestService.runBERAnalysis(parityCheck, G, errorRates, testsPerPoint, errorType, burstLength, decoder, random, burst);
+    const totalTests = results.reduce((sum, r) => sum + r.totalTests, 0);
+    const totalCorrected = results.reduce((sum, r) => sum + r.correctedErrors, 0);
 
     const bestResult = results.reduce((best, current) => 
       current.correctionRate > best.correctionRate ? current : best
@@ -211,7 +111,11 @@ router.post('/ber-analysis', async (req, res) => {
         testsPerPoint,
         errorType,
         burstLength,
+        burst: errorType === 'gilbert-elliott' ? burst : undefined,
         maxIterations,
+        algorithm,
+        decodingConfig: decoder,
+        seed: random.seed,
         timestamp: new Date().toISOString()
       }
     };
@@ -237,85 +141,54 @@ router.post('/algorithm-comparison', async (req, res) => {
       testsPerPoint = 100,
       errorType = 'random',
       burstLength,
-      maxIterations = 50,
       algorithms = ['gallager-a', 'belief-propagation', 'min-sum']
     } = req.body;
 
-    console.log('🔧 [算法比较] 开始算法比较，参数:', {
-      algorithms: algorithms.length,
-      errorRates: errorRates.length,
-      testsPerPoint
-    });
-
-    const results = [];
+    // algorithms 的每一项可以是算法名，也可以是带 label 的完整译码参数；未给出的字段取请求中的公共参数
+    const base = readDecoderSettings(req.body, TestService.DEFAULT_DECODER);
+    if ('error' in base) {
+      return res.status(400).json({ success: false, error: base.error });
+    }
+    const random = readRandom(req.body);
+    if ('error' in random) {
+      return res.status(400).json({ success: false, error: random.error });
+    }
+    if (!ERROR_PATTERNS.includes(errorType)) {
+      return res.status(400).json({ success: false, error: `errorType must be one of ${ERROR_PATTERNS.join(', ')}` });
+    }
+    const burst = readBurst(req.body.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ success: false, error: burst.error });
+    }
+    if (!Array.isArray(algorithms) || algorithms.length === 0) {
+      return res.status(400).json({ success: false, error: 'At least one algorithm is required' });
+    }
 
-    for (const errorRate of errorRates) {
-      const algorithmResults = [];
-
-      for (const algorithm of algorithms) {
-        let errorCount = 0;
-        let correctedCount = 0;
-        let totalIterations = 0;
-        let convergenceCount = 0;
-
-        for (let test = 0; test < testsPerPoint; test++) {
-          // 生成随机信息位
-          const informationBits = Array.from({ length: G.length }, () => Math.random() < 0.5 ? 1 : 0);
-          
-          // 使用真实编码器编码
-          const codeword = encodeInformation(informationBits, G);
-
-          // 添加信道错误
-          const { received, errorCount: actualErrors } = generateErrors(codeword, errorRate, errorType, burstLength);
-
-          if (actualErrors > 0) {
-            errorCount++;
-
-            // 使用真实的解码服务进行解码
-            const decodingResult = DecodingService.decode(received, H, {
-              algorithm: algorithm as any,
-              maxIterations,
-              earlyTermination: true,
-              channelType: 'BSC',
-              crossoverProb: errorRate
-            });
-
-            totalIterations += decodingResult.iterations;
-            if (decodingResult.success) {
-              convergenceCount++;
-              // 检查是否正确解码到原始码字
-              const isCorrect = decodingResult.decoded.every((bit, idx) => bit === codeword[idx]);
-              if (isCorrect) {
-                correctedCount++;
-              }
-            }
-          }
-        }
+    const decoders: LabeledDecoderSettings[] = [];
+    for (const entry of algorithms) {
+      const settings = TestService.resolveDecoderSettings(typeof entry === 'string' ? { algorithm: entry } : entry, base);
+      if ('error' in settings) {
+        return res.status(400).json({ success: false, error: settings.error });
+      }
+      decoders.push({ ...settings, label: typeof entry === 'object' && entry?.label ? String(entry.label) : undefined });
+    }
+    const names = decoders.map(decoder => decoder.label || decoder.algorithm);
 
-        const ber = errorCount > 0 ? (errorCount - correctedCount) / (testsPerPoint * G[0].length) : 0;
-        const correctionRate = errorCount > 0 ? correctedCount / errorCount : 1;
-        const avgIterations = convergenceCount > 0 ? totalIterations / convergenceCount : 0;
-        const convergenceRate = testsPerPoint > 0 ? convergenceCount / testsPerPoint : 0;
-
-        algorithmResults.push({
-          name: algorithm,
-          ber,
-          correctionRate,
-          totalTests: testsPerPoint,
-          totalErrors: errorCount,
-          correctedErrors: correctedCount,
-          avgIterations,
-          convergenceRate
-        });
+    const parityCheck = SparseMatrixService.from(H);
+    for (const decoder of decoders) {
+      const codeError = DecoderRegistry.checkCode(decoder.algorithm, parityCheck);
+      if (codeError) {
+        return res.status(400).json({ success: false, error: codeError });
       }
+    }
 
-      results.push({
-        errorRate,
-        algorithms: algorithmResults
-      });
+    console.log('🔧 [算法比较] 开始算法比较，参数:', {
+      algorithms: names,
+      errorRates: errorRates.length,
+      testsPerPoint
+    });
 
-      console.log(`🔧 [算法比较] 错误率 ${errorRate} 完成`);
-    }
+    const results = TestService.runAlgorithmComparison(parityCheck, G, errorRates, testsPerPoint, errorType, burstLength, decoders, random, burst);
 
     const response = {
       success: true,
@@ -325,8 +198,11 @@ router.post('/algorithm-comparison', async (req, res) => {
         testsPerPoint,
         errorType,
         burstLength,
-        maxIterations,
-        algorithms,
+        burst: errorType === 'gilbert-elliott' ? burst : undefined,
+        maxIterations: base.maxIterations,
+        algorithms: names,
+        decoders,
+        seed: random.seed,
         timestamp: new Date().toISOString()
       }
     };
@@ -350,16 +226,53 @@ router.post('/ber-fer-analysis', async (req, res) => {
       G,
       snrRange,
       simulation,
-      channel,
-      algorithm = 'belief-propagation'
+      channel
     } = req.body;
 
+    const decoder = readDecoderSettings(req.body, TestService.DEFAULT_DECODER);
+    if ('error' in decoder) {
+      return res.status(400).json({ success: false, error: decoder.error });
+    }
+    const random = readRandom(req.body);
+    if ('error' in random) {
+      return res.status(400).json({ success: false, error: random.error });
+    }
+    const { algorithm } = decoder;
+
+    if (!channel || !SIMULATION_CHANNELS.includes(channel.type)) {
+      return res.status(400).json({ success: false, error: `Unsupported channel: ${channel?.type}` });
+    }
+    // channel.modulation / demapper / snrType；Eb/N0 按码率 k/n 换算为 Es/N0
+    const modulationSettings = ModulationService.resolve(channel);
+    if ('error' in modulationSettings) {
+      return res.status(400).json({ success: false, error: modulationSettings.error });
+    }
+    const burst = readBurst(channel.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ success: false, error: burst.error });
+    }
+    if (channel.type === 'Markov-AWGN' && modulationSettings.modulation !== 'BPSK') {
+      return res.status(400).json({ success: false, error: 'Markov-AWGN supports BPSK only' });
+    }
+
+    const parityCheck = SparseMatrixService.from(H);
+    const modulation: ModulationSettings = { ...modulationSettings, codeRate: G.length / parityCheck.n };
+    // mlBound：同一批帧再做一次 ML 译码，作为迭代译码器的性能下界（仅适用于小码）
+    const mlReference: DecoderSettings | null = req.body.mlBound === true ? { algorithm: 'ml', maxIterations: 1 } : null;
+    for (const settings of mlReference ? [decoder, mlReference] : [decoder]) {
+      const codeError = DecoderRegistry.checkCode(settings.algorithm, parityCheck);
+      if (codeError) {
+        return res.status(400).json({ success: false, error: codeError });
+      }
+    }
+    const encode = TestService.createEncoder(parityCheck, G);
+
     console.log('🔧 [BER/FER分析] 开始BER/FER曲线分析，参数:', {
       snrRange,
       framesPerPoint: simulation.framesPerPoint,
       channelType: channel.type,
       algorithm,
-      matrixSize: `${H.length}x${H[0].length}`
+      matrixSize: `${parityCheck.m}x${parityCheck.n}`
     });
 
     const startTime = Date.now();
@@ -382,20 +295,29 @@ router.post('/ber-fer-analysis', async (req, res) => {
       let bitErrors = 0;    // 总位错误数
       let totalIterations = 0;
       let convergenceCount = 0;
+      // 定点译码时在同一批帧上同时跑浮点参考：同一归一化 min-sum / 分层更新，只是不舍入、不饱和，差异只来自量化
+      const floatReference = decoder.quantization
+        ? { ...decoder, quantization: { ...decoder.quantization, floatingPoint: true } }
+        : null;
+      let floatBitErrors = 0;
+      let floatErrorFrames = 0;
+      let floatIterations = 0;
+      let mlBitErrors = 0;
+      let mlErrorFrames = 0;
       
-      // 计算理论未编码BER (对于AWGN信道)
-      let uncodedBER = 0;
-      if (channel.type === 'AWGN') {
-        const snrLinear = Math.pow(10, snr / 10);
-        const sigma = Math.sqrt(1 / (2 * snrLinear)); // 噪声标准差
-        uncodedBER = 0.5 * (1 - erf(1 / (sigma * Math.sqrt(2))));
-      } else if (channel.type === 'BSC') {
-        // 对于BSC，crossover probability直接是BER
-        uncodedBER = Math.max(0.5 * Math.exp(-snr), 0.001);
-      } else {
-        // Rayleigh信道的理论BER
-        const snrLinear = Math.pow(10, snr / 10);
-        uncodedBER = 0.5 * (1 - Math.sqrt(snrLinear / (1 + snrLinear)));
+      const channelConfig = TestService.channelAtSNR(channel.type, snr, modulation, burst);
+
+      // 计算理论未编码BER：未编码系统码率为 1，Eb/N0 只按每符号比特数换算。
+      // BSC 的交叉概率与 BEC 的擦除概率（未恢复的擦除按错误计数）都是同一调制在 AWGN 下的硬判决误码率
+      // 突发信道按平稳分布对好、坏两个状态的误码率加权
+      const uncodedSNR = ChannelService.symbolSNR({ type: 'AWGN', snr, ...modulation, codeRate: 1 });
+      const uncodedRate = (esN0: number) => ChannelService.calculateTheoreticalBER(
+        esN0, channel.type === 'Rayleigh' ? 'Rayleigh' : 'AWGN', modulation.modulation
+      );
+      let uncodedBER = uncodedRate(uncodedSNR);
+      if (channel.type === 'Gilbert-Elliott' || channel.type === 'Markov-AWGN') {
+        const badProbability = ChannelService.badStateProbability(burst);
+        uncodedBER = (1 - badProbability) * uncodedBER + badProbability * uncodedRate(uncodedSNR - burst.badStatePenalty);
       }
 
       let codewordLength = G[0].length; // Store codeword length outside loop
@@ -419,25 +341,19 @@ router.post('/ber-fer-analysis', async (req, res) => {
       while (frameCount < adaptiveMaxFrames && 
              (errorFrames < minErrorFrames || frameCount < minFrames)) {
         // Generate random information bits
-        const informationBits = Array.from({ length: G.length }, () => Math.random() < 0.5 ? 1 : 0);
+        const informationBits = TestService.generateRandomBits(G.length, random);
         
         // Encode using real encoder
-        const codeword = encodeInformation(informationBits, G);
+        const codeword = encode(informationBits);
 
         // Add channel noise based on SNR and channel type
-        const { received, errorCount: channelErrors } = simulateChannel(codeword, channel.type, snr);
+        const { llr } = TestService.transmit(codeword, channelConfig, random);
 
         frameCount++;
         totalFrames++;
 
         // Always decode, even if no channel errors (for complete simulation)
-        const decodingResult = DecodingService.decode(received, H, {
-          algorithm: algorithm as any,
-          maxIterations: 50,
-          earlyTermination: true,
-          channelType: channel.type === 'BSC' ? 'BSC' : 'AWGN',
-          snr: snr
-        });
+        const decodingResult = TestService.decodeFrame(llr, parityCheck, decoder, channelConfig, random);
 
         totalIterations += decodingResult.iterations;
         
@@ -455,6 +371,23 @@ router.post('/ber-fer-analysis', async (req, res) => {
         if (frameHasAnyError) {
           errorFrames++;  // 帧错误计数：只要这一帧有任何位错误
         }
+
+        if (floatReference) {
+          const floatResult = TestService.decodeFrame(llr, parityCheck, floatReference, channelConfig);
+          const floatErrors = floatResult.decoded.reduce((count, bit, idx) =>
+            count + (bit !== codeword[idx] ? 1 : 0), 0);
+          floatBitErrors += floatErrors;
+          floatErrorFrames += floatErrors > 0 ? 1 : 0;
+          floatIterations += floatResult.iterations;
+        }
+
+        if (mlReference) {
+          const mlResult = TestService.decodeFrame(llr, parityCheck, mlReference, channelConfig);
+          const mlErrors = mlResult.decoded.reduce((count, bit, idx) =>
+            count + (bit !== codeword[idx] ? 1 : 0), 0);
+          mlBitErrors += mlErrors;
+          mlErrorFrames += mlErrors > 0 ? 1 : 0;
+        }
       }
 
       const ber = frameCount > 0 ? bitErrors / (frameCount * codewordLength) : 0;
@@ -469,7 +402,16 @@ router.post('/ber-fer-analysis', async (req, res) => {
         avgIterations: Number(avgIterations.toFixed(2)),
         totalFrames: frameCount,
         errorFrames,
-        bitErrors
+        bitErrors,
+        floatingPoint: floatReference && frameCount > 0 ? {
+          ber: Math.max(floatBitErrors / (frameCount * codewordLength), 1e-8),
+          fer: Math.max(floatErrorFrames / frameCount, 1e-8),
+          avgIterations: Number((floatIterations / frameCount).toFixed(2))
+        } : undefined,
+        mlBound: mlReference && frameCount > 0 ? {
+          ber: Math.max(mlBitErrors / (frameCount * codewordLength), 1e-8),
+          fer: Math.max(mlErrorFrames / frameCount, 1e-8)
+        } : undefined
       });
 
       // 调试日志验证计算正确性
@@ -500,9 +442,9 @@ router.post('/ber-fer-analysis', async (req, res) => {
       results: {
         snrPoints: results,
         codeParameters: {
-          n: H[0].length,
+          n: parityCheck.n,
           k: G.length,
-          rate: G.length / H[0].length
+          rate: G.length / parityCheck.n
         },
         performance: {
           waterfallRegion,
@@ -513,9 +455,15 @@ router.post('/ber-fer-analysis', async (req, res) => {
         simulationTime,
         totalFrames,
         algorithm,
+        decodingConfig: decoder,
         channelType: channel.type,
+        modulation: modulationSettings.modulation,
+        demapper: modulationSettings.demapper,
+        snrType: modulationSettings.snrType,
+        burst: BURST_CHANNELS.includes(channel.type) ? burst : undefined,
         snrRange,
         framesPerPoint: simulation.framesPerPoint,
+        seed: random.seed,
         timestamp: new Date().toISOString()
       }
     });
@@ -531,6 +479,145 @@ router.post('/ber-fer-analysis', async (req, res) => {
   }
 });
 
+// 非二元码的 BER/FER 曲线：二进制像按比特经过与二元仿真相同的信道，便于与二元码在相同 SNR 下比较
+router.post('/nonbinary-ber-fer', async (req, res) => {
+  try {
+    const { snrRange, simulation = {}, channel, maxIterations = 50 } = req.body;
+
+    const random = readRandom(req.body);
+    if ('error' in random) {
+      return res.status(400).json({ success: false, error: random.error });
+    }
+    const code = NonBinaryLDPCService.resolveCode(req.body, random);
+    if ('error' in code) {
+      return res.status(400).json({ success: false, error: code.error });
+    }
+    if (!channel || !SIMULATION_CHANNELS.includes(channel.type)) {
+      return res.status(400).json({ success: false, error: `Unsupported channel: ${channel?.type}` });
+    }
+    if (!snrRange || !(snrRange.steps >= 2)) {
+      return res.status(400).json({ success: false, error: 'snrRange must contain min, max and at least 2 steps' });
+    }
+    if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > 1000) {
+      return res.status(400).json({ success: false, error: 'maxIterations must be an integer between 1 and 1000' });
+    }
+
+    const modulationSettings = ModulationService.resolve(channel);
+    if ('error' in modulationSettings) {
+      return res.status(400).json({ success: false, error: modulationSettings.error });
+    }
+    const burst = readBurst(channel.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ success: false, error: burst.error });
+    }
+    if (channel.type === 'Markov-AWGN' && modulationSettings.modulation !== 'BPSK') {
+      return res.status(400).json({ success: false, error: 'Markov-AWGN supports BPSK only' });
+    }
+
+    const encoder = NonBinaryLDPCService.createEncoder(code);
+    if (encoder.k === 0) {
+      return res.status(400).json({ success: false, error: 'The non-binary code has dimension 0' });
+    }
+    const modulation: ModulationSettings = { ...modulationSettings, codeRate: encoder.k / code.structure.n };
+    const framesPerPoint = simulation.framesPerPoint ?? 1000;
+    const maxErrors = simulation.maxErrors ?? 100;
+    const binaryLength = code.structure.n * code.p;
+
+    console.log('🔧 [非二元BER/FER] 开始仿真，参数:', {
+      q: code.q,
+      matrixSize: `${code.structure.m}x${code.structure.n}`,
+      channelType: channel.type,
+      framesPerPoint
+    });
+
+    const startTime = Date.now();
+    const results = [];
+    let totalFrames = 0;
+    const { min, max, steps } = snrRange;
+
+    for (let s = 0; s < steps; s++) {
+      const snr = min + (s / (steps - 1)) * (max - min);
+      const channelConfig = TestService.channelAtSNR(channel.type, snr, modulation, burst);
+
+      let frameCount = 0;
+      let errorFrames = 0;
+      let bitErrors = 0;
+      let symbolErrors = 0;
+      let totalIterations = 0;
+
+      while (frameCount < framesPerPoint && errorFrames < maxErrors) {
+        const information = Array.from({ length: encoder.k }, () => random.int(code.q));
+        const codeword = NonBinaryLDPCService.encode(encoder, information);
+        const bits = NonBinaryLDPCService.toBinaryImage(codeword, code.p);
+        const { llr } = TestService.transmit(bits, channelConfig, random);
+
+        const result = NonBinaryLDPCService.decode(llr, code, { maxIterations });
+        frameCount++;
+        totalFrames++;
+        totalIterations += result.iterations;
+
+        const frameBitErrors = result.decodedBits.reduce((count, bit, idx) => count + (bit !== bits[idx] ? 1 : 0), 0);
+        bitErrors += frameBitErrors;
+        symbolErrors += result.decoded.reduce((count, symbol, idx) => count + (symbol !== codeword[idx] ? 1 : 0), 0);
+        if (frameBitErrors > 0) errorFrames++;
+      }
+
+      results.push({
+        snr: Number(snr.toFixed(2)),
+        ber: Math.max(bitErrors / (frameCount * binaryLength), 1e-8),
+        fer: Math.max(errorFrames / frameCount, 1e-8),
+        ser: Math.max(symbolErrors / (frameCount * code.structure.n), 1e-8),
+        avgIterations: Number((totalIterations / frameCount).toFixed(2)),
+        totalFrames: frameCount,
+        errorFrames,
+        bitErrors
+      });
+
+      console.log(`✅ [非二元BER/FER] SNR ${snr.toFixed(1)}dB: frames=${frameCount}, errorFrames=${errorFrames}, bitErrors=${bitErrors}`);
+    }
+
+    const simulationTime = (Date.now() - startTime) / 1000;
+
+    res.json({
+      success: true,
+      results: {
+        snrPoints: results,
+        codeParameters: {
+          q: code.q,
+          n: code.structure.n,
+          k: encoder.k,
+          binaryLength,
+          rate: encoder.k / code.structure.n
+        },
+        H: NonBinaryLDPCService.toDense(code)
+      },
+      metadata: {
+        simulationTime,
+        totalFrames,
+        algorithm: 'fft-spa',
+        maxIterations,
+        channelType: channel.type,
+        modulation: modulationSettings.modulation,
+        demapper: modulationSettings.demapper,
+        snrType: modulationSettings.snrType,
+        burst: BURST_CHANNELS.includes(channel.type) ? burst : undefined,
+        snrRange,
+        framesPerPoint,
+        seed: random.seed,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    console.log(`✅ [非二元BER/FER] 完成，总耗时: ${simulationTime.toFixed(2)}秒`);
+  } catch (error) {
+    console.error('❌ [非二元BER/FER] 错误:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Non-binary BER/FER analysis failed: ' + (error instanceof Error ? error.message : 'Unknown error')
+    });
+  }
+});
+
 router.post('/channel-comparison', async (req, res) => {
   try {
     const {
@@ -540,153 +627,51 @@ router.post('/channel-comparison', async (req, res) => {
       testsPerPoint = 100,
       errorType = 'random',
       burstLength,
-      maxIterations = 50,
-      algorithm = 'belief-propagation',
       channels = ['BSC', 'AWGN', 'Rayleigh']
     } = req.body;
 
+    const decoder = readDecoderSettings(req.body, TestService.DEFAULT_DECODER);
+    if ('error' in decoder) {
+      return res.status(400).json({ success: false, error: decoder.error });
+    }
+    const random = readRandom(req.body);
+    if ('error' in random) {
+      return res.status(400).json({ success: false, error: random.error });
+    }
+    const burst = readBurst(req.body.burst);
+    if ('error' in burst) {
+      return res.status(400).json({ success: false, error: burst.error });
+    }
+    const { algorithm, maxIterations } = decoder;
+
+    const unsupported = (channels as string[]).find(channelType => !SIMULATION_CHANNELS.includes(channelType as SimulationChannel));
+    if (unsupported) {
+      return res.status(400).json({ success: false, error: `Unsupported channel: ${unsupported}` });
+    }
+    // 顶层的 modulation / demapper / snrType 对所有信道生效，与 ber-fer-analysis 的 channel 对象相同
+    const modulationSettings = ModulationService.resolve(req.body);
+    if ('error' in modulationSettings) {
+      return res.status(400).json({ success: false, error: modulationSettings.error });
+    }
+    if ((channels as string[]).includes('Markov-AWGN') && modulationSettings.modulation !== 'BPSK') {
+      return res.status(400).json({ success: false, error: 'Markov-AWGN supports BPSK only' });
+    }
+
+    const parityCheck = SparseMatrixService.from(H);
+    const codeError = DecoderRegistry.checkCode(algorithm, parityCheck);
+    if (codeError) {
+      return res.status(400).json({ success: false, error: codeError });
+    }
+
     console.log('🔧 [信道比较] 开始信道比较，参数:', {
       channels: channels.length,
       snrRange: snrRange.length,
       testsPerPoint
     });
 
-    const results = [];
-
-    for (const snr of snrRange) {
-      const channelResults = [];
-
-      for (const channelType of channels) {
-        let errorCount = 0;
-        let correctedCount = 0;
-        let totalIterations = 0;
-        let convergenceCount = 0;
-
-        for (let test = 0; test < testsPerPoint; test++) {
-          const informationBits = Array.from({ length: G.length }, () => Math.random() < 0.5 ? 1 : 0);
-          
-          let codeword = new Array(G[0].length).fill(0);
-          for (let i = 0; i < G.length; i++) {
-            for (let j = 0; j < G[0].length; j++) {
-              codeword[j] ^= informationBits[i] * G[i][j];
-            }
-          }
-
-          let received = [...codeword];
-          let actualErrors = 0;
-          
-          let errorProb;
-          if (channelType === 'BSC') {
-            errorProb = 1 / (1 + Math.pow(10, snr / 10));
-          } else if (channelType === 'AWGN') {
-            const variance = 1 / (2 * Math.pow(10, snr / 10));
-            errorProb = 0.5 * (1 - erf(1 / Math.sqrt(2 * variance)));
-          } else if (channelType === 'Rayleigh') {
-            const avgSNR = Math.pow(10, snr / 10);
-            errorProb = 0.5 * (1 - Math.sqrt(avgSNR / (1 + avgSNR)));
-          }
-
-          for (let i = 0; i < received.length; i++) {
-            if (Math.random() < errorProb) {
-              received[i] = 1 - received[i];
-              actualErrors++;
-            }
-          }
-
-          if (actualErrors > 0) {
-            errorCount++;
-
-            let syndrome = new Array(H.length).fill(0);
-            for (let i = 0; i < H.length; i++) {
-              for (let j = 0; j < H[0].length; j++) {
-                syndrome[i] ^= H[i][j] * received[j];
-              }
-            }
-
-            let decoded = [...received];
-            let iterations = 0;
-            let converged = false;
-
-            if (syndrome.some(s => s !== 0)) {
-              for (iterations = 1; iterations <= maxIterations; iterations++) {
-                let changed = false;
-                
-                for (let bitPos = 0; bitPos < decoded.length; bitPos++) {
-                  let checkCount = 0;
-                  let failedChecks = 0;
-                  
-                  for (let checkPos = 0; checkPos < H.length; checkPos++) {
-                    if (H[checkPos][bitPos] === 1) {
-                      checkCount++;
-                      let parity = 0;
-                      for (let j = 0; j < H[0].length; j++) {
-                        parity ^= H[checkPos][j] * decoded[j];
-                      }
-                      if (parity !== 0) {
-                        failedChecks++;
-                      }
-                    }
-                  }
-                  
-                  if (failedChecks > checkCount / 2) {
-                    decoded[bitPos] = 1 - decoded[bitPos];
-                    changed = true;
-                  }
-                }
-
-                syndrome = new Array(H.length).fill(0);
-                for (let i = 0; i < H.length; i++) {
-                  for (let j = 0; j < H[0].length; j++) {
-                    syndrome[i] ^= H[i][j] * decoded[j];
-                  }
-                }
-
-                if (syndrome.every(s => s === 0)) {
-                  converged = true;
-                  break;
-                }
-
-                if (!changed) break;
-              }
-            } else {
-              converged = true;
-            }
-
-            totalIterations += iterations;
-            if (converged) {
-              convergenceCount++;
-              const isCorrect = decoded.every((bit, idx) => bit === codeword[idx]);
-              if (isCorrect) {
-                correctedCount++;
-              }
-            }
-          }
-        }
-
-        const ber = errorCount > 0 ? (errorCount - correctedCount) / (testsPerPoint * G[0].length) : 0;
-        const correctionRate = errorCount > 0 ? correctedCount / errorCount : 1;
-        const avgIterations = convergenceCount > 0 ? totalIterations / convergenceCount : 0;
-        const convergenceRate = testsPerPoint > 0 ? convergenceCount / testsPerPoint : 0;
-
-        channelResults.push({
-          name: channelType,
-          ber,
-          correctionRate,
-          totalTests: testsPerPoint,
-          totalErrors: errorCount,
-          correctedErrors: correctedCount,
-          avgIterations,
-          convergenceRate
-        });
-      }
-
-      results.push({
-        snr,
-        channels: channelResults
-      });
-
-      console.log(`🔧 [信道比较] SNR ${snr}dB 完成`);
-    }
+    const results = TestService.runChannelComparison(
+      parityCheck, G, snrRange, testsPerPoint, errorType, burstLength, decoder, channels, random, modulationSettings, burst
+    );
 
     const response = {
       success: true,
@@ -698,7 +683,13 @@ router.post('/channel-comparison', async (req, res) => {
         burstLength,
         maxIterations,
         algorithm,
+        decodingConfig: decoder,
         channels,
+        modulation: modulationSettings.modulation,
+        demapper: modulationSettings.demapper,
+        snrType: modulationSettings.snrType,
+        burst: (channels as string[]).some(channelType => BURST_CHANNELS.includes(channelType as SimulationChannel)) ? burst : undefined,
+        seed: random.seed,
         timestamp: new Date().toISOString()
       }
     };
@@ -0,0 +1,252 @@
+import { ALTEncoder, SparseParityCheck } from '../types';
+import { SparseMatrixService, ParityCheckInput } from './sparseMatrixService';
+import { GF2MatrixService } from './gf2MatrixService';
+
+// Richardson–Urbanke 编码：一次性把H整理为近似下三角形式
+//   H = [A B T]   (m-g 行)
+//       [C D E]   (g 行)
+// 码字 x = (s, p1, p2)，p1 = φ⁻¹·(E·T⁻¹·A + C)·s，p2 = T⁻¹·(A·s + B·p1)，φ = D + E·T⁻¹·B。
+// 每帧只需两次沿 T 的前向代入和一次 g×g 乘法，复杂度 O(E + g²)
+export class ALTEncoderService {
+  static readonly RECENT_LIMIT = 8; // 按结构缓存的预处理结果个数
+
+  // 仿真对同一个H对象编码成千上万帧；/encode 每次请求都从图重建H，再按连接结构复用最近的预处理结果
+  private static encoders = new WeakMap<SparseParityCheck, ALTEncoder>();
+  private static recent = new Map<string, ALTEncoder>();
+
+  // 取缓存的预处理结果，没有时预处理并缓存；φ 奇异等无法预处理的情况照常抛出
+  static encoderFor(H: ParityCheckInput): ALTEncoder {
+    const S = SparseMatrixService.from(H);
+    const cached = this.encoders.get(S);
+    if (cached) return cached;
+
+    const key = `${S.m}x${S.n}:${S.rowPtr.join(',')}:${S.colIdx.join(',')}`;
+    const encoder = this.recent.get(key) ?? this.preprocess(S);
+    // Map 按插入顺序迭代：重新插入即标记为最近使用，超出上限时淘汰最久未用的
+    this.recent.delete(key);
+    this.recent.set(key, encoder);
+    if (this.recent.size > this.RECENT_LIMIT) {
+      this.recent.delete(this.recent.keys().next().value as string);
+    }
+    this.encoders.set(S, encoder);
+    return encoder;
+  }
+
+  static preprocess(H: ParityCheckInput): ALTEncoder {
+    const S = SparseMatrixService.from(H);
+    const { m, n, rowPtr, colIdx, colPtr, rowIdx } = S;
+
+    // 1. 选择校验列：列倒序做消元，优先让靠后的列成为主元，使满秩的 [u | p] 结构保持信息位在前
+    const reversed = GF2MatrixService.create(m, n);
+    for (let i = 0; i < m; i++) {
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        GF2MatrixService.setBit(reversed.data[i], n - 1 - colIdx[e], 1);
+      }
+    }
+    const { pivotColumns, rank } = GF2MatrixService.rref(reversed);
+    if (rank === 0) {
+      throw new Error('Parity check matrix has no non-zero rows');
+    }
+
+    const isParity = new Uint8Array(n);
+    pivotColumns.forEach(col => { isParity[n - 1 - col] = 1; });
+    const informationColumns: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (!isParity[j]) informationColumns.push(j);
+    }
+
+    // 2. 贪心三角化：只剩一个未知校验列的行进入 T；卡住时选一列作为间隙列 p1
+    const unknownCount = new Int32Array(m);
+    for (let i = 0; i < m; i++) {
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        if (isParity[colIdx[e]]) unknownCount[i]++;
+      }
+    }
+
+    const known = new Uint8Array(n);
+    const usedRow = new Uint8Array(m);
+    const ready: number[] = [];
+    for (let i = 0; i < m; i++) {
+      if (unknownCount[i] === 1) ready.push(i);
+    }
+
+    const triangularRows: number[] = [];
+    const triangularColumns: number[] = [];
+    const gapColumns: number[] = [];
+    let remaining = rank;
+
+    const resolve = (col: number) => {
+      known[col] = 1;
+      remaining--;
+      for (let p = colPtr[col]; p < colPtr[col + 1]; p++) {
+        const row = rowIdx[p];
+        if (--unknownCount[row] === 1 && !usedRow[row]) ready.push(row);
+      }
+    };
+
+    while (remaining > 0) {
+      while (ready.length > 0) {
+        const row = ready.pop()!;
+        if (usedRow[row] || unknownCount[row] !== 1) continue;
+
+        let col = -1;
+        for (let e = rowPtr[row]; e < rowPtr[row + 1]; e++) {
+          if (isParity[colIdx[e]] && !known[colIdx[e]]) {
+            col = colIdx[e];
+            break;
+          }
+        }
+        usedRow[row] = 1;
+        triangularRows.push(row);
+        triangularColumns.push(col);
+        resolve(col);
+      }
+      if (remaining === 0) break;
+
+      const gapColumn = this.selectGapColumn(S, isParity, known, usedRow, unknownCount);
+      gapColumns.push(gapColumn);
+      resolve(gapColumn);
+    }
+
+    const g = gapColumns.length;
+    const leftoverRows: number[] = [];
+    for (let i = 0; i < m; i++) {
+      if (!usedRow[i]) leftoverRows.push(i);
+    }
+
+    const encoder: ALTEncoder = {
+      n,
+      m,
+      k: n - rank,
+      gap: g,
+      informationColumns,
+      gapColumns,
+      triangularRows,
+      triangularColumns,
+      gapRows: [],
+      phiInverse: GF2MatrixService.create(0, 0),
+      parityCheck: S
+    };
+
+    if (g > 0) {
+      // 3. φ 的第 q 列 = 仅令 p1 的第 q 位为1时，经 T 前向代入后剩余行的校验结果
+      const phiT = GF2MatrixService.create(g, leftoverRows.length);
+      const x = new Uint8Array(n);
+      gapColumns.forEach((gapColumn, q) => {
+        x.fill(0);
+        x[gapColumn] = 1;
+        this.forwardSubstitute(encoder, x);
+        leftoverRows.forEach((row, a) => {
+          if (this.rowParity(S, row, x)) GF2MatrixService.setBit(phiT.data[q], a, 1);
+        });
+      });
+
+      // H 不满秩时剩余行多于 g，只保留线性无关的 g 行
+      const selected = GF2MatrixService.rref(phiT).pivotColumns;
+      if (selected.length < g) {
+        throw new Error(`Gap matrix φ is singular for this column order (rank ${selected.length} < gap ${g})`);
+      }
+
+      const phi = GF2MatrixService.create(g, g);
+      selected.forEach((a, i) => {
+        for (let q = 0; q < g; q++) {
+          if (GF2MatrixService.getBit(phiT.data[q], a)) GF2MatrixService.setBit(phi.data[i], q, 1);
+        }
+      });
+
+      const phiInverse = GF2MatrixService.inverse(phi);
+      if (!phiInverse) {
+        throw new Error('Gap matrix φ is singular for this column order');
+      }
+      encoder.gapRows = selected.map(a => leftoverRows[a]);
+      encoder.phiInverse = phiInverse;
+    }
+
+    console.log(`🔧 [ALT编码] 预处理完成: n=${n}, m=${m}, k=${encoder.k}, T=${triangularRows.length}, g=${g}`);
+    return encoder;
+  }
+
+  // information 按 informationColumns 的顺序放入码字，返回原始列顺序下的码字
+  static encode(encoder: ALTEncoder, information: number[]): number[] {
+    if (information.length !== encoder.k) {
+      throw new Error(`Expected ${encoder.k} information bits, but got ${information.length}`);
+    }
+
+    const x = new Uint8Array(encoder.n);
+    encoder.informationColumns.forEach((col, i) => {
+      x[col] = information[i] & 1;
+    });
+
+    // 先令 p1 = 0 代入，剩余行的校验结果即 (E·T⁻¹·A + C)·s
+    this.forwardSubstitute(encoder, x);
+
+    if (encoder.gap > 0) {
+      const residual = new Uint32Array((encoder.gap + 31) >>> 5);
+      encoder.gapRows.forEach((row, i) => {
+        if (this.rowParity(encoder.parityCheck, row, x)) GF2MatrixService.setBit(residual, i, 1);
+      });
+
+      encoder.gapColumns.forEach((col, q) => {
+        x[col] = GF2MatrixService.dot(encoder.phiInverse.data[q], residual);
+      });
+      this.forwardSubstitute(encoder, x);
+    }
+
+    return Array.from(x);
+  }
+
+  // 按 T 的对角线顺序逐个求 p2：该行其余位均已知
+  private static forwardSubstitute(encoder: ALTEncoder, x: Uint8Array): void {
+    const { triangularRows, triangularColumns, parityCheck } = encoder;
+    for (let t = 0; t < triangularRows.length; t++) {
+      const col = triangularColumns[t];
+      x[col] = 0;
+      x[col] = this.rowParity(parityCheck, triangularRows[t], x);
+    }
+  }
+
+  private static rowParity(S: SparseParityCheck, row: number, x: Uint8Array): number {
+    let parity = 0;
+    for (let e = S.rowPtr[row]; e < S.rowPtr[row + 1]; e++) {
+      parity ^= x[S.colIdx[e]];
+    }
+    return parity;
+  }
+
+  // 在未知数最少的未用行中，选出现次数最多的未知列，使其已知后尽可能多的行恢复为单未知数
+  private static selectGapColumn(
+    S: SparseParityCheck,
+    isParity: Uint8Array,
+    known: Uint8Array,
+    usedRow: Uint8Array,
+    unknownCount: Int32Array
+  ): number {
+    let minCount = Infinity;
+    for (let i = 0; i < S.m; i++) {
+      if (!usedRow[i] && unknownCount[i] > 0 && unknownCount[i] < minCount) {
+        minCount = unknownCount[i];
+      }
+    }
+
+    const score = new Int32Array(S.n);
+    let best = -1;
+    for (let i = 0; i < S.m; i++) {
+      if (usedRow[i] || unknownCount[i] !== minCount) continue;
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        const col = S.colIdx[e];
+        if (!isParity[col] || known[col]) continue;
+        score[col]++;
+        if (best === -1 || score[col] > score[best] || (score[col] === score[best] && col < best)) {
+          best = col;
+        }
+      }
+    }
+
+    if (best === -1) {
+      for (let j = 0; j < S.n; j++) {
+        if (isParity[j] && !known[j]) return j;
+      }
+    }
+    return best;
+  }
+}
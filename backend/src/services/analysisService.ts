@@ -0,0 +1,745 @@
+import {
+  GirthAnalysisResult, TannerCycle, MinimumDistanceResult, PackedGF2Matrix,
+  StoppingSet, StoppingSetAnalysisResult, TrappingSet, TrappingSetAnalysisResult
+} from '../types';
+import { GF2MatrixService } from './gf2MatrixService';
+import { SparseMatrixService, ParityCheckInput } from './sparseMatrixService';
+
+export interface MinimumDistanceOptions {
+  timeLimitMs?: number;
+  maxEnumeratorK?: number; // full weight enumerator only up to this dimension
+}
+
+export class AnalysisService {
+
+  static readonly WEIGHT_ENUMERATOR_MAX_K = 20;
+  static readonly DEFAULT_MIN_DISTANCE_TIME_LIMIT_MS = 5000;
+  // Search-tree nodes visited before stopping/trapping set enumeration is truncated
+  static readonly SET_SEARCH_BUDGET = 2000000;
+  // Search-tree nodes visited before short-cycle counting (and, separately, listing) is truncated
+  static readonly CYCLE_SEARCH_BUDGET = 2000000;
+  private static readonly MAX_COLLECTED_SETS = 10000;
+
+  // Exact girth of the Tanner graph plus per-variable-node short-cycle counts.
+  // The girth itself is always exact; counting stops once the search budget is spent
+  static analyzeGirth(
+    H: number[][],
+    maxCycleLength: number = 8,
+    maxCycles: number = 100,
+    budget: number = this.CYCLE_SEARCH_BUDGET
+  ): GirthAnalysisResult {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const { varToChecks, checkToVars } = this.buildAdjacency(H);
+
+    // Cycle lengths in a bipartite graph are even and at least 4
+    const countLimit = Math.max(4, Math.min(8, maxCycleLength - (maxCycleLength % 2)));
+    const lengths: number[] = [];
+    for (let length = 4; length <= countLimit; length += 2) {
+      lengths.push(length);
+    }
+
+    const localGirths = Array(n).fill(Infinity);
+    for (let v = 0; v < n; v++) {
+      localGirths[v] = this.localGirth(v, n, m, varToChecks, checkToVars);
+    }
+    const girth = localGirths.reduce((min, g) => Math.min(min, g), Infinity);
+
+    // Enumerate simple cycles of length <= countLimit through every variable node.
+    // Each cycle is found once in each direction, hence the division by 2.
+    // Once the budget runs out, the node being counted and all later ones report null
+    const variableNodes: GirthAnalysisResult['variableNodes'] = [];
+    const totals: Record<number, number> = {};
+    lengths.forEach(length => { totals[length] = 0; });
+    let remaining = budget;
+    let countsTruncated = false;
+
+    for (let v = 0; v < n; v++) {
+      let counts: Record<number, number> | null = {};
+      lengths.forEach(length => { counts[length] = 0; });
+
+      if (countsTruncated) {
+        counts = null;
+      } else if (localGirths[v] <= countLimit) {
+        const visited = this.enumerateCycles(v, countLimit, varToChecks, checkToVars, n, m, (vars) => {
+          counts[vars.length * 2]++;
+          return true;
+        }, undefined, remaining);
+        remaining -= visited;
+
+        if (remaining < 0) {
+          countsTruncated = true;
+          counts = null;
+        } else {
+          lengths.forEach(length => {
+            counts[length] /= 2;
+            totals[length] += counts[length];
+          });
+        }
+      }
+
+      variableNodes.push({
+        index: v,
+        localGirth: Number.isFinite(localGirths[v]) ? localGirths[v] : null,
+        cycleCounts: counts
+      });
+    }
+
+    // A cycle of length L passes through L/2 variable nodes. With only some nodes
+    // counted, rounding up still gives a lower bound on the number of cycles
+    lengths.forEach(length => {
+      totals[length] = Math.ceil(totals[length] / (length / 2));
+    });
+
+    const { cycles, truncated } = this.collectShortestCycles(
+      girth, localGirths, varToChecks, checkToVars, n, m, maxCycles, budget
+    );
+
+    return {
+      girth: Number.isFinite(girth) ? girth : null,
+      maxCycleLength: countLimit,
+      cycleCounts: totals,
+      variableNodes,
+      shortestCycles: cycles,
+      truncated,
+      countsTruncated
+    };
+  }
+
+  static analyzeMinimumDistance(H: ParityCheckInput, options: MinimumDistanceOptions = {}): MinimumDistanceResult {
+    const start = Date.now();
+    const parityCheck = SparseMatrixService.from(H);
+    const { basis } = GF2MatrixService.nullSpace(GF2MatrixService.fromSparse(parityCheck));
+    const timeLimitMs = options.timeLimitMs ?? this.DEFAULT_MIN_DISTANCE_TIME_LIMIT_MS;
+    // Building G counts against the time limit
+    return this.minimumDistanceFromGenerator(basis, {
+      ...options,
+      timeLimitMs: Math.max(0, timeLimitMs - (Date.now() - start))
+    }, start);
+  }
+
+  // Exact dmin with the weight enumerator for small k (Gray-code enumeration of all 2^k
+  // codewords); otherwise a Brouwer–Zimmermann search over disjoint information sets
+  // that stops as soon as the lower bound meets the lightest codeword found.
+  static minimumDistanceFromGenerator(
+    G: PackedGF2Matrix,
+    options: MinimumDistanceOptions = {},
+    start: number = Date.now()
+  ): MinimumDistanceResult {
+    const deadline = start + (options.timeLimitMs ?? this.DEFAULT_MIN_DISTANCE_TIME_LIMIT_MS);
+    const maxEnumeratorK = Math.min(options.maxEnumeratorK ?? this.WEIGHT_ENUMERATOR_MAX_K, 30);
+
+    if (G.rows === 0 || G.cols === 0) {
+      return {
+        status: 'unavailable',
+        minDistance: 0,
+        lowerBound: 0,
+        upperBound: 0,
+        method: 'none',
+        timedOut: false,
+        elapsedMs: Date.now() - start
+      };
+    }
+
+    const result = G.rows <= maxEnumeratorK
+      ? this.enumerateWeights(G, deadline)
+      : this.brouwerZimmermann(G, deadline);
+
+    return { ...result, elapsedMs: Date.now() - start };
+  }
+
+  // Minimal stopping sets with at most sizeLimit variable nodes. Each set is grown from its
+  // smallest variable node: while some neighbouring check sees the set only once, one of
+  // that check's other variables must join. Branching on the check with the fewest
+  // candidates, and excluding candidates already tried by earlier siblings, reaches every
+  // minimal stopping set within the limit exactly once per branch.
+  static analyzeStoppingSets(
+    H: number[][],
+    sizeLimit: number = 8,
+    maxSets: number = 100,
+    budget: number = this.SET_SEARCH_BUDGET
+  ): StoppingSetAnalysisResult {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const { varToChecks, checkToVars } = this.buildAdjacency(H);
+    const maxVarDegree = varToChecks.reduce((max, checks) => Math.max(max, checks.length), 1);
+
+    const count = new Int32Array(m);   // neighbours of each check inside the set
+    const inSet = new Uint8Array(n);
+    const excluded = new Int32Array(n); // >0 while a sibling branch already covered the node
+    const members: number[] = [];
+    let deficient = 0;                  // checks connected to the set exactly once
+    let visited = 0;
+    let truncated = false;
+    const found = new Map<string, number[]>();
+
+    const add = (v: number) => {
+      inSet[v] = 1;
+      members.push(v);
+      for (const c of varToChecks[v]) {
+        if (++count[c] === 1) deficient++;
+        else if (count[c] === 2) deficient--;
+      }
+    };
+    const remove = (v: number) => {
+      inSet[v] = 0;
+      members.pop();
+      for (const c of varToChecks[v]) {
+        if (--count[c] === 1) deficient++;
+        else if (count[c] === 0) deficient--;
+      }
+    };
+
+    const grow = (root: number) => {
+      if (++visited > budget || found.size >= this.MAX_COLLECTED_SETS) {
+        truncated = true;
+        return;
+      }
+      if (deficient === 0) {
+        const set = [...members].sort((a, b) => a - b);
+        found.set(set.join(','), set);
+        return;
+      }
+      // Each new variable resolves at most maxVarDegree deficient checks
+      if (members.length + Math.ceil(deficient / maxVarDegree) > sizeLimit) return;
+
+      let candidates: number[] | null = null;
+      for (const v of members) {
+        for (const c of varToChecks[v]) {
+          if (count[c] !== 1) continue;
+          const options = checkToVars[c].filter(u => u > root && !inSet[u] && !excluded[u]);
+          if (!candidates || options.length < candidates.length) candidates = options;
+          if (options.length === 0) return;
+        }
+      }
+
+      const tried: number[] = [];
+      for (const u of candidates!) {
+        add(u);
+        grow(root);
+        remove(u);
+        excluded[u]++;
+        tried.push(u);
+        if (truncated) break;
+      }
+      tried.forEach(u => { excluded[u]--; });
+    };
+
+    // A variable node without checks is a stopping set on its own
+    for (let root = 0; root < n && !truncated; root++) {
+      add(root);
+      grow(root);
+      remove(root);
+    }
+
+    // A branch stops at the first closure, which can still contain a smaller stopping set
+    const candidatesBySize = [...found.values()].sort((a, b) => a.length - b.length);
+    const minimal: number[][] = [];
+    candidatesBySize.forEach(set => {
+      const members = new Set(set);
+      if (!minimal.some(smaller => smaller.length < set.length && smaller.every(v => members.has(v)))) {
+        minimal.push(set);
+      }
+    });
+
+    const sizeCounts: Record<number, number> = {};
+    minimal.forEach(set => { sizeCounts[set.length] = (sizeCounts[set.length] || 0) + 1; });
+
+    const sets: StoppingSet[] = minimal.slice(0, maxSets).map(variableNodes => {
+      const checks = new Set<number>();
+      const edges: [number, number][] = [];
+      variableNodes.forEach(v => varToChecks[v].forEach(c => {
+        checks.add(c);
+        edges.push([c, v]);
+      }));
+      return {
+        size: variableNodes.length,
+        variableNodes,
+        checkNodes: [...checks].sort((a, b) => a - b),
+        edges
+      };
+    });
+
+    return {
+      sizeLimit,
+      stoppingDistance: minimal.length > 0 ? minimal[0].length : null,
+      sizeCounts,
+      sets,
+      truncated
+    };
+  }
+
+  // Elementary (a,b) trapping sets: connected variable sets whose induced checks all have
+  // degree 1 or 2, with b degree-1 (unsatisfied) checks. Sets are grown from their smallest
+  // variable node; every check seen once so far either stays unsatisfied (frozen, at most
+  // maxB of them) or gets exactly one more neighbour. The choices are disjoint, so each
+  // trapping set is reached exactly once, and a check reaching degree 3 is never allowed.
+  static analyzeTrappingSets(
+    H: number[][],
+    maxA: number = 6,
+    maxB: number = 2,
+    maxSets: number = 100,
+    budget: number = this.SET_SEARCH_BUDGET
+  ): TrappingSetAnalysisResult {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const { varToChecks, checkToVars } = this.buildAdjacency(H);
+    const maxVarDegree = varToChecks.reduce((max, checks) => Math.max(max, checks.length), 1);
+
+    const count = new Int32Array(m);
+    const frozen = new Uint8Array(m);
+    const inSet = new Uint8Array(n);
+    const members: number[] = [];
+    let open = 0;        // degree-1 checks that are not frozen
+    let frozenCount = 0;
+    let visited = 0;
+    let truncated = false;
+    const found: { variableNodes: number[]; b: number }[] = [];
+
+    const add = (v: number) => {
+      inSet[v] = 1;
+      members.push(v);
+      for (const c of varToChecks[v]) {
+        if (++count[c] === 1) open++;
+        else open--;
+      }
+    };
+    const remove = (v: number) => {
+      inSet[v] = 0;
+      members.pop();
+      for (const c of varToChecks[v]) {
+        if (--count[c] === 0) open--;
+        else open++;
+      }
+    };
+    // Joining must keep every check at degree <= 2 and leave frozen checks untouched
+    const canJoin = (u: number, root: number) => u > root && !inSet[u] &&
+      varToChecks[u].every(c => count[c] === 0 || (count[c] === 1 && !frozen[c]));
+
+    const grow = (root: number) => {
+      if (++visited > budget || found.length >= this.MAX_COLLECTED_SETS) {
+        truncated = true;
+        return;
+      }
+      if (open === 0) {
+        found.push({ variableNodes: [...members].sort((a, b) => a - b), b: frozenCount });
+        return;
+      }
+      // Each open check is frozen or closed by a new variable, which closes at most maxVarDegree
+      if (open > (maxB - frozenCount) + (maxA - members.length) * maxVarDegree) return;
+
+      let branchCheck = -1;
+      let candidates: number[] = [];
+      for (const v of members) {
+        for (const c of varToChecks[v]) {
+          if (count[c] !== 1 || frozen[c]) continue;
+          const options = checkToVars[c].filter(u => canJoin(u, root));
+          if (branchCheck === -1 || options.length < candidates.length) {
+            branchCheck = c;
+            candidates = options;
+          }
+        }
+      }
+
+      if (members.length < maxA) {
+        for (const u of candidates) {
+          add(u);
+          grow(root);
+          remove(u);
+          if (truncated) return;
+        }
+      }
+
+      if (frozenCount < maxB) {
+        frozen[branchCheck] = 1;
+        frozenCount++;
+        open--;
+        grow(root);
+        open++;
+        frozenCount--;
+        frozen[branchCheck] = 0;
+      }
+    };
+
+    for (let root = 0; root < n && !truncated; root++) {
+      if (varToChecks[root].length === 0) continue;
+      add(root);
+      grow(root);
+      remove(root);
+    }
+
+    const ordered = found
+      .filter(set => set.variableNodes.length >= 2)
+      .sort((x, y) => x.variableNodes.length - y.variableNodes.length || x.b - y.b);
+
+    const counts: Record<string, number> = {};
+    ordered.forEach(set => {
+      const key = `(${set.variableNodes.length},${set.b})`;
+      counts[key] = (counts[key] || 0) + 1;
+    });
+
+    const sets: TrappingSet[] = ordered.slice(0, maxSets).map(({ variableNodes, b }) => {
+      const degree = new Map<number, number>();
+      const edges: [number, number][] = [];
+      variableNodes.forEach(v => varToChecks[v].forEach(c => {
+        degree.set(c, (degree.get(c) || 0) + 1);
+        edges.push([c, v]);
+      }));
+      const checkNodes = [...degree.keys()].sort((x, y) => x - y);
+      return {
+        a: variableNodes.length,
+        b,
+        variableNodes,
+        checkNodes,
+        unsatisfiedChecks: checkNodes.filter(c => degree.get(c) === 1),
+        edges
+      };
+    });
+
+    return { maxA, maxB, counts, sets, truncated };
+  }
+
+  // Shortest cycle through root: BFS where every node remembers the root edge it was
+  // reached through; a non-tree edge joining two different branches closes a cycle
+  // that contains the root.
+  private static localGirth(
+    root: number,
+    n: number,
+    m: number,
+    varToChecks: number[][],
+    checkToVars: number[][]
+  ): number {
+    // Node ids: variable nodes 0..n-1, check nodes n..n+m-1
+    const dist = new Map<number, number>();
+    const branch = new Map<number, number>();
+    const parent = new Map<number, number>();
+    const queue: number[] = [];
+    let best = Infinity;
+
+    dist.set(root, 0);
+    for (const c of varToChecks[root]) {
+      const node = n + c;
+      dist.set(node, 1);
+      branch.set(node, node);
+      parent.set(node, root);
+      queue.push(node);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const x = queue[head];
+      const dx = dist.get(x);
+      // Any cycle found from here on is at least 2 * dx + 1 long
+      if (2 * dx + 1 >= best) break;
+
+      const neighbours = x < n ? varToChecks[x].map(c => n + c) : checkToVars[x - n];
+      for (const y of neighbours) {
+        if (y === parent.get(x) || y === root) continue;
+        if (!dist.has(y)) {
+          dist.set(y, dx + 1);
+          branch.set(y, branch.get(x));
+          parent.set(y, x);
+          queue.push(y);
+        } else if (branch.get(y) !== branch.get(x)) {
+          best = Math.min(best, dx + dist.get(y) + 1);
+        }
+      }
+    }
+
+    return best;
+  }
+
+  // Depth-first enumeration of simple cycles through start of length <= maxLength.
+  // The visitor receives the variable and check nodes in path order and returns
+  // false to stop the search. Returns the number of search-tree nodes visited; the
+  // search stops as soon as that exceeds maxVisits.
+  private static enumerateCycles(
+    start: number,
+    maxLength: number,
+    varToChecks: number[][],
+    checkToVars: number[][],
+    n: number,
+    m: number,
+    visit: (vars: number[], checks: number[]) => boolean,
+    exactLength?: number,
+    maxVisits: number = Infinity
+  ): number {
+    const usedVars = new Uint8Array(n);
+    const usedChecks = new Uint8Array(m);
+    const vars = [start];
+    const checks: number[] = [];
+    let stopped = false;
+    let visited = 0;
+
+    usedVars[start] = 1;
+
+    const extend = (current: number) => {
+      for (const c of varToChecks[current]) {
+        if (stopped) return;
+        if (usedChecks[c]) continue;
+        if (++visited > maxVisits) {
+          stopped = true;
+          return;
+        }
+        usedChecks[c] = 1;
+        checks.push(c);
+
+        for (const u of checkToVars[c]) {
+          if (stopped) break;
+          const length = checks.length * 2;
+          if (u === start) {
+            if (checks.length >= 2 && (exactLength === undefined || length === exactLength)) {
+              if (!visit(vars, checks)) stopped = true;
+            }
+          } else if (!usedVars[u] && length + 2 <= maxLength) {
+            usedVars[u] = 1;
+            vars.push(u);
+            extend(u);
+            vars.pop();
+            usedVars[u] = 0;
+          }
+        }
+
+        checks.pop();
+        usedChecks[c] = 0;
+      }
+    };
+
+    extend(start);
+    return visited;
+  }
+
+  private static collectShortestCycles(
+    girth: number,
+    localGirths: number[],
+    varToChecks: number[][],
+    checkToVars: number[][],
+    n: number,
+    m: number,
+    maxCycles: number,
+    budget: number
+  ): { cycles: TannerCycle[]; truncated: boolean } {
+    const cycles: TannerCycle[] = [];
+    let truncated = false;
+    let remaining = budget;
+
+    if (!Number.isFinite(girth)) {
+      return { cycles, truncated };
+    }
+
+    for (let v = 0; v < n && !truncated; v++) {
+      if (localGirths[v] !== girth) continue;
+
+      remaining -= this.enumerateCycles(v, girth, varToChecks, checkToVars, n, m, (vars, checks) => {
+        // Report each cycle once: from its smallest variable node, in the direction
+        // whose first check index is smaller than its last
+        if (vars.some(u => u < v) || checks[0] > checks[checks.length - 1]) {
+          return true;
+        }
+        if (cycles.length >= maxCycles) {
+          truncated = true;
+          return false;
+        }
+
+        const edges: [number, number][] = [];
+        for (let i = 0; i < checks.length; i++) {
+          edges.push([checks[i], vars[i]]);
+          edges.push([checks[i], vars[(i + 1) % vars.length]]);
+        }
+        cycles.push({
+          length: girth,
+          variableNodes: [...vars],
+          checkNodes: [...checks],
+          edges
+        });
+        return true;
+      }, girth, remaining);
+      if (remaining < 0) truncated = true;
+    }
+
+    return { cycles, truncated };
+  }
+
+  private static enumerateWeights(G: PackedGF2Matrix, deadline: number): Omit<MinimumDistanceResult, 'elapsedMs'> {
+    const k = G.rows;
+    const n = G.cols;
+    const current = new Uint32Array(G.data[0].length);
+    const enumerator = Array(n + 1).fill(0);
+    enumerator[0] = 1;
+
+    let upper = Infinity;
+    let lightest: Uint32Array | null = null;
+    const total = 2 ** k;
+
+    // Gray code order: codeword i differs from codeword i-1 by the row at the lowest set bit of i
+    for (let i = 1; i < total; i++) {
+      GF2MatrixService.xorRow(current, G.data[31 - Math.clz32(i & -i)]);
+      const weight = GF2MatrixService.weight(current);
+      enumerator[weight]++;
+      if (weight > 0 && weight < upper) {
+        upper = weight;
+        lightest = current.slice();
+      }
+
+      if ((i & 0xfff) === 0 && Date.now() > deadline) {
+        return {
+          status: 'bounded',
+          minDistance: upper,
+          lowerBound: 1,
+          upperBound: upper,
+          method: 'enumeration',
+          minimumWeightSupport: this.support(lightest, n),
+          timedOut: true
+        };
+      }
+    }
+
+    // Every non-zero row is a codeword, so upper is finite unless G has a zero row
+    const minDistance = Number.isFinite(upper) ? upper : 0;
+    return {
+      status: 'exact',
+      minDistance,
+      lowerBound: minDistance,
+      upperBound: minDistance,
+      method: 'enumeration',
+      weightEnumerator: enumerator,
+      minimumWeightSupport: this.support(lightest, n),
+      timedOut: false
+    };
+  }
+
+  private static brouwerZimmermann(G: PackedGF2Matrix, deadline: number): Omit<MinimumDistanceResult, 'elapsedMs'> {
+    const k = G.rows;
+    const n = G.cols;
+    const words = G.data[0].length;
+
+    // Disjoint information sets: each generator matrix is systematic on columns not yet
+    // covered by earlier ones. Columns are permuted so those come first; weights are
+    // invariant under the permutation, which is kept to map codewords back.
+    const matrices: { rows: Uint32Array[]; rank: number; order: number[] }[] = [];
+    const covered = new Uint8Array(n);
+    while (matrices.length === 0 || Date.now() <= deadline) {
+      const order: number[] = [];
+      for (let j = 0; j < n; j++) if (!covered[j]) order.push(j);
+      const uncovered = order.length;
+      if (uncovered === 0) break;
+      for (let j = 0; j < n; j++) if (covered[j]) order.push(j);
+
+      const permuted = GF2MatrixService.create(k, n);
+      for (let i = 0; i < k; i++) {
+        order.forEach((col, p) => {
+          if (GF2MatrixService.getBit(G.data[i], col)) GF2MatrixService.setBit(permuted.data[i], p, 1);
+        });
+      }
+
+      const { rref, pivotColumns, rank } = GF2MatrixService.rref(permuted, uncovered);
+      if (rank === 0) break;
+      pivotColumns.forEach(p => { covered[order[p]] = 1; });
+      matrices.push({ rows: rref.data, rank, order });
+    }
+
+    // After all combinations of w information bits are done in matrices[0..j-1] (and
+    // w-1 in the rest), an unseen codeword has weight > w - (k - rank) in each set.
+    const lowerBoundAt = (w: number, completed: number) => matrices.reduce((sum, matrix, index) =>
+      sum + Math.max(0, (index < completed ? w + 1 : w) - (k - matrix.rank)), 0);
+
+    // Rows of G are codewords: a finite upper bound even if the search times out immediately
+    let upper = Infinity;
+    let lightest: { word: Uint32Array; order: number[] } | null = null;
+    const identity = Array.from({ length: n }, (_, j) => j);
+    G.data.forEach(row => {
+      const weight = GF2MatrixService.weight(row);
+      if (weight > 0 && weight < upper) {
+        upper = weight;
+        lightest = { word: row, order: identity };
+      }
+    });
+    let lower = Math.max(1, lowerBoundAt(0, matrices.length));
+    let searchedWeight = 0;
+    let counter = 0;
+    let timedOut = false;
+    const sums = Array.from({ length: k }, () => new Uint32Array(words));
+
+    // Depth-first enumeration of all w-subsets of rows, sums[level] holds the partial XOR
+    const visit = (rows: Uint32Array[], order: number[], w: number, level: number, from: number, prev: Uint32Array | null): boolean => {
+      const sum = sums[level];
+      for (let i = from; i <= k - (w - level); i++) {
+        const row = rows[i];
+        if (prev) {
+          for (let t = 0; t < words; t++) sum[t] = prev[t] ^ row[t];
+        } else {
+          sum.set(row);
+        }
+
+        if (level === w - 1) {
+          const weight = GF2MatrixService.weight(sum);
+          if (weight > 0 && weight < upper) {
+            upper = weight;
+            lightest = { word: sum.slice(), order };
+          }
+          if ((++counter & 0x3ff) === 0 && Date.now() > deadline) return false;
+        } else if (!visit(rows, order, w, level + 1, i + 1, sum)) {
+          return false;
+        }
+      }
+      return true;
+    };
+
+    search:
+    for (let w = 1; w <= k && lower < upper; w++) {
+      for (let j = 0; j < matrices.length && lower < upper; j++) {
+        if (!visit(matrices[j].rows, matrices[j].order, w, 0, 0, null)) {
+          timedOut = true;
+          break search;
+        }
+        lower = Math.max(lower, lowerBoundAt(w, j + 1));
+      }
+      searchedWeight = w;
+    }
+
+    // Exhausting every information weight enumerates the whole code
+    const exact = !timedOut && (lower >= upper || searchedWeight === k);
+    const found = lightest as { word: Uint32Array; order: number[] } | null;
+    const support = found
+      ? (this.support(found.word, n) || []).map(p => found.order[p]).sort((a, b) => a - b)
+      : undefined;
+
+    return {
+      status: exact ? 'exact' : 'bounded',
+      minDistance: upper,
+      lowerBound: exact ? upper : Math.min(lower, upper),
+      upperBound: upper,
+      method: 'brouwer-zimmermann',
+      minimumWeightSupport: support,
+      informationSets: matrices.length,
+      searchedWeight,
+      timedOut
+    };
+  }
+
+  private static support(word: Uint32Array | null, n: number): number[] | undefined {
+    if (!word) return undefined;
+    const positions: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (GF2MatrixService.getBit(word, j)) positions.push(j);
+    }
+    return positions;
+  }
+
+  private static buildAdjacency(H: number[][]): { varToChecks: number[][]; checkToVars: number[][] } {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const varToChecks: number[][] = Array(n).fill(null).map(() => []);
+    const checkToVars: number[][] = Array(m).fill(null).map(() => []);
+
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        if (H[i][j] === 1) {
+          varToChecks[j].push(i);
+          checkToVars[i].push(j);
+        }
+      }
+    }
+
+    return { varToChecks, checkToVars };
+  }
+}
@@ -0,0 +1,206 @@
+import { DecodingResult, SparseParityCheck } from '../types';
+import { SparseMatrixService } from './sparseMatrixService';
+import { DecoderRegistry, DecoderDefinition, DecoderParameter, DECODER_PARAMETERS } from './decoderRegistry';
+import type { DecodingConfig } from './decodingService';
+import { RandomService } from './randomService';
+
+export type BitFlippingDecodingResult = DecodingResult & {
+  iterationHistory: any[];
+  flips: number; // 总翻转次数
+};
+
+type BitFlippingVariant = 'wbf' | 'mwbf' | 'gdbf' | 'pgdbf';
+
+// 判定“Δ 等于最小值”时的浮点容差
+const ENERGY_TOLERANCE = 1e-9;
+
+const VARIANT_NAMES: Record<BitFlippingVariant, string> = {
+  wbf: 'WBF',
+  mwbf: 'MWBF',
+  gdbf: 'GDBF',
+  pgdbf: 'PGDBF'
+};
+
+// 加权比特翻转族：只用硬判决与信道可靠度 |y|，每次迭代按翻转度量翻转比特，校验全部满足即停止
+//   wbf：E_j = Σ_{i∈M(j)} (2s_i − 1)·w_i，w_i 为校验 i 中最小的 |y|，翻转 E 最大的一位
+//   mwbf：E_j 再减去 α·|y_j|，兼顾比特自身的可靠度
+//   gdbf：反转能量 Δ_j = x_j·y_j + Σ_{i∈M(j)} (1 − 2s_i)（x 为 ±1 判决），翻转 Δ 最小的一位
+//   pgdbf：Δ 取最小值的比特各以概率 p 翻转，随机数由 seed 决定；给出 flipThreshold 时候选改为 Δ 低于阈值的全部比特
+// y 为按平均 |LLR| 归一化的信道 LLR，使阈值与 α 不依赖 SNR 标度
+export class BitFlippingDecodingService {
+
+  static decode(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig,
+    variant: BitFlippingVariant
+  ): BitFlippingDecodingResult {
+    const { n, m, rowPtr, colIdx, colPtr, rowIdx } = H;
+    const meanMagnitude = llr.reduce((sum, value) => sum + Math.abs(value), 0) / Math.max(1, n) || 1;
+    const y = llr.map(value => value / meanMagnitude);
+    const reliability = y.map(Math.abs);
+
+    const decoded = y.map(value => (value < 0 ? 1 : 0));
+    const unsatisfied = new Uint8Array(SparseMatrixService.syndrome(H, decoded));
+    let unsatisfiedCount = unsatisfied.reduce((sum, bit) => sum + bit, 0);
+
+    // WBF/MWBF 的校验权重：校验中最不可靠比特的可靠度
+    const checkWeight = new Float64Array(m);
+    for (let i = 0; i < m; i++) {
+      let weight = Infinity;
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) weight = Math.min(weight, reliability[colIdx[e]]);
+      checkWeight[i] = Number.isFinite(weight) ? weight : 0;
+    }
+
+    const alpha = config.reliabilityWeight ?? DECODER_PARAMETERS.reliabilityWeight.default;
+    const threshold = config.flipThreshold;
+    const probability = config.flipProbability ?? DECODER_PARAMETERS.flipProbability.default;
+    const random = RandomService.create(config.seed);
+
+    // 翻转度量：越大越应翻转（GDBF 族取反转能量的相反数）
+    const metric = (j: number): number => {
+      let sum = 0;
+      if (variant === 'wbf' || variant === 'mwbf') {
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          sum += (2 * unsatisfied[rowIdx[p]] - 1) * checkWeight[rowIdx[p]];
+        }
+        return variant === 'mwbf' ? sum - alpha * reliability[j] : sum;
+      }
+      const x = decoded[j] === 0 ? 1 : -1;
+      for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+        sum += 1 - 2 * unsatisfied[rowIdx[p]];
+      }
+      return -(x * y[j] + sum);
+    };
+
+    const flip = (j: number) => {
+      decoded[j] ^= 1;
+      for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+        const i = rowIdx[p];
+        unsatisfied[i] ^= 1;
+        unsatisfiedCount += unsatisfied[i] ? 1 : -1;
+      }
+    };
+
+    // 记录消息时以校验对各比特的 ±1 投票代替软消息
+    const snapshot = () => {
+      if (!config.recordMessages) return {};
+      const checkToVariable = Array(rowPtr[m]).fill(0);
+      for (let i = 0; i < m; i++) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+          checkToVariable[e] = (unsatisfied[i] ^ decoded[colIdx[e]]) ? -1 : 1;
+        }
+      }
+      return { checkToVariable, unsatisfiedChecks: SparseMatrixService.unsatisfiedChecks(H, decoded) };
+    };
+
+    const iterationHistory = [];
+    let flips = 0;
+    let iterations = 0;
+    const metrics = new Float64Array(n);
+
+    while (iterations < config.maxIterations && unsatisfiedCount > 0) {
+      iterations++;
+      let best = -Infinity;
+      let bestBit = -1;
+      for (let j = 0; j < n; j++) {
+        metrics[j] = metric(j);
+        if (metrics[j] > best) {
+          best = metrics[j];
+          bestBit = j;
+        }
+      }
+
+      let flipped = 0;
+      if (variant === 'pgdbf') {
+        // 候选集在本次迭代开始时确定，翻转不影响同一迭代内其他比特的候选资格；
+        // 阈值下没有候选时退回最小能量的比特
+        const candidates: number[] = [];
+        if (threshold !== undefined) {
+          for (let j = 0; j < n; j++) {
+            if (-metrics[j] < threshold) candidates.push(j);
+          }
+        }
+        if (candidates.length === 0) {
+          for (let j = 0; j < n; j++) {
+            if (metrics[j] >= best - ENERGY_TOLERANCE) candidates.push(j);
+          }
+        }
+        for (const j of candidates) {
+          if (random.next() < probability) {
+            flip(j);
+            flipped++;
+          }
+        }
+      } else if (bestBit >= 0) {
+        flip(bestBit);
+        flipped = 1;
+      }
+      flips += flipped;
+
+      iterationHistory.push({
+        iteration: iterations,
+        syndrome: Array.from(unsatisfied),
+        decoded: [...decoded],
+        flipped,
+        ...snapshot()
+      });
+    }
+
+    const isValid = unsatisfiedCount === 0;
+    const correctedErrors = channelBits.reduce((count, bit, index) =>
+      count + (bit !== decoded[index] ? 1 : 0), 0
+    );
+    const name = VARIANT_NAMES[variant];
+
+    return {
+      decoded,
+      success: isValid,
+      iterations,
+      correctedErrors,
+      message: isValid
+        ? `${name}解码成功（${flips}次翻转）`
+        : `${name}解码未完全收敛（${flips}次翻转），纠正${correctedErrors}个错误`,
+      iterationHistory,
+      flips
+    };
+  }
+}
+
+const { maxIterations, reliabilityWeight, flipThreshold, flipProbability, seed } = DECODER_PARAMETERS;
+
+const bitFlippingDecoder = (
+  id: string,
+  name: string,
+  description: string,
+  variant: BitFlippingVariant,
+  parameters: DecoderParameter[]
+): DecoderDefinition => ({
+  id,
+  name,
+  description,
+  family: 'hard',
+  complexity: 'Low',
+  performance: 'Fair',
+  inputs: ['hard', 'llr'],
+  channels: ['BSC', 'AWGN', 'Rayleigh'],
+  parameters,
+  softOutput: false,
+  decode: ({ llr, channelBits, H, config }) => BitFlippingDecodingService.decode(llr, channelBits, H, config, variant)
+});
+
+DecoderRegistry.register(
+  bitFlippingDecoder('wbf', 'Weighted Bit-Flipping',
+    'Flips the bit whose unsatisfied checks carry the largest reliability weight, one bit per iteration',
+    'wbf', [maxIterations]),
+  bitFlippingDecoder('mwbf', 'Modified WBF',
+    'Weighted bit-flipping that also penalizes flipping bits with a reliable channel value',
+    'mwbf', [maxIterations, reliabilityWeight]),
+  bitFlippingDecoder('gdbf', 'Gradient-Descent BF',
+    'Flips the bit with the lowest inversion energy (channel correlation plus satisfied checks)',
+    'gdbf', [maxIterations]),
+  bitFlippingDecoder('pgdbf', 'Probabilistic GDBF',
+    'Flips each bit at the minimum inversion energy with a seeded probability, escaping GDBF trapping sets',
+    'pgdbf', [maxIterations, flipThreshold, flipProbability, seed])
+);
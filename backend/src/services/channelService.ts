@@ -1,11 +1,25 @@
-export type ChannelType = 'BSC' | 'AWGN' | 'BEC' | 'AWGN-SOFT' | 'Rayleigh';
+import { RandomGenerator, RandomService } from './randomService';
+import { ModulationService, ModulationScheme, ModulationSettings } from './modulationService';
 
-export interface ChannelConfig {
+export type ChannelType = 'BSC' | 'AWGN' | 'BEC' | 'AWGN-SOFT' | 'Rayleigh' | 'Gilbert-Elliott' | 'Markov-AWGN';
+
+// 两状态（好 G / 坏 B）马尔可夫突发信道，状态每个比特转移一次，首比特的状态取平稳分布
+export interface BurstChannelParameters {
+  pGoodToBad: number;      // P(G → B)
+  pBadToGood: number;      // P(B → G)，平均突发长度为 1 / pBadToGood
+  errorProbGood: number;   // Gilbert–Elliott：好状态的翻转概率
+  errorProbBad: number;    // Gilbert–Elliott：坏状态的翻转概率
+  badStatePenalty: number; // Markov-AWGN：坏状态比好状态低的 SNR（dB）
+}
+
+// AWGN/瑞利信道可选高阶调制（缺省 BPSK）；BSC/BEC 按同一调制的硬判决误码率取交叉/擦除概率
+export interface ChannelConfig extends ModulationSettings {
   type: ChannelType;
-  snr?: number;          // For AWGN channels (dB)
+  snr?: number;          // For AWGN channels (dB), interpreted according to snrType
   crossoverProb?: number; // For BSC channel
   erasureProb?: number;   // For BEC channel
   variance?: number;      // For AWGN channels
+  burst?: Partial<BurstChannelParameters>; // For Gilbert-Elliott and Markov-AWGN, missing fields use DEFAULT_BURST
 }
 
 export interface ChannelOutput {
@@ -14,34 +28,199 @@ export interface ChannelOutput {
   errors: number[];
   errorCount: number;
   channelLLR?: number[]; // For soft decision
+  states?: number[];     // For burst channels: 1 while the channel is in the bad state
 }
 
 export class ChannelService {
+
+  // 硬判决 LLR 的上限，与 DecodingService 对输入 LLR 的截断一致
+  static readonly MAX_LLR = 50;
+
+  static readonly DEFAULT_BURST: BurstChannelParameters = {
+    pGoodToBad: 0.01,
+    pBadToGood: 0.1,
+    errorProbGood: 0,
+    errorProbBad: 0.5,
+    badStatePenalty: 10
+  };
   
+  // 噪声与翻转都取自 random；仿真应对整批帧传入同一个带种子的生成器
   static transmitThroughChannel(
     codeword: number[],
-    config: ChannelConfig
+    config: ChannelConfig,
+    random: RandomGenerator = RandomService.create()
   ): ChannelOutput {
+    const esN0 = this.symbolSNR(config);
+    if (config.modulation && config.modulation !== 'BPSK'
+      && (config.type === 'AWGN' || config.type === 'AWGN-SOFT' || config.type === 'Rayleigh')) {
+      return this.modulatedChannel(codeword, config, esN0, random);
+    }
+
     switch (config.type) {
       case 'BSC':
-        return this.bscChannel(codeword, config.crossoverProb || 0.1);
+        return this.bscChannel(codeword, config.crossoverProb || 0.1, random);
       case 'AWGN':
-        return this.awgnChannel(codeword, config.snr || 0);
+        return this.awgnChannel(codeword, esN0, random);
       case 'AWGN-SOFT':
-        return this.awgnSoftChannel(codeword, config.snr || 0);
+        return this.awgnSoftChannel(codeword, esN0, random);
       case 'Rayleigh':
-        return this.rayleighChannel(codeword, config.snr || 0);
+        return this.rayleighChannel(codeword, esN0, random);
       case 'BEC':
-        return this.becChannel(codeword, config.erasureProb || 0.1);
+        return this.becChannel(codeword, config.erasureProb || 0.1, random);
+      case 'Gilbert-Elliott':
+        return this.gilbertElliottChannel(codeword, this.burstParameters(config), random);
+      case 'Markov-AWGN':
+        return this.markovAWGNChannel(codeword, esN0, this.burstParameters(config), random);
       default:
-        return this.bscChannel(codeword, 0.1);
+        return this.bscChannel(codeword, 0.1, random);
+    }
+  }
+
+  // 每个符号的 Es/N0（dB）：snrType 为 EbN0 时 Es/N0 = Eb/N0 · R · log2(M)。
+  // 缺省按 Es/N0 解释，BPSK 下即每个编码比特的 SNR
+  static symbolSNR(config: ChannelConfig): number {
+    const snr = config.snr || 0;
+    if (config.snrType !== 'EbN0') {
+      return snr;
+    }
+    const bits = ModulationService.bitsPerSymbol(config.modulation ?? 'BPSK');
+    return snr + 10 * Math.log10((config.codeRate ?? 1) * bits);
+  }
+
+  // 校验请求中的突发信道参数，未给出的字段取 DEFAULT_BURST
+  static resolveBurst(input: any): BurstChannelParameters | { error: string } {
+    const burst = { ...this.DEFAULT_BURST };
+    if (input === undefined || input === null) {
+      return burst;
+    }
+    if (typeof input !== 'object') {
+      return { error: 'burst must be an object' };
+    }
+    for (const key of Object.keys(burst) as Array<keyof BurstChannelParameters>) {
+      const value = input[key];
+      if (value === undefined) continue;
+      const valid = key === 'badStatePenalty'
+        ? typeof value === 'number' && value >= 0 && value <= 60
+        : typeof value === 'number' && value >= 0 && value <= 1;
+      if (!valid) {
+        return { error: key === 'badStatePenalty' ? 'burst.badStatePenalty must be between 0 and 60 dB' : `burst.${key} must be a probability in [0, 1]` };
+      }
+      burst[key] = value;
+    }
+    return burst;
+  }
+
+  static burstParameters(config: ChannelConfig): BurstChannelParameters {
+    return { ...this.DEFAULT_BURST, ...config.burst };
+  }
+
+  // 平稳分布中处于坏状态的概率 π_B = p_GB / (p_GB + p_BG)
+  static badStateProbability(burst: BurstChannelParameters): number {
+    const total = burst.pGoodToBad + burst.pBadToGood;
+    return total > 0 ? burst.pGoodToBad / total : 0;
+  }
+
+  private static markovStates(length: number, burst: BurstChannelParameters, random: RandomGenerator): number[] {
+    const states = Array(length).fill(0);
+    let bad = random.next() < this.badStateProbability(burst);
+    for (let i = 0; i < length; i++) {
+      states[i] = bad ? 1 : 0;
+      bad = bad ? random.next() >= burst.pBadToGood : random.next() < burst.pGoodToBad;
     }
+    return states;
+  }
+
+  private static gilbertElliottChannel(codeword: number[], burst: BurstChannelParameters, random: RandomGenerator): ChannelOutput {
+    const transmitted = [...codeword];
+    const states = this.markovStates(transmitted.length, burst, random);
+    const received = transmitted.map((bit, index) => 
+      random.next() < (states[index] ? burst.errorProbBad : burst.errorProbGood) ? 1 - bit : bit
+    );
+    
+    const errors = transmitted.map((bit, index) => 
+      bit !== received[index] ? 1 : 0
+    );
+    
+    const errorCount = errors.reduce((sum: number, error: number) => sum + error, 0);
+
+    return {
+      transmitted,
+      received,
+      errors,
+      errorCount,
+      states
+    };
+  }
+
+  // 好状态 SNR 为 snrDb，坏状态低 badStatePenalty dB；接收端已知状态，LLR = 2y/σ² 用各自的噪声方差
+  private static markovAWGNChannel(codeword: number[], snrDb: number, burst: BurstChannelParameters, random: RandomGenerator): ChannelOutput {
+    const variance = [snrDb, snrDb - burst.badStatePenalty].map(snr => 1 / (2 * Math.pow(10, snr / 10)));
+    
+    const transmitted = [...codeword];
+    const states = this.markovStates(transmitted.length, burst, random);
+    
+    // BPSK modulation: 0 -> +1, 1 -> -1
+    const noisy = transmitted.map((bit, index) => 
+      (bit === 0 ? 1 : -1) + random.normal(0, Math.sqrt(variance[states[index]]))
+    );
+    
+    const channelLLR = noisy.map((symbol, index) => 2 * symbol / variance[states[index]]);
+    
+    // Hard decision for error counting
+    const received = noisy.map(symbol => symbol < 0 ? 1 : 0);
+    
+    const errors = transmitted.map((bit, index) => 
+      bit !== received[index] ? 1 : 0
+    );
+    
+    const errorCount = errors.reduce((sum: number, error: number) => sum + error, 0);
+
+    return {
+      transmitted,
+      received,
+      errors,
+      errorCount,
+      channelLLR,
+      states
+    };
   }
 
-  private static bscChannel(codeword: number[], crossoverProb: number): ChannelOutput {
+  private static modulatedChannel(
+    codeword: number[],
+    config: ChannelConfig,
+    esN0: number,
+    random: RandomGenerator
+  ): ChannelOutput {
+    const transmitted = [...codeword];
+    const { received, llr } = ModulationService.transmit(
+      transmitted,
+      config.modulation!,
+      esN0,
+      config.type === 'Rayleigh',
+      config.demapper ?? 'exact',
+      random
+    );
+
+    const errors = transmitted.map((bit, index) => 
+      bit !== received[index] ? 1 : 0
+    );
+    
+    const errorCount = errors.reduce((sum: number, error: number) => sum + error, 0);
+
+    return {
+      transmitted,
+      received,
+      errors,
+      errorCount,
+      // 硬判决 AWGN 只输出符号判决，与 BPSK 的处理一致
+      channelLLR: config.type === 'AWGN' ? undefined : llr
+    };
+  }
+
+  private static bscChannel(codeword: number[], crossoverProb: number, random: RandomGenerator): ChannelOutput {
     const transmitted = [...codeword];
     const received = transmitted.map(bit => 
-      Math.random() < crossoverProb ? 1 - bit : bit
+      random.next() < crossoverProb ? 1 - bit : bit
     );
     
     const errors = transmitted.map((bit, index) => 
@@ -58,7 +237,7 @@ export class ChannelService {
     };
   }
 
-  private static awgnChannel(codeword: number[], snrDb: number): ChannelOutput {
+  private static awgnChannel(codeword: number[], snrDb: number, random: RandomGenerator): ChannelOutput {
     const snrLinear = Math.pow(10, snrDb / 10);
     const variance = 1 / (2 * snrLinear); // For BPSK
     const stdDev = Math.sqrt(variance);
@@ -70,7 +249,7 @@ export class ChannelService {
     
     // Add AWGN noise
     const noisy = modulated.map(symbol => 
-      symbol + this.gaussianRandom(0, stdDev)
+      symbol + random.normal(0, stdDev)
     );
     
     // Hard decision demodulation
@@ -90,7 +269,7 @@ export class ChannelService {
     };
   }
 
-  private static awgnSoftChannel(codeword: number[], snrDb: number): ChannelOutput {
+  private static awgnSoftChannel(codeword: number[], snrDb: number, random: RandomGenerator): ChannelOutput {
     const snrLinear = Math.pow(10, snrDb / 10);
     const variance = 1 / (2 * snrLinear);
     const stdDev = Math.sqrt(variance);
@@ -102,7 +281,7 @@ export class ChannelService {
     
     // Add AWGN noise
     const noisy = modulated.map(symbol => 
-      symbol + this.gaussianRandom(0, stdDev)
+      symbol + random.normal(0, stdDev)
     );
     
     // Calculate LLR values: LLR = 2 * received / variance
@@ -126,10 +305,10 @@ export class ChannelService {
     };
   }
 
-  private static becChannel(codeword: number[], erasureProb: number): ChannelOutput {
+  private static becChannel(codeword: number[], erasureProb: number, random: RandomGenerator): ChannelOutput {
     const transmitted = [...codeword];
     const received = transmitted.map(bit => 
-      Math.random() < erasureProb ? -1 : bit // -1 indicates erasure
+      random.next() < erasureProb ? -1 : bit // -1 indicates erasure
     );
     
     const errors = transmitted.map((bit, index) => 
@@ -146,7 +325,7 @@ export class ChannelService {
     };
   }
 
-  private static rayleighChannel(codeword: number[], snrDb: number): ChannelOutput {
+  private static rayleighChannel(codeword: number[], snrDb: number, random: RandomGenerator): ChannelOutput {
     const snrLinear = Math.pow(10, snrDb / 10);
     const noiseVariance = 1 / (2 * snrLinear); // For BPSK
     const noiseStdDev = Math.sqrt(noiseVariance);
@@ -157,22 +336,24 @@ export class ChannelService {
     const modulated = transmitted.map(bit => bit === 0 ? 1 : -1);
     
     // Generate Rayleigh fading coefficients and add AWGN noise
+    const fading: number[] = [];
     const noisy = modulated.map(symbol => {
       // Rayleigh fading: |h|^2 is exponentially distributed
       // h = sqrt(X^2 + Y^2) where X,Y ~ N(0, 0.5)
-      const h_real = this.gaussianRandom(0, 1/Math.sqrt(2));
-      const h_imag = this.gaussianRandom(0, 1/Math.sqrt(2));
+      const h_real = random.normal(0, 1/Math.sqrt(2));
+      const h_imag = random.normal(0, 1/Math.sqrt(2));
       const fadingCoeff = Math.sqrt(h_real * h_real + h_imag * h_imag);
+      fading.push(fadingCoeff);
       
       // Apply fading and add noise
       const fadedSymbol = symbol * fadingCoeff;
-      const noisySymbol = fadedSymbol + this.gaussianRandom(0, noiseStdDev);
+      const noisySymbol = fadedSymbol + random.normal(0, noiseStdDev);
       
       return noisySymbol;
     });
     
-    // Calculate LLR values for soft decision
-    const channelLLR = noisy.map(symbol => 2 * symbol / noiseVariance);
+    // Calculate LLR values for soft decision (coherent receiver with known fading: LLR = 2hy/σ²)
+    const channelLLR = noisy.map((symbol, i) => 2 * fading[i] * symbol / noiseVariance);
     
     // Hard decision demodulation
     const received = noisy.map(symbol => symbol < 0 ? 1 : 0);
@@ -192,20 +373,35 @@ export class ChannelService {
     };
   }
 
-  private static gaussianRandom(mean: number = 0, stdDev: number = 1): number {
-    // Box-Muller transform
-    let u1 = Math.random();
-    let u2 = Math.random();
-    
-    // Avoid log(0)
-    u1 = Math.max(u1, 1e-10);
-    
-    const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-    return z0 * stdDev + mean;
+  // 硬判决/擦除输出换算为译码器输入 LLR（正值倾向比特0）
+  static hardDecisionLLR(received: number[], config: ChannelConfig): number[] {
+    if (config.type === 'BEC') {
+      return received.map(bit => bit === -1 ? 0 : (bit === 0 ? this.MAX_LLR : -this.MAX_LLR));
+    }
+
+    // Gilbert–Elliott：译码器不知道状态，按平稳分布下的平均翻转概率视为 BSC
+    if (config.type === 'Gilbert-Elliott') {
+      const burst = this.burstParameters(config);
+      const badProbability = this.badStateProbability(burst);
+      return this.hardDecisionLLR(received, {
+        type: 'BSC',
+        crossoverProb: (1 - badProbability) * burst.errorProbGood + badProbability * burst.errorProbBad
+      });
+    }
+
+    // 硬判决 AWGN 近似为交叉概率等于未编码误码率的 BSC（BPSK 下为 Q(√(2·SNR))）
+    const p = config.type === 'BSC'
+      ? (config.crossoverProb ?? 0.1)
+      : this.calculateTheoreticalBER(this.symbolSNR(config), 'AWGN', config.modulation);
+    const clamped = Math.min(0.5, Math.max(1e-12, p));
+    const magnitude = Math.min(this.MAX_LLR, Math.log((1 - clamped) / clamped));
+    return received.map(bit => bit === 0 ? magnitude : -magnitude);
   }
 
-  static calculateTheoreticalBER(snrDb: number, channelType: ChannelType): number {
+  // snrDb 为 Es/N0；高阶调制用 Gray 映射的近似 a·Q(√(c·Es/N0))
+  static calculateTheoreticalBER(snrDb: number, channelType: ChannelType, modulation: ModulationScheme = 'BPSK'): number {
     const snrLinear = Math.pow(10, snrDb / 10);
+    const { a, c } = ModulationService.berCoefficients(modulation);
     
     switch (channelType) {
       case 'BSC':
@@ -215,11 +411,12 @@ export class ChannelService {
       case 'AWGN':
       case 'AWGN-SOFT':
         // For BPSK over AWGN: BER = Q(sqrt(2*SNR))
-        return this.qFunction(Math.sqrt(2 * snrLinear));
+        return Math.min(0.5, a * this.qFunction(Math.sqrt(c * snrLinear)));
       
       case 'Rayleigh':
         // For BPSK over Rayleigh fading: BER = 0.5 * (1 - sqrt(SNR/(1+SNR)))
-        return 0.5 * (1 - Math.sqrt(snrLinear / (1 + snrLinear)));
+        // E[Q(√(c·γ))] over exponential γ = 0.5 * (1 - sqrt(c·SNR/(2+c·SNR)))
+        return Math.min(0.5, a * 0.5 * (1 - Math.sqrt(c * snrLinear / (2 + c * snrLinear))));
       
       case 'BEC':
         // For BEC, error rate = erasure probability
@@ -269,19 +466,19 @@ export class ChannelService {
       'AWGN': {
         name: '加性高斯白噪声信道',
         description: '添加高斯噪声后进行硬判决的信道',
-        parameters: ['snr'],
+        parameters: ['snr', 'modulation', 'snrType'],
         outputType: 'hard' as const
       },
       'AWGN-SOFT': {
         name: '软判决AWGN信道',
         description: '添加高斯噪声并输出LLR值的软判决信道',
-        parameters: ['snr'],
+        parameters: ['snr', 'modulation', 'demapper', 'snrType'],
         outputType: 'soft' as const
       },
       'Rayleigh': {
         name: '瑞利衰落信道',
         description: '具有瑞利衰落的无线信道，模拟移动通信环境',
-        parameters: ['snr'],
+        parameters: ['snr', 'modulation', 'demapper', 'snrType'],
         outputType: 'soft' as const
       },
       'BEC': {
@@ -289,6 +486,18 @@ export class ChannelService {
         description: '以固定概率擦除比特的信道',
         parameters: ['erasureProb'],
         outputType: 'erasure' as const
+      },
+      'Gilbert-Elliott': {
+        name: 'Gilbert–Elliott突发信道',
+        description: '好/坏两状态马尔可夫链调制翻转概率的硬判决信道，错误成簇出现',
+        parameters: ['burst.pGoodToBad', 'burst.pBadToGood', 'burst.errorProbGood', 'burst.errorProbBad'],
+        outputType: 'hard' as const
+      },
+      'Markov-AWGN': {
+        name: '马尔可夫调制AWGN信道',
+        description: '好/坏两个SNR状态按马尔可夫链切换的软判决AWGN信道',
+        parameters: ['snr', 'burst.pGoodToBad', 'burst.pBadToGood', 'burst.badStatePenalty', 'snrType'],
+        outputType: 'soft' as const
       }
     };
 
@@ -0,0 +1,230 @@
+import { LDPCGraph, GraphNode, GraphEdge } from '../types';
+
+// 变量节点度分布：度数 -> 节点比例（节点视角）
+export type DegreeDistribution = Record<number, number>;
+
+export interface PEGResult {
+  H: number[][];
+  variableDegrees: number[];
+  checkDegrees: number[];
+  localGirths: (number | null)[];
+}
+
+export class ConstructionService {
+
+  // Progressive Edge-Growth (Hu, Eleftheriou, Arnold): 逐条放置边，
+  // 每条新边连接到当前子图中距离该变量节点最远的校验节点，以最大化局部围长
+  static progressiveEdgeGrowth(
+    n: number,
+    m: number,
+    distribution: DegreeDistribution = { 3: 1 },
+    seed: number = n * m + n + m
+  ): PEGResult {
+    if (n < 1 || m < 1) {
+      throw new Error('PEG construction requires at least one bit node and one check node');
+    }
+
+    const variableDegrees = this.allocateDegrees(n, m, distribution);
+    const varToChecks: number[][] = Array(n).fill(null).map(() => []);
+    const checkToVars: number[][] = Array(m).fill(null).map(() => []);
+    const localGirths: (number | null)[] = Array(n).fill(null);
+
+    // 确定性随机数生成器，用于在同等候选中打破平局
+    let state = seed % 233280;
+    const random = () => {
+      state = (state * 9301 + 49297) % 233280;
+      return state / 233280.0;
+    };
+
+    const pickLowestDegree = (candidates: number[]): number => {
+      let minDegree = Infinity;
+      let best: number[] = [];
+      for (const c of candidates) {
+        const degree = checkToVars[c].length;
+        if (degree < minDegree) {
+          minDegree = degree;
+          best = [c];
+        } else if (degree === minDegree) {
+          best.push(c);
+        }
+      }
+      return best[Math.floor(random() * best.length)];
+    };
+
+    const allChecks = Array.from({ length: m }, (_, i) => i);
+
+    for (let j = 0; j < n; j++) {
+      for (let k = 0; k < variableDegrees[j]; k++) {
+        let check: number;
+
+        if (k === 0) {
+          check = pickLowestDegree(allChecks);
+        } else {
+          const { unreached, depth } = this.expandTree(j, varToChecks, checkToVars, m);
+          check = pickLowestDegree(unreached);
+          // 新边与树中已有路径构成的最短环长度
+          if (depth !== null) {
+            const cycle = 2 * (depth + 1);
+            localGirths[j] = localGirths[j] === null ? cycle : Math.min(localGirths[j] as number, cycle);
+          }
+        }
+
+        varToChecks[j].push(check);
+        checkToVars[check].push(j);
+      }
+    }
+
+    const H = Array(m).fill(null).map(() => Array(n).fill(0));
+    varToChecks.forEach((checks, j) => checks.forEach(c => { H[c][j] = 1; }));
+
+    return {
+      H,
+      variableDegrees,
+      checkDegrees: checkToVars.map(vars => vars.length),
+      localGirths
+    };
+  }
+
+  // 由H矩阵构建图，布局与 BatchNodeTools 的预设图一致：
+  // 比特节点位于上排，校验节点均匀分布在下排
+  static buildGraphFromMatrix(
+    H: number[][],
+    bitNodes?: GraphNode[],
+    checkNodes?: GraphNode[]
+  ): LDPCGraph {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const spacing = 80;
+    const startX = 100;
+    const totalWidth = (n - 1) * spacing;
+
+    const bits: GraphNode[] = Array.from({ length: n }, (_, j) => ({
+      id: bitNodes?.[j]?.id || `b${j + 1}`,
+      type: 'bit',
+      position: { x: startX + j * spacing, y: 80 },
+      label: bitNodes?.[j]?.label || `B${j + 1}`,
+      connections: []
+    }));
+
+    const checks: GraphNode[] = Array.from({ length: m }, (_, i) => ({
+      id: checkNodes?.[i]?.id || `c${i + 1}`,
+      type: 'check',
+      position: {
+        x: m === 1 ? startX + totalWidth / 2 : startX + (totalWidth * i) / Math.max(1, m - 1),
+        y: 200
+      },
+      label: checkNodes?.[i]?.label || `C${i + 1}`,
+      connections: []
+    }));
+
+    const edges: GraphEdge[] = [];
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        if (H[i][j] === 1) {
+          edges.push({
+            id: `edge_auto_${edges.length}`,
+            source: bits[j].id,
+            target: checks[i].id
+          });
+          bits[j].connections.push(checks[i].id);
+          checks[i].connections.push(bits[j].id);
+        }
+      }
+    }
+
+    return { nodes: [...bits, ...checks], edges };
+  }
+
+  // 将度分布换算为每个变量节点的度数，按非降序排列（PEG 先放置低度节点）
+  private static allocateDegrees(n: number, m: number, distribution: DegreeDistribution): number[] {
+    const entries = Object.entries(distribution)
+      .map(([degree, fraction]) => [Math.min(m, Math.max(1, parseInt(degree))), Number(fraction)] as [number, number])
+      .filter(([degree, fraction]) => Number.isFinite(degree) && fraction > 0);
+
+    if (entries.length === 0) {
+      return Array(n).fill(Math.min(m, 3));
+    }
+
+    const total = entries.reduce((sum, [, fraction]) => sum + fraction, 0);
+    const counts = entries.map(([degree, fraction]) => ({
+      degree,
+      exact: (fraction / total) * n,
+      count: Math.floor((fraction / total) * n)
+    }));
+
+    // 余数按小数部分从大到小分配
+    let remaining = n - counts.reduce((sum, c) => sum + c.count, 0);
+    [...counts]
+      .sort((a, b) => (b.exact - b.count) - (a.exact - a.count))
+      .forEach(c => {
+        if (remaining > 0) {
+          c.count++;
+          remaining--;
+        }
+      });
+
+    const degrees: number[] = [];
+    counts.forEach(c => {
+      for (let i = 0; i < c.count; i++) degrees.push(c.degree);
+    });
+    return degrees.sort((a, b) => a - b);
+  }
+
+  // 以变量节点为根逐层展开子图，直到校验节点集合不再增长或覆盖全部校验节点。
+  // 返回距离最远的候选校验节点，以及新边所闭合最短环的深度（无环时为 null）
+  private static expandTree(
+    root: number,
+    varToChecks: number[][],
+    checkToVars: number[][],
+    m: number
+  ): { unreached: number[]; depth: number | null } {
+    const reachedChecks = new Uint8Array(m);
+    const visitedVars = new Set<number>([root]);
+    let frontier = [root];
+    let reachedCount = 0;
+    let previousLevel: number[] = [];
+    let depth = 0;
+
+    while (true) {
+      const levelChecks: number[] = [];
+      for (const v of frontier) {
+        for (const c of varToChecks[v]) {
+          if (!reachedChecks[c]) {
+            reachedChecks[c] = 1;
+            levelChecks.push(c);
+          }
+        }
+      }
+      reachedCount += levelChecks.length;
+
+      if (levelChecks.length === 0) {
+        // 子图不再增长：选择任一未到达的校验节点不会形成新环
+        const unreached = [];
+        for (let c = 0; c < m; c++) {
+          if (!reachedChecks[c]) unreached.push(c);
+        }
+        return unreached.length > 0
+          ? { unreached, depth: null }
+          : { unreached: previousLevel, depth: depth - 1 };
+      }
+
+      if (reachedCount === m) {
+        // 所有校验节点均可到达：选择最后一层才出现的校验节点
+        return { unreached: levelChecks, depth };
+      }
+
+      previousLevel = levelChecks;
+      const nextFrontier: number[] = [];
+      for (const c of levelChecks) {
+        for (const v of checkToVars[c]) {
+          if (!visitedVars.has(v)) {
+            visitedVars.add(v);
+            nextFrontier.push(v);
+          }
+        }
+      }
+      frontier = nextFrontier;
+      depth++;
+    }
+  }
+}
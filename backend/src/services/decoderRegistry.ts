@@ -0,0 +1,234 @@
+import { SparseParityCheck } from '../types';
+import { GF2MatrixService } from './gf2MatrixService';
+import { QuantizedDecodingService } from './quantizedDecodingService';
+import { OSDService } from './osdService';
+import type { DecodingConfig, DecoderOutput } from './decodingService';
+
+// 译码器的输入：信道 LLR 与硬判决已由 DecodingService 按信道类型换算好
+export interface DecoderInput {
+  received: number[];    // 原始接收值（硬判决比特、BEC 的 -1 擦除或 LLR）
+  llr: number[];         // 信道 LLR，正值倾向比特 0，擦除为 0
+  channelBits: number[]; // 信道硬判决，擦除为 -1
+  H: SparseParityCheck;
+  config: DecodingConfig;
+}
+
+export type DecoderFamily = 'soft' | 'hard' | 'erasure';
+export type DecoderInputType = 'hard' | 'llr' | 'erasure';
+export type DecoderChannel = 'BSC' | 'AWGN' | 'Rayleigh' | 'BEC';
+
+// 参数模式：name 为 DecodingConfig 中的字段；number 型的 exclusiveMin 表示区间 (min, max]
+export interface DecoderParameter {
+  name: keyof DecodingConfig;
+  label: string;
+  type: 'integer' | 'number' | 'boolean';
+  description: string;
+  default?: number | boolean;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+}
+
+// 穷举参考译码器的适用范围：k ≤ dimension 或 n − k ≤ redundancy；仿真中作为性能界绘制
+export interface ReferenceLimits {
+  dimension: number;
+  redundancy: number;
+}
+
+export interface DecoderDefinition {
+  id: string;
+  name: string;
+  description: string;
+  family: DecoderFamily;
+  complexity: 'Low' | 'Medium' | 'High';
+  performance: 'Fair' | 'Good' | 'Optimal';
+  inputs: DecoderInputType[];
+  channels: DecoderChannel[];
+  parameters: DecoderParameter[];
+  softOutput: boolean; // 返回后验 LLR：可接 OSD 后处理并提供软输出
+  reference?: ReferenceLimits;
+  decode(input: DecoderInput): DecoderOutput;
+  decodeQuantized?(input: DecoderInput): DecoderOutput; // 定点仿真实现
+}
+
+// /api/coding/algorithms 与前端下拉框使用的描述（不含实现）
+export type DecoderDescription = Omit<DecoderDefinition, 'decode' | 'decodeQuantized'> & {
+  osd: boolean;
+  quantization: boolean;
+};
+
+// 各译码器共用的参数模式，注册时按需挑选
+export const DECODER_PARAMETERS = {
+  maxIterations: {
+    name: 'maxIterations', label: 'Maximum iterations', type: 'integer',
+    description: 'Iteration limit', default: 50, min: 1, max: 200
+  },
+  scalingFactor: {
+    name: 'scalingFactor', label: 'Scaling factor', type: 'number',
+    description: 'Check-node output scaling (normalized min-sum)', min: 0, max: 1, exclusiveMin: true
+  },
+  damping: {
+    name: 'damping', label: 'Damping', type: 'number',
+    description: 'Weight of the previous message when mixing in the new one', min: 0, max: 1, exclusiveMin: true
+  },
+  earlyTermination: {
+    name: 'earlyTermination', label: 'earlyTermination', type: 'boolean',
+    description: 'Stop as soon as the syndrome is zero', default: true
+  },
+  updateBudget: {
+    name: 'updateBudget', label: 'Update budget', type: 'integer',
+    description: 'Check-to-variable message updates (default maxIterations × edges)', min: 1, max: 10000000
+  },
+  osdOrder: {
+    name: 'osdOrder', label: 'OSD order', type: 'integer',
+    description: 'OSD-i post-processing order when decoding fails', min: 0, max: OSDService.MAX_ORDER
+  },
+  reliabilityWeight: {
+    name: 'reliabilityWeight', label: 'Reliability weight', type: 'number',
+    description: 'Weight α of the bit\'s own channel reliability in the flip metric', default: 0.3, min: 0, max: 10
+  },
+  flipThreshold: {
+    name: 'flipThreshold', label: 'Flip threshold', type: 'number',
+    description: 'Optional: make every bit whose inversion energy is below this threshold a flip candidate (default: only the bits at the minimum energy)', min: -20, max: 20
+  },
+  flipProbability: {
+    name: 'flipProbability', label: 'Flip probability', type: 'number',
+    description: 'Probability of flipping each candidate bit', default: 0.7, min: 0, max: 1, exclusiveMin: true
+  },
+  seed: {
+    name: 'seed', label: 'Seed', type: 'integer',
+    description: 'Seed of the pseudo-random generator', min: 0, max: 4294967295
+  },
+  admmPenalty: {
+    name: 'admmPenalty', label: 'ADMM penalty', type: 'number',
+    description: 'Penalty parameter μ of the augmented Lagrangian', default: 3, min: 0, max: 100, exclusiveMin: true
+  },
+  admmTolerance: {
+    name: 'admmTolerance', label: 'ADMM tolerance', type: 'number',
+    description: 'Stop when the primal and dual residuals (RMS per edge) fall below this value', default: 1e-5, min: 0, max: 1, exclusiveMin: true
+  }
+} satisfies Record<string, DecoderParameter>;
+
+// 统一的译码器注册表：路由校验、算法列表与前端下拉框都由这里驱动。
+// 新增译码器只需在实现文件中调用 register，并在 decoders.ts 中导入该文件
+export class DecoderRegistry {
+
+  private static decoders = new Map<string, DecoderDefinition>();
+
+  static register(...definitions: DecoderDefinition[]): void {
+    for (const definition of definitions) {
+      if (this.decoders.has(definition.id)) {
+        throw new Error(`Decoder ${definition.id} is already registered`);
+      }
+      this.decoders.set(definition.id, definition);
+    }
+  }
+
+  static get(id: string): DecoderDefinition | undefined {
+    return this.decoders.get(id);
+  }
+
+  static has(id: string): boolean {
+    return this.decoders.has(id);
+  }
+
+  // 按注册顺序
+  static ids(): string[] {
+    return [...this.decoders.keys()];
+  }
+
+  static list(): DecoderDefinition[] {
+    return [...this.decoders.values()];
+  }
+
+  static softDecoders(): string[] {
+    return this.list().filter(d => d.softOutput).map(d => d.id);
+  }
+
+  static quantizedDecoders(): string[] {
+    return this.list().filter(d => d.decodeQuantized).map(d => d.id);
+  }
+
+  // 从请求中取出参数模式中列出的字段（忽略 null），供路由组装 DecodingConfig
+  static pickParameters(input: any): Partial<DecodingConfig> {
+    const picked: Partial<DecodingConfig> = {};
+    if (!input || typeof input !== 'object') return picked;
+    for (const name of Object.keys(DECODER_PARAMETERS) as (keyof DecodingConfig)[]) {
+      if (input[name] !== undefined && input[name] !== null) {
+        this.assign(picked, name, input[name]);
+      }
+    }
+    return picked;
+  }
+
+  // 按键写入一个译码参数；泛型键让值的类型与该字段对应，请求中未经类型检查的值由 validate 校验
+  static assign<K extends keyof DecodingConfig>(target: Partial<DecodingConfig>, key: K, value: DecodingConfig[K]): void {
+    target[key] = value;
+  }
+
+  // 参考译码器的码长检查，不适用时返回原因；其余译码器不受限
+  static checkCode(id: string, H: SparseParityCheck): string | null {
+    const limits = this.decoders.get(id)?.reference;
+    if (!limits) return null;
+    const k = H.n - GF2MatrixService.rank(GF2MatrixService.fromSparse(H));
+    return k <= limits.dimension || H.n - k <= limits.redundancy
+      ? null
+      : `${id} needs k ≤ ${limits.dimension} or n − k ≤ ${limits.redundancy} (k = ${k}, n − k = ${H.n - k})`;
+  }
+
+  static describe(definition: DecoderDefinition): DecoderDescription {
+    const { decode, decodeQuantized, ...description } = definition;
+    const parameters = definition.softOutput
+      ? [...definition.parameters, DECODER_PARAMETERS.osdOrder]
+      : definition.parameters;
+    return { ...description, parameters, osd: definition.softOutput, quantization: !!decodeQuantized };
+  }
+
+  // 校验算法与参数；参数范围按共用模式检查，译码器不使用的参数被忽略，
+  // 但 OSD 与定点仿真只接受具备相应能力的译码器。返回的副本中 quantization 已补全默认值
+  static validate<T extends Partial<DecodingConfig>>(settings: T): T | { error: string } {
+    const definition = this.decoders.get(settings.algorithm as string);
+    if (!definition) {
+      return { error: `Unsupported algorithm: ${settings.algorithm}` };
+    }
+
+    for (const parameter of Object.values(DECODER_PARAMETERS) as DecoderParameter[]) {
+      const value = settings[parameter.name];
+      if (value === undefined || value === null) continue;
+      const error = this.checkParameter(parameter, value);
+      if (error) return { error };
+    }
+
+    const resolved = { ...settings };
+    if (settings.osdOrder !== undefined && settings.osdOrder !== null && !definition.softOutput) {
+      return { error: `OSD post-processing supports ${this.softDecoders().join(', ')} only` };
+    }
+    if (settings.quantization !== undefined && settings.quantization !== null) {
+      if (typeof settings.quantization !== 'object' || !definition.decodeQuantized) {
+        return { error: `Fixed-point decoding supports ${this.quantizedDecoders().join(', ')} only` };
+      }
+      const quantization = QuantizedDecodingService.resolve(settings.quantization);
+      if ('error' in quantization) {
+        return quantization;
+      }
+      resolved.quantization = quantization;
+    }
+    return resolved;
+  }
+
+  private static checkParameter(parameter: DecoderParameter, value: unknown): string | null {
+    if (parameter.type === 'boolean') {
+      return typeof value === 'boolean' ? null : `${parameter.label} must be a boolean`;
+    }
+    const numeric = typeof value === 'number' && Number.isFinite(value) &&
+      (parameter.type === 'number' || Number.isInteger(value));
+    if (parameter.exclusiveMin) {
+      return numeric && (value as number) > parameter.min! && (value as number) <= parameter.max!
+        ? null
+        : `${parameter.label} must be in (${parameter.min}, ${parameter.max}]`;
+    }
+    return numeric && (value as number) >= parameter.min! && (value as number) <= parameter.max!
+      ? null
+      : `${parameter.label} must be between ${parameter.min}-${parameter.max}`;
+  }
+}
@@ -0,0 +1,11 @@
+// 导入即注册：这里的导入顺序就是 /api/coding/algorithms 和前端下拉框中的顺序。
+// 新增译码器时在实现文件中调用 DecoderRegistry.register，并在此处加一行导入
+import './decodingService';
+import './erasureDecodingService';
+import './residualDecodingService';
+import './bitFlippingDecodingService';
+import './admmDecodingService';
+import './mlDecodingService';
+
+export { DecoderRegistry } from './decoderRegistry';
+export type { DecoderDefinition, DecoderDescription, DecoderInput, ReferenceLimits } from './decoderRegistry';
@@ -1,6 +1,11 @@
-import { DecodingResult } from '../types';
+import { DecodingResult, SparseParityCheck } from '../types';
+import { SparseMatrixService, ParityCheckInput } from './sparseMatrixService';
+import { QuantizedDecodingService } from './quantizedDecodingService';
+import { OSDService, OSDResult } from './osdService';
+import { DecoderRegistry, DecoderInput, DECODER_PARAMETERS } from './decoderRegistry';
 
-export type DecodingAlgorithm = 'belief-propagation' | 'min-sum' | 'sum-product' | 'gallager-a' | 'gallager-b' | 'layered';
+// Decoder id as registered in DecoderRegistry (see decoders.ts for the full list)
+export type DecodingAlgorithm = string;
 
 export interface DecodingConfig {
   algorithm: DecodingAlgorithm;
@@ -13,24 +18,58 @@ export interface DecodingConfig {
   snr?: number;
   crossoverProb?: number;
   erasureProb?: number;
+  quantization?: QuantizationConfig;
+  osdOrder?: number; // OSD-i post-processing (0-3) when a soft decoder fails to converge
+  updateBudget?: number; // check-to-variable message updates for the residual schedules (default maxIterations × edges)
+  recordMessages?: boolean; // debug: store every check-to-variable message and the unsatisfied checks per iteration
+  softOutput?: boolean; // return APP / extrinsic LLRs and per-bit reliability (soft decoders only)
+  reliabilityWeight?: number; // MWBF: weight α of the bit's own channel reliability
+  flipThreshold?: number;     // PGDBF: optional inversion-energy threshold; without it only minimum-energy bits are candidates
+  flipProbability?: number;   // PGDBF: probability of flipping each candidate
+  seed?: number;              // seed for randomized decoders
+  admmPenalty?: number;       // ADMM-LP: augmented-Lagrangian penalty μ
+  admmTolerance?: number;     // ADMM-LP: primal/dual residual stopping tolerance
+}
+
+export type DecoderOutput = DecodingResult & {
+  iterationHistory?: any[];
+  posterior?: number[];   // final a-posteriori LLRs of the soft decoders
+  osdApplied?: boolean;   // true when the output codeword comes from OSD
+  osd?: OSDResult;
+  messageUpdates?: number; // check-to-variable updates actually performed (residual schedules)
+  softOutput?: SoftOutput;
+};
+
+// Per-bit soft output for iterative receivers and concatenated schemes
+export interface SoftOutput {
+  app: number[];         // final a-posteriori LLR
+  extrinsic: number[];   // APP minus channel LLR
+  reliability: number[]; // probability that the hard decision on the APP is correct
+}
+
+// Fixed-point emulation settings: one LSB equals 2^-fractionalBits
+export interface QuantizationConfig {
+  channelBits: number;
+  messageBits: number;
+  fractionalBits: number;
+  appBits?: number; // defaults to messageBits + 2
+  saturation: 'symmetric' | 'twos-complement' | 'wrap';
+  rounding: 'nearest' | 'floor' | 'truncate';
+  floatingPoint?: boolean; // same update and schedule without rounding or saturation (the fixed-point reference)
 }
 
 export class DecodingService {
-  
+
   // Intelligent parameter adaptation based on channel and code characteristics
   private static adaptParameters(
-    H: number[][], 
+    H: SparseParityCheck, 
     config: DecodingConfig
   ): DecodingConfig {
-    const n = H[0]?.length || 0;
-    const m = H.length;
+    const { m, n } = H;
     const codeRate = m > 0 ? 1 - m / n : 0.5;
     
-    // Calculate average row and column weights
-    const avgRowWeight = m > 0 ? H.reduce((sum, row) => 
-      sum + row.reduce((rowSum, bit) => rowSum + bit, 0), 0) / m : 0;
-    // const avgColWeight = n > 0 ? H[0].map((_, j) => 
-    //   H.reduce((sum, row) => sum + row[j], 0)).reduce((sum, weight) => sum + weight, 0) / n : 0;
+    // Calculate average row weight
+    const avgRowWeight = m > 0 ? SparseMatrixService.edgeCount(H) / m : 0;
     
     const adaptedConfig = { ...config };
     
@@ -146,18 +185,28 @@ export class DecodingService {
     return { llr, isLLR: false };
   }
   
+  // 译码起点的硬判决：LLR 输入取符号，硬判决输入保持原样（BEC 的 -1 擦除保留）
+  private static channelDecisions(received: number[], llr: number[], isLLR: boolean): number[] {
+    return isLLR ? llr.map(l => (l < 0 ? 1 : 0)) : [...received];
+  }
+
   static decode(
     received: number[],
-    H: number[][],
+    H: ParityCheckInput,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
-    // Adapt parameters intelligently based on code and channel characteristics
-    const adaptedConfig = this.adaptParameters(H, config);
+  ): DecoderOutput {
+    // 稀疏结构每次调用只构建一次；批量仿真时调用方应预先转换并直接传入 SparseParityCheck
+    let parityCheck: SparseParityCheck | null = null;
+    try {
+      parityCheck = H ? SparseMatrixService.from(H) : null;
+    } catch {
+      parityCheck = null;
+    }
     
     // Validate input
-    if (!H || H.length === 0 || !received || received.length !== (H[0]?.length || 0)) {
+    if (!parityCheck || parityCheck.m === 0 || !received || received.length !== parityCheck.n) {
       return {
-        decoded: [...received],
+        decoded: [...(received || [])],
         success: false,
         iterations: 0,
         correctedErrors: 0,
@@ -166,23 +215,18 @@ export class DecodingService {
       };
     }
     
+    // Adapt parameters intelligently based on code and channel characteristics
+    const adaptedConfig = this.adaptParameters(parityCheck, config);
+    
     try {
-      switch (adaptedConfig.algorithm) {
-        case 'belief-propagation':
-          return this.beliefPropagationDecoding(received, H, adaptedConfig);
-        case 'min-sum':
-          return this.minSumDecoding(received, H, adaptedConfig);
-        case 'sum-product':
-          return this.sumProductDecoding(received, H, adaptedConfig);
-        case 'gallager-a':
-          return this.gallagerADecoding(received, H, adaptedConfig);
-        case 'gallager-b':
-          return this.gallagerBDecoding(received, H, adaptedConfig);
-        case 'layered':
-          return this.layeredDecoding(received, H, adaptedConfig);
-        default:
-          return this.beliefPropagationDecoding(received, H, adaptedConfig);
+      let result = this.runDecoder(received, parityCheck, adaptedConfig);
+      if (!result.success && adaptedConfig.osdOrder !== undefined && result.posterior) {
+        result = this.osdPostProcess(received, parityCheck, adaptedConfig, result);
+      }
+      if (adaptedConfig.softOutput && result.posterior) {
+        result.softOutput = this.softOutput(received, adaptedConfig, result.posterior);
       }
+      return result;
     } catch (error) {
       return {
         decoded: [...received],
@@ -195,37 +239,91 @@ export class DecodingService {
     }
   }
 
-  private static beliefPropagationDecoding(
+  // Dispatch through the registry; channel LLRs and hard decisions are computed once here
+  private static runDecoder(
     received: number[],
-    H: number[][],
+    parityCheck: SparseParityCheck,
+    adaptedConfig: DecodingConfig
+  ): DecoderOutput {
+    const definition = DecoderRegistry.get(adaptedConfig.algorithm);
+    if (!definition) {
+      throw new Error(`不支持的译码算法: ${adaptedConfig.algorithm}`);
+    }
+    const { llr, isLLR } = this.processChannelInput(received, adaptedConfig);
+    const input: DecoderInput = {
+      received,
+      llr,
+      channelBits: this.channelDecisions(received, llr, isLLR),
+      H: parityCheck,
+      config: adaptedConfig
+    };
+
+    if (adaptedConfig.quantization) {
+      if (!definition.decodeQuantized) {
+        throw new Error(`${definition.name} 不支持定点仿真`);
+      }
+      return definition.decodeQuantized(input);
+    }
+    return definition.decode(input);
+  }
+
+  // Extrinsic = APP - channel LLR; reliability = 1 / (1 + e^-|APP|).
+  // After OSD the APP is still the decoder's, so its sign may disagree with the OSD codeword
+  private static softOutput(received: number[], config: DecodingConfig, posterior: number[]): SoftOutput {
+    const { llr } = this.processChannelInput(received, config);
+    return {
+      app: [...posterior],
+      extrinsic: posterior.map((value, j) => value - llr[j]),
+      reliability: posterior.map(value => 1 / (1 + Math.exp(-Math.abs(value))))
+    };
+  }
+
+  // OSD-i after a failed soft decoder: order by the final a-posteriori LLRs and
+  // score re-encoded candidates against the channel LLRs
+  private static osdPostProcess(
+    received: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig,
+    result: DecoderOutput
+  ): DecoderOutput {
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    const osd = OSDService.decode(H, result.posterior!, llr, config.osdOrder!);
+    const correctedErrors = channelBits.reduce((count, bit, index) =>
+      count + (bit !== osd.codeword[index] ? 1 : 0), 0
+    );
+
+    return {
+      ...result,
+      decoded: osd.codeword,
+      success: SparseMatrixService.isCodeword(H, osd.codeword),
+      correctedErrors,
+      message: `${result.message}；OSD-${osd.order} 后处理输出码字（${osd.candidates} 个候选），纠正${correctedErrors}个错误`,
+      osdApplied: true,
+      osd
+    };
+  }
+
+  // 消息按边存放：checkToVariable[e] / variableToCheck[e]，e 为 CSR 边编号
+  static beliefPropagationDecoding(
+    received: number[],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     const n = received.length;
-    const m = H.length;
-    let decoded = [...received];
+    const { m, rowPtr, colPtr, colEdge } = H;
     const iterationHistory = [];
 
     // Process input based on channel characteristics
-    const { llr } = this.processChannelInput(received, config);
-    
-    // Initialize variable-to-check messages with intrinsic LLR
-    let variableToCheck = Array(m).fill(null).map(() => Array(n).fill(0));
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    let decoded = [...channelBits];
     
-    // Initialize check-to-variable messages
-    let checkToVariable = Array(m).fill(null).map(() => Array(n).fill(0));
-    
-    // Pre-compute check node connections for efficiency
-    const checkConnections: number[][] = Array(m).fill(null).map(() => []);
-    const variableConnections: number[][] = Array(n).fill(null).map(() => []);
-    
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          checkConnections[i].push(j);
-          variableConnections[j].push(i);
-        }
-      }
-    }
+    // Initialize variable-to-check and check-to-variable messages
+    const variableToCheck = new Float64Array(rowPtr[m]);
+    const checkToVariable = new Float64Array(rowPtr[m]);
+
+    const posterior = Float64Array.from(llr);
 
     // Enhanced damping factor
     const dampingFactor = config.damping || 0.7;
@@ -242,20 +340,18 @@ export class DecodingService {
 
       // Enhanced check-to-variable update with improved numerical stability
       for (let i = 0; i < m; i++) {
-        const connectedVars = checkConnections[i];
-        
-        for (const j of connectedVars) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
           // Use log-domain computation for better stability
           let signProduct = 1;
           let minAbsLLR = Infinity;
           let secondMinAbsLLR = Infinity;
           
-          for (const k of connectedVars) {
-            if (k !== j) {
-              const absLLR = Math.abs(variableToCheck[i][k]);
+          for (let f = rowPtr[i]; f < rowPtr[i + 1]; f++) {
+            if (f !== e) {
+              const absLLR = Math.abs(variableToCheck[f]);
               
               // Track sign
-              if (variableToCheck[i][k] < 0) {
+              if (variableToCheck[f] < 0) {
                 signProduct *= -1;
               }
               
@@ -275,54 +371,54 @@ export class DecodingService {
           
           // Apply scaling for better performance
           const alpha = 0.8; // scaling factor
-          checkToVariable[i][j] = alpha * signProduct * magnitude;
+          checkToVariable[e] = alpha * signProduct * magnitude;
           
           // Clamp to prevent numerical overflow
-          checkToVariable[i][j] = Math.max(-20, Math.min(20, checkToVariable[i][j]));
+          checkToVariable[e] = Math.max(-20, Math.min(20, checkToVariable[e]));
         }
       }
 
       // Variable-to-check update with enhanced damping
       for (let j = 0; j < n; j++) {
         const intrinsic = llr[j];
-        const connectedChecks = variableConnections[j];
         
         // Calculate total extrinsic information
         let totalExtrinsic = 0;
-        for (const i of connectedChecks) {
-          totalExtrinsic += checkToVariable[i][j];
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          totalExtrinsic += checkToVariable[colEdge[p]];
         }
         
         // Make hard decision
         const totalLLR = intrinsic + totalExtrinsic;
+        posterior[j] = totalLLR;
         decoded[j] = totalLLR < 0 ? 1 : 0;
 
         // Update variable-to-check messages with enhanced damping
-        for (const i of connectedChecks) {
-          const newMessage = intrinsic + totalExtrinsic - checkToVariable[i][j];
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const e = colEdge[p];
+          const newMessage = intrinsic + totalExtrinsic - checkToVariable[e];
           
           // Apply adaptive damping based on convergence state
           const adaptiveDamping = iter < 5 ? dampingFactor : Math.min(0.9, dampingFactor + 0.1);
           
           if (iter > 0) {
-            variableToCheck[i][j] = adaptiveDamping * newMessage + 
-                                 (1 - adaptiveDamping) * variableToCheck[i][j];
+            variableToCheck[e] = adaptiveDamping * newMessage + 
+                                 (1 - adaptiveDamping) * variableToCheck[e];
           } else {
-            variableToCheck[i][j] = newMessage;
+            variableToCheck[e] = newMessage;
           }
           
           // Enhanced message clipping
-          variableToCheck[i][j] = Math.max(-25, Math.min(25, variableToCheck[i][j]));
+          variableToCheck[e] = Math.max(-25, Math.min(25, variableToCheck[e]));
         }
       }
 
       iterData.decoded = [...decoded];
-      iterationHistory.push(iterData);
+      iterationHistory.push({ ...iterData, ...this.messageSnapshot(config, H, decoded, checkToVariable) });
 
       // Enhanced early termination with stagnation detection
       if (config.earlyTermination) {
         const syndrome = this.calculateSyndrome(decoded, H);
-        // const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
         
         if (syndrome.every(bit => bit === 0)) {
           break;
@@ -342,9 +438,8 @@ export class DecodingService {
       }
     }
 
-    const finalSyndrome = this.calculateSyndrome(decoded, H);
-    const isValid = finalSyndrome.every(bit => bit === 0);
-    const correctedErrors = received.reduce((count, bit, index) => 
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) => 
       count + (bit !== decoded[index] ? 1 : 0), 0
     );
 
@@ -354,18 +449,18 @@ export class DecodingService {
       iterations: iterationHistory.length,
       correctedErrors,
       message: isValid ? 'BP解码成功' : `BP解码${isValid ? '成功' : '未完全收敛'}，纠正${correctedErrors}个错误`,
-      iterationHistory
+      iterationHistory,
+      posterior: Array.from(posterior)
     };
   }
 
-  private static minSumDecoding(
+  static minSumDecoding(
     received: number[],
-    H: number[][],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     const n = received.length;
-    const m = H.length;
-    let decoded = [...received];
+    const { m, rowPtr, colPtr, colEdge } = H;
     const iterationHistory = [];
     
     // Enhanced scaling factor based on code rate and SNR estimate
@@ -374,51 +469,37 @@ export class DecodingService {
     const scalingFactor = Math.max(0.6, Math.min(0.95, baseScaling + 0.1 * codeRate));
 
     // Process input based on channel characteristics
-    const { llr } = this.processChannelInput(received, config);
-    
-    let variableToCheck = Array(m).fill(null).map(() => Array(n).fill(0));
-    let checkToVariable = Array(m).fill(null).map(() => Array(n).fill(0));
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    let decoded = [...channelBits];
     
-    // Pre-compute connections for efficiency
-    const checkConnections: number[][] = Array(m).fill(null).map(() => []);
-    const variableConnections: number[][] = Array(n).fill(null).map(() => []);
-    
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          checkConnections[i].push(j);
-          variableConnections[j].push(i);
-        }
-      }
-    }
+    const variableToCheck = new Float64Array(rowPtr[m]);
+    const checkToVariable = new Float64Array(rowPtr[m]);
     
+    const posterior = Float64Array.from(llr);
     let stagnationCount = 0;
     let previousSyndrome = null;
 
     for (let iter = 0; iter < config.maxIterations; iter++) {
       // Enhanced Min-Sum check-to-variable update
       for (let i = 0; i < m; i++) {
-        const connectedVars = checkConnections[i];
-
-        for (const j of connectedVars) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
           let minAbs = Infinity;
           let secondMinAbs = Infinity;
           let sign = 1;
-          // let minIndex = -1; // Unused in current implementation
           
           // Find minimum and second minimum absolute values
-          for (const k of connectedVars) {
-            if (k !== j) {
-              const absVal = Math.abs(variableToCheck[i][k]);
+          for (let f = rowPtr[i]; f < rowPtr[i + 1]; f++) {
+            if (f !== e) {
+              const absVal = Math.abs(variableToCheck[f]);
               if (absVal < minAbs) {
                 secondMinAbs = minAbs;
                 minAbs = absVal;
-                // minIndex = k; // Unused in current implementation
               } else if (absVal < secondMinAbs) {
                 secondMinAbs = absVal;
               }
               
-              if (variableToCheck[i][k] < 0) {
+              if (variableToCheck[f] < 0) {
                 sign *= -1;
               }
             }
@@ -428,52 +509,54 @@ export class DecodingService {
           const offset = 0.4 * Math.min(minAbs, secondMinAbs * 0.5);
           const magnitude = Math.max(0, minAbs - offset);
           
-          checkToVariable[i][j] = scalingFactor * sign * magnitude;
+          checkToVariable[e] = scalingFactor * sign * magnitude;
           
           // Enhanced clamping
-          checkToVariable[i][j] = Math.max(-15, Math.min(15, checkToVariable[i][j]));
+          checkToVariable[e] = Math.max(-15, Math.min(15, checkToVariable[e]));
         }
       }
 
       // Variable-to-check update with damping
       for (let j = 0; j < n; j++) {
         const intrinsic = llr[j];
-        const connectedChecks = variableConnections[j];
         let extrinsic = 0;
         
-        for (const i of connectedChecks) {
-          extrinsic += checkToVariable[i][j];
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          extrinsic += checkToVariable[colEdge[p]];
         }
         
         const totalLLR = intrinsic + extrinsic;
+        posterior[j] = totalLLR;
         decoded[j] = totalLLR < 0 ? 1 : 0;
 
         // Apply light damping for stability
         const damping = iter < 3 ? 0.1 : 0;
         
-        for (const i of connectedChecks) {
-          const newMessage = intrinsic + extrinsic - checkToVariable[i][j];
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const e = colEdge[p];
+          const newMessage = intrinsic + extrinsic - checkToVariable[e];
           
           if (damping > 0 && iter > 0) {
-            variableToCheck[i][j] = (1 - damping) * newMessage + damping * variableToCheck[i][j];
+            variableToCheck[e] = (1 - damping) * newMessage + damping * variableToCheck[e];
           } else {
-            variableToCheck[i][j] = newMessage;
+            variableToCheck[e] = newMessage;
           }
           
           // Message clipping
-          variableToCheck[i][j] = Math.max(-20, Math.min(20, variableToCheck[i][j]));
+          variableToCheck[e] = Math.max(-20, Math.min(20, variableToCheck[e]));
         }
       }
 
+      const syndrome = this.calculateSyndrome(decoded, H);
       iterationHistory.push({
         iteration: iter + 1,
-        syndrome: this.calculateSyndrome(decoded, H),
-        decoded: [...decoded]
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded, checkToVariable)
       });
 
       // Enhanced early termination
       if (config.earlyTermination) {
-        const syndrome = this.calculateSyndrome(decoded, H);
         if (syndrome.every(bit => bit === 0)) {
           break;
         }
@@ -492,9 +575,8 @@ export class DecodingService {
       }
     }
 
-    const finalSyndrome = this.calculateSyndrome(decoded, H);
-    const isValid = finalSyndrome.every(bit => bit === 0);
-    const correctedErrors = received.reduce((count, bit, index) => 
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) => 
       count + (bit !== decoded[index] ? 1 : 0), 0
     );
 
@@ -504,15 +586,16 @@ export class DecodingService {
       iterations: iterationHistory.length,
       correctedErrors,
       message: isValid ? 'Min-Sum解码成功' : `Min-Sum解码${isValid ? '成功' : '未完全收敛'}，纠正${correctedErrors}个错误`,
-      iterationHistory
+      iterationHistory,
+      posterior: Array.from(posterior)
     };
   }
 
-  private static sumProductDecoding(
+  static sumProductDecoding(
     received: number[],
-    H: number[][],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     // Sum-Product is essentially the same as Belief Propagation
     return this.beliefPropagationDecoding(received, H, {
       ...config,
@@ -520,32 +603,23 @@ export class DecodingService {
     });
   }
 
-  private static gallagerADecoding(
+  static gallagerADecoding(
     received: number[],
-    H: number[][],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     const n = received.length;
-    const m = H.length;
-    let decoded = [...received];
+    const { rowPtr, colIdx, colPtr, rowIdx } = H;
     const iterationHistory = [];
     
     // Process channel input to handle different formats
-    const { llr } = this.processChannelInput(received, config);
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    let decoded = [...channelBits];
     
     // Convert soft information to reliability weights for enhanced Gallager-A
     const reliability = llr.map(l => Math.abs(l));
     
-    // Pre-compute connections
-    const variableConnections = Array(n).fill(null).map(() => []);
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          variableConnections[j].push(i);
-        }
-      }
-    }
-    
     let stagnationCount = 0;
     let previousDecoded = [...decoded];
 
@@ -554,7 +628,6 @@ export class DecodingService {
       
       // Enhanced Gallager-A with reliability-weighted voting
       for (let j = 0; j < n; j++) {
-        const connectedChecks = variableConnections[j];
         let weightedVotes = [0, 0]; // weighted votes for 0 and 1
         
         // Intrinsic vote with channel reliability
@@ -563,13 +636,15 @@ export class DecodingService {
         weightedVotes[intrinsicBit] += intrinsicWeight;
         
         // Collect weighted votes from check nodes
-        for (const i of connectedChecks) {
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const i = rowIdx[p];
           let parity = 0;
           let checkReliability = 1.0;
           
           // Calculate parity and accumulated reliability
-          for (let k = 0; k < n; k++) {
-            if (H[i][k] === 1 && k !== j) {
+          for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+            const k = colIdx[e];
+            if (k !== j) {
               parity ^= decoded[k];
               // Lower reliability for checks with more unreliable bits
               checkReliability *= Math.min(1.0, 0.1 + 0.9 * Math.tanh(reliability[k] / 4));
@@ -603,15 +678,16 @@ export class DecodingService {
       }
       
       decoded = newDecoded;
+      const syndrome = this.calculateSyndrome(decoded, H);
       iterationHistory.push({
         iteration: iter + 1,
-        syndrome: this.calculateSyndrome(decoded, H),
-        decoded: [...decoded]
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded)
       });
 
       // Enhanced early termination
       if (config.earlyTermination) {
-        const syndrome = this.calculateSyndrome(decoded, H);
         if (syndrome.every(bit => bit === 0)) {
           break;
         }
@@ -637,9 +713,8 @@ export class DecodingService {
       previousDecoded = [...decoded];
     }
 
-    const finalSyndrome = this.calculateSyndrome(decoded, H);
-    const isValid = finalSyndrome.every(bit => bit === 0);
-    const correctedErrors = received.reduce((count, bit, index) => 
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) => 
       count + (bit !== decoded[index] ? 1 : 0), 0
     );
 
@@ -653,31 +728,22 @@ export class DecodingService {
     };
   }
 
-  private static gallagerBDecoding(
+  static gallagerBDecoding(
     received: number[],
-    H: number[][],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     // Enhanced Gallager-B with threshold-based decisions
     const n = received.length;
-    const m = H.length;
-    let decoded = [...received];
+    const { rowPtr, colIdx, colPtr, rowIdx } = H;
     const iterationHistory = [];
     
     // Process channel input
-    const { llr } = this.processChannelInput(received, config);
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    let decoded = [...channelBits];
     const reliability = llr.map(l => Math.abs(l));
     
-    // Pre-compute connections
-    const variableConnections = Array(n).fill(null).map(() => []);
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          variableConnections[j].push(i);
-        }
-      }
-    }
-    
     // Adaptive threshold for Gallager-B
     let threshold = 0.5;
     let stagnationCount = 0;
@@ -688,7 +754,6 @@ export class DecodingService {
       
       // Gallager-B with adaptive threshold
       for (let j = 0; j < n; j++) {
-        const connectedChecks = variableConnections[j];
         let votes = [0, 0]; // votes for 0 and 1
         
         // Intrinsic vote with reliability weighting
@@ -697,12 +762,14 @@ export class DecodingService {
         votes[intrinsicBit] += intrinsicWeight;
         
         // Collect votes from check nodes
-        for (const i of connectedChecks) {
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const i = rowIdx[p];
           let parity = 0;
           let checkConfidence = 1.0;
           
-          for (let k = 0; k < n; k++) {
-            if (H[i][k] === 1 && k !== j) {
+          for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+            const k = colIdx[e];
+            if (k !== j) {
               parity ^= decoded[k];
               checkConfidence *= Math.tanh(reliability[k] / 4 + 0.1);
             }
@@ -727,15 +794,16 @@ export class DecodingService {
       }
       
       decoded = newDecoded;
+      const syndrome = this.calculateSyndrome(decoded, H);
       iterationHistory.push({
         iteration: iter + 1,
-        syndrome: this.calculateSyndrome(decoded, H),
-        decoded: [...decoded]
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded)
       });
 
       // Early termination
       if (config.earlyTermination) {
-        const syndrome = this.calculateSyndrome(decoded, H);
         if (syndrome.every(bit => bit === 0)) {
           break;
         }
@@ -755,9 +823,8 @@ export class DecodingService {
       previousDecoded = [...decoded];
     }
 
-    const finalSyndrome = this.calculateSyndrome(decoded, H);
-    const isValid = finalSyndrome.every(bit => bit === 0);
-    const correctedErrors = received.reduce((count, bit, index) => 
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) => 
       count + (bit !== decoded[index] ? 1 : 0), 0
     );
 
@@ -771,106 +838,93 @@ export class DecodingService {
     };
   }
 
-  private static layeredDecoding(
+  static layeredDecoding(
     received: number[],
-    H: number[][],
+    H: SparseParityCheck,
     config: DecodingConfig
-  ): DecodingResult & { iterationHistory?: any[] } {
+  ): DecoderOutput {
     // Enhanced layered decoding with row-wise processing
-    const n = received.length;
-    const m = H.length;
-    let decoded = [...received];
+    const { m, rowPtr, colIdx, colPtr, colEdge } = H;
     const iterationHistory = [];
     
     // Process channel input
-    const { llr } = this.processChannelInput(received, config);
-    
-    // Initialize messages
-    let variableToCheck = Array(m).fill(null).map(() => Array(n).fill(0));
-    let checkToVariable = Array(m).fill(null).map(() => Array(n).fill(0));
+    const { llr, isLLR } = this.processChannelInput(received, config);
+    const channelBits = this.channelDecisions(received, llr, isLLR);
+    let decoded = [...channelBits];
     
-    // Initialize with intrinsic LLR
-    for (let j = 0; j < n; j++) {
-      for (let i = 0; i < m; i++) {
-        if (H[i][j] === 1) {
-          variableToCheck[i][j] = llr[j];
-        }
-      }
+    // Initialize messages with intrinsic LLR
+    const variableToCheck = new Float64Array(rowPtr[m]);
+    const checkToVariable = new Float64Array(rowPtr[m]);
+    for (let e = 0; e < rowPtr[m]; e++) {
+      variableToCheck[e] = llr[colIdx[e]];
     }
     
     const scalingFactor = config.scalingFactor || 0.8;
+    const posterior = Float64Array.from(llr);
 
     for (let iter = 0; iter < config.maxIterations; iter++) {
       // Process each layer (row) sequentially
       for (let i = 0; i < m; i++) {
-        const connectedVars = [];
-        for (let j = 0; j < n; j++) {
-          if (H[i][j] === 1) {
-            connectedVars.push(j);
-          }
-        }
-        
         // Update check-to-variable messages for this layer
-        for (const j of connectedVars) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
           let minAbs = Infinity;
           let signProduct = 1;
           
-          for (const k of connectedVars) {
-            if (k !== j) {
-              const absVal = Math.abs(variableToCheck[i][k]);
+          for (let f = rowPtr[i]; f < rowPtr[i + 1]; f++) {
+            if (f !== e) {
+              const absVal = Math.abs(variableToCheck[f]);
               minAbs = Math.min(minAbs, absVal);
-              if (variableToCheck[i][k] < 0) {
+              if (variableToCheck[f] < 0) {
                 signProduct *= -1;
               }
             }
           }
           
-          checkToVariable[i][j] = scalingFactor * signProduct * Math.max(0, minAbs - 0.3);
-          checkToVariable[i][j] = Math.max(-15, Math.min(15, checkToVariable[i][j]));
+          checkToVariable[e] = scalingFactor * signProduct * Math.max(0, minAbs - 0.3);
+          checkToVariable[e] = Math.max(-15, Math.min(15, checkToVariable[e]));
         }
         
         // Immediate variable node update for connected variables
-        for (const j of connectedVars) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+          const j = colIdx[e];
           let totalLLR = llr[j];
           
           // Sum all incoming check messages
-          for (let ii = 0; ii < m; ii++) {
-            if (H[ii][j] === 1) {
-              totalLLR += checkToVariable[ii][j];
-            }
+          for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+            totalLLR += checkToVariable[colEdge[p]];
           }
           
           // Update decision immediately
+          posterior[j] = totalLLR;
           decoded[j] = totalLLR < 0 ? 1 : 0;
           
           // Update outgoing messages immediately
-          for (let ii = 0; ii < m; ii++) {
-            if (H[ii][j] === 1) {
-              variableToCheck[ii][j] = totalLLR - checkToVariable[ii][j];
-              variableToCheck[ii][j] = Math.max(-20, Math.min(20, variableToCheck[ii][j]));
-            }
+          for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+            const edge = colEdge[p];
+            variableToCheck[edge] = totalLLR - checkToVariable[edge];
+            variableToCheck[edge] = Math.max(-20, Math.min(20, variableToCheck[edge]));
           }
         }
       }
       
+      const syndrome = this.calculateSyndrome(decoded, H);
       iterationHistory.push({
         iteration: iter + 1,
-        syndrome: this.calculateSyndrome(decoded, H),
-        decoded: [...decoded]
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded, checkToVariable)
       });
 
       // Early termination
       if (config.earlyTermination) {
-        const syndrome = this.calculateSyndrome(decoded, H);
         if (syndrome.every(bit => bit === 0)) {
           break;
         }
       }
     }
 
-    const finalSyndrome = this.calculateSyndrome(decoded, H);
-    const isValid = finalSyndrome.every(bit => bit === 0);
-    const correctedErrors = received.reduce((count, bit, index) => 
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) => 
       count + (bit !== decoded[index] ? 1 : 0), 0
     );
 
@@ -880,107 +934,67 @@ export class DecodingService {
       iterations: iterationHistory.length,
       correctedErrors,
       message: isValid ? '分层解码成功' : `分层解码${isValid ? '成功' : '未完全收敛'}，纠正${correctedErrors}个错误`,
-      iterationHistory
+      iterationHistory,
+      posterior: Array.from(posterior)
     };
   }
 
-  private static calculateSyndrome(received: number[], H: number[][]): number[] {
-    const m = H.length;
-    const n = received.length;
-    const syndrome = Array(m).fill(0);
+  // With recordMessages, attach the per-edge check-to-variable messages (CSR edge order) and the
+  // unsatisfied checks after this iteration's decisions, so the graph view can replay decoding
+  private static messageSnapshot(
+    config: DecodingConfig,
+    H: SparseParityCheck,
+    decoded: number[],
+    checkToVariable?: ArrayLike<number>
+  ): { checkToVariable?: number[]; unsatisfiedChecks?: number[] } {
+    if (!config.recordMessages) return {};
+    return {
+      checkToVariable: checkToVariable ? Array.from(checkToVariable) : this.hardCheckMessages(H, decoded),
+      unsatisfiedChecks: SparseMatrixService.unsatisfiedChecks(H, decoded)
+    };
+  }
 
-    // s = H * r^T (在GF(2)上)
+  // Hard-decision decoders have no soft messages: each check votes ±1 for the bit value
+  // that satisfies it given the other bits' current decisions
+  private static hardCheckMessages(H: SparseParityCheck, decoded: number[]): number[] {
+    const { m, rowPtr, colIdx } = H;
+    const messages = Array(rowPtr[m]).fill(0);
     for (let i = 0; i < m; i++) {
-      let sum = 0;
-      for (let j = 0; j < n; j++) {
-        sum += received[j] * H[i][j];
+      let parity = 0;
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) parity ^= decoded[colIdx[e]];
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        messages[e] = (parity ^ decoded[colIdx[e]]) ? -1 : 1;
       }
-      syndrome[i] = sum % 2; // GF(2) 运算
     }
+    return messages;
+  }
 
-    return syndrome;
+  // s = H * r^T (在GF(2)上)
+  private static calculateSyndrome(received: number[], H: SparseParityCheck): number[] {
+    return SparseMatrixService.syndrome(H, received);
   }
   
   private static arraysEqual(a: number[], b: number[]): boolean {
     return a.length === b.length && a.every((val, index) => val === b[index]);
   }
 
-  static getAlgorithmInfo(algorithm: DecodingAlgorithm): {
-    name: string;
-    description: string;
-    complexity: 'Low' | 'Medium' | 'High';
-    performance: 'Good' | 'Better' | 'Best';
-    parameters: string[];
-  } {
-    const algorithms = {
-      'belief-propagation': {
-        name: '置信传播',
-        description: '基于消息传递的软判决迭代解码算法',
-        complexity: 'High' as const,
-        performance: 'Best' as const,
-        parameters: ['maxIterations', 'damping', 'earlyTermination']
-      },
-      'min-sum': {
-        name: 'Min-Sum',
-        description: '置信传播的简化版本，计算复杂度较低',
-        complexity: 'Medium' as const,
-        performance: 'Better' as const,
-        parameters: ['maxIterations', 'scalingFactor', 'earlyTermination']
-      },
-      'sum-product': {
-        name: 'Sum-Product',
-        description: '和积算法，与置信传播等价',
-        complexity: 'High' as const,
-        performance: 'Best' as const,
-        parameters: ['maxIterations', 'earlyTermination']
-      },
-      'gallager-a': {
-        name: 'Gallager-A',
-        description: '基于可靠性加权投票的实用解码算法',
-        complexity: 'Low' as const,
-        performance: 'Good' as const,
-        parameters: ['maxIterations', 'earlyTermination']
-      },
-      'gallager-b': {
-        name: 'Gallager-B',
-        description: '基于自适应阈值的增强投票算法',
-        complexity: 'Low' as const,
-        performance: 'Better' as const,
-        parameters: ['maxIterations', 'earlyTermination']
-      },
-      'layered': {
-        name: '分层解码',
-        description: '按层序列处理的高效Min-Sum算法',
-        complexity: 'Medium' as const,
-        performance: 'Better' as const,
-        parameters: ['maxIterations', 'scalingFactor', 'earlyTermination']
-      }
-    };
-
-    return algorithms[algorithm];
-  }
-  
   // Helper method to estimate error pattern based on syndrome
   private static estimateErrorPattern(
     decoded: number[], 
-    H: number[][], 
+    H: SparseParityCheck, 
     syndrome: number[], 
     reliability: number[]
   ): number[] {
     const n = decoded.length;
-    const m = H.length;
     const errorLikelihood = Array(n).fill(0);
     
     for (let j = 0; j < n; j++) {
+      const totalChecks = H.colPtr[j + 1] - H.colPtr[j];
       let unsatisfiedChecks = 0;
-      let totalChecks = 0;
       
-      for (let i = 0; i < m; i++) {
-        if (H[i][j] === 1) {
-          totalChecks++;
-          if (syndrome[i] === 1) {
-            unsatisfiedChecks++;
-          }
+      for (let p = H.colPtr[j]; p < H.colPtr[j + 1]; p++) {
+        if (syndrome[H.rowIdx[p]] === 1) {
+          unsatisfiedChecks++;
         }
       }
       
@@ -998,7 +1012,7 @@ export class DecodingService {
   // Helper method to find the least reliable bit for perturbation
   private static findLeastReliableBit(
     decoded: number[], 
-    H: number[][], 
+    H: SparseParityCheck, 
     reliability: number[]
   ): number {
     let minReliability = Infinity;
@@ -1010,15 +1024,12 @@ export class DecodingService {
     if (syndromeWeight === 0) return -1; // Already valid
     
     for (let j = 0; j < decoded.length; j++) {
+      const totalChecks = H.colPtr[j + 1] - H.colPtr[j];
       let involvedInErrors = 0;
-      let totalChecks = 0;
       
-      for (let i = 0; i < H.length; i++) {
-        if (H[i][j] === 1) {
-          totalChecks++;
-          if (syndrome[i] === 1) {
-            involvedInErrors++;
-          }
+      for (let p = H.colPtr[j]; p < H.colPtr[j + 1]; p++) {
+        if (syndrome[H.rowIdx[p]] === 1) {
+          involvedInErrors++;
         }
       }
       
@@ -1035,4 +1046,92 @@ export class DecodingService {
     
     return worstBitIndex;
   }
-}
\ No newline at end of file
+}
+
+const { maxIterations, scalingFactor, damping, earlyTermination } = DECODER_PARAMETERS;
+const quantizedMinSum = ({ llr, channelBits, H, config }: DecoderInput) =>
+  QuantizedDecodingService.decode(llr, channelBits, H, config);
+
+// Built-in flooding / layered message-passing and bit-flipping decoders
+DecoderRegistry.register(
+  {
+    id: 'belief-propagation',
+    name: 'Belief Propagation',
+    description: 'Soft-decision iterative decoding algorithm based on message passing, optimal performance but high complexity',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, damping, earlyTermination],
+    softOutput: true,
+    decode: ({ received, H, config }) => DecodingService.beliefPropagationDecoding(received, H, config)
+  },
+  {
+    id: 'min-sum',
+    name: 'Min-Sum',
+    description: 'Simplified version of belief propagation, lower computational complexity, slightly reduced performance',
+    family: 'soft',
+    complexity: 'Medium',
+    performance: 'Good',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, scalingFactor, earlyTermination],
+    softOutput: true,
+    decode: ({ received, H, config }) => DecodingService.minSumDecoding(received, H, config),
+    decodeQuantized: quantizedMinSum
+  },
+  {
+    id: 'sum-product',
+    name: 'Sum-Product',
+    description: 'Sum-product algorithm, equivalent to belief propagation, suitable for probability calculations',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, damping, earlyTermination],
+    softOutput: true,
+    decode: ({ received, H, config }) => DecodingService.sumProductDecoding(received, H, config)
+  },
+  {
+    id: 'gallager-a',
+    name: 'Gallager-A',
+    description: 'Hard decision decoding algorithm based on majority decision, simple implementation',
+    family: 'hard',
+    complexity: 'Low',
+    performance: 'Fair',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh'],
+    parameters: [maxIterations, earlyTermination],
+    softOutput: false,
+    decode: ({ received, H, config }) => DecodingService.gallagerADecoding(received, H, config)
+  },
+  {
+    id: 'gallager-b',
+    name: 'Gallager-B',
+    description: 'Enhanced version of Gallager-A, includes threshold decision',
+    family: 'hard',
+    complexity: 'Low',
+    performance: 'Fair',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh'],
+    parameters: [maxIterations, earlyTermination],
+    softOutput: false,
+    decode: ({ received, H, config }) => DecodingService.gallagerBDecoding(received, H, config)
+  },
+  {
+    id: 'layered',
+    name: 'Layered Decoding',
+    description: 'Efficient decoding algorithm with layer-wise processing, fast convergence',
+    family: 'soft',
+    complexity: 'Medium',
+    performance: 'Good',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, scalingFactor, earlyTermination],
+    softOutput: true,
+    decode: ({ received, H, config }) => DecodingService.layeredDecoding(received, H, config),
+    decodeQuantized: quantizedMinSum
+  }
+);
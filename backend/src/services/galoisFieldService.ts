@@ -0,0 +1,82 @@
+// GF(2^p) 有限域：元素用 0..q-1 的整数表示（多项式基，第 t 位为 x^t 的系数），加法为异或
+export interface GaloisField {
+  p: number;
+  q: number;
+  polynomial: number;  // 本原多项式（含最高次项）
+  exp: Int32Array;     // exp[i] = α^i，长度 2(q-1)，乘法查表时免去取模
+  log: Int32Array;     // log[α^i] = i，log[0] 无意义（-1）
+}
+
+export class GaloisFieldService {
+
+  static readonly MAX_EXTENSION_DEGREE = 8;
+
+  // 各扩展次数的本原多项式
+  private static readonly PRIMITIVE_POLYNOMIALS: Record<number, number> = {
+    1: 0b11,
+    2: 0b111,
+    3: 0b1011,
+    4: 0b10011,
+    5: 0b100101,
+    6: 0b1000011,
+    7: 0b10001001,
+    8: 0b100011101
+  };
+
+  private static cache = new Map<number, GaloisField>();
+
+  static field(p: number): GaloisField {
+    if (!Number.isInteger(p) || p < 1 || p > this.MAX_EXTENSION_DEGREE) {
+      throw new Error(`扩展次数 p 必须是 1-${this.MAX_EXTENSION_DEGREE} 之间的整数`);
+    }
+    const cached = this.cache.get(p);
+    if (cached) return cached;
+
+    const q = 1 << p;
+    const polynomial = this.PRIMITIVE_POLYNOMIALS[p];
+    const exp = new Int32Array(2 * (q - 1));
+    const log = new Int32Array(q).fill(-1);
+    let value = 1;
+    for (let i = 0; i < q - 1; i++) {
+      exp[i] = value;
+      exp[i + q - 1] = value;
+      log[value] = i;
+      value <<= 1;
+      if (value & q) value ^= polynomial;
+    }
+
+    const field: GaloisField = { p, q, polynomial, exp, log };
+    this.cache.set(p, field);
+    return field;
+  }
+
+  static add(a: number, b: number): number {
+    return a ^ b;
+  }
+
+  static multiply(field: GaloisField, a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+    return field.exp[field.log[a] + field.log[b]];
+  }
+
+  static inverse(field: GaloisField, a: number): number {
+    if (a === 0) throw new Error('GF(q) 中 0 没有乘法逆元');
+    return field.exp[(field.q - 1 - field.log[a]) % (field.q - 1)];
+  }
+
+  static divide(field: GaloisField, a: number, b: number): number {
+    return this.multiply(field, a, this.inverse(field, b));
+  }
+
+  // 完整的加法/乘法表（q ≤ 256，供前端展示与核对）
+  static tables(p: number): { q: number; polynomial: number; addition: number[][]; multiplication: number[][] } {
+    const field = this.field(p);
+    const elements = Array.from({ length: field.q }, (_, a) => a);
+    return {
+      q: field.q,
+      polynomial: field.polynomial,
+      addition: elements.map(a => elements.map(b => a ^ b)),
+      multiplication: elements.map(a => elements.map(b => this.multiply(field, a, b)))
+    };
+  }
+}
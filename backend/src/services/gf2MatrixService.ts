@@ -0,0 +1,280 @@
+import { PackedGF2Matrix, SparseParityCheck } from '../types';
+
+export class GF2MatrixService {
+
+  static create(rows: number, cols: number): PackedGF2Matrix {
+    const words = (cols + 31) >>> 5;
+    return {
+      rows,
+      cols,
+      data: Array.from({ length: rows }, () => new Uint32Array(words))
+    };
+  }
+
+  static identity(size: number): PackedGF2Matrix {
+    const I = this.create(size, size);
+    for (let i = 0; i < size; i++) {
+      this.setBit(I.data[i], i, 1);
+    }
+    return I;
+  }
+
+  static fromDense(matrix: number[][]): PackedGF2Matrix {
+    const rows = matrix.length;
+    const cols = matrix[0]?.length || 0;
+    const P = this.create(rows, cols);
+    for (let i = 0; i < rows; i++) {
+      const row = matrix[i];
+      const packed = P.data[i];
+      for (let j = 0; j < cols; j++) {
+        if (row[j] & 1) {
+          packed[j >>> 5] |= 1 << (j & 31);
+        }
+      }
+    }
+    return P;
+  }
+
+  static fromSparse(S: SparseParityCheck): PackedGF2Matrix {
+    const P = this.create(S.m, S.n);
+    for (let i = 0; i < S.m; i++) {
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        this.setBit(P.data[i], S.colIdx[e], 1);
+      }
+    }
+    return P;
+  }
+
+  static toDense(P: PackedGF2Matrix): number[][] {
+    return P.data.map(row => this.rowToArray(row, P.cols));
+  }
+
+  static rowToArray(row: Uint32Array, cols: number): number[] {
+    const result = Array(cols).fill(0);
+    for (let j = 0; j < cols; j++) {
+      result[j] = (row[j >>> 5] >>> (j & 31)) & 1;
+    }
+    return result;
+  }
+
+  static clone(P: PackedGF2Matrix): PackedGF2Matrix {
+    return { rows: P.rows, cols: P.cols, data: P.data.map(row => row.slice()) };
+  }
+
+  static getBit(row: Uint32Array, j: number): number {
+    return (row[j >>> 5] >>> (j & 31)) & 1;
+  }
+
+  static setBit(row: Uint32Array, j: number, value: number): void {
+    if (value & 1) {
+      row[j >>> 5] |= 1 << (j & 31);
+    } else {
+      row[j >>> 5] &= ~(1 << (j & 31));
+    }
+  }
+
+  // target ^= source，从第 fromWord 个字开始（消元时主元左侧均为0，可跳过）
+  static xorRow(target: Uint32Array, source: Uint32Array, fromWord: number = 0): void {
+    for (let w = fromWord; w < target.length; w++) {
+      target[w] ^= source[w];
+    }
+  }
+
+  // 高斯-约旦消元，返回行最简形（不修改输入）、主元列与秩
+  static rref(P: PackedGF2Matrix, maxColumn: number = P.cols): {
+    rref: PackedGF2Matrix;
+    pivotColumns: number[];
+    rank: number;
+  } {
+    const R = this.clone(P);
+    const pivotColumns: number[] = [];
+    let currentRow = 0;
+
+    for (let col = 0; col < maxColumn && currentRow < R.rows; col++) {
+      const word = col >>> 5;
+      const bit = col & 31;
+
+      let pivotRow = -1;
+      for (let row = currentRow; row < R.rows; row++) {
+        if ((R.data[row][word] >>> bit) & 1) {
+          pivotRow = row;
+          break;
+        }
+      }
+      if (pivotRow === -1) continue;
+
+      if (pivotRow !== currentRow) {
+        const temp = R.data[currentRow];
+        R.data[currentRow] = R.data[pivotRow];
+        R.data[pivotRow] = temp;
+      }
+
+      const pivot = R.data[currentRow];
+      for (let row = 0; row < R.rows; row++) {
+        if (row !== currentRow && ((R.data[row][word] >>> bit) & 1)) {
+          this.xorRow(R.data[row], pivot, word);
+        }
+      }
+
+      pivotColumns.push(col);
+      currentRow++;
+    }
+
+    return { rref: R, pivotColumns, rank: pivotColumns.length };
+  }
+
+  static rank(P: PackedGF2Matrix): number {
+    return this.rref(P).rank;
+  }
+
+  // 零空间基：每个自由列对应一个基向量，自由列位置构成单位矩阵（即系统形 G）
+  static nullSpace(P: PackedGF2Matrix): { basis: PackedGF2Matrix; freeColumns: number[]; pivotColumns: number[] } {
+    const { rref, pivotColumns } = this.rref(P);
+    const isPivot = new Uint8Array(P.cols);
+    pivotColumns.forEach(col => { isPivot[col] = 1; });
+
+    const freeColumns: number[] = [];
+    for (let j = 0; j < P.cols; j++) {
+      if (!isPivot[j]) freeColumns.push(j);
+    }
+
+    const basis = this.create(freeColumns.length, P.cols);
+    freeColumns.forEach((freeCol, i) => {
+      const vector = basis.data[i];
+      this.setBit(vector, freeCol, 1);
+      pivotColumns.forEach((pivotCol, r) => {
+        if (this.getBit(rref.data[r], freeCol)) {
+          this.setBit(vector, pivotCol, 1);
+        }
+      });
+    });
+
+    return { basis, freeColumns, pivotColumns };
+  }
+
+  // 方阵求逆，奇异时返回 null
+  static inverse(P: PackedGF2Matrix): PackedGF2Matrix | null {
+    if (P.rows !== P.cols) {
+      throw new Error(`Cannot invert a non-square ${P.rows}x${P.cols} matrix`);
+    }
+    const size = P.rows;
+    const augmented = this.create(size, 2 * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        if (this.getBit(P.data[i], j)) this.setBit(augmented.data[i], j, 1);
+      }
+      this.setBit(augmented.data[i], size + i, 1);
+    }
+
+    const { rref, rank } = this.rref(augmented, size);
+    if (rank < size) return null;
+    return this.sliceColumns(rref, size, 2 * size);
+  }
+
+  // 矩阵乘法 A·B：对 A 每行中值为1的位置累加（异或）B 的对应行
+  static multiply(A: PackedGF2Matrix, B: PackedGF2Matrix): PackedGF2Matrix {
+    if (A.cols !== B.rows) {
+      throw new Error(`Dimension mismatch: ${A.rows}x${A.cols} · ${B.rows}x${B.cols}`);
+    }
+    const C = this.create(A.rows, B.cols);
+    for (let i = 0; i < A.rows; i++) {
+      const row = A.data[i];
+      for (let w = 0; w < row.length; w++) {
+        let word = row[w];
+        while (word !== 0) {
+          const bit = 31 - Math.clz32(word & -word);
+          this.xorRow(C.data[i], B.data[(w << 5) + bit]);
+          word &= word - 1;
+        }
+      }
+    }
+    return C;
+  }
+
+  // A·B^T：每个元素为两行按位与后的奇偶校验，用于验证 H·G^T = 0
+  static multiplyTransposed(A: PackedGF2Matrix, B: PackedGF2Matrix): PackedGF2Matrix {
+    if (A.cols !== B.cols) {
+      throw new Error(`Dimension mismatch: ${A.rows}x${A.cols} · (${B.rows}x${B.cols})^T`);
+    }
+    const C = this.create(A.rows, B.rows);
+    for (let i = 0; i < A.rows; i++) {
+      for (let j = 0; j < B.rows; j++) {
+        if (this.dot(A.data[i], B.data[j])) {
+          this.setBit(C.data[i], j, 1);
+        }
+      }
+    }
+    return C;
+  }
+
+  // 行向量乘矩阵 u·G，用于编码
+  static multiplyVector(vector: number[], P: PackedGF2Matrix): number[] {
+    const result = new Uint32Array((P.cols + 31) >>> 5);
+    for (let i = 0; i < P.rows; i++) {
+      if (vector[i] & 1) this.xorRow(result, P.data[i]);
+    }
+    return this.rowToArray(result, P.cols);
+  }
+
+  static dot(a: Uint32Array, b: Uint32Array): number {
+    let x = 0;
+    for (let w = 0; w < a.length; w++) {
+      x ^= a[w] & b[w];
+    }
+    x ^= x >>> 16;
+    x ^= x >>> 8;
+    x ^= x >>> 4;
+    return (0x6996 >>> (x & 0xf)) & 1;
+  }
+
+  // 汉明重量（逐字 popcount）
+  static weight(row: Uint32Array): number {
+    let count = 0;
+    for (let w = 0; w < row.length; w++) {
+      let x = row[w];
+      x = x - ((x >>> 1) & 0x55555555);
+      x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+      count += Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+    }
+    return count;
+  }
+
+  static isZero(P: PackedGF2Matrix): boolean {
+    return P.data.every(row => row.every(word => word === 0));
+  }
+
+  // 求解 A·x = b；不相容时 consistent 为 false，自由变量取0
+  static solve(A: PackedGF2Matrix, b: number[]): { solution: number[]; consistent: boolean } {
+    const augmented = this.create(A.rows, A.cols + 1);
+    for (let i = 0; i < A.rows; i++) {
+      augmented.data[i].set(A.data[i]);
+      this.setBit(augmented.data[i], A.cols, b[i]);
+    }
+
+    const { rref, pivotColumns } = this.rref(augmented, A.cols);
+    const solution = Array(A.cols).fill(0);
+    pivotColumns.forEach((pivotCol, r) => {
+      solution[pivotCol] = this.getBit(rref.data[r], A.cols);
+    });
+
+    let consistent = true;
+    for (let r = pivotColumns.length; r < rref.rows; r++) {
+      if (this.getBit(rref.data[r], A.cols)) {
+        consistent = false;
+        break;
+      }
+    }
+
+    return { solution, consistent };
+  }
+
+  static sliceColumns(P: PackedGF2Matrix, start: number, end: number): PackedGF2Matrix {
+    const S = this.create(P.rows, end - start);
+    for (let i = 0; i < P.rows; i++) {
+      for (let j = start; j < end; j++) {
+        if (this.getBit(P.data[i], j)) this.setBit(S.data[i], j - start, 1);
+      }
+    }
+    return S;
+  }
+}
@@ -1,49 +1,23 @@
 import { create, all } from 'mathjs';
-import { LDPCGraph, MatrixGenerationResult, EncodingResult, DecodingResult, MatrixAnalysisResult, MatrixValidationResult } from '../types';
+import { LDPCGraph, GraphNode, MatrixGenerationResult, EncodingResult, MatrixAnalysisResult, MatrixValidationResult, SparseParityCheck, EncodingMethod, ParityStructure, ParityStructureAnalysis, MinimumDistanceResult, ALTEncoder } from '../types';
+import { SparseMatrixService, ParityCheckInput } from './sparseMatrixService';
+import { GF2MatrixService } from './gf2MatrixService';
+import { ALTEncoderService } from './altEncoderService';
+import { AnalysisService } from './analysisService';
 
 const math = create(all);
 
 export class LDPCService {
+
+  // 生成矩阵时的最小距离搜索预算；更长的搜索使用 /api/matrix/min-distance
+  private static readonly MIN_DISTANCE_TIME_LIMIT_MS = 200;
   
   static generateMatricesFromGraph(graph: LDPCGraph): MatrixGenerationResult {
     try {
       console.log('接收到的图形数据:', JSON.stringify(graph, null, 2));
       
       // 过滤并排序节点，确保一致的顺序
-      const bitNodes = graph.nodes
-        .filter(n => n.type === 'bit')
-        .sort((a, b) => {
-          // 优先按照标签排序，如果没有标签则按ID排序
-          const labelA = a.label || a.id;
-          const labelB = b.label || b.id;
-          
-          // 如果标签是 B1, B2 格式，按数字排序
-          const matchA = labelA.match(/^[BC](\d+)$/);
-          const matchB = labelB.match(/^[BC](\d+)$/);
-          
-          if (matchA && matchB) {
-            return parseInt(matchA[1]) - parseInt(matchB[1]);
-          }
-          
-          return labelA.localeCompare(labelB);
-        });
-      
-      const checkNodes = graph.nodes
-        .filter(n => n.type === 'check')
-        .sort((a, b) => {
-          const labelA = a.label || a.id;
-          const labelB = b.label || b.id;
-          
-          // 如果标签是 C1, C2 格式，按数字排序
-          const matchA = labelA.match(/^[BC](\d+)$/);
-          const matchB = labelB.match(/^[BC](\d+)$/);
-          
-          if (matchA && matchB) {
-            return parseInt(matchA[1]) - parseInt(matchB[1]);
-          }
-          
-          return labelA.localeCompare(labelB);
-        });
+      const { bitNodes, checkNodes } = this.orderGraphNodes(graph);
       
       console.log('排序后的比特节点:', bitNodes.map(n => ({ id: n.id, label: n.label, index: bitNodes.indexOf(n) })));
       console.log('排序后的校验节点:', checkNodes.map(n => ({ id: n.id, label: n.label, index: checkNodes.indexOf(n) })));
@@ -79,28 +53,11 @@ export class LDPCService {
         };
       }
 
-      // 初始化H矩阵
-      const H: number[][] = Array(m).fill(null).map(() => Array(n).fill(0));
-
-      // 构建H矩阵 - 基于edges连接关系
+      // 构建H矩阵 - 基于edges连接关系，先建立稀疏邻接再展开为稠密形式
       console.log('\n=== 开始构建H矩阵 ===');
-      let connectionCount = 0;
-      
-      bitNodes.forEach((bitNode, bitIndex) => {
-        checkNodes.forEach((checkNode, checkIndex) => {
-          // 检查是否存在连接
-          const hasConnection = graph.edges.some(edge => 
-            (edge.source === bitNode.id && edge.target === checkNode.id) ||
-            (edge.source === checkNode.id && edge.target === bitNode.id)
-          );
-          
-          if (hasConnection) {
-            H[checkIndex][bitIndex] = 1;
-            connectionCount++;
-            console.log(`连接 ${connectionCount}: ${bitNode.label || bitNode.id} <-> ${checkNode.label || checkNode.id} => H[${checkIndex}][${bitIndex}] = 1`);
-          }
-        });
-      });
+      const { parityCheck } = this.buildSparseParityCheck(graph);
+      const H = SparseMatrixService.toDense(parityCheck);
+      const connectionCount = SparseMatrixService.edgeCount(parityCheck);
       
       console.log(`总连接数: ${connectionCount}`);
 
@@ -135,8 +92,9 @@ export class LDPCService {
         };
       }
       
-      const minDistance = this.calculateMinimumDistance(H, G);
-      console.log('计算的最小距离:', minDistance);
+      const minDistanceAnalysis = this.calculateMinimumDistance(H, G);
+      const minDistance = minDistanceAnalysis.minDistance;
+      console.log('计算的最小距离:', minDistance, `(${minDistanceAnalysis.status})`);
       
       // 验证 H * G^T = 0
       const isValid = this.verifyGeneratorMatrix(H, G);
@@ -156,6 +114,7 @@ export class LDPCService {
         n,
         k,
         minDistance,
+        minDistanceAnalysis,
         isValid: isValid || isValidRelaxed,  // 使用宽松验证
         columnPermutation // 添加列置换信息
       };
@@ -183,6 +142,55 @@ export class LDPCService {
     }
   }
 
+  // 按标签排序比特节点和校验节点，H矩阵的行列顺序以此为准
+  static orderGraphNodes(graph: LDPCGraph): { bitNodes: GraphNode[]; checkNodes: GraphNode[] } {
+    const compareByLabel = (a: GraphNode, b: GraphNode) => {
+      // 优先按照标签排序，如果没有标签则按ID排序
+      const labelA = a.label || a.id;
+      const labelB = b.label || b.id;
+      
+      // 如果标签是 B1, B2 / C1, C2 格式，按数字排序
+      const matchA = labelA.match(/^[BC](\d+)$/);
+      const matchB = labelB.match(/^[BC](\d+)$/);
+      
+      if (matchA && matchB) {
+        return parseInt(matchA[1]) - parseInt(matchB[1]);
+      }
+      
+      return labelA.localeCompare(labelB);
+    };
+    
+    return {
+      bitNodes: graph.nodes.filter(n => n.type === 'bit').sort(compareByLabel),
+      checkNodes: graph.nodes.filter(n => n.type === 'check').sort(compareByLabel)
+    };
+  }
+
+  // 根据图的连接关系构建稀疏校验矩阵，重复边只计一次
+  static buildSparseParityCheck(graph: LDPCGraph): { parityCheck: SparseParityCheck; bitNodes: GraphNode[]; checkNodes: GraphNode[] } {
+    const { bitNodes, checkNodes } = this.orderGraphNodes(graph);
+    const bitIndex = new Map(bitNodes.map((node, index) => [node.id, index]));
+    const checkIndex = new Map(checkNodes.map((node, index) => [node.id, index]));
+    const rows: number[][] = checkNodes.map(() => []);
+    
+    for (const edge of graph.edges) {
+      const j = bitIndex.get(edge.source) ?? bitIndex.get(edge.target);
+      const i = checkIndex.get(edge.source) ?? checkIndex.get(edge.target);
+      if (i !== undefined && j !== undefined) {
+        rows[i].push(j);
+      }
+    }
+    
+    const parityCheck = SparseMatrixService.fromRows(checkNodes.length, bitNodes.length, rows);
+    return { parityCheck, bitNodes, checkNodes };
+  }
+
+  // 仅根据图的连接关系构建H矩阵（不生成G矩阵）
+  static buildParityCheckMatrix(graph: LDPCGraph): { H: number[][]; bitNodes: GraphNode[]; checkNodes: GraphNode[] } {
+    const { parityCheck, bitNodes, checkNodes } = this.buildSparseParityCheck(graph);
+    return { H: SparseMatrixService.toDense(parityCheck), bitNodes, checkNodes };
+  }
+
   private static generateGeneratorMatrix(H: number[][], n: number, k: number): number[][] {
     try {
       const m = H.length;
@@ -239,51 +247,26 @@ export class LDPCService {
       console.log('🔧 [系统形] 开始生成系统形G矩阵');
       const m = H.length;
       
-      // 使用高斯-约旦消元将H矩阵转换为行最简形
-      const { rref, pivotColumns } = this.toReducedRowEchelonForm(H);
+      // 使用按位压缩的高斯-约旦消元得到行最简形，非主元列(自由变量列)即信息位
+      const { basis, freeColumns, pivotColumns } = GF2MatrixService.nullSpace(GF2MatrixService.fromDense(H));
       console.log('🔧 [系统形] RREF转换完成，主元列:', pivotColumns);
       
       // 检查矩阵是否有足够的秩
-      const rank = this.getRankFromRREF(rref);
+      const rank = pivotColumns.length;
       console.log('🔧 [系统形] 矩阵秩:', rank, '期望:', m);
       if (rank !== m) {
         console.log('❌ [系统形] 矩阵秩不足，无法生成系统形');
         return [];
       }
       
-      // 找到非主元列(自由变量列)
-      const freeColumns = [];
-      for (let j = 0; j < n; j++) {
-        if (!pivotColumns.includes(j)) {
-          freeColumns.push(j);
-        }
-      }
-      
       console.log('🔧 [系统形] 自由列(信息位):', freeColumns, '数量:', freeColumns.length, '期望:', k);
       if (freeColumns.length !== k) {
         console.log('❌ [系统形] 自由列数量不匹配');
         return [];
       }
       
-      // 构造系统形生成矩阵 G = [I_k | P^T]
-      const G = [];
-      for (let i = 0; i < k; i++) {
-        const row = Array(n).fill(0);
-        
-        // 设置信息位部分为单位矩阵
-        const infoCol = freeColumns[i];
-        row[infoCol] = 1;
-        
-        // 根据RREF计算校验位
-        for (let pivotIdx = 0; pivotIdx < pivotColumns.length; pivotIdx++) {
-          const pivotCol = pivotColumns[pivotIdx];
-          if (pivotCol < n && rref[pivotIdx] && rref[pivotIdx][infoCol]) {
-            row[pivotCol] = rref[pivotIdx][infoCol];
-          }
-        }
-        
-        G.push(row);
-      }
+      // 系统形生成矩阵 G = [I_k | P^T]：信息位列为单位矩阵，校验位由RREF读出
+      const G = GF2MatrixService.toDense(basis);
       
       console.log('✅ [系统形] 成功生成系统形G矩阵:', G.length, 'x', G[0]?.length);
       return G;
@@ -314,59 +297,13 @@ export class LDPCService {
 
   // 改进的零空间计算
   private static computeImprovedNullSpace(H: number[][], k: number): number[][] {
-    const { rref, pivotColumns } = this.toReducedRowEchelonForm(H);
-    const n = H[0].length;
-    const m = H.length;
-    
-    // 找到自由变量列
-    const freeColumns = [];
-    for (let j = 0; j < n; j++) {
-      if (!pivotColumns.includes(j)) {
-        freeColumns.push(j);
-      }
-    }
+    const { basis, freeColumns } = GF2MatrixService.nullSpace(GF2MatrixService.fromDense(H));
     
     if (freeColumns.length !== k) {
       return [];
     }
     
-    const nullSpaceBasis = [];
-    
-    // 为每个自由变量生成一个基向量
-    for (let i = 0; i < k; i++) {
-      const basisVector = Array(n).fill(0);
-      const freeCol = freeColumns[i];
-      
-      // 设置自由变量为1
-      basisVector[freeCol] = 1;
-      
-      // 根据RREF计算依赖变量的值
-      for (let row = m - 1; row >= 0; row--) {
-        // 找到这一行的主元列
-        let pivotCol = -1;
-        for (let col = 0; col < n; col++) {
-          if (rref[row][col] === 1) {
-            pivotCol = col;
-            break;
-          }
-        }
-        
-        if (pivotCol !== -1) {
-          // 计算主元变量的值
-          let sum = 0;
-          for (let col = pivotCol + 1; col < n; col++) {
-            if (rref[row][col] === 1) {
-              sum ^= basisVector[col]; // GF(2)加法
-            }
-          }
-          basisVector[pivotCol] = sum;
-        }
-      }
-      
-      nullSpaceBasis.push(basisVector);
-    }
-    
-    return nullSpaceBasis;
+    return GF2MatrixService.toDense(basis);
   }
 
   // 验证生成矩阵的正确性
@@ -384,20 +321,9 @@ export class LDPCService {
       return false;
     }
     
-    // 验证 H * G^T = 0 (在GF(2)上)
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < k; j++) {
-        let sum = 0;
-        for (let l = 0; l < n; l++) {
-          sum ^= H[i][l] * G[j][l]; // GF(2)运算
-        }
-        if (sum !== 0) {
-          return false;
-        }
-      }
-    }
-    
-    return true;
+    // 验证 H * G^T = 0 (在GF(2)上)：G 的每一行都必须满足全部校验
+    const parityCheck = SparseMatrixService.fromDense(H);
+    return G.every(row => SparseMatrixService.isCodeword(parityCheck, row));
   }
 
   // 改进的行最简阶梯形式算法
@@ -406,69 +332,8 @@ export class LDPCService {
     pivotColumns: number[];
     columnPermutation?: number[];
   } {
-    const result = matrix.map(row => [...row]);
-    const rows = result.length;
-    const cols = result[0].length;
-    const pivotColumns: number[] = [];
-    
-    let currentRow = 0;
-    
-    for (let col = 0; col < cols && currentRow < rows; col++) {
-      // 寻找主元
-      let pivotRow = -1;
-      for (let row = currentRow; row < rows; row++) {
-        if (result[row][col] === 1) {
-          pivotRow = row;
-          break;
-        }
-      }
-      
-      if (pivotRow === -1) {
-        continue; // 这一列没有主元，跳过
-      }
-      
-      // 交换行
-      if (pivotRow !== currentRow) {
-        [result[currentRow], result[pivotRow]] = [result[pivotRow], result[currentRow]];
-      }
-      
-      pivotColumns.push(col);
-      
-      // 消元（向前和向后）
-      for (let row = 0; row < rows; row++) {
-        if (row !== currentRow && result[row][col] === 1) {
-          for (let k = 0; k < cols; k++) {
-            result[row][k] ^= result[currentRow][k]; // GF(2)运算
-          }
-        }
-      }
-      
-      currentRow++;
-    }
-    
-    return { rref: result, pivotColumns };
-  }
-
-
-
-
-
-  // 获取RREF矩阵的秩
-  private static getRankFromRREF(rref: number[][]): number {
-    let rank = 0;
-    for (let i = 0; i < rref.length; i++) {
-      let hasNonZero = false;
-      for (let j = 0; j < rref[i].length; j++) {
-        if (rref[i][j] === 1) {
-          hasNonZero = true;
-          break;
-        }
-      }
-      if (hasNonZero) {
-        rank++;
-      }
-    }
-    return rank;
+    const { rref, pivotColumns } = GF2MatrixService.rref(GF2MatrixService.fromDense(matrix));
+    return { rref: GF2MatrixService.toDense(rref), pivotColumns };
   }
   
   // 应用列置换
@@ -487,64 +352,16 @@ export class LDPCService {
     return matrix[0].map((_, colIndex) => matrix.map(row => row[colIndex]));
   }
 
-  private static calculateMinimumDistance(H: number[][], G: number[][]): number {
-    if (G.length === 0 || G[0].length === 0) return 0;
-
-    // 首先验证G矩阵的正确性
-    if (!this.verifyGeneratorMatrix(H, G)) {
-      console.warn('G矩阵验证失败，最小距离计算可能不准确');
-      return 0;
-    }
-
-    const k = G.length;
-    const n = G[0].length;
-    
-    // 检查是否只有一个码字（重复码）
-    const allCodewords = [];
-    for (let i = 0; i < Math.pow(2, k); i++) {
-      const info = [];
-      let temp = i;
-      for (let j = 0; j < k; j++) {
-        info.push(temp % 2);
-        temp = Math.floor(temp / 2);
-      }
-
-      const codeword = this.encodeVector(info, G);
-      allCodewords.push(codeword);
+  // 小码给出精确值与重量分布，大码在时间限制内给出上下界（见 AnalysisService）
+  private static calculateMinimumDistance(H: number[][], G: number[][]): MinimumDistanceResult {
+    if (G.length === 0 || G[0].length === 0 || !this.verifyGeneratorMatrix(H, G)) {
+      if (G.length > 0) console.warn('G矩阵验证失败，无法计算最小距离');
+      return AnalysisService.minimumDistanceFromGenerator(GF2MatrixService.create(0, 0));
     }
-    
-    // 如果只有一个唯一的码字，这是重复码
-    const uniqueCodewords = new Set(allCodewords.map(cw => cw.join('')));
-    if (uniqueCodewords.size === 1) {
-      console.log('检测到重复码，只有一个码字');
-      return n; // 重复码的最小距离等于码长
-    }
-    
-    // 对于多个码字的情况，计算最小距离
-    let minDistance = n;
-    const maxCodewords = Math.min(1000, Math.pow(2, Math.min(k, 10)));
-    
-    for (let i = 1; i < maxCodewords; i++) {
-      const info = [];
-      let temp = i;
-      for (let j = 0; j < k; j++) {
-        info.push(temp % 2);
-        temp = Math.floor(temp / 2);
-      }
 
-      const codeword = this.encodeVector(info, G);
-      const weight = codeword.reduce((sum, bit) => sum + bit, 0);
-      
-      if (weight > 0 && weight < minDistance) {
-        minDistance = weight;
-        // 早期终止：如果找到最小可能距离
-        if (minDistance === 1) {
-          break;
-        }
-      }
-    }
-
-    return minDistance;
+    return AnalysisService.minimumDistanceFromGenerator(GF2MatrixService.fromDense(G), {
+      timeLimitMs: this.MIN_DISTANCE_TIME_LIMIT_MS
+    });
   }
 
   // 计算从当前列顺序到系统形的置换映射
@@ -558,7 +375,7 @@ export class LDPCService {
     
     try {
       // 使用高斯消元找到可以构成单位矩阵的列
-      const { rref, pivotColumns } = this.toReducedRowEchelonForm([...H.map(row => [...row])]);
+      const { pivotColumns } = GF2MatrixService.rref(GF2MatrixService.fromDense(H));
       
       console.log('  - 主元列位置:', pivotColumns);
       
@@ -568,9 +385,10 @@ export class LDPCService {
       }
       
       // 构造置换映射：[信息位列 | 校验位列]
+      const isPivot = new Set(pivotColumns);
       const freeColumns = [];
       for (let j = 0; j < n; j++) {
-        if (!pivotColumns.includes(j)) {
+        if (!isPivot.has(j)) {
           freeColumns.push(j);
         }
       }
@@ -602,7 +420,7 @@ export class LDPCService {
     }
   }
 
-  static encode(information: number[], G: number[][], columnPermutation?: number[], H?: number[][], useSystematicEncoding: boolean = true): EncodingResult {
+  static encode(information: number[], G: number[][], columnPermutation?: number[], H?: ParityCheckInput, method: EncodingMethod = 'systematic', parityStructure?: ParityStructure): EncodingResult {
     try {
       if (information.length !== G.length) {
         return {
@@ -624,16 +442,42 @@ export class LDPCService {
       console.log('🔧 [编码] 开始编码验证:');
       console.log(`  - 信息位: [${information.join(',')}]`);
       console.log(`  - G矩阵: ${G.length}×${G[0]?.length || 0}`);
-      console.log(`  - 使用系统形编码: ${useSystematicEncoding}`);
+      console.log(`  - 编码方式: ${method}`);
+
+      // ALT 与双对角编码只需要H，G仅用于上面的长度检查
+      if (method === 'alt' || method === 'dual-diagonal') {
+        if (!H) {
+          return {
+            codeword: [],
+            success: false,
+            error: `${method === 'alt' ? 'ALT' : 'Dual-diagonal'} encoding requires the parity check matrix H`
+          };
+        }
+        return this.encodeFromParityCheck(information, H, method, parityStructure);
+      }
       
       // 优先使用系统形编码（如果有H矩阵且用户选择）
-      if (H && useSystematicEncoding) {
+      if (H && method === 'systematic') {
         console.log('🔧 [编码] 使用系统形编码方法...');
-        const systematicCodeword = this.systematicEncode(information, H);
+        const parityCheck = SparseMatrixService.from(H);
+        // 校验部分可递推时结果与求解 H_p·p = H_u·u 相同，但无需消元
+        const analysis = this.analyzeParityStructure(parityCheck, parityStructure);
+        if (analysis.qualifies) {
+          console.log(`🔧 [编码] 检测到${analysis.structure!.type}结构 (Z=${analysis.structure!.Z})，使用递推编码`);
+          return {
+            codeword: this.encodeWithParityStructure(information, parityCheck, analysis.structure!),
+            success: true,
+            message: 'Systematic encoding successful',
+            method: 'systematic',
+            parityStructure: analysis.structure
+          };
+        }
+        const systematicCodeword = this.systematicEncode(information, parityCheck);
         return {
           codeword: systematicCodeword,
           success: true,
-          message: 'Systematic encoding successful'
+          message: 'Systematic encoding successful',
+          method: 'systematic'
         };
       }
       
@@ -656,16 +500,24 @@ export class LDPCService {
         
         console.log(`  - 系统形码字: [${systematicCodeword.join(',')}]`);
       } else {
-        // 如果没有列置换，尝试强制转换为系统形
-        console.log('🔧 [编码] 尝试强制转换为系统形...');
-        systematicCodeword = this.forceSystematicForm(codeword, information, G);
-        console.log(`  - 强制系统形码字: [${systematicCodeword.join(',')}]`);
+        const analysis = H ? this.analyzeParityStructure(H, parityStructure) : null;
+        if (analysis?.qualifies) {
+          // 校验部分可递推时直接得到系统形码字，无需强制转换
+          console.log(`🔧 [编码] 使用${analysis.structure!.type}结构递推得到系统形码字`);
+          systematicCodeword = this.encodeWithParityStructure(information, SparseMatrixService.from(H!), analysis.structure!);
+        } else {
+          // 如果没有列置换，尝试强制转换为系统形
+          console.log('🔧 [编码] 尝试强制转换为系统形...');
+          systematicCodeword = this.forceSystematicForm(codeword, information, G);
+          console.log(`  - 强制系统形码字: [${systematicCodeword.join(',')}]`);
+        }
       }
       
       return {
         codeword: systematicCodeword,
         success: true,
-        message: 'Encoding successful'
+        message: 'Encoding successful',
+        method: 'generator'
       };
     } catch (error) {
       console.error('Encoding error:', error);
@@ -677,6 +529,75 @@ export class LDPCService {
     }
   }
 
+  // 不经过G的编码：ALT 由预处理得到信息位位置与 k，双对角/累加结构的 k = n − m。
+  // 信息位长度不符时返回的结果带有 k，供调用方报告期望长度
+  static encodeFromParityCheck(information: number[], H: ParityCheckInput, method: 'alt' | 'dual-diagonal', parityStructure?: ParityStructure): EncodingResult {
+    const parityCheck = SparseMatrixService.from(H);
+    const lengthError = (k: number): EncodingResult | null => information.length === k ? null : {
+      codeword: [],
+      success: false,
+      error: `Expected ${k} information bits, but got ${information.length}`,
+      method,
+      k
+    };
+
+    // ALT 编码：预处理H为近似下三角形式（按H缓存），校验位通过前向代入求出
+    if (method === 'alt') {
+      let encoder: ALTEncoder;
+      try {
+        encoder = ALTEncoderService.encoderFor(parityCheck);
+      } catch (error) {
+        console.log(`❌ [编码] ALT预处理失败: ${(error as Error).message}`);
+        return {
+          codeword: [],
+          success: false,
+          error: (error as Error).message,
+          method
+        };
+      }
+      const mismatch = lengthError(encoder.k);
+      if (mismatch) return mismatch;
+      const codeword = ALTEncoderService.encode(encoder, information);
+      const valid = SparseMatrixService.isCodeword(parityCheck, codeword);
+      return {
+        codeword,
+        success: valid,
+        message: valid ? 'ALT encoding successful' : 'ALT encoding produced an invalid codeword',
+        method,
+        k: encoder.k,
+        informationPositions: encoder.informationColumns,
+        gap: encoder.gap
+      };
+    }
+
+    // 双对角/累加结构：直接由H逐行递推校验位，不满足结构时报告原因
+    const analysis = this.analyzeParityStructure(parityCheck, parityStructure);
+    if (!analysis.qualifies) {
+      console.log(`❌ [编码] 不满足双对角结构: ${analysis.reason}`);
+      return {
+        codeword: [],
+        success: false,
+        error: analysis.reason,
+        method
+      };
+    }
+    const k = parityCheck.n - parityCheck.m;
+    const mismatch = lengthError(k);
+    if (mismatch) return mismatch;
+    const codeword = this.encodeWithParityStructure(information, parityCheck, analysis.structure!);
+    const valid = SparseMatrixService.isCodeword(parityCheck, codeword);
+    return {
+      codeword,
+      success: valid,
+      message: valid
+        ? `Dual-diagonal encoding successful (${analysis.structure!.type}, Z=${analysis.structure!.Z})`
+        : 'Dual-diagonal encoding produced an invalid codeword',
+      method,
+      k,
+      parityStructure: analysis.structure
+    };
+  }
+
   // 新增：验证G矩阵是否是标准系统码形式
   private static verifySystematicForm(G: number[][]): void {
     const k = G.length;
@@ -718,24 +639,20 @@ export class LDPCService {
     
     const k = G.length;
     const n = G[0].length;
-    const codeword = Array(n).fill(0);
 
     console.log('🔧 [编码] 开始编码:');
     console.log(`  - 信息位: [${info.join(',')}]`);
     console.log(`  - G矩阵维度: ${k}x${n}`);
     console.log(`  - G矩阵前3行:`, G.slice(0, 3));
 
-    // 矩阵乘法: c = uG (在GF(2)上)
-    for (let i = 0; i < n; i++) {
-      let sum = 0;
-      for (let j = 0; j < k; j++) {
-        sum += info[j] * G[j][i];
-      }
-      codeword[i] = sum % 2; // GF(2) 运算
-      
-      // 调试前几位的计算过程
-      if (i < 5) {
-        console.log(`  - 码字位${i}: sum=${sum}, result=${codeword[i]}`);
+    // 矩阵乘法: c = uG (在GF(2)上)，只需异或信息位为1的G行
+    const codeword = Array(n).fill(0);
+    for (let j = 0; j < k; j++) {
+      if (info[j] === 1) {
+        const row = G[j];
+        for (let i = 0; i < n; i++) {
+          codeword[i] ^= row[i];
+        }
       }
     }
 
@@ -876,768 +793,10 @@ export class LDPCService {
     }
   }
 
-  static decode(
-    received: number[], 
-    H: number[][], 
-    maxIterations: number = 50,
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'gallager-a'
-  ): DecodingResult {
-    console.log('🔧 [后端] LDPC解码服务被调用');
-    console.log('🔧 [后端] 接收数据:', received);
-    console.log('🔧 [后端] 最大迭代次数:', maxIterations);
-    console.log('🔧 [后端] 选择算法:', algorithm);
-    
-    // 调用测试函数分析解码场景
-    this.testDecodingFailure(received, H);
-    
-    try {
-      // 简单验证输入
-      if (!received.every(bit => bit === 0 || bit === 1)) {
-        console.log('❌ [后端] 输入验证失败：数据不是0或1');
-        return {
-          decoded: [...received],
-          success: false,
-          iterations: 0,
-          correctedErrors: 0,
-          message: 'BSC channel input must be 0 or 1'
-        };
-      }
-
-      if (H.length === 0 || H[0].length !== received.length) {
-        console.log('❌ [后端] 输入验证失败：矩阵维度不匹配');
-        return {
-          decoded: [...received],
-          success: false,
-          iterations: 0,
-          correctedErrors: 0,
-          message: 'Parity check matrix dimensions do not match received data'
-        };
-      }
-
-      // 检查是否是重复码
-      const n = H[0].length;
-      const m = H.length;
-      const k = n - m;
-      
-      if (k > 0) {
-        const G = this.generateGeneratorMatrix(H, n, k);
-        if (G.length > 0) {
-          // 检查是否只有一个码字（重复码）
-          const allCodewords = [];
-          for (let i = 0; i < Math.pow(2, k); i++) {
-            const info = [];
-            let temp = i;
-            for (let j = 0; j < k; j++) {
-              info.push(temp % 2);
-              temp = Math.floor(temp / 2);
-            }
-            const codeword = this.encodeVector(info, G);
-            allCodewords.push(codeword);
-          }
-          
-          const uniqueCodewords = new Set(allCodewords.map(cw => cw.join('')));
-          const isRepetitionCode = uniqueCodewords.size === 1;
-          
-          if (isRepetitionCode) {
-            console.log('🔧 [后端] 检测到重复码，使用简单解码策略');
-            // 对于重复码，直接返回唯一的码字
-            const validCodeword = allCodewords[0];
-            const correctedErrors = received.reduce((count, bit, index) => 
-              count + (bit !== validCodeword[index] ? 1 : 0), 0
-            );
-            
-            return {
-              decoded: validCodeword,
-              success: true,
-              iterations: 0,
-              correctedErrors,
-              message: `Repetition code decoding successful, corrected ${correctedErrors} errors`
-            };
-          }
-        }
-      }
-
-      // 检查初始校验子
-      const syndrome = this.calculateSyndrome(received, H);
-      const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-      console.log('🔧 [后端] 初始校验子:', syndrome, '权重:', syndromeWeight);
-      
-      // 估计初始错误程度：通过校验子权重和模式分析
-      const estimatedErrorCount = this.estimateErrorCount(received, H, syndrome);
-      console.log('🔧 [后端] 估计初始错误数:', estimatedErrorCount);
-      
-      if (syndromeWeight === 0) {
-        // 校验子为零就算成功，不强制要求是有效码字
-        console.log('✅ [后端] 校验子为零，解码成功');
-        return {
-          decoded: [...received],
-          success: true,
-          iterations: 0,
-          correctedErrors: 0,
-          message: 'BSC channel: syndrome is zero, decoding successful'
-        };
-      }
-
-      // 根据选择的算法调用不同的解码方法
-      let result: DecodingResult;
-      
-      switch (algorithm) {
-        case 'belief-propagation':
-          console.log('🔧 [后端] 开始信念传播解码...');
-          const bpResult = this.beliefPropagationDecoding(received, H, maxIterations);
-          const bpSyndrome = this.calculateSyndrome(bpResult.decoded, H);
-          const bpSyndromeWeight = bpSyndrome.reduce((sum, bit) => sum + bit, 0);
-          const bpSuccess = bpSyndromeWeight === 0 ? this.isValidCodeword(bpResult.decoded, H, n, k) : false;
-          
-          result = {
-            decoded: bpResult.decoded,
-            success: bpSuccess,
-            iterations: bpResult.iterations,
-            correctedErrors: bpResult.decoded.reduce((count, bit, index) => 
-              count + (bit !== received[index] ? 1 : 0), 0
-            ),
-            message: `Belief propagation decoding ${bpSuccess ? 'successful' : 'failed'}, ${bpResult.iterations} iterations`
-          };
-          break;
-          
-        case 'min-sum':
-          console.log('🔧 [后端] 开始最小和解码...');
-          const msResult = this.minSumDecoding(received, H, maxIterations);
-          const msSyndrome = this.calculateSyndrome(msResult.decoded, H);
-          const msSyndromeWeight = msSyndrome.reduce((sum, bit) => sum + bit, 0);
-          const msSuccess = msSyndromeWeight === 0 ? this.isValidCodeword(msResult.decoded, H, n, k) : false;
-          
-          result = {
-            decoded: msResult.decoded,
-            success: msSuccess,
-            iterations: msResult.iterations,
-            correctedErrors: msResult.decoded.reduce((count, bit, index) => 
-              count + (bit !== received[index] ? 1 : 0), 0
-            ),
-            message: `Min-sum decoding ${msSuccess ? 'successful' : 'failed'}, ${msResult.iterations} iterations`
-          };
-          break;
-          
-        case 'gallager-a':
-        default:
-          console.log('🔧 [后端] 开始Gallager-A解码...');
-          result = this.simpleGallagerA(received, H, maxIterations, estimatedErrorCount);
-          break;
-      }
-      
-      console.log('✅ [后端] 解码完成，结果:', result);
-      return result;
-      
-    } catch (error) {
-      console.error('❌ [后端] 解码过程异常:', error);
-      return {
-        decoded: [...received],
-        success: false,
-        iterations: 0,
-        correctedErrors: 0,
-        message: 'Error occurred during decoding process: ' + (error as Error).message
-      };
-    }
-  }
-
-  // 改进的Gallager-A算法，专门用于BSC信道
-  private static simpleGallagerA(received: number[], H: number[][], maxIterations: number, estimatedErrorCount: number = 0): DecodingResult {
-    const n = received.length;
-    const m = H.length;
-    const k = n - m;
-    let decoded = [...received];
-    
-    console.log('🔧 [后端] 改进Gallager-A算法开始');
-    console.log('🔧 [后端] 码参数: n =', n, ', m =', m, ', k =', k);
-    
-    // 预计算连接关系
-    const bitConnections: number[][] = Array(n).fill(null).map(() => []);
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          bitConnections[j].push(i);
-        }
-      }
-    }
-    
-    let iterationCount = 0;
-    const maxCorrectableErrors = Math.floor((3 - 1) / 2); // 假设最小距离为3
-    
-    // 记录历史状态以检测循环
-    const stateHistory: string[] = [];
-    
-    for (let iter = 0; iter < maxIterations; iter++) {
-      iterationCount = iter + 1;
-      let changedBits = 0;
-      const newDecoded = [...decoded];
-      
-      // 改进的Gallager-A算法：更保守的投票策略
-      for (let j = 0; j < n; j++) {
-        const connectedChecks = bitConnections[j];
-        let externalVotes = { zero: 0, one: 0 };
-        
-        // 来自校验节点的投票（外部信息）
-        for (const checkIndex of connectedChecks) {
-          let parity = 0;
-          // 计算除了当前比特外的其他比特的奇偶性
-          for (let bitIndex = 0; bitIndex < n; bitIndex++) {
-            if (H[checkIndex][bitIndex] === 1 && bitIndex !== j) {
-              parity ^= decoded[bitIndex];
-            }
-          }
-          // 校验节点建议的比特值
-          if (parity === 0) {
-            externalVotes.zero += 1;
-          } else {
-            externalVotes.one += 1;
-          }
-        }
-        
-        // 决策规则：只有当外部投票一致且与接收值不同时才改变
-        let newBit = decoded[j]; // 默认保持当前值
-        
-        if (externalVotes.zero > externalVotes.one) {
-          // 外部投票建议为0
-          if (externalVotes.zero >= 2) { // 至少需要2票才改变（避免单票错误）
-            newBit = 0;
-          }
-        } else if (externalVotes.one > externalVotes.zero) {
-          // 外部投票建议为1
-          if (externalVotes.one >= 2) { // 至少需要2票才改变
-            newBit = 1;
-          }
-        }
-        
-        // 记录变化
-        if (newBit !== decoded[j]) {
-          changedBits++;
-        }
-        newDecoded[j] = newBit;
-      }
-      
-      decoded = newDecoded;
-      
-      // 检查当前校验子
-      const currentSyndrome = this.calculateSyndrome(decoded, H);
-      const currentSyndromeWeight = currentSyndrome.reduce((sum, bit) => sum + bit, 0);
-      
-      console.log(`🔧 [后端] 迭代 ${iterationCount}: 校验子权重 = ${currentSyndromeWeight}, 改变了 ${changedBits} 个比特`);
-      
-      // 收敛条件：校验子为零或权重很小
-      if (currentSyndromeWeight === 0 || currentSyndromeWeight <= 1) {
-        console.log(`✅ [后端] 在第 ${iterationCount} 次迭代收敛`);
-        break;
-      }
-      
-      // 检测循环状态
-      const currentState = decoded.join('');
-      if (stateHistory.includes(currentState)) {
-        console.log(`⚠️ [后端] 第 ${iterationCount} 次迭代检测到循环状态，停止`);
-        break;
-      }
-      stateHistory.push(currentState);
-      
-      // 防止无限循环
-      if (changedBits === 0) {
-        console.log(`⚠️ [后端] 第 ${iterationCount} 次迭代无变化，停止`);
-        break;
-      }
-    }
-    
-    // 如果常规解码失败，尝试简单的错误校正
-    let finalSyndrome = this.calculateSyndrome(decoded, H);
-    let finalSyndromeWeight = finalSyndrome.reduce((sum, bit) => sum + bit, 0);
-    
-    if (finalSyndromeWeight > 0 && finalSyndromeWeight <= 2) {
-      console.log('🔧 [后端] 尝试单比特错误校正...');
-      const correctedResult = this.trySingleBitCorrection(decoded, H, received);
-      if (correctedResult.success) {
-        console.log('✅ [后端] 单比特错误校正成功');
-        decoded = correctedResult.decoded;
-        finalSyndrome = this.calculateSyndrome(decoded, H);
-        finalSyndromeWeight = finalSyndrome.reduce((sum, bit) => sum + bit, 0);
-      }
-    }
-    
-    const isSuccessful = finalSyndromeWeight === 0;
-    
-    // 计算解码器改变的位数（真正的解码操作数）
-    let correctedErrors = 0;
-    for (let i = 0; i < n; i++) {
-      if (received[i] !== decoded[i]) {
-        correctedErrors++;
-      }
-    }
-    
-    console.log('🔧 [后端] 纠错位数计算:');
-    console.log('🔧 [后端] - 接收数据:', received);
-    console.log('🔧 [后端] - 解码结果:', decoded);
-    console.log('🔧 [后端] - 解码器改变的位数:', correctedErrors);
-    
-    console.log('🔧 [后端] 最终结果分析:');
-    console.log('🔧 [后端] - 校验子是否为零:', isSuccessful);
-    console.log('🔧 [后端] - 纠正错误数:', correctedErrors);
-    console.log('🔧 [后端] - 理论纠错能力:', maxCorrectableErrors);
-    console.log('🔧 [后端] - 初始估计错误数:', estimatedErrorCount);
-    
-    // 严格的成功判断逻辑
-    let message = '';
-    let finalSuccess = false;
-    
-    // 首先检查校验子是否为零
-    if (finalSyndromeWeight === 0) {
-      // 校验子为零，进一步验证是否是有效码字
-      finalSuccess = this.isValidCodeword(decoded, H, n, k);
-    }
-    
-    if (finalSuccess) {
-      message = `BSC-Gallager-A decoding successful, flipped ${correctedErrors} bits`;
-    } else {
-      if (finalSyndromeWeight === 0) {
-        message = `BSC-Gallager-A decoding failed: syndrome is zero but result is not a valid codeword`;
-      } else {
-        message = `BSC-Gallager-A decoding failed, ${iterationCount} iterations still have ${finalSyndromeWeight} syndrome errors`;
-      }
-    }
-    
-    console.log('✅ [后端] 解码消息:', message);
-    
-    return {
-      decoded,
-      success: finalSuccess,
-      iterations: iterationCount,
-      correctedErrors,
-      message
-    };
-  }
-  
-  // 单比特错误校正辅助方法
-  private static trySingleBitCorrection(decoded: number[], H: number[][], received: number[]): { success: boolean, decoded: number[] } {
-    const n = decoded.length;
-    const m = H.length;
-    const k = n - m;
-    
-    // 尝试翻转每一个比特，看是否能解决校验子错误
-    for (let i = 0; i < n; i++) {
-      const testDecoded = [...decoded];
-      testDecoded[i] = 1 - testDecoded[i]; // 翻转比特
-      
-      const testSyndrome = this.calculateSyndrome(testDecoded, H);
-      const testSyndromeWeight = testSyndrome.reduce((sum, bit) => sum + bit, 0);
-      
-      if (testSyndromeWeight === 0) {
-        // 校验子为零就算成功，不强制要求是有效码字
-        console.log(`🔧 [后端] 发现通过翻转位置 ${i} 可以校正错误，得到有效码字`);
-        return { success: true, decoded: testDecoded };
-      }
-    }
-    
-    return { success: false, decoded };
-  }
-
-  private static calculateSyndrome(received: number[], H: number[][]): number[] {
-    const m = H.length;
-    const syndrome = Array(m).fill(0);
-
-    for (let i = 0; i < m; i++) {
-      let sum = 0;
-      for (let j = 0; j < received.length; j++) {
-        sum += received[j] * H[i][j];
-      }
-      syndrome[i] = sum % 2;
-    }
-
-    return syndrome;
-  }
-  
-  // 估计接收数据中的错误数量
-  private static estimateErrorCount(received: number[], H: number[][], syndrome: number[]): number {
-    const n = received.length;
-    const m = H.length;
-    
-    // 方法1: 基于校验子权重的简单估计
-    const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-    
-    // 如果校验子为零，首先检查是否真的是无错误
-    if (syndromeWeight === 0) {
-      // 对于重复码，如果接收数据就是唯一的码字，那么确实无错误
-      const k = n - m;
-      if (k > 0) {
-        try {
-          const G = this.generateGeneratorMatrix(H, n, k);
-          if (G.length > 0) {
-            // 检查接收数据是否是有效的码字
-            const allCodewords = [];
-            for (let i = 0; i < Math.pow(2, k); i++) {
-              const info = [];
-              let temp = i;
-              for (let j = 0; j < k; j++) {
-                info.push(temp % 2);
-                temp = Math.floor(temp / 2);
-              }
-              const codeword = this.encodeVector(info, G);
-              allCodewords.push(codeword);
-            }
-            
-            // 检查接收数据是否匹配任何有效码字
-            const receivedStr = received.join('');
-            const isValidCodeword = allCodewords.some(cw => cw.join('') === receivedStr);
-            
-            if (isValidCodeword) {
-              console.log('🔧 [后端] 接收数据是有效码字，估计无错误');
-              return 0; // 确实无错误
-            }
-          }
-        } catch (error) {
-          console.log('🔧 [后端] 码字验证失败，使用启发式估计');
-        }
-      }
-      
-      // 如果无法验证，使用启发式估计
-      const zerosCount = received.filter(bit => bit === 0).length;
-      const onesCount = n - zerosCount;
-      
-      // 如果接收数据极不平衡（全0或全1占主导），可能有多个错误
-      if (zerosCount <= 1 || onesCount <= 1) {
-        return Math.max(3, n - Math.max(zerosCount, onesCount)); // 估计较多错误
-      }
-      
-      return 0; // 可能确实无错误
-    } else {
-      // 基于校验子权重的启发式估计
-      // 通常校验子权重与错误数量呈正相关
-      if (syndromeWeight >= m * 0.7) {
-        return Math.min(n, syndromeWeight + 1); // 高估计
-      } else if (syndromeWeight >= m * 0.4) {
-        return Math.min(3, syndromeWeight); // 中等估计
-      } else {
-        return Math.min(2, syndromeWeight); // 低估计
-      }
-    }
-  }
-
-  private static beliefPropagationDecoding(
-    received: number[], 
-    H: number[][], 
-    maxIterations: number
-  ): { decoded: number[]; iterations: number } {
-    const n = received.length;
-    const m = H.length;
-    
-    // 正确的LLR初始化：bit=0 -> +4, bit=1 -> -4
-    // 这是因为P(bit=0|LLR>0) > P(bit=1|LLR>0)
-    const intrinsicLLR = received.map(bit => bit === 0 ? 4.0 : -4.0);
-    let decoded = [...received];
-    let actualIterations = 0;
-    
-    console.log('🔧 开始信念传播解码');
-    console.log('接收到的数据:', received);
-    console.log('初始LLR:', intrinsicLLR);
-    
-    // 初始化消息数组 - 变量节点到校验节点的消息
-    const varToCheckMsg = Array(m).fill(null).map(() => Array(n).fill(0));
-    // 校验节点到变量节点的消息
-    const checkToVarMsg = Array(m).fill(null).map(() => Array(n).fill(0));
-    
-    // 预计算连接关系以提高效率
-    const checkConnections: number[][] = Array(m).fill(null).map(() => []);
-    const varConnections: number[][] = Array(n).fill(null).map(() => []);
-    
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          checkConnections[i].push(j);
-          varConnections[j].push(i);
-        }
-      }
-    }
-    
-    // 初始化变量节点到校验节点的消息为内在LLR
-    for (let i = 0; i < m; i++) {
-      for (const j of checkConnections[i]) {
-        varToCheckMsg[i][j] = intrinsicLLR[j];
-      }
-    }
-    
-    // 跟踪收敛情况以避免振荡
-    let previousDecoded = [...decoded];
-    let stagnationCount = 0;
-    let previousSyndromeWeight = Infinity;
-    
-    for (let iter = 0; iter < maxIterations; iter++) {
-      actualIterations = iter + 1;
-      
-      // 校验节点更新
-      for (let i = 0; i < m; i++) {
-        const connectedVars = checkConnections[i];
-        
-        for (const j of connectedVars) {
-          let product = 1.0;
-          
-          // 计算除了变量j之外的其他变量的tanh(LLR/2)的乘积
-          for (const k of connectedVars) {
-            if (k !== j) {
-              const tanhVal = Math.tanh(varToCheckMsg[i][k] / 2.0);
-              // 限制tanh值以避免数值问题
-              product *= Math.max(-0.999, Math.min(0.999, tanhVal));
-            }
-          }
-          
-          // 更新校验节点到变量节点的消息
-          if (Math.abs(product) < 0.999) {
-            checkToVarMsg[i][j] = 2.0 * Math.atanh(product);
-          } else {
-            // 处理边界情况
-            checkToVarMsg[i][j] = product > 0 ? 10.0 : -10.0;
-          }
-          
-          // 限制消息幅度以防止数值不稳定
-          checkToVarMsg[i][j] = Math.max(-20.0, Math.min(20.0, checkToVarMsg[i][j]));
-        }
-      }
-      
-      // 变量节点更新
-      for (let j = 0; j < n; j++) {
-        const connectedChecks = varConnections[j];
-        
-        // 计算总的后验LLR
-        let totalLLR = intrinsicLLR[j];
-        for (const i of connectedChecks) {
-          totalLLR += checkToVarMsg[i][j];
-        }
-        
-        // 硬判决
-        decoded[j] = totalLLR < 0 ? 1 : 0;
-        
-        // 更新变量节点到校验节点的消息
-        for (const i of connectedChecks) {
-          varToCheckMsg[i][j] = totalLLR - checkToVarMsg[i][j];
-          // 限制消息幅度
-          varToCheckMsg[i][j] = Math.max(-20.0, Math.min(20.0, varToCheckMsg[i][j]));
-        }
-      }
-      
-      // 检查收敛性和停机条件
-      const syndrome = this.calculateSyndrome(decoded, H);
-      const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-      
-      console.log(`迭代 ${iter + 1}: 校验子权重 = ${syndromeWeight}, 解码结果 = [${decoded.join(', ')}]`);
-      
-      // 成功收敛条件：校验子全零
-      if (syndrome.every(bit => bit === 0)) {
-        console.log(`✅ 在第 ${iter + 1} 次迭代收敛（校验子全零）`);
-        break;
-      }
-      
-      // 检查是否有改进
-      if (syndromeWeight < previousSyndromeWeight) {
-        previousSyndromeWeight = syndromeWeight;
-        stagnationCount = 0;
-      } else if (syndromeWeight === previousSyndromeWeight) {
-        stagnationCount++;
-      }
-      
-      // 检查是否陷入振荡或停滞
-      const decodedEqual = decoded.every((bit, index) => bit === previousDecoded[index]);
-      if (decodedEqual) {
-        stagnationCount++;
-      } else {
-        stagnationCount = Math.max(0, stagnationCount - 1);
-        previousDecoded = [...decoded];
-      }
-      
-      // 如果停滞太久，提前停止
-      if (stagnationCount >= 3 && iter >= 5) {
-        console.log(`⚠️ 检测到停滞（${stagnationCount}次），提前停止`);
-        break;
-      }
-    }
-    
-    console.log(`解码完成，迭代次数: ${actualIterations}`);
-    console.log(`最终解码结果: [${decoded.join(', ')}]`);
-    return { decoded, iterations: actualIterations };
-  }
-
-  // 最小和解码算法
-  private static minSumDecoding(received: number[], H: number[][], maxIterations: number): { decoded: number[]; iterations: number } {
-    const n = received.length;
-    const m = H.length;
-    
-    // 初始化LLR
-    const intrinsicLLR = received.map(bit => bit === 0 ? 4.0 : -4.0);
-    let decoded = [...received];
-    let actualIterations = 0;
-    
-    console.log('🔧 开始最小和解码');
-    console.log('接收到的数据:', received);
-    console.log('初始LLR:', intrinsicLLR);
-    
-    // 预计算连接关系
-    const varConnections: number[][] = Array(n).fill(null).map(() => []);
-    const checkConnections: number[][] = Array(m).fill(null).map(() => []);
-    
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < n; j++) {
-        if (H[i][j] === 1) {
-          varConnections[j].push(i);
-          checkConnections[i].push(j);
-        }
-      }
-    }
-    
-    // 初始化消息
-    const varToCheckMsg = Array(m).fill(null).map(() => Array(n).fill(0));
-    const checkToVarMsg = Array(m).fill(null).map(() => Array(n).fill(0));
-    
-    // 初始化变量节点到校验节点的消息
-    for (let i = 0; i < m; i++) {
-      for (const j of checkConnections[i]) {
-        varToCheckMsg[i][j] = intrinsicLLR[j];
-      }
-    }
-    
-    // 跟踪收敛情况
-    let previousSyndromeWeight = Infinity;
-    let stagnationCount = 0;
-    
-    // 迭代解码
-    for (let iter = 0; iter < maxIterations; iter++) {
-      actualIterations = iter + 1;
-      
-      // 校验节点更新 (最小和算法)
-      for (let i = 0; i < m; i++) {
-        const connectedVars = checkConnections[i];
-        
-        for (const j of connectedVars) {
-          let minLLR = Infinity;
-          let secondMinLLR = Infinity;
-          let minIndex = -1;
-          let sign = 1;
-          
-          // 找到最小和次小的LLR
-          for (const k of connectedVars) {
-            if (k !== j) {
-              const absLLR = Math.abs(varToCheckMsg[i][k]);
-              if (absLLR < minLLR) {
-                secondMinLLR = minLLR;
-                minLLR = absLLR;
-                minIndex = k;
-              } else if (absLLR < secondMinLLR) {
-                secondMinLLR = absLLR;
-              }
-              
-              // 计算符号
-              sign *= Math.sign(varToCheckMsg[i][k]);
-            }
-          }
-          
-          // 最小和算法的消息计算
-          if (minIndex === j) {
-            // 如果当前变量是最小的，使用次小值
-            checkToVarMsg[i][j] = sign * secondMinLLR;
-          } else {
-            // 否则使用最小值
-            checkToVarMsg[i][j] = sign * minLLR;
-          }
-          
-          // 限制消息幅度
-          checkToVarMsg[i][j] = Math.max(-20.0, Math.min(20.0, checkToVarMsg[i][j]));
-        }
-      }
-      
-      // 变量节点更新
-      for (let j = 0; j < n; j++) {
-        const connectedChecks = varConnections[j];
-        
-        // 计算总的后验LLR
-        let totalLLR = intrinsicLLR[j];
-        for (const i of connectedChecks) {
-          totalLLR += checkToVarMsg[i][j];
-        }
-        
-        // 硬判决
-        decoded[j] = totalLLR < 0 ? 1 : 0;
-        
-        // 更新变量节点到校验节点的消息
-        for (const i of connectedChecks) {
-          varToCheckMsg[i][j] = totalLLR - checkToVarMsg[i][j];
-          // 限制消息幅度
-          varToCheckMsg[i][j] = Math.max(-20.0, Math.min(20.0, varToCheckMsg[i][j]));
-        }
-      }
-      
-      // 检查收敛
-      const syndrome = this.calculateSyndrome(decoded, H);
-      const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-      
-      console.log(`迭代 ${iter + 1}: 校验子 = [${syndrome.join(', ')}]`);
-      
-      // 成功收敛条件：校验子全零
-      if (syndrome.every(bit => bit === 0)) {
-        console.log(`✅ 在第 ${iter + 1} 次迭代收敛（校验子全零）`);
-        break;
-      }
-      
-      // 检查是否陷入停滞
-      if (iter > 0 && syndromeWeight === previousSyndromeWeight) {
-        stagnationCount++;
-        if (stagnationCount >= 3) {
-          console.log(`⚠️ 检测到停滞（${stagnationCount}次），提前停止`);
-          break;
-        }
-      } else {
-        stagnationCount = 0;
-      }
-      
-      previousSyndromeWeight = syndromeWeight;
-    }
-    
-    console.log(`解码完成，迭代次数: ${actualIterations}`);
-    console.log(`最终解码结果: [${decoded.join(', ')}]`);
-    return { decoded, iterations: actualIterations };
-  }
-
   // 计算矩阵的rank (简化版本，用于调试)
   private static calculateMatrixRank(matrix: number[][]): number {
     if (matrix.length === 0 || matrix[0].length === 0) return 0;
-    
-    // 创建矩阵的副本
-    const A = matrix.map(row => [...row]);
-    const m = A.length;
-    const n = A[0].length;
-    
-    let rank = 0;
-    
-    for (let col = 0; col < n && rank < m; col++) {
-      // 找到主元
-      let pivotRow = -1;
-      for (let row = rank; row < m; row++) {
-        if (A[row][col] === 1) {
-          pivotRow = row;
-          break;
-        }
-      }
-      
-      if (pivotRow === -1) continue; // 没有找到主元
-      
-      // 交换行
-      if (pivotRow !== rank) {
-        [A[rank], A[pivotRow]] = [A[pivotRow], A[rank]];
-      }
-      
-      // 消元
-      for (let row = 0; row < m; row++) {
-        if (row !== rank && A[row][col] === 1) {
-          for (let c = 0; c < n; c++) {
-            A[row][c] ^= A[rank][c]; // GF(2)下的异或操作
-          }
-        }
-      }
-      
-      rank++;
-    }
-    
-    return rank;
+    return GF2MatrixService.rank(GF2MatrixService.fromDense(matrix));
   }
 
   static analyzeCode(H: number[][], G: number[][]): {
@@ -1682,10 +841,9 @@ export class LDPCService {
   }
 
   // 新增：简化的系统形编码方法
-  private static systematicEncode(information: number[], H: number[][]): number[] {
+  private static systematicEncode(information: number[], H: SparseParityCheck): number[] {
     const k = information.length;
-    const n = H[0].length;
-    const m = H.length;
+    const { m, n, rowPtr, colIdx } = H;
     
     console.log('🔧 [系统形编码] 开始系统形编码:');
     console.log(`  - 信息位: [${information.join(',')}]`);
@@ -1704,31 +862,19 @@ export class LDPCService {
     // 对于系统形码字 [u | p]，有 H * [u^T | p^T] = 0
     // 即 H_u * u^T + H_p * p^T = 0，所以 p^T = H_p^(-1) * H_u * u^T
     
-    // 提取H矩阵的信息部分和校验部分
-    const H_u = []; // H矩阵的前k列（信息部分）
-    const H_p = []; // H矩阵的后m列（校验部分）
+    // 按行遍历非零元素：前k列累加到 H_u * u^T，后m列填入校验部分 H_p
+    const Hu_u = Array(m).fill(0);
+    const H_p = Array(m).fill(null).map(() => Array(n - k).fill(0));
     
     for (let i = 0; i < m; i++) {
-      const row_u = [];
-      const row_p = [];
-      for (let j = 0; j < k; j++) {
-        row_u.push(H[i][j]);
-      }
-      for (let j = k; j < n; j++) {
-        row_p.push(H[i][j]);
-      }
-      H_u.push(row_u);
-      H_p.push(row_p);
-    }
-    
-    // 计算 H_u * u^T
-    const Hu_u = [];
-    for (let i = 0; i < m; i++) {
-      let sum = 0;
-      for (let j = 0; j < k; j++) {
-        sum ^= H_u[i][j] * information[j];
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        const j = colIdx[e];
+        if (j < k) {
+          Hu_u[i] ^= information[j];
+        } else {
+          H_p[i][j - k] = 1;
+        }
       }
-      Hu_u.push(sum);
     }
     
     // 计算校验位：p^T = H_p^(-1) * Hu_u
@@ -1744,135 +890,144 @@ export class LDPCService {
     return codeword;
   }
 
-  // 新增：求解线性方程组的方法（GF(2)）
-  private static solveLinearSystem(A: number[][], b: number[]): number[] {
-    const m = A.length;
-    const n = A[0].length;
-    
-    // 构造增广矩阵 [A | b]
-    const augmented = [];
-    for (let i = 0; i < m; i++) {
-      const row = [...A[i], b[i]];
-      augmented.push(row);
+  // 检测校验部分（后m列）是否为双对角或累加结构；给出声明时只校验声明的结构
+  static analyzeParityStructure(H: ParityCheckInput, declared?: ParityStructure): ParityStructureAnalysis {
+    const S = SparseMatrixService.from(H);
+    const { m, n } = S;
+    if (m === 0 || m >= n) {
+      return { qualifies: false, declared: !!declared, reason: `Invalid code dimensions ${m}x${n}` };
     }
-    
-    // 高斯消元
-    const { rref } = this.toReducedRowEchelonForm(augmented);
-    
-    // 提取解
-    const solution = Array(n).fill(0);
-    for (let i = 0; i < m; i++) {
-      let pivotCol = -1;
-      for (let j = 0; j < n; j++) {
-        if (rref[i][j] === 1) {
-          pivotCol = j;
-          break;
+
+    if (declared) {
+      const reason = this.checkParityStructure(S, declared);
+      return reason
+        ? { qualifies: false, declared: true, reason: `Declared ${declared.type} structure (Z=${declared.Z}) does not hold: ${reason}` }
+        : { qualifies: true, declared: true, structure: declared };
+    }
+
+    for (let Z = 1; Z <= m; Z++) {
+      if (m % Z !== 0) continue;
+      for (const type of ['dual-diagonal', 'accumulate'] as const) {
+        if (this.checkParityStructure(S, { type, Z }) === null) {
+          return { qualifies: true, declared: false, structure: { type, Z } };
         }
       }
-      if (pivotCol !== -1) {
-        solution[pivotCol] = rref[i][n]; // 最后一列是常数项
-      }
     }
-    
-    return solution;
+
+    return {
+      qualifies: false,
+      declared: false,
+      reason: 'Parity part (last m columns) is neither block dual-diagonal nor accumulate for any block size Z dividing m'
+    };
   }
 
-  // 强制验证解码失败 - 测试函数
-  static testDecodingFailure(received: number[], H: number[][], originalCodeword: number[] = []): void {
-    const n = H[0].length;
-    const m = H.length;
+  // 返回不满足结构的原因，满足时返回 null
+  private static checkParityStructure(S: SparseParityCheck, structure: ParityStructure): string | null {
+    const { m, n, colPtr, rowIdx } = S;
     const k = n - m;
-    
-    console.log('🔬 [解码失败测试] 开始测试解码失败检测');
-    console.log(`🔬 [解码失败测试] 码参数: n=${n}, k=${k}, m=${m}`);
-    console.log(`🔬 [解码失败测试] 接收数据: [${received.join(',')}]`);
-    
-    if (originalCodeword.length > 0) {
-      const errorPattern = received.map((bit, i) => bit !== originalCodeword[i] ? 1 : 0);
-      const errorCount = errorPattern.reduce((sum, bit) => sum + bit, 0);
-      console.log(`🔬 [解码失败测试] 原始码字: [${originalCodeword.join(',')}]`);
-      console.log(`🔬 [解码失败测试] 错误模式: [${errorPattern.join(',')}] (${errorCount}个错误)`);
+    const { type, Z } = structure;
+
+    if (!Number.isInteger(Z) || Z < 1 || m % Z !== 0) {
+      return `block size Z=${Z} must divide m=${m}`;
     }
-    
-    // 计算最小距离和理论纠错能力
-    const G = this.generateGeneratorMatrix(H, n, k);
-    if (G.length > 0) {
-      const minDistance = this.calculateMinimumDistance(H, G);
-      const theoreticalCapability = Math.floor((minDistance - 1) / 2);
-      console.log(`🔬 [解码失败测试] 最小距离: ${minDistance}, 理论纠错能力: ${theoreticalCapability}`);
+
+    // 阶梯部分：第 j 个阶梯列只连接校验 j 与 j+Z（累加结构最后 Z 列只连接校验 j）
+    const stairStart = type === 'dual-diagonal' ? Z : 0;
+    for (let j = 0; j < m - stairStart; j++) {
+      const col = k + stairStart + j;
+      const start = colPtr[col];
+      const degree = colPtr[col + 1] - start;
+      const valid = j + Z < m
+        ? degree === 2 && rowIdx[start] === j && rowIdx[start + 1] === j + Z
+        : degree === 1 && rowIdx[start] === j;
+      if (!valid) {
+        return `column ${col} does not follow the ${type} staircase`;
+      }
     }
-    
-    // 检查当前接收数据的校验子
-    const syndrome = this.calculateSyndrome(received, H);
-    const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-    console.log(`🔬 [解码失败测试] 校验子: [${syndrome.join(',')}], 权重: ${syndromeWeight}`);
-    
-    // 如果校验子为零，检查是否是有效码字
-    if (syndromeWeight === 0) {
-      console.log('🔬 [解码失败测试] 校验子为零，检查是否是有效码字');
-      const isValid = this.isValidCodeword(received, H, n, k);
-      console.log(`🔬 [解码失败测试] 是有效码字: ${isValid}`);
+
+    if (type === 'dual-diagonal') {
+      // h_b：各块行之和须为置换矩阵，即每列恰好在一个块内偏移上出现奇数次，且偏移互不相同
+      const odd = new Uint8Array(Z);
+      const used = new Uint8Array(Z);
+      for (let c = 0; c < Z; c++) {
+        const col = k + c;
+        for (let p = colPtr[col]; p < colPtr[col + 1]; p++) {
+          odd[rowIdx[p] % Z] ^= 1;
+        }
+        let oddCount = 0;
+        let residue = -1;
+        for (let p = colPtr[col]; p < colPtr[col + 1]; p++) {
+          const r = rowIdx[p] % Z;
+          if (odd[r]) {
+            oddCount++;
+            residue = r;
+            odd[r] = 0;
+          }
+        }
+        if (oddCount !== 1 || used[residue]) {
+          return `column ${col} of h_b does not sum to a permutation over the block rows`;
+        }
+        used[residue] = 1;
+      }
     }
+
+    return null;
   }
 
-  // 验证解码结果是否是有效码字
-  private static isValidCodeword(decoded: number[], H: number[][], n: number, k: number): boolean {
-    try {
-      console.log('🔧 [验证码字] 开始验证解码结果是否为有效码字');
-      
-      // 首先验证校验子确实为零
-      const syndrome = this.calculateSyndrome(decoded, H);
-      const syndromeWeight = syndrome.reduce((sum, bit) => sum + bit, 0);
-      
-      if (syndromeWeight !== 0) {
-        console.log('❌ [验证码字] 校验子不为零:', syndrome);
-        return false;
+  // 双对角/累加结构递推编码，码字为 [u | p]
+  private static encodeWithParityStructure(information: number[], H: SparseParityCheck, structure: ParityStructure): number[] {
+    const { m, n, rowPtr, colIdx, colPtr, rowIdx } = H;
+    const k = n - m;
+    const { type, Z } = structure;
+    const x = new Uint8Array(n);
+    for (let j = 0; j < k; j++) {
+      x[j] = information[j] & 1;
+    }
+
+    const rowParity = (row: number): number => {
+      let parity = 0;
+      for (let e = rowPtr[row]; e < rowPtr[row + 1]; e++) {
+        parity ^= x[colIdx[e]];
       }
-      
-      // 生成所有有效码字进行比对（仅适用于小码本）
-      if (k <= 15) { // 扩大验证范围到k=15
-        console.log('🔧 [验证码字] 小码本，生成所有有效码字进行验证');
-        
-        const G = this.generateGeneratorMatrix(H, n, k);
-        if (G.length === 0) {
-          console.log('⚠️ [验证码字] 无法生成G矩阵，退化为校验子验证');
-          return true; // 退化为仅校验子验证
+      return parity;
+    };
+
+    let stairStart = 0;
+    if (type === 'dual-diagonal') {
+      // 所有块行相加后阶梯部分两两抵消，只剩 M·p0 = Σ λ_i（λ = H_u·u）
+      const blockSum = new Uint8Array(Z);
+      for (let i = 0; i < m; i++) {
+        blockSum[i % Z] ^= rowParity(i);
+      }
+
+      const odd = new Uint8Array(Z);
+      for (let c = 0; c < Z; c++) {
+        const col = k + c;
+        for (let p = colPtr[col]; p < colPtr[col + 1]; p++) {
+          odd[rowIdx[p] % Z] ^= 1;
         }
-        
-        // 生成所有可能的有效码字
-        const decodedStr = decoded.join('');
-        for (let i = 0; i < Math.pow(2, k); i++) {
-          const info = [];
-          let temp = i;
-          for (let j = 0; j < k; j++) {
-            info.push(temp % 2);
-            temp = Math.floor(temp / 2);
-          }
-          
-          const codeword = this.encodeVector(info, G);
-          const codewordStr = codeword.join('');
-          
-          if (codewordStr === decodedStr) {
-            console.log('✅ [验证码字] 找到匹配的有效码字，解码正确');
-            console.log(`   - 信息位: [${info.join(',')}]`);
-            console.log(`   - 码字: [${codeword.join(',')}]`);
-            return true;
+        for (let p = colPtr[col]; p < colPtr[col + 1]; p++) {
+          const r = rowIdx[p] % Z;
+          if (odd[r]) {
+            x[col] = blockSum[r];
+            odd[r] = 0;
           }
         }
-        
-        console.log('❌ [验证码字] 未找到匹配的有效码字，解码错误');
-        console.log(`   - 解码结果: [${decoded.join(',')}]`);
-        return false;
-      } else {
-        // 对于大码本，仅依赖校验子验证
-        console.log('🔧 [验证码字] 大码本，仅使用校验子验证');
-        return true; // 校验子为零就认为正确
       }
-      
-    } catch (error) {
-      console.error('❌ [验证码字] 验证过程出错:', error);
-      return true; // 出错时保守地认为正确
+      stairStart = Z;
     }
+
+    // 第 i 行中只有阶梯列 i 未知：p_i = λ_i + (h_b 贡献) + p_{i-Z}
+    for (let i = 0; i < m - stairStart; i++) {
+      x[k + stairStart + i] = rowParity(i);
+    }
+
+    return Array.from(x);
+  }
+
+  // 新增：求解线性方程组的方法（GF(2)）
+  private static solveLinearSystem(A: number[][], b: number[]): number[] {
+    return GF2MatrixService.solve(GF2MatrixService.fromDense(A), b).solution;
   }
 
   // 分析矩阵属性和性能
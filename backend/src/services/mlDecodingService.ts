@@ -0,0 +1,278 @@
+import { DecodingResult, SparseParityCheck } from '../types';
+import { GF2MatrixService } from './gf2MatrixService';
+import { SparseMatrixService } from './sparseMatrixService';
+import { DecoderRegistry } from './decoderRegistry';
+
+export type MLDecodingResult = DecodingResult & {
+  posterior?: number[];
+  method: 'codebook' | 'trellis';
+};
+
+// 码本枚举或 Wolf 校验子网格，二者按 2^k 与 2^(n−k) 取较小者
+type MLStructure =
+  | { method: 'codebook'; k: number; basis: number[][] }        // 零空间基（系统形 G）各行的支撑
+  | { method: 'trellis'; rank: number; columns: Int32Array };  // 各列在 rank 个独立校验上的校验子位掩码
+
+const MAX_APP = 50;
+
+// 穷举参考译码：逐码字计算 Σ c_j·γ_j（γ 为信道 LLR），
+// ML 取代价最小的码字，逐比特 MAP 的 LLR = log Σ_{c_j=0} e^{−cost} − log Σ_{c_j=1} e^{−cost}。
+// k 较小时按 Gray 码枚举码本（每步只加一个基向量）；n − k 较小时在 Wolf 网格上跑 Viterbi（ML）或 BCJR（MAP）
+export class MLDecodingService {
+
+  static readonly MAX_DIMENSION = 20;   // 码本枚举：2^k 个码字
+  static readonly MAX_REDUNDANCY = 12;  // 网格：每层 2^(n−k) 个状态，需保存 n 层
+
+  // 仿真中同一个 H 会译成千上万帧，基或网格只构建一次
+  private static structures = new WeakMap<SparseParityCheck, MLStructure>();
+
+  static decode(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    bitwise: boolean
+  ): MLDecodingResult {
+    const structure = this.structure(H);
+    const { decoded, posterior } = structure.method === 'codebook'
+      ? this.enumerate(structure.basis, llr, H.n, bitwise)
+      : this.trellis(structure.rank, structure.columns, llr, bitwise);
+
+    const correctedErrors = channelBits.reduce((count, bit, index) =>
+      count + (bit !== decoded[index] ? 1 : 0), 0
+    );
+    const success = SparseMatrixService.isCodeword(H, decoded);
+    const source = structure.method === 'codebook' ? `枚举${2 ** structure.k}个码字` : `${2 ** structure.rank}状态网格`;
+
+    return {
+      decoded,
+      success,
+      iterations: 1,
+      correctedErrors,
+      message: bitwise
+        ? `逐比特MAP判决（${source}）${success ? '' : '，判决结果不是码字'}`
+        : `ML译码完成（${source}）`,
+      posterior,
+      method: structure.method
+    };
+  }
+
+  private static structure(H: SparseParityCheck): MLStructure {
+    const cached = this.structures.get(H);
+    if (cached) return cached;
+
+    const { basis, pivotColumns } = GF2MatrixService.nullSpace(GF2MatrixService.fromSparse(H));
+    const k = basis.rows;
+    const rank = pivotColumns.length;
+    let structure: MLStructure;
+
+    if (k <= this.MAX_DIMENSION && (k <= rank || rank > this.MAX_REDUNDANCY)) {
+      structure = {
+        method: 'codebook',
+        k,
+        basis: basis.data.map(row => {
+          const support: number[] = [];
+          for (let j = 0; j < H.n; j++) {
+            if (GF2MatrixService.getBit(row, j)) support.push(j);
+          }
+          return support;
+        })
+      };
+    } else if (rank <= this.MAX_REDUNDANCY) {
+      // 行最简形的前 rank 行线性无关，码字即满足这些校验的向量
+      const { rref } = GF2MatrixService.rref(GF2MatrixService.fromSparse(H));
+      const columns = new Int32Array(H.n);
+      for (let r = 0; r < rank; r++) {
+        for (let j = 0; j < H.n; j++) {
+          if (GF2MatrixService.getBit(rref.data[r], j)) columns[j] |= 1 << r;
+        }
+      }
+      structure = { method: 'trellis', rank, columns };
+    } else {
+      throw new Error(`ML译码要求 k ≤ ${this.MAX_DIMENSION} 或 n − k ≤ ${this.MAX_REDUNDANCY}（k = ${k}, n − k = ${rank}）`);
+    }
+
+    this.structures.set(H, structure);
+    return structure;
+  }
+
+  private static enumerate(
+    basis: number[][],
+    llr: number[],
+    n: number,
+    bitwise: boolean
+  ): { decoded: number[]; posterior?: number[] } {
+    const k = basis.length;
+    const total = 2 ** k;
+
+    // 第 i 步翻转 Gray 码中变化的那一位，即 i 的最低置位
+    const walk = (visit: (cost: number, codeword: Uint8Array, step: number) => void) => {
+      const codeword = new Uint8Array(n);
+      let cost = 0;
+      visit(cost, codeword, 0);
+      for (let step = 1; step < total; step++) {
+        for (const j of basis[31 - Math.clz32(step & -step)]) {
+          cost += codeword[j] ? -llr[j] : llr[j];
+          codeword[j] ^= 1;
+        }
+        visit(cost, codeword, step);
+      }
+    };
+
+    let bestCost = Infinity;
+    let bestStep = 0;
+    walk((cost, _codeword, step) => {
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestStep = step;
+      }
+    });
+
+    const decoded = Array(n).fill(0);
+    const gray = bestStep ^ (bestStep >>> 1);
+    for (let b = 0; b < k; b++) {
+      if ((gray >>> b) & 1) {
+        for (const j of basis[b]) decoded[j] ^= 1;
+      }
+    }
+    if (!bitwise) return { decoded };
+
+    // 以 ML 代价为基准求权重 e^{−(cost − bestCost)}，避免下溢
+    const ones = new Float64Array(n);
+    let sum = 0;
+    walk((cost, codeword) => {
+      const weight = Math.exp(bestCost - cost);
+      sum += weight;
+      for (let j = 0; j < n; j++) {
+        if (codeword[j]) ones[j] += weight;
+      }
+    });
+    const posterior = Array.from(ones, one => this.clampLLR(Math.log(Math.max(0, sum - one)) - Math.log(one)));
+    return { decoded: posterior.map(value => (value < 0 ? 1 : 0)), posterior };
+  }
+
+  // Wolf 网格：第 j 层的状态为前 j 位的部分校验子，从状态 0 出发、回到状态 0 的路径即码字
+  private static trellis(
+    rank: number,
+    columns: Int32Array,
+    llr: number[],
+    bitwise: boolean
+  ): { decoded: number[]; posterior?: number[] } {
+    const n = columns.length;
+    const states = 1 << rank;
+
+    if (!bitwise) {
+      // Viterbi：代价 Σ c_j·γ_j，记录每层每个状态的入边比特用于回溯
+      let cost = new Float64Array(states).fill(Infinity);
+      let next = new Float64Array(states);
+      const decisions = new Uint8Array(n * states);
+      cost[0] = 0;
+      for (let j = 0; j < n; j++) {
+        next.fill(Infinity);
+        const h = columns[j];
+        for (let s = 0; s < states; s++) {
+          if (cost[s] === Infinity) continue;
+          if (cost[s] < next[s]) {
+            next[s] = cost[s];
+            decisions[j * states + s] = 0;
+          }
+          const flipped = cost[s] + llr[j];
+          if (flipped < next[s ^ h]) {
+            next[s ^ h] = flipped;
+            decisions[j * states + (s ^ h)] = 1;
+          }
+        }
+        [cost, next] = [next, cost];
+      }
+
+      const decoded = Array(n).fill(0);
+      let state = 0;
+      for (let j = n - 1; j >= 0; j--) {
+        decoded[j] = decisions[j * states + state];
+        if (decoded[j]) state ^= columns[j];
+      }
+      return { decoded };
+    }
+
+    // BCJR：分支权重取 P(c_j = b | y_j) 的缩放形式，各层归一化防止下溢
+    const weights = (j: number): [number, number] =>
+      llr[j] >= 0 ? [1, Math.exp(-llr[j])] : [Math.exp(llr[j]), 1];
+
+    const beta = new Float64Array((n + 1) * states);
+    beta[n * states] = 1;
+    for (let j = n - 1; j >= 0; j--) {
+      const [w0, w1] = weights(j);
+      const h = columns[j];
+      const out = j * states;
+      const into = (j + 1) * states;
+      let norm = 0;
+      for (let s = 0; s < states; s++) {
+        const value = w0 * beta[into + s] + w1 * beta[into + (s ^ h)];
+        beta[out + s] = value;
+        norm += value;
+      }
+      for (let s = 0; s < states; s++) beta[out + s] /= norm;
+    }
+
+    let alpha = new Float64Array(states);
+    let next = new Float64Array(states);
+    alpha[0] = 1;
+    const posterior = Array(n).fill(0);
+    for (let j = 0; j < n; j++) {
+      const [w0, w1] = weights(j);
+      const h = columns[j];
+      const into = (j + 1) * states;
+      let zero = 0;
+      let one = 0;
+      next.fill(0);
+      for (let s = 0; s < states; s++) {
+        if (alpha[s] === 0) continue;
+        zero += alpha[s] * w0 * beta[into + s];
+        one += alpha[s] * w1 * beta[into + (s ^ h)];
+        next[s] += alpha[s] * w0;
+        next[s ^ h] += alpha[s] * w1;
+      }
+      posterior[j] = this.clampLLR(Math.log(zero) - Math.log(one));
+      const norm = next.reduce((total, value) => total + value, 0);
+      for (let s = 0; s < states; s++) next[s] /= norm;
+      [alpha, next] = [next, alpha];
+    }
+    return { decoded: posterior.map(value => (value < 0 ? 1 : 0)), posterior };
+  }
+
+  private static clampLLR(value: number): number {
+    return Math.max(-MAX_APP, Math.min(MAX_APP, value));
+  }
+}
+
+const reference = { dimension: MLDecodingService.MAX_DIMENSION, redundancy: MLDecodingService.MAX_REDUNDANCY };
+
+DecoderRegistry.register(
+  {
+    id: 'ml',
+    name: 'Maximum Likelihood',
+    description: 'Exhaustive ML codeword search over the codebook or the syndrome trellis (small codes only)',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh'],
+    parameters: [],
+    softOutput: false,
+    reference,
+    decode: ({ llr, channelBits, H }) => MLDecodingService.decode(llr, channelBits, H, false)
+  },
+  {
+    id: 'bitwise-map',
+    name: 'Bitwise MAP',
+    description: 'Exact a-posteriori LLR of every bit by codebook enumeration or BCJR on the syndrome trellis (small codes only)',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh'],
+    parameters: [],
+    softOutput: true,
+    reference,
+    decode: ({ llr, channelBits, H }) => MLDecodingService.decode(llr, channelBits, H, true)
+  }
+);
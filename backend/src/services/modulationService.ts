@@ -0,0 +1,204 @@
+import { RandomGenerator } from './randomService';
+
+export type ModulationScheme = 'BPSK' | 'QPSK' | '8PSK' | '16QAM' | '64QAM' | '256QAM';
+
+export type DemapperType = 'exact' | 'max-log';
+
+// snr 的含义：每个符号的 Es/N0，或每个信息比特的 Eb/N0
+export type SNRDefinition = 'EsN0' | 'EbN0';
+
+export interface ModulationSettings {
+  modulation?: ModulationScheme; // 缺省为 BPSK
+  demapper?: DemapperType;       // 缺省为 exact
+  snrType?: SNRDefinition;       // 缺省为 EsN0
+  codeRate?: number;             // Eb/N0 换算用的码率，缺省为 1
+}
+
+// 星座点按 Gray 标号存放：下标即标号，标号最高位对应符号中的第一个比特；平均符号能量 Es = 1
+export interface Constellation {
+  scheme: ModulationScheme;
+  bitsPerSymbol: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface ModulatedFrame {
+  received: number[]; // 最近星座点（含衰落）的标号比特
+  llr: number[];      // 逐比特 LLR，正值倾向比特0
+}
+
+const BITS_PER_SYMBOL: Record<ModulationScheme, number> = {
+  'BPSK': 1,
+  'QPSK': 2,
+  '8PSK': 3,
+  '16QAM': 4,
+  '64QAM': 6,
+  '256QAM': 8
+};
+
+const DEMAPPERS: DemapperType[] = ['exact', 'max-log'];
+const SNR_DEFINITIONS: SNRDefinition[] = ['EsN0', 'EbN0'];
+
+// Gray 码 g 在序列中的位置
+const grayPosition = (g: number) => {
+  let position = g;
+  for (let shift = g >> 1; shift > 0; shift >>= 1) position ^= shift;
+  return position;
+};
+
+// 高阶调制：Gray 映射的 M-PSK / 方形 M-QAM，经 AWGN 或相干瑞利衰落后逐比特解映射。
+// 接收 y = h·x + n，n ~ CN(0, N0)，Es = 1 故 N0 = 1 / (Es/N0)；比特 LLR 为
+//   exact:   log Σ_{s: b=0} e^{−|y−hs|²/N0} − log Σ_{s: b=1} e^{−|y−hs|²/N0}
+//   max-log: (min_{s: b=1} |y−hs|² − min_{s: b=0} |y−hs|²) / N0
+export class ModulationService {
+
+  static readonly SCHEMES = Object.keys(BITS_PER_SYMBOL) as ModulationScheme[];
+
+  private static constellations = new Map<ModulationScheme, Constellation>();
+
+  static bitsPerSymbol(scheme: ModulationScheme): number {
+    return BITS_PER_SYMBOL[scheme];
+  }
+
+  // 校验请求中的调制参数，未给出的字段取缺省值
+  static resolve(input: any): Required<Omit<ModulationSettings, 'codeRate'>> | { error: string } {
+    const { modulation = 'BPSK', demapper = 'exact', snrType = 'EsN0' } = input || {};
+    if (!this.SCHEMES.includes(modulation)) {
+      return { error: `modulation must be one of ${this.SCHEMES.join(', ')}` };
+    }
+    if (!DEMAPPERS.includes(demapper)) {
+      return { error: `demapper must be one of ${DEMAPPERS.join(', ')}` };
+    }
+    if (!SNR_DEFINITIONS.includes(snrType)) {
+      return { error: `snrType must be one of ${SNR_DEFINITIONS.join(', ')}` };
+    }
+    return { modulation, demapper, snrType };
+  }
+
+  static constellation(scheme: ModulationScheme): Constellation {
+    const cached = this.constellations.get(scheme);
+    if (cached) return cached;
+
+    const bitsPerSymbol = BITS_PER_SYMBOL[scheme];
+    const size = 1 << bitsPerSymbol;
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+
+    if (scheme === 'BPSK') {
+      re[0] = 1;
+      re[1] = -1;
+    } else if (scheme === '8PSK') {
+      for (let label = 0; label < size; label++) {
+        const angle = 2 * Math.PI * grayPosition(label) / size;
+        re[label] = Math.cos(angle);
+        im[label] = Math.sin(angle);
+      }
+    } else {
+      // 方形 QAM：高半部分比特为同相分量的 Gray 标号，低半部分为正交分量，各自映射到 L 电平 PAM；
+      // 标号 0 落在正电平上，与 BPSK 的 0 → +1 一致
+      const half = bitsPerSymbol / 2;
+      const levels = 1 << half;
+      const amplitude = (g: number) => levels - 1 - 2 * grayPosition(g);
+      for (let label = 0; label < size; label++) {
+        re[label] = amplitude(label >> half);
+        im[label] = amplitude(label & (levels - 1));
+      }
+    }
+
+    let energy = 0;
+    for (let p = 0; p < size; p++) energy += re[p] * re[p] + im[p] * im[p];
+    const scale = Math.sqrt(size / energy);
+    for (let p = 0; p < size; p++) {
+      re[p] *= scale;
+      im[p] *= scale;
+    }
+
+    const constellation = { scheme, bitsPerSymbol, re, im };
+    this.constellations.set(scheme, constellation);
+    return constellation;
+  }
+
+  // 码字按 bitsPerSymbol 分组映射为符号，最后一组不足时补 0（补位比特不输出）
+  static transmit(
+    codeword: number[],
+    scheme: ModulationScheme,
+    esN0Db: number,
+    fading: boolean,
+    demapper: DemapperType,
+    random: RandomGenerator
+  ): ModulatedFrame {
+    const { bitsPerSymbol, re, im } = this.constellation(scheme);
+    const size = re.length;
+    const n = codeword.length;
+    const n0 = Math.pow(10, -esN0Db / 10);
+    const noiseStdDev = Math.sqrt(n0 / 2);
+    const fadingStdDev = Math.sqrt(0.5);
+
+    const received = Array(n).fill(0);
+    const llr = Array(n).fill(0);
+    const metric = new Float64Array(size);
+
+    for (let start = 0; start < n; start += bitsPerSymbol) {
+      let label = 0;
+      for (let b = 0; b < bitsPerSymbol; b++) {
+        label = (label << 1) | (start + b < n ? codeword[start + b] : 0);
+      }
+
+      // h ~ CN(0, 1)，接收端已知 h
+      const hRe = fading ? random.normal(0, fadingStdDev) : 1;
+      const hIm = fading ? random.normal(0, fadingStdDev) : 0;
+      const yRe = hRe * re[label] - hIm * im[label] + random.normal(0, noiseStdDev);
+      const yIm = hRe * im[label] + hIm * re[label] + random.normal(0, noiseStdDev);
+
+      let nearest = 0;
+      for (let p = 0; p < size; p++) {
+        const dRe = yRe - (hRe * re[p] - hIm * im[p]);
+        const dIm = yIm - (hRe * im[p] + hIm * re[p]);
+        metric[p] = -(dRe * dRe + dIm * dIm) / n0;
+        if (metric[p] > metric[nearest]) nearest = p;
+      }
+
+      for (let b = 0; b < bitsPerSymbol && start + b < n; b++) {
+        const mask = 1 << (bitsPerSymbol - 1 - b);
+        received[start + b] = nearest & mask ? 1 : 0;
+        llr[start + b] = demapper === 'max-log'
+          ? this.maxMetric(metric, mask, 0) - this.maxMetric(metric, mask, mask)
+          : this.logSumExp(metric, mask, 0) - this.logSumExp(metric, mask, mask);
+      }
+    }
+
+    return { received, llr };
+  }
+
+  // Gray 映射下未编码比特错误率的常用近似 a·Q(√(c·Es/N0))：
+  //   M-PSK：a = 2/log2(M)，c = 2·sin²(π/M)；M-QAM：a = 4(1 − 1/√M)/log2(M)，c = 3/(M − 1)
+  // BPSK 取 a = 1、c = 2，为精确值
+  static berCoefficients(scheme: ModulationScheme): { a: number; c: number } {
+    const bits = BITS_PER_SYMBOL[scheme];
+    const size = 1 << bits;
+    if (scheme === 'BPSK') {
+      return { a: 1, c: 2 };
+    }
+    if (scheme === '8PSK') {
+      return { a: 2 / bits, c: 2 * Math.sin(Math.PI / size) ** 2 };
+    }
+    return { a: 4 * (1 - 1 / Math.sqrt(size)) / bits, c: 3 / (size - 1) };
+  }
+
+  private static maxMetric(metric: Float64Array, mask: number, value: number): number {
+    let best = -Infinity;
+    for (let p = 0; p < metric.length; p++) {
+      if ((p & mask) === value && metric[p] > best) best = metric[p];
+    }
+    return best;
+  }
+
+  private static logSumExp(metric: Float64Array, mask: number, value: number): number {
+    const best = this.maxMetric(metric, mask, value);
+    let sum = 0;
+    for (let p = 0; p < metric.length; p++) {
+      if ((p & mask) === value) sum += Math.exp(metric[p] - best);
+    }
+    return best + Math.log(sum);
+  }
+}
@@ -0,0 +1,458 @@
+import { LDPCGraph, NonBinaryParityCheck } from '../types';
+import { SparseMatrixService } from './sparseMatrixService';
+import { LDPCService } from './ldpcService';
+import { ChannelService } from './channelService';
+import { GaloisFieldService } from './galoisFieldService';
+import { RandomGenerator, RandomService } from './randomService';
+
+// GF(q) 上的系统化编码器：H 经高斯消元化为 RREF，主元列为校验符号，其余列为信息符号
+export interface NonBinaryEncoder {
+  code: NonBinaryParityCheck;
+  k: number;
+  rref: Int32Array[];           // rank 行，主元已归一化为 1
+  pivotColumns: number[];
+  informationPositions: number[];
+}
+
+export interface NonBinaryDecodingConfig {
+  maxIterations: number;
+  earlyTermination?: boolean;
+}
+
+export interface NonBinaryDecodingResult {
+  decoded: number[];           // 译码后的符号
+  decodedBits: number[];       // 符号的二进制像（每符号 p 比特，低位在前）
+  success: boolean;
+  iterations: number;
+  correctedErrors: number;     // 与信道硬判决符号不同的符号数
+  message: string;
+  symbolReliability: number[]; // 每个符号判决值的后验概率
+  iterationHistory: { iteration: number; unsatisfiedChecks: number; decoded: number[] }[];
+}
+
+export interface NonBinaryCodeInput {
+  H?: number[][];
+  graph?: LDPCGraph;
+  p: number;
+  randomizeCoefficients?: boolean;
+}
+
+// 概率下限：避免消息中出现 0 后在变量节点处无法恢复
+const MIN_PROBABILITY = 1e-15;
+
+// 非二元 LDPC 码（GF(2^p)，p ≤ 8）：构造、编码与基于 FFT（Walsh–Hadamard 变换）的 q 元和积译码
+export class NonBinaryLDPCService {
+
+  static readonly DEFAULT_CONFIG: NonBinaryDecodingConfig = { maxIterations: 50, earlyTermination: true };
+
+  // 校验矩阵可以直接给出（元素为 0..q-1），也可以由图生成（边的 coefficient 为标签，缺省为 1）
+  static resolveCode(input: NonBinaryCodeInput, random: RandomGenerator = RandomService.create()): NonBinaryParityCheck | { error: string } {
+    const p = Number(input.p);
+    if (!Number.isInteger(p) || p < 1 || p > GaloisFieldService.MAX_EXTENSION_DEGREE) {
+      return { error: `p must be an integer between 1 and ${GaloisFieldService.MAX_EXTENSION_DEGREE} (q = 2^p)` };
+    }
+
+    let H: number[][];
+    if (Array.isArray(input.H)) {
+      H = input.H;
+    } else if (input.graph?.nodes && input.graph?.edges) {
+      H = this.matrixFromGraph(input.graph);
+    } else {
+      return { error: 'Provide either a GF(q) parity-check matrix H or a graph' };
+    }
+
+    if (H.length === 0 || !Array.isArray(H[0]) || H[0].length === 0) {
+      return { error: 'Parity-check matrix must not be empty' };
+    }
+    const q = 1 << p;
+    const n = H[0].length;
+    for (let i = 0; i < H.length; i++) {
+      if (!Array.isArray(H[i]) || H[i].length !== n) {
+        return { error: `Row ${i} of H must have ${n} entries` };
+      }
+      for (let j = 0; j < n; j++) {
+        const value = H[i][j];
+        if (!Number.isInteger(value) || value < 0 || value >= q) {
+          return { error: `H[${i}][${j}] = ${value} is not an element of GF(${q})` };
+        }
+      }
+    }
+
+    const code = this.fromDense(H, p);
+    if (input.randomizeCoefficients) {
+      for (let e = 0; e < code.coefficient.length; e++) {
+        code.coefficient[e] = 1 + random.int(q - 1);
+      }
+    }
+    return code;
+  }
+
+  static fromDense(H: number[][], p: number): NonBinaryParityCheck {
+    const q = 1 << p;
+    const rows = H.map(row => row.reduce((columns: number[], value, j) => {
+      if (value !== 0) columns.push(j);
+      return columns;
+    }, []));
+    const structure = SparseMatrixService.fromRows(H.length, H[0].length, rows);
+    const coefficient = new Int32Array(structure.colIdx.length);
+    for (let i = 0; i < structure.m; i++) {
+      for (let e = structure.rowPtr[i]; e < structure.rowPtr[i + 1]; e++) {
+        coefficient[e] = H[i][structure.colIdx[e]];
+      }
+    }
+    return { p, q, structure, coefficient };
+  }
+
+  static toDense(code: NonBinaryParityCheck): number[][] {
+    const { m, n, rowPtr, colIdx } = code.structure;
+    const H = Array.from({ length: m }, () => Array(n).fill(0));
+    for (let i = 0; i < m; i++) {
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        H[i][colIdx[e]] = code.coefficient[e];
+      }
+    }
+    return H;
+  }
+
+  // 与二元 H 相同的行列顺序（按节点标签排序），元素取边标签
+  static matrixFromGraph(graph: LDPCGraph): number[][] {
+    const { bitNodes, checkNodes } = LDPCService.orderGraphNodes(graph);
+    const bitIndex = new Map(bitNodes.map((node, index) => [node.id, index]));
+    const checkIndex = new Map(checkNodes.map((node, index) => [node.id, index]));
+    const H = checkNodes.map(() => Array(bitNodes.length).fill(0));
+
+    for (const edge of graph.edges) {
+      const j = bitIndex.get(edge.source) ?? bitIndex.get(edge.target);
+      const i = checkIndex.get(edge.source) ?? checkIndex.get(edge.target);
+      if (i !== undefined && j !== undefined) {
+        H[i][j] = edge.coefficient ?? 1;
+      }
+    }
+    return H;
+  }
+
+  static syndrome(code: NonBinaryParityCheck, symbols: ArrayLike<number>): number[] {
+    const field = GaloisFieldService.field(code.p);
+    const { m, rowPtr, colIdx } = code.structure;
+    const syndrome = Array(m).fill(0);
+    for (let i = 0; i < m; i++) {
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        syndrome[i] ^= GaloisFieldService.multiply(field, code.coefficient[e], symbols[colIdx[e]]);
+      }
+    }
+    return syndrome;
+  }
+
+  static isCodeword(code: NonBinaryParityCheck, symbols: ArrayLike<number>): boolean {
+    return this.syndrome(code, symbols).every(value => value === 0);
+  }
+
+  // GF(q) 上的高斯–约当消元
+  static createEncoder(code: NonBinaryParityCheck): NonBinaryEncoder {
+    const field = GaloisFieldService.field(code.p);
+    const { m, n } = code.structure;
+    const rows = this.toDense(code).map(row => Int32Array.from(row));
+    const pivotColumns: number[] = [];
+
+    let rank = 0;
+    for (let col = 0; col < n && rank < m; col++) {
+      let pivot = -1;
+      for (let r = rank; r < m; r++) {
+        if (rows[r][col] !== 0) {
+          pivot = r;
+          break;
+        }
+      }
+      if (pivot === -1) continue;
+      [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+
+      const scale = GaloisFieldService.inverse(field, rows[rank][col]);
+      for (let c = col; c < n; c++) {
+        rows[rank][c] = GaloisFieldService.multiply(field, rows[rank][c], scale);
+      }
+      for (let r = 0; r < m; r++) {
+        const factor = rows[r][col];
+        if (r === rank || factor === 0) continue;
+        for (let c = col; c < n; c++) {
+          rows[r][c] ^= GaloisFieldService.multiply(field, factor, rows[rank][c]);
+        }
+      }
+      pivotColumns.push(col);
+      rank++;
+    }
+
+    const isPivot = new Uint8Array(n);
+    pivotColumns.forEach(col => { isPivot[col] = 1; });
+    const informationPositions: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (!isPivot[j]) informationPositions.push(j);
+    }
+
+    return {
+      code,
+      k: informationPositions.length,
+      rref: rows.slice(0, rank),
+      pivotColumns,
+      informationPositions
+    };
+  }
+
+  // 信息符号放在非主元列；特征为 2，校验符号 x_pivot = Σ rref[r][c]·x_c
+  static encode(encoder: NonBinaryEncoder, information: number[]): number[] {
+    const { code, k, rref, pivotColumns, informationPositions } = encoder;
+    if (information.length !== k) {
+      throw new Error(`信息符号长度 ${information.length} 与码的维数 ${k} 不匹配`);
+    }
+    const field = GaloisFieldService.field(code.p);
+    const codeword = Array(code.structure.n).fill(0);
+    information.forEach((symbol, index) => {
+      if (!Number.isInteger(symbol) || symbol < 0 || symbol >= code.q) {
+        throw new Error(`信息符号 ${symbol} 不是 GF(${code.q}) 中的元素`);
+      }
+      codeword[informationPositions[index]] = symbol;
+    });
+
+    rref.forEach((row, r) => {
+      let value = 0;
+      for (const c of informationPositions) {
+        if (row[c] !== 0) value ^= GaloisFieldService.multiply(field, row[c], codeword[c]);
+      }
+      codeword[pivotColumns[r]] = value;
+    });
+    return codeword;
+  }
+
+  // 符号的二进制像：符号 a 的第 t 位（a >> t & 1）对应比特 j·p + t
+  static toBinaryImage(symbols: number[], p: number): number[] {
+    const bits: number[] = [];
+    for (const symbol of symbols) {
+      for (let t = 0; t < p; t++) bits.push((symbol >> t) & 1);
+    }
+    return bits;
+  }
+
+  static fromBinaryImage(bits: number[], p: number): number[] {
+    const symbols: number[] = [];
+    for (let j = 0; j + p <= bits.length; j += p) {
+      let symbol = 0;
+      for (let t = 0; t < p; t++) symbol |= (bits[j + t] & 1) << t;
+      symbols.push(symbol);
+    }
+    return symbols;
+  }
+
+  // FFT-SPA：校验方程 Σ h_e·x_e = 0 在加法群 (Z_2)^p 上是异或卷积，
+  // 置换 a → h·a 后做 Walsh–Hadamard 变换，卷积变为逐点乘积
+  static decode(
+    bitLLR: number[],
+    code: NonBinaryParityCheck,
+    config: NonBinaryDecodingConfig = this.DEFAULT_CONFIG
+  ): NonBinaryDecodingResult {
+    const { p, q, coefficient } = code;
+    const { m, n, rowPtr, colIdx, colPtr, colEdge } = code.structure;
+    if (bitLLR.length !== n * p) {
+      throw new Error(`LLR 长度 ${bitLLR.length} 与二进制像长度 ${n * p} 不匹配`);
+    }
+    const field = GaloisFieldService.field(p);
+    const edgeCount = rowPtr[m];
+    const earlyTermination = config.earlyTermination !== false;
+
+    const prior = this.symbolPriors(bitLLR, p, n);
+    const channelSymbols = this.hardDecision(prior, n, q);
+    const variableToCheck = new Float64Array(edgeCount * q);
+    const checkToVariable = new Float64Array(edgeCount * q).fill(1 / q);
+    for (let e = 0; e < edgeCount; e++) {
+      variableToCheck.set(prior.subarray(colIdx[e] * q, (colIdx[e] + 1) * q), e * q);
+    }
+
+    // 每条边的置换表：permutation[e·q + a] = h_e·a
+    const permutation = new Int32Array(edgeCount * q);
+    for (let e = 0; e < edgeCount; e++) {
+      for (let a = 0; a < q; a++) {
+        permutation[e * q + a] = GaloisFieldService.multiply(field, coefficient[e], a);
+      }
+    }
+
+    const posterior = new Float64Array(n * q);
+    let decoded = channelSymbols;
+    const iterationHistory = [];
+    let iterations = 0;
+    let success = false;
+
+    for (let iter = 0; iter < config.maxIterations; iter++) {
+      iterations = iter + 1;
+
+      for (let i = 0; i < m; i++) {
+        this.checkNodeUpdate(i, rowPtr, permutation, variableToCheck, checkToVariable, q);
+      }
+
+      for (let j = 0; j < n; j++) {
+        const post = posterior.subarray(j * q, (j + 1) * q);
+        post.set(prior.subarray(j * q, (j + 1) * q));
+        for (let k = colPtr[j]; k < colPtr[j + 1]; k++) {
+          const e = colEdge[k];
+          let max = 0;
+          for (let a = 0; a < q; a++) {
+            post[a] *= checkToVariable[e * q + a];
+            if (post[a] > max) max = post[a];
+          }
+          // 逐步归一化，防止高度数变量节点下溢
+          if (max > 0) for (let a = 0; a < q; a++) post[a] /= max;
+        }
+        this.normalize(post);
+
+        for (let k = colPtr[j]; k < colPtr[j + 1]; k++) {
+          const e = colEdge[k];
+          const message = variableToCheck.subarray(e * q, (e + 1) * q);
+          for (let a = 0; a < q; a++) {
+            message[a] = post[a] / checkToVariable[e * q + a];
+          }
+          this.normalize(message);
+        }
+      }
+
+      decoded = this.hardDecision(posterior, n, q);
+      const syndrome = this.syndrome(code, decoded);
+      const unsatisfiedChecks = syndrome.reduce((count, value) => count + (value !== 0 ? 1 : 0), 0);
+      iterationHistory.push({ iteration: iterations, unsatisfiedChecks, decoded: [...decoded] });
+
+      if (unsatisfiedChecks === 0) {
+        success = true;
+        if (earlyTermination) break;
+      } else {
+        success = false;
+      }
+    }
+
+    const symbolReliability = decoded.map((symbol, j) =>
+      iterations > 0 ? posterior[j * q + symbol] : prior[j * q + symbol]
+    );
+    const correctedErrors = decoded.reduce((count, symbol, j) => count + (symbol !== channelSymbols[j] ? 1 : 0), 0);
+
+    return {
+      decoded,
+      decodedBits: this.toBinaryImage(decoded, p),
+      success,
+      iterations,
+      correctedErrors,
+      message: success
+        ? `GF(${q}) FFT-SPA 译码成功，迭代${iterations}次`
+        : `GF(${q}) FFT-SPA 译码未收敛（${iterations}次迭代）`,
+      symbolReliability,
+      iterationHistory
+    };
+  }
+
+  // 由二进制像的比特 LLR 得到每个符号的先验概率：P(a) ∝ Π_t exp(-bit_t(a)·L_t)
+  private static symbolPriors(bitLLR: number[], p: number, n: number): Float64Array {
+    const q = 1 << p;
+    const prior = new Float64Array(n * q);
+    for (let j = 0; j < n; j++) {
+      const slice = prior.subarray(j * q, (j + 1) * q);
+      let max = -Infinity;
+      for (let a = 0; a < q; a++) {
+        let logProbability = 0;
+        for (let t = 0; t < p; t++) {
+          if ((a >> t) & 1) {
+            logProbability -= Math.max(-ChannelService.MAX_LLR, Math.min(ChannelService.MAX_LLR, bitLLR[j * p + t]));
+          }
+        }
+        slice[a] = logProbability;
+        if (logProbability > max) max = logProbability;
+      }
+      for (let a = 0; a < q; a++) slice[a] = Math.exp(slice[a] - max);
+      this.normalize(slice);
+    }
+    return prior;
+  }
+
+  private static checkNodeUpdate(
+    i: number,
+    rowPtr: Int32Array,
+    permutation: Int32Array,
+    variableToCheck: Float64Array,
+    checkToVariable: Float64Array,
+    q: number
+  ): void {
+    const start = rowPtr[i];
+    const degree = rowPtr[i + 1] - start;
+
+    // 置换后变换到频域
+    const spectra = new Float64Array(degree * q);
+    for (let k = 0; k < degree; k++) {
+      const e = start + k;
+      const spectrum = spectra.subarray(k * q, (k + 1) * q);
+      for (let a = 0; a < q; a++) {
+        spectrum[permutation[e * q + a]] = variableToCheck[e * q + a];
+      }
+      this.walshHadamard(spectrum);
+    }
+
+    // 前向/后向累积乘积，得到除自身外所有输入的乘积
+    const forward = new Float64Array((degree + 1) * q);
+    const backward = new Float64Array((degree + 1) * q);
+    forward.fill(1, 0, q);
+    backward.fill(1, degree * q, (degree + 1) * q);
+    for (let k = 0; k < degree; k++) {
+      for (let a = 0; a < q; a++) {
+        forward[(k + 1) * q + a] = forward[k * q + a] * spectra[k * q + a];
+      }
+    }
+    for (let k = degree - 1; k >= 0; k--) {
+      for (let a = 0; a < q; a++) {
+        backward[k * q + a] = backward[(k + 1) * q + a] * spectra[k * q + a];
+      }
+    }
+
+    const product = new Float64Array(q);
+    for (let k = 0; k < degree; k++) {
+      const e = start + k;
+      for (let a = 0; a < q; a++) {
+        product[a] = forward[k * q + a] * backward[(k + 1) * q + a];
+      }
+      this.walshHadamard(product);
+      const message = checkToVariable.subarray(e * q, (e + 1) * q);
+      for (let a = 0; a < q; a++) {
+        // 逆变换（WHT/q，归一化时抵消）后按 h·a 取回；舍入可能产生微小负值
+        message[a] = Math.max(product[permutation[e * q + a]], 0);
+      }
+      this.normalize(message);
+    }
+  }
+
+  // 原地快速 Walsh–Hadamard 变换（未归一化）
+  private static walshHadamard(values: Float64Array): void {
+    const q = values.length;
+    for (let half = 1; half < q; half <<= 1) {
+      for (let block = 0; block < q; block += half << 1) {
+        for (let a = block; a < block + half; a++) {
+          const x = values[a];
+          const y = values[a + half];
+          values[a] = x + y;
+          values[a + half] = x - y;
+        }
+      }
+    }
+  }
+
+  private static normalize(values: Float64Array): void {
+    let sum = 0;
+    for (let a = 0; a < values.length; a++) {
+      if (!(values[a] > MIN_PROBABILITY)) values[a] = MIN_PROBABILITY;
+      sum += values[a];
+    }
+    for (let a = 0; a < values.length; a++) values[a] /= sum;
+  }
+
+  private static hardDecision(probabilities: Float64Array, n: number, q: number): number[] {
+    const decided = Array(n).fill(0);
+    for (let j = 0; j < n; j++) {
+      let best = 0;
+      for (let a = 1; a < q; a++) {
+        if (probabilities[j * q + a] > probabilities[j * q + best]) best = a;
+      }
+      decided[j] = best;
+    }
+    return decided;
+  }
+}
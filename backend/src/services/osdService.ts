@@ -0,0 +1,172 @@
+import { SparseParityCheck } from '../types';
+import { GF2MatrixService } from './gf2MatrixService';
+
+export interface OSDResult {
+  codeword: number[];
+  order: number;
+  candidates: number;     // 评估过的重编码候选数
+  searchedPositions: number; // 参与翻转的最可靠基位置数（长码时只取其中可靠度最低的一部分）
+  metric: number;         // 相关差异度量：与信道硬判决不一致位置的 |LLR| 之和
+}
+
+// 有序统计译码 OSD-i：按可靠度排序后在最可靠基（MRB）上重编码，
+// 翻转 MRB 中不超过 i 个比特得到候选码字，取相关差异度量最小者
+export class OSDService {
+
+  static readonly MAX_ORDER = 3;
+
+  // 候选数上限；超过时只在 MRB 中可靠度最低的若干位置上翻转
+  static readonly MAX_CANDIDATES = 200000;
+
+  // reliability 决定排序（通常为 BP 的后验 LLR），metricLLR 用于计算度量（信道 LLR）
+  static decode(
+    H: SparseParityCheck,
+    reliability: ArrayLike<number>,
+    metricLLR: ArrayLike<number>,
+    order: number
+  ): OSDResult {
+    const { n, m, rowPtr, colIdx } = H;
+
+    // 可靠度升序排列：高斯消元从左到右选主元，主元（校验位）因此落在最不可靠的独立列上
+    const columns = Array.from({ length: n }, (_, j) => j).sort((a, b) =>
+      Math.abs(reliability[a]) - Math.abs(reliability[b]) || Math.abs(metricLLR[a]) - Math.abs(metricLLR[b])
+    );
+    const position = new Int32Array(n);
+    columns.forEach((bit, c) => { position[bit] = c; });
+
+    const P = GF2MatrixService.create(m, n);
+    for (let i = 0; i < m; i++) {
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        GF2MatrixService.setBit(P.data[i], position[colIdx[e]], 1);
+      }
+    }
+    const { rref, pivotColumns, rank } = GF2MatrixService.rref(P);
+
+    const isPivot = new Uint8Array(n);
+    pivotColumns.forEach(c => { isPivot[c] = 1; });
+    // MRB 按可靠度降序，翻转从最不可靠的 MRB 位置开始
+    const basis: number[] = [];
+    for (let c = n - 1; c >= 0; c--) {
+      if (!isPivot[c]) basis.push(c);
+    }
+
+    const hard = (bit: number) => (reliability[bit] < 0 ? 1 : 0);
+    const weight = (bit: number) => Math.abs(metricLLR[bit]);
+    const channelHard = (bit: number) => (metricLLR[bit] < 0 ? 1 : 0);
+
+    // 第 r 个校验位 = Σ rref[r][c]·x_c（c ∈ MRB）；delta[c] 为翻转 MRB 位置 c 时各校验位的变化
+    const words = (rank + 31) >>> 5;
+    const delta = new Map<number, Uint32Array>();
+    const baseParity = new Uint32Array(words);
+    for (const c of basis) {
+      const vector = new Uint32Array(words);
+      for (let r = 0; r < rank; r++) {
+        if (GF2MatrixService.getBit(rref.data[r], c)) GF2MatrixService.setBit(vector, r, 1);
+      }
+      delta.set(c, vector);
+      if (hard(columns[c])) {
+        for (let w = 0; w < words; w++) baseParity[w] ^= vector[w];
+      }
+    }
+
+    // 校验位与信道硬判决的比较基准
+    const parityChannel = new Uint32Array(words);
+    const parityWeight = new Float64Array(rank);
+    pivotColumns.forEach((c, r) => {
+      if (channelHard(columns[c])) GF2MatrixService.setBit(parityChannel, r, 1);
+      parityWeight[r] = weight(columns[c]);
+    });
+
+    // MRB 信息位本身（未翻转时）与信道硬判决的差异
+    let baseInfoMetric = 0;
+    const flipCost = new Map<number, number>();
+    for (const c of basis) {
+      const bit = columns[c];
+      const mismatch = hard(bit) !== channelHard(bit);
+      if (mismatch) baseInfoMetric += weight(bit);
+      // 翻转后该位置对度量的增量
+      flipCost.set(c, mismatch ? -weight(bit) : weight(bit));
+    }
+
+    const parityMetric = (parity: Uint32Array): number => {
+      let metric = 0;
+      for (let w = 0; w < words; w++) {
+        let diff = parity[w] ^ parityChannel[w];
+        while (diff) {
+          const low = diff & -diff;
+          metric += parityWeight[(w << 5) + (31 - Math.clz32(low))];
+          diff ^= low;
+        }
+      }
+      return metric;
+    };
+
+    const maxOrder = Math.max(0, Math.min(this.MAX_ORDER, Math.floor(order)));
+    const searchedPositions = this.searchWidth(basis.length, maxOrder);
+    const candidatesBasis = basis.slice(basis.length - searchedPositions);
+
+    let bestMetric = baseInfoMetric + parityMetric(baseParity);
+    let bestFlips: number[] = [];
+    let candidates = 1;
+
+    const search = (start: number, flips: number[], infoMetric: number, current: Uint32Array) => {
+      if (flips.length === maxOrder) return;
+      for (let t = start; t < candidatesBasis.length; t++) {
+        const c = candidatesBasis[t];
+        const vector = delta.get(c)!;
+        const next = new Uint32Array(words);
+        for (let w = 0; w < words; w++) next[w] = current[w] ^ vector[w];
+        const nextInfo = infoMetric + flipCost.get(c)!;
+        const nextFlips = [...flips, c];
+        candidates++;
+
+        const metric = nextInfo + parityMetric(next);
+        if (metric < bestMetric) {
+          bestMetric = metric;
+          bestFlips = nextFlips;
+        }
+        search(t + 1, nextFlips, nextInfo, next);
+      }
+    };
+    search(0, [], baseInfoMetric, baseParity);
+
+    // 由最佳翻转组合重建码字
+    const codeword = Array(n).fill(0);
+    const finalParity = new Uint32Array(baseParity);
+    for (const c of basis) {
+      codeword[columns[c]] = hard(columns[c]);
+    }
+    for (const c of bestFlips) {
+      codeword[columns[c]] ^= 1;
+      const vector = delta.get(c)!;
+      for (let w = 0; w < words; w++) finalParity[w] ^= vector[w];
+    }
+    pivotColumns.forEach((c, r) => {
+      codeword[columns[c]] = GF2MatrixService.getBit(finalParity, r);
+    });
+
+    return {
+      codeword,
+      order: maxOrder,
+      candidates,
+      searchedPositions,
+      metric: bestMetric
+    };
+  }
+
+  // 在 k 个 MRB 位置上做 order 阶翻转的候选数为 Σ C(k, i)；超过上限时缩小搜索宽度
+  private static searchWidth(k: number, order: number): number {
+    const count = (width: number) => {
+      let total = 1;
+      let term = 1;
+      for (let i = 1; i <= order; i++) {
+        term = term * (width - i + 1) / i;
+        total += term;
+      }
+      return total;
+    };
+    let width = k;
+    while (width > order && count(width) > this.MAX_CANDIDATES) width--;
+    return width;
+  }
+}
@@ -0,0 +1,74 @@
+import { QCExpansionResult } from '../types';
+import { ConstructionService } from './constructionService';
+
+export class QCLDPCService {
+
+  // 将基矩阵按提升因子 Z 展开为完整的 H 矩阵及对应的图
+  static expand(baseMatrix: number[][], Z: number): QCExpansionResult {
+    const errors = this.validateBaseMatrix(baseMatrix, Z);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const H = this.expandBaseMatrix(baseMatrix, Z);
+    const graph = ConstructionService.buildGraphFromMatrix(H);
+
+    return {
+      baseMatrix: baseMatrix.map(row => [...row]),
+      Z,
+      H,
+      graph,
+      n: H[0].length,
+      m: H.length
+    };
+  }
+
+  // 移位 s 的循环块为单位阵循环右移 s 位：第 r 行的 1 位于第 (r + s) mod Z 列
+  static expandBaseMatrix(baseMatrix: number[][], Z: number): number[][] {
+    const mb = baseMatrix.length;
+    const nb = baseMatrix[0].length;
+    const H: number[][] = Array(mb * Z).fill(null).map(() => Array(nb * Z).fill(0));
+
+    for (let i = 0; i < mb; i++) {
+      for (let j = 0; j < nb; j++) {
+        const shift = baseMatrix[i][j];
+        if (shift < 0) continue;
+
+        const s = shift % Z;
+        for (let r = 0; r < Z; r++) {
+          H[i * Z + r][j * Z + ((r + s) % Z)] = 1;
+        }
+      }
+    }
+
+    return H;
+  }
+
+  static validateBaseMatrix(baseMatrix: number[][], Z: number): string[] {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(Z) || Z < 1) {
+      errors.push('Lifting size Z must be a positive integer');
+    }
+
+    if (!Array.isArray(baseMatrix) || baseMatrix.length === 0 || !Array.isArray(baseMatrix[0]) || baseMatrix[0].length === 0) {
+      errors.push('Base matrix must be a non-empty 2D array');
+      return errors;
+    }
+
+    const nb = baseMatrix[0].length;
+    baseMatrix.forEach((row, i) => {
+      if (!Array.isArray(row) || row.length !== nb) {
+        errors.push(`Base matrix row ${i + 1} must have ${nb} entries`);
+        return;
+      }
+      row.forEach((value, j) => {
+        if (!Number.isInteger(value) || value < -1) {
+          errors.push(`Invalid shift value at (${i + 1}, ${j + 1}): ${value}`);
+        }
+      });
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,334 @@
+import { DecodingResult, SparseParityCheck } from '../types';
+import { SparseMatrixService } from './sparseMatrixService';
+import type { DecodingConfig, QuantizationConfig } from './decodingService';
+
+export interface QuantizationStats {
+  channelSaturations: number; // 信道 LLR 量化时溢出的次数
+  messageSaturations: number; // 变量→校验消息溢出的次数
+  appSaturations: number;     // 后验 LLR 累加器溢出的次数
+}
+
+export type QuantizedDecodingResult = DecodingResult & {
+  iterationHistory: any[];
+  quantizationStats: QuantizationStats;
+  posterior: number[]; // 最终后验 LLR（定点值换算回实数）
+};
+
+// 消息存储：定点为整数，浮点模式为双精度
+type MessageArray = Int32Array | Float64Array;
+
+// 定点 min-sum / 分层 min-sum 仿真：所有消息均为整数，1 LSB = 2^-fractionalBits，
+// 按指定位宽做饱和（或回绕）并按指定方式舍入，用于在写 RTL 前评估有限精度带来的性能损失。
+// floatingPoint 时跳过舍入与饱和，以浮点运行同一算法与调度，作为量化损失的参考
+export class QuantizedDecodingService {
+
+  static readonly DEFAULT_CONFIG: QuantizationConfig = {
+    channelBits: 6,
+    messageBits: 6,
+    fractionalBits: 2,
+    saturation: 'symmetric',
+    rounding: 'nearest'
+  };
+
+  static readonly ALGORITHMS: DecodingConfig['algorithm'][] = ['min-sum', 'layered'];
+
+  // 补全默认值；不合法时返回错误信息
+  static resolve(input: Partial<QuantizationConfig>): QuantizationConfig | { error: string } {
+    const config: QuantizationConfig = { ...this.DEFAULT_CONFIG, ...input };
+    const isWidth = (bits: any) => Number.isInteger(bits) && bits >= 2 && bits <= 24;
+
+    if (!isWidth(config.channelBits) || !isWidth(config.messageBits)) {
+      return { error: 'Channel and message bit widths must be integers between 2-24' };
+    }
+    if (config.appBits !== undefined && (!isWidth(config.appBits) || config.appBits < config.messageBits)) {
+      return { error: 'APP bit width must be between the message bit width and 24' };
+    }
+    if (!Number.isInteger(config.fractionalBits) || config.fractionalBits < 0 ||
+        config.fractionalBits >= Math.min(config.channelBits, config.messageBits)) {
+      return { error: 'Fractional bits must be non-negative and smaller than the bit widths' };
+    }
+    if (!['symmetric', 'twos-complement', 'wrap'].includes(config.saturation)) {
+      return { error: `Unsupported saturation mode: ${config.saturation}` };
+    }
+    if (!['nearest', 'floor', 'truncate'].includes(config.rounding)) {
+      return { error: `Unsupported rounding mode: ${config.rounding}` };
+    }
+    if (config.floatingPoint !== undefined && typeof config.floatingPoint !== 'boolean') {
+      return { error: 'floatingPoint must be a boolean' };
+    }
+    return config;
+  }
+
+  static decode(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig
+  ): QuantizedDecodingResult {
+    const resolved = this.resolve(config.quantization || {});
+    if ('error' in resolved) {
+      throw new Error(resolved.error);
+    }
+
+    switch (config.algorithm) {
+      case 'min-sum':
+        return this.minSumDecoding(llr, channelBits, H, config, resolved);
+      case 'layered':
+        return this.layeredDecoding(llr, channelBits, H, config, resolved);
+      default:
+        throw new Error(`Quantized decoding supports ${this.ALGORITHMS.join(', ')} only`);
+    }
+  }
+
+  // 实数 → 定点整数（按舍入方式取整后限幅到 bits 位）
+  static quantize(value: number, bits: number, q: QuantizationConfig): number {
+    return this.limit(this.round(value * Math.pow(2, q.fractionalBits), q), bits, q);
+  }
+
+  private static round(x: number, q: QuantizationConfig): number {
+    if (q.floatingPoint) return x;
+    switch (q.rounding) {
+      case 'floor':
+        return Math.floor(x);
+      case 'truncate':
+        return Math.trunc(x);
+      default:
+        // 四舍五入，.5 远离零
+        return Math.sign(x) * Math.floor(Math.abs(x) + 0.5);
+    }
+  }
+
+  // symmetric：限幅到 ±(2^(b-1)-1)，避免负向多出的一个码字；twos-complement：[-2^(b-1), 2^(b-1)-1]；wrap：补码回绕
+  private static limit(x: number, bits: number, q: QuantizationConfig): number {
+    if (q.floatingPoint) return x;
+    const max = Math.pow(2, bits - 1) - 1;
+    if (q.saturation === 'wrap') {
+      const range = 2 * (max + 1);
+      const wrapped = ((x + max + 1) % range + range) % range;
+      return wrapped - max - 1;
+    }
+    const min = q.saturation === 'symmetric' ? -max : -max - 1;
+    return x > max ? max : x < min ? min : x;
+  }
+
+  private static messages(length: number, q: QuantizationConfig): MessageArray {
+    return q.floatingPoint ? new Float64Array(length) : new Int32Array(length);
+  }
+
+  // 浮点模式同样乘以 2^fractionalBits：2 的幂次缩放是精确的，min-sum 更新对它线性，输出时再换算回来
+  private static quantizeChannel(llr: number[], q: QuantizationConfig, stats: QuantizationStats): MessageArray {
+    const scale = Math.pow(2, q.fractionalBits);
+    const channel = this.messages(llr.length, q);
+    for (let j = 0; j < llr.length; j++) {
+      const rounded = this.round(llr[j] * scale, q);
+      channel[j] = this.limit(rounded, q.channelBits, q);
+      if (channel[j] !== rounded) stats.channelSaturations++;
+    }
+    return channel;
+  }
+
+  // 一行校验的归一化 min-sum：求两个最小幅度与符号积，输出 sign·round(α·min)
+  private static checkNodeUpdate(
+    H: SparseParityCheck,
+    row: number,
+    variableToCheck: MessageArray,
+    checkToVariable: MessageArray,
+    scalingFactor: number,
+    q: QuantizationConfig
+  ): void {
+    const { rowPtr } = H;
+    let min1 = Infinity;
+    let min2 = Infinity;
+    let minEdge = -1;
+    let signProduct = 1;
+
+    for (let e = rowPtr[row]; e < rowPtr[row + 1]; e++) {
+      const value = variableToCheck[e];
+      const magnitude = value < 0 ? -value : value;
+      if (value < 0) signProduct = -signProduct;
+      if (magnitude < min1) {
+        min2 = min1;
+        min1 = magnitude;
+        minEdge = e;
+      } else if (magnitude < min2) {
+        min2 = magnitude;
+      }
+    }
+
+    const scaledMin1 = this.limit(this.round(scalingFactor * min1, q), q.messageBits, q);
+    const scaledMin2 = min2 === Infinity
+      ? 0
+      : this.limit(this.round(scalingFactor * min2, q), q.messageBits, q);
+
+    for (let e = rowPtr[row]; e < rowPtr[row + 1]; e++) {
+      const sign = variableToCheck[e] < 0 ? -signProduct : signProduct;
+      checkToVariable[e] = sign * (e === minEdge ? scaledMin2 : scaledMin1);
+    }
+  }
+
+  private static minSumDecoding(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig,
+    q: QuantizationConfig
+  ): QuantizedDecodingResult {
+    const { n, m, rowPtr, colIdx, colPtr, colEdge } = H;
+    const appBits = q.appBits ?? q.messageBits + 2;
+    const scalingFactor = config.scalingFactor ?? 0.75;
+    const stats: QuantizationStats = { channelSaturations: 0, messageSaturations: 0, appSaturations: 0 };
+    const iterationHistory = [];
+
+    const channel = this.quantizeChannel(llr, q, stats);
+    const posterior = channel.slice();
+    const variableToCheck = this.messages(rowPtr[m], q);
+    const checkToVariable = this.messages(rowPtr[m], q);
+    for (let e = 0; e < rowPtr[m]; e++) {
+      variableToCheck[e] = this.limit(channel[colIdx[e]], q.messageBits, q);
+    }
+
+    const decoded = channelBits.map(bit => (bit === 1 ? 1 : 0));
+
+    for (let iter = 0; iter < config.maxIterations; iter++) {
+      for (let i = 0; i < m; i++) {
+        this.checkNodeUpdate(H, i, variableToCheck, checkToVariable, scalingFactor, q);
+      }
+
+      for (let j = 0; j < n; j++) {
+        let sum = channel[j];
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          sum += checkToVariable[colEdge[p]];
+        }
+        const app = this.limit(sum, appBits, q);
+        if (app !== sum) stats.appSaturations++;
+        posterior[j] = app;
+        decoded[j] = app < 0 ? 1 : 0;
+
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const e = colEdge[p];
+          const extrinsic = app - checkToVariable[e];
+          variableToCheck[e] = this.limit(extrinsic, q.messageBits, q);
+          if (variableToCheck[e] !== extrinsic) stats.messageSaturations++;
+        }
+      }
+
+      const syndrome = SparseMatrixService.syndrome(H, decoded);
+      iterationHistory.push({
+        iteration: iter + 1,
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded, checkToVariable, q)
+      });
+
+      if (config.earlyTermination && syndrome.every(bit => bit === 0)) {
+        break;
+      }
+    }
+
+    return this.buildResult(decoded, channelBits, H, iterationHistory, stats, posterior, q, q.floatingPoint ? '浮点Min-Sum' : '定点Min-Sum');
+  }
+
+  // 分层调度：逐行用当前后验减去旧的校验消息得到变量消息，更新后立即写回后验
+  private static layeredDecoding(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig,
+    q: QuantizationConfig
+  ): QuantizedDecodingResult {
+    const { n, m, rowPtr, colIdx } = H;
+    const appBits = q.appBits ?? q.messageBits + 2;
+    const scalingFactor = config.scalingFactor ?? 0.75;
+    const stats: QuantizationStats = { channelSaturations: 0, messageSaturations: 0, appSaturations: 0 };
+    const iterationHistory = [];
+
+    const channel = this.quantizeChannel(llr, q, stats);
+    const app = this.messages(n, q);
+    for (let j = 0; j < n; j++) {
+      app[j] = this.limit(channel[j], appBits, q);
+    }
+    const variableToCheck = this.messages(rowPtr[m], q);
+    const checkToVariable = this.messages(rowPtr[m], q);
+
+    const decoded = channelBits.map(bit => (bit === 1 ? 1 : 0));
+
+    for (let iter = 0; iter < config.maxIterations; iter++) {
+      for (let i = 0; i < m; i++) {
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+          const extrinsic = app[colIdx[e]] - checkToVariable[e];
+          variableToCheck[e] = this.limit(extrinsic, q.messageBits, q);
+          if (variableToCheck[e] !== extrinsic) stats.messageSaturations++;
+        }
+
+        this.checkNodeUpdate(H, i, variableToCheck, checkToVariable, scalingFactor, q);
+
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+          const sum = variableToCheck[e] + checkToVariable[e];
+          app[colIdx[e]] = this.limit(sum, appBits, q);
+          if (app[colIdx[e]] !== sum) stats.appSaturations++;
+        }
+      }
+
+      for (let j = 0; j < n; j++) {
+        decoded[j] = app[j] < 0 ? 1 : 0;
+      }
+
+      const syndrome = SparseMatrixService.syndrome(H, decoded);
+      iterationHistory.push({
+        iteration: iter + 1,
+        syndrome,
+        decoded: [...decoded],
+        ...this.messageSnapshot(config, H, decoded, checkToVariable, q)
+      });
+
+      if (config.earlyTermination && syndrome.every(bit => bit === 0)) {
+        break;
+      }
+    }
+
+    return this.buildResult(decoded, channelBits, H, iterationHistory, stats, app, q, q.floatingPoint ? '浮点分层' : '定点分层');
+  }
+
+  // recordMessages 时记录换算回实数的校验→变量消息与不满足的校验，供图上回放
+  private static messageSnapshot(
+    config: DecodingConfig,
+    H: SparseParityCheck,
+    decoded: number[],
+    checkToVariable: MessageArray,
+    q: QuantizationConfig
+  ): { checkToVariable?: number[]; unsatisfiedChecks?: number[] } {
+    if (!config.recordMessages) return {};
+    const lsb = Math.pow(2, -q.fractionalBits);
+    return {
+      checkToVariable: Array.from(checkToVariable, value => value * lsb),
+      unsatisfiedChecks: SparseMatrixService.unsatisfiedChecks(H, decoded)
+    };
+  }
+
+  private static buildResult(
+    decoded: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    iterationHistory: any[],
+    stats: QuantizationStats,
+    app: MessageArray,
+    q: QuantizationConfig,
+    name: string
+  ): QuantizedDecodingResult {
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) =>
+      count + (bit !== decoded[index] ? 1 : 0), 0
+    );
+
+    return {
+      decoded,
+      success: isValid,
+      iterations: iterationHistory.length,
+      correctedErrors,
+      message: isValid ? `${name}解码成功` : `${name}解码未完全收敛，纠正${correctedErrors}个错误`,
+      iterationHistory,
+      quantizationStats: stats,
+      posterior: Array.from(app, value => value / Math.pow(2, q.fractionalBits))
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+// xoshiro128**：128 位状态、周期 2^128 − 1；种子经 splitmix32 展开为 4 个状态字。
+// 仿真中的信息位、信道噪声与错误注入都从同一个生成器取数，给定种子即可逐帧复现
+export class RandomGenerator {
+
+  private state = new Uint32Array(4);
+  private spare: number | null = null; // Box–Muller 成对产生的第二个正态样本
+
+  constructor(readonly seed: number) {
+    let x = seed >>> 0;
+    for (let i = 0; i < 4; i++) {
+      x = (x + 0x9e3779b9) >>> 0;
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      this.state[i] = z ^ (z >>> 16);
+    }
+  }
+
+  nextUint32(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  }
+
+  // [0, 1) 均匀分布
+  next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  bit(): number {
+    return this.nextUint32() >>> 31;
+  }
+
+  // [0, bound) 的整数
+  int(bound: number): number {
+    return Math.floor(this.next() * bound);
+  }
+
+  normal(mean: number = 0, stdDev: number = 1): number {
+    if (this.spare !== null) {
+      const z = this.spare;
+      this.spare = null;
+      return mean + stdDev * z;
+    }
+    const u1 = 1 - this.next(); // (0, 1]，避免 log(0)
+    const u2 = this.next();
+    const r = Math.sqrt(-2 * Math.log(u1));
+    this.spare = r * Math.sin(2 * Math.PI * u2);
+    return mean + stdDev * r * Math.cos(2 * Math.PI * u2);
+  }
+}
+
+export class RandomService {
+
+  static readonly MAX_SEED = 4294967295;
+
+  // 未给种子时取一个新的随机种子；调用方应在响应中回显 generator.seed 以便复现
+  static create(seed?: number): RandomGenerator {
+    return new RandomGenerator(seed ?? randomBytes(4).readUInt32LE(0));
+  }
+
+  // 校验请求中的 seed（缺省或 null 时随机生成）
+  static resolve(seed: unknown): RandomGenerator | { error: string } {
+    if (seed === undefined || seed === null) {
+      return this.create();
+    }
+    if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > this.MAX_SEED) {
+      return { error: `seed must be an integer between 0 and ${this.MAX_SEED}` };
+    }
+    return this.create(seed);
+  }
+}
@@ -0,0 +1,279 @@
+import { DecodingResult, SparseParityCheck } from '../types';
+import { SparseMatrixService } from './sparseMatrixService';
+import { DecoderRegistry, DECODER_PARAMETERS } from './decoderRegistry';
+import type { DecodingConfig } from './decodingService';
+
+export type ResidualDecodingResult = DecodingResult & {
+  iterationHistory: any[];
+  posterior: number[];
+  messageUpdates: number;
+};
+
+// 残差小于该值视为已收敛（不动点），调度停止
+const RESIDUAL_TOLERANCE = 1e-9;
+
+const MAX_MESSAGE = 25;
+
+// 带位置索引的最大堆：键为边（RBP）或校验节点（节点级 RBP），优先级为残差，支持原地调整
+class ResidualQueue {
+  private heap: Int32Array;
+  private position: Int32Array;
+  private priority: Float64Array;
+  private size = 0;
+
+  constructor(capacity: number) {
+    this.heap = new Int32Array(capacity);
+    this.position = new Int32Array(capacity).fill(-1);
+    this.priority = new Float64Array(capacity);
+  }
+
+  get maxPriority(): number {
+    return this.size > 0 ? this.priority[this.heap[0]] : 0;
+  }
+
+  update(key: number, value: number): void {
+    const previous = this.priority[key];
+    this.priority[key] = value;
+    if (this.position[key] === -1) {
+      this.heap[this.size] = key;
+      this.position[key] = this.size++;
+      this.siftUp(this.position[key]);
+    } else if (value > previous) {
+      this.siftUp(this.position[key]);
+    } else {
+      this.siftDown(this.position[key]);
+    }
+  }
+
+  pop(): number {
+    const top = this.heap[0];
+    this.size--;
+    this.position[top] = -1;
+    if (this.size > 0) {
+      this.heap[0] = this.heap[this.size];
+      this.position[this.heap[0]] = 0;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    const key = this.heap[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priority[this.heap[parent]] >= this.priority[key]) break;
+      this.heap[index] = this.heap[parent];
+      this.position[this.heap[index]] = index;
+      index = parent;
+    }
+    this.heap[index] = key;
+    this.position[key] = index;
+  }
+
+  private siftDown(index: number): void {
+    const key = this.heap[index];
+    while (true) {
+      let child = 2 * index + 1;
+      if (child >= this.size) break;
+      if (child + 1 < this.size && this.priority[this.heap[child + 1]] > this.priority[this.heap[child]]) {
+        child++;
+      }
+      if (this.priority[this.heap[child]] <= this.priority[key]) break;
+      this.heap[index] = this.heap[child];
+      this.position[this.heap[index]] = index;
+      index = child;
+    }
+    this.heap[index] = key;
+    this.position[key] = index;
+  }
+}
+
+// 信息驱动的动态调度（Vila Casado 等）：
+//   residual-bp：每次只提交残差 |新消息 − 旧消息| 最大的一条校验→变量消息
+//   node-wise-rbp：选残差最大的校验节点，一次提交它的全部输出消息
+// 校验节点按和积（tanh）规则更新；停止条件为消息更新预算而不是迭代次数
+export class ResidualDecodingService {
+
+  static decode(
+    llr: number[],
+    channelBits: number[],
+    H: SparseParityCheck,
+    config: DecodingConfig
+  ): ResidualDecodingResult {
+    const { n, m, rowPtr, colIdx, colPtr, rowIdx, colEdge } = H;
+    const edgeCount = rowPtr[m];
+    const nodeWise = config.algorithm === 'node-wise-rbp';
+    const budget = config.updateBudget ?? config.maxIterations * edgeCount;
+
+    const variableToCheck = new Float64Array(edgeCount);
+    const checkToVariable = new Float64Array(edgeCount);
+    const candidate = new Float64Array(edgeCount);
+    const residual = new Float64Array(edgeCount);
+    for (let e = 0; e < edgeCount; e++) {
+      variableToCheck[e] = llr[colIdx[e]];
+    }
+
+    const posterior = Float64Array.from(llr);
+    const decoded = channelBits.map(bit => (bit === 1 ? 1 : 0));
+    for (let j = 0; j < n; j++) {
+      decoded[j] = posterior[j] < 0 ? 1 : 0;
+    }
+    const checkParity = new Uint8Array(SparseMatrixService.syndrome(H, decoded));
+    let unsatisfied = checkParity.reduce((sum, bit) => sum + bit, 0);
+
+    const queue = new ResidualQueue(nodeWise ? m : edgeCount);
+
+    // 重新计算校验 i 的全部候选消息及残差
+    const refreshCheck = (i: number) => {
+      let rowResidual = 0;
+      for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+        let product = 1;
+        for (let f = rowPtr[i]; f < rowPtr[i + 1]; f++) {
+          if (f !== e) product *= Math.tanh(variableToCheck[f] / 2);
+        }
+        const clipped = Math.max(-0.999999999999, Math.min(0.999999999999, product));
+        candidate[e] = Math.max(-MAX_MESSAGE, Math.min(MAX_MESSAGE, 2 * Math.atanh(clipped)));
+        residual[e] = Math.abs(candidate[e] - checkToVariable[e]);
+        if (nodeWise) {
+          rowResidual = Math.max(rowResidual, residual[e]);
+        } else {
+          queue.update(e, residual[e]);
+        }
+      }
+      if (nodeWise) queue.update(i, rowResidual);
+    };
+
+    // 提交边 e 的候选消息，更新变量节点后验与硬判决；返回需要刷新的校验
+    const commit = (e: number, touched: Set<number>) => {
+      const j = colIdx[e];
+      posterior[j] += candidate[e] - checkToVariable[e];
+      checkToVariable[e] = candidate[e];
+      residual[e] = 0;
+
+      const bit = posterior[j] < 0 ? 1 : 0;
+      if (bit !== decoded[j]) {
+        decoded[j] = bit;
+        for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+          const check = rowIdx[p];
+          checkParity[check] ^= 1;
+          unsatisfied += checkParity[check] ? 1 : -1;
+        }
+      }
+
+      for (let p = colPtr[j]; p < colPtr[j + 1]; p++) {
+        const f = colEdge[p];
+        if (f === e) continue;
+        variableToCheck[f] = Math.max(-MAX_MESSAGE, Math.min(MAX_MESSAGE, posterior[j] - checkToVariable[f]));
+        touched.add(rowIdx[p]);
+      }
+    };
+
+    for (let i = 0; i < m; i++) {
+      refreshCheck(i);
+    }
+
+    // recordMessages 时快照中附带已提交的校验→变量消息与不满足的校验
+    const snapshot = () => config.recordMessages ? {
+      checkToVariable: Array.from(checkToVariable),
+      unsatisfiedChecks: SparseMatrixService.unsatisfiedChecks(H, decoded)
+    } : {};
+
+    const iterationHistory = [];
+    let updates = 0;
+    let nextSnapshot = edgeCount;
+
+    while (updates < budget) {
+      if (config.earlyTermination && unsatisfied === 0) break;
+      if (queue.maxPriority < RESIDUAL_TOLERANCE) break;
+
+      const touched = new Set<number>();
+      if (nodeWise) {
+        const i = queue.pop();
+        for (let e = rowPtr[i]; e < rowPtr[i + 1]; e++) {
+          commit(e, touched);
+          updates++;
+        }
+        touched.delete(i);
+        queue.update(i, 0);
+      } else {
+        const e = queue.pop();
+        commit(e, touched);
+        updates++;
+        queue.update(e, 0);
+      }
+      touched.forEach(check => refreshCheck(check));
+
+      // 每完成相当于一次泛洪迭代（E 次消息更新）记录一次快照
+      if (updates >= nextSnapshot) {
+        iterationHistory.push({
+          iteration: iterationHistory.length + 1,
+          messageUpdates: updates,
+          syndrome: Array.from(checkParity),
+          decoded: [...decoded],
+          ...snapshot()
+        });
+        nextSnapshot += edgeCount;
+      }
+    }
+
+    if (iterationHistory.length === 0 || iterationHistory[iterationHistory.length - 1].messageUpdates !== updates) {
+      iterationHistory.push({
+        iteration: iterationHistory.length + 1,
+        messageUpdates: updates,
+        syndrome: Array.from(checkParity),
+        decoded: [...decoded],
+        ...snapshot()
+      });
+    }
+
+    const isValid = SparseMatrixService.isCodeword(H, decoded);
+    const correctedErrors = channelBits.reduce((count, bit, index) =>
+      count + (bit !== decoded[index] ? 1 : 0), 0
+    );
+    const name = nodeWise ? '节点级RBP' : 'RBP';
+
+    return {
+      decoded,
+      success: isValid,
+      iterations: Math.ceil(updates / Math.max(1, edgeCount)),
+      correctedErrors,
+      message: isValid
+        ? `${name}解码成功（${updates}次消息更新）`
+        : `${name}解码未完全收敛（${updates}次消息更新），纠正${correctedErrors}个错误`,
+      iterationHistory,
+      posterior: Array.from(posterior),
+      messageUpdates: updates
+    };
+  }
+}
+
+const { maxIterations, updateBudget, earlyTermination } = DECODER_PARAMETERS;
+
+DecoderRegistry.register(
+  {
+    id: 'residual-bp',
+    name: 'Residual BP',
+    description: 'Dynamic schedule that always updates the check-to-variable message with the largest residual',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, updateBudget, earlyTermination],
+    softOutput: true,
+    decode: ({ llr, channelBits, H, config }) => ResidualDecodingService.decode(llr, channelBits, H, config)
+  },
+  {
+    id: 'node-wise-rbp',
+    name: 'Node-wise Residual BP',
+    description: 'Updates all messages of the check node with the largest residual at once',
+    family: 'soft',
+    complexity: 'High',
+    performance: 'Optimal',
+    inputs: ['hard', 'llr'],
+    channels: ['BSC', 'AWGN', 'Rayleigh', 'BEC'],
+    parameters: [maxIterations, updateBudget, earlyTermination],
+    softOutput: true,
+    decode: ({ llr, channelBits, H, config }) => ResidualDecodingService.decode(llr, channelBits, H, config)
+  }
+);
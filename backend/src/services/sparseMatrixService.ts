@@ -0,0 +1,170 @@
+import { SparseParityCheck, SparseMatrixPayload } from '../types';
+
+// 路由可接受的校验矩阵格式：稠密二维数组、紧凑 JSON 格式或已构建的稀疏结构
+export type ParityCheckInput = number[][] | SparseMatrixPayload | SparseParityCheck;
+
+export class SparseMatrixService {
+
+  // 由每行的非零列下标构建 CSR/CSC 邻接表，重复下标只计一次
+  static fromRows(m: number, n: number, rows: number[][]): SparseParityCheck {
+    if (!Number.isInteger(m) || !Number.isInteger(n) || m < 0 || n < 0) {
+      throw new Error(`Invalid sparse matrix dimensions: ${m}x${n}`);
+    }
+    if (!Array.isArray(rows) || rows.length !== m) {
+      throw new Error(`Sparse matrix must list exactly ${m} rows`);
+    }
+
+    const normalizedRows = rows.map((row, i) => {
+      for (const j of row) {
+        if (!Number.isInteger(j) || j < 0 || j >= n) {
+          throw new Error(`Column index ${j} in row ${i} is out of range [0, ${n})`);
+        }
+      }
+      return [...new Set(row)].sort((a, b) => a - b);
+    });
+
+    const edgeCount = normalizedRows.reduce((sum, row) => sum + row.length, 0);
+    const rowPtr = new Int32Array(m + 1);
+    const colIdx = new Int32Array(edgeCount);
+    const colPtr = new Int32Array(n + 1);
+
+    let e = 0;
+    normalizedRows.forEach((row, i) => {
+      rowPtr[i] = e;
+      for (const j of row) {
+        colIdx[e++] = j;
+        colPtr[j + 1]++;
+      }
+    });
+    rowPtr[m] = e;
+
+    for (let j = 0; j < n; j++) {
+      colPtr[j + 1] += colPtr[j];
+    }
+
+    // 按行顺序填充列表，每列内的校验下标自然递增
+    const rowIdx = new Int32Array(edgeCount);
+    const colEdge = new Int32Array(edgeCount);
+    const fill = colPtr.slice(0, n);
+    for (let i = 0; i < m; i++) {
+      for (let edge = rowPtr[i]; edge < rowPtr[i + 1]; edge++) {
+        const position = fill[colIdx[edge]]++;
+        rowIdx[position] = i;
+        colEdge[position] = edge;
+      }
+    }
+
+    return { m, n, rowPtr, colIdx, colPtr, rowIdx, colEdge };
+  }
+
+  static fromDense(H: number[][]): SparseParityCheck {
+    const m = H.length;
+    const n = H[0]?.length || 0;
+    const rows = H.map((row, i) => {
+      if (!Array.isArray(row) || row.length !== n) {
+        throw new Error(`Row ${i} of the parity check matrix must have ${n} columns`);
+      }
+      const ones: number[] = [];
+      row.forEach((value, j) => {
+        if (value === 1) ones.push(j);
+      });
+      return ones;
+    });
+    return this.fromRows(m, n, rows);
+  }
+
+  // 统一入口：请求中的H可以是稠密矩阵或 {m, n, rows}，每个请求只需转换一次
+  static from(input: ParityCheckInput): SparseParityCheck {
+    if (this.isSparse(input)) {
+      return input;
+    }
+    if (Array.isArray(input)) {
+      return this.fromDense(input);
+    }
+    if (input && Array.isArray((input as SparseMatrixPayload).rows)) {
+      const { m, n, rows } = input as SparseMatrixPayload;
+      return this.fromRows(m, n, rows);
+    }
+    throw new Error('Parity check matrix must be a 2D array or {m, n, rows}');
+  }
+
+  // 路由参数校验：判断请求体中的值是否为可识别的校验矩阵格式
+  static isMatrixInput(value: any): value is ParityCheckInput {
+    if (!value) return false;
+    if (Array.isArray(value)) {
+      return value.length > 0 && Array.isArray(value[0]);
+    }
+    return Number.isInteger(value.m) && Number.isInteger(value.n) && Array.isArray(value.rows);
+  }
+
+  static isSparse(value: any): value is SparseParityCheck {
+    return !!value && value.rowPtr instanceof Int32Array && value.colEdge instanceof Int32Array;
+  }
+
+  static toDense(S: SparseParityCheck): number[][] {
+    const H: number[][] = Array(S.m).fill(null).map(() => Array(S.n).fill(0));
+    for (let i = 0; i < S.m; i++) {
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        H[i][S.colIdx[e]] = 1;
+      }
+    }
+    return H;
+  }
+
+  static toPayload(S: SparseParityCheck): SparseMatrixPayload {
+    const rows: number[][] = [];
+    for (let i = 0; i < S.m; i++) {
+      rows.push(Array.from(S.colIdx.subarray(S.rowPtr[i], S.rowPtr[i + 1])));
+    }
+    return { m: S.m, n: S.n, rows };
+  }
+
+  static edgeCount(S: SparseParityCheck): number {
+    return S.colIdx.length;
+  }
+
+  // s = H * x^T (GF(2))，x 中非零元素视为1
+  static syndrome(S: SparseParityCheck, x: ArrayLike<number>): number[] {
+    const syndrome = Array(S.m).fill(0);
+    for (let i = 0; i < S.m; i++) {
+      let parity = 0;
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        if (x[S.colIdx[e]]) parity ^= 1;
+      }
+      syndrome[i] = parity;
+    }
+    return syndrome;
+  }
+
+  // 不满足的校验下标（syndrome 为1的行）
+  static unsatisfiedChecks(S: SparseParityCheck, x: ArrayLike<number>): number[] {
+    const checks: number[] = [];
+    this.syndrome(S, x).forEach((bit, i) => {
+      if (bit) checks.push(i);
+    });
+    return checks;
+  }
+
+  static syndromeWeight(S: SparseParityCheck, x: ArrayLike<number>): number {
+    let weight = 0;
+    for (let i = 0; i < S.m; i++) {
+      let parity = 0;
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        if (x[S.colIdx[e]]) parity ^= 1;
+      }
+      weight += parity;
+    }
+    return weight;
+  }
+
+  static isCodeword(S: SparseParityCheck, x: ArrayLike<number>): boolean {
+    for (let i = 0; i < S.m; i++) {
+      let parity = 0;
+      for (let e = S.rowPtr[i]; e < S.rowPtr[i + 1]; e++) {
+        if (x[S.colIdx[e]]) parity ^= 1;
+      }
+      if (parity) return false;
+    }
+    return true;
+  }
+}
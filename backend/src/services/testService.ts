@@ -1,6 +1,31 @@
-import { LDPCService } from './ldpcService';
-import { ErrorTestConfig } from '../types';
+import { SparseMatrixService, ParityCheckInput } from './sparseMatrixService';
+import { ALTEncoderService } from './altEncoderService';
+import { DecodingService, DecodingConfig, DecoderOutput } from './decodingService';
+import { DecoderRegistry } from './decoders';
+import { ChannelService, ChannelConfig, BurstChannelParameters } from './channelService';
+import { RandomGenerator, RandomService } from './randomService';
+import { ModulationSettings } from './modulationService';
+import { SparseParityCheck } from '../types';
 
+// 仿真请求可指定的译码参数；LLR 输入、信道类型与 SNR 等由仿真按实际信道填入
+export type DecoderSettings = Pick<DecodingConfig, 'algorithm' | 'maxIterations' | 'scalingFactor' | 'damping' | 'earlyTermination' | 'quantization' | 'osdOrder' | 'updateBudget'
+  | 'reliabilityWeight' | 'flipThreshold' | 'flipProbability' | 'seed' | 'admmPenalty' | 'admmTolerance'>;
+
+// 算法对比中的一条曲线，label 用于区分同一算法的不同参数
+export type LabeledDecoderSettings = DecoderSettings & { label?: string };
+
+export type SimulationChannel = 'BSC' | 'AWGN' | 'Rayleigh' | 'BEC' | 'Gilbert-Elliott' | 'Markov-AWGN';
+
+export type ErrorPattern = 'random' | 'burst' | 'erasure' | 'gilbert-elliott';
+
+export interface ChannelFrame {
+  received: number[]; // 硬判决（BEC 中 -1 表示擦除）
+  llr: number[];      // 译码器输入，正值倾向比特0
+  errorCount: number;
+}
+
+// 错误率仿真的统计口径：只译含错误的帧，totalErrors 为含错误的帧数，correctedErrors 为译回原码字的帧数，
+// avgIterations 按收敛帧平均
 export interface BERAnalysisResult {
   errorRate: number;
   ber: number;
@@ -22,6 +47,7 @@ export interface AlgorithmComparisonResult {
     totalErrors: number;
     correctedErrors: number;
     avgIterations: number;
+    avgMessageUpdates: number;
     convergenceRate: number;
   }[];
 }
@@ -40,33 +66,155 @@ export interface ChannelComparisonResult {
   }[];
 }
 
+// 一个仿真点上的帧统计，由各 run* 方法换算为结果字段
+interface FrameTally {
+  errorCount: number;
+  correctedCount: number;
+  totalIterations: number;
+  totalUpdates: number;
+  convergenceCount: number;
+}
+
 export class TestService {
+
+  static readonly DEFAULT_DECODER: DecoderSettings = { algorithm: 'belief-propagation', maxIterations: 50 };
+
+  // 合并请求中的译码参数并校验；未给出的字段取 defaults
+  static resolveDecoderSettings(input: any, defaults: DecoderSettings = this.DEFAULT_DECODER): DecoderSettings | { error: string } {
+    const settings: DecoderSettings = { ...defaults, ...DecoderRegistry.pickParameters(input) };
+    if (input && typeof input === 'object') {
+      for (const key of ['algorithm', 'quantization'] as const) {
+        if (input[key] !== undefined && input[key] !== null) {
+          DecoderRegistry.assign(settings, key, input[key]);
+        }
+      }
+    }
+
+    return DecoderRegistry.validate(settings);
+  }
+
+  // 以 SNR 描述的仿真信道：BSC 为所选调制的硬判决（BPSK 下交叉概率 Q(√(2·SNR))），BEC 以同一概率擦除，
+  // AWGN/瑞利经解映射输出软 LLR。Markov-AWGN 的好状态取该 SNR、坏状态低 badStatePenalty dB，
+  // Gilbert–Elliott 是它的硬判决版本：两个状态的翻转概率取各自 SNR 下的硬判决误码率
+  static channelAtSNR(
+    channel: SimulationChannel,
+    snr: number,
+    modulation: ModulationSettings = {},
+    burst: BurstChannelParameters = ChannelService.DEFAULT_BURST
+  ): ChannelConfig {
+    const hardErrorRate = (penalty: number = 0) => ChannelService.calculateTheoreticalBER(
+      ChannelService.symbolSNR({ type: 'AWGN', snr, ...modulation }) - penalty, 'AWGN', modulation.modulation
+    );
+    switch (channel) {
+      case 'BSC':
+        return { type: 'BSC', crossoverProb: hardErrorRate() };
+      case 'BEC':
+        return { type: 'BEC', erasureProb: hardErrorRate() };
+      case 'Gilbert-Elliott':
+        return {
+          type: 'Gilbert-Elliott',
+          burst: { ...burst, errorProbGood: hardErrorRate(), errorProbBad: hardErrorRate(burst.badStatePenalty) }
+        };
+      case 'Markov-AWGN':
+        return { type: 'Markov-AWGN', snr, ...modulation, burst };
+      case 'Rayleigh':
+        return { type: 'Rayleigh', snr, ...modulation };
+      default:
+        return { type: 'AWGN-SOFT', snr, ...modulation };
+    }
+  }
+
+  // 按错误率直接翻转比特的仿真，译码器视为 BSC；突发错误按平均翻转概率估计交叉概率；erasure 时错误率即 BEC 擦除概率；
+  // gilbert-elliott 时错误率为坏状态的翻转概率，好状态与状态转移取 burst 参数
+  static errorRateChannel(
+    errorRate: number,
+    errorType: ErrorPattern,
+    burstLength: number | undefined,
+    n: number,
+    burst: BurstChannelParameters = ChannelService.DEFAULT_BURST
+  ): ChannelConfig {
+    if (errorType === 'erasure') {
+      return { type: 'BEC', erasureProb: errorRate };
+    }
+    if (errorType === 'gilbert-elliott') {
+      return { type: 'Gilbert-Elliott', burst: { ...burst, errorProbBad: errorRate } };
+    }
+    const crossoverProb = errorType === 'burst' && burstLength
+      ? errorRate * burstLength / Math.max(1, n)
+      : errorRate;
+    return { type: 'BSC', crossoverProb };
+  }
+
+  static transmit(codeword: number[], channel: ChannelConfig, random: RandomGenerator): ChannelFrame {
+    const output = ChannelService.transmitThroughChannel(codeword, channel, random);
+    return {
+      received: output.received,
+      llr: output.channelLLR ?? ChannelService.hardDecisionLLR(output.received, channel),
+      errorCount: output.errorCount
+    };
+  }
+
+  // 未指定译码器种子时由仿真的生成器为每帧取一个，PGDBF 等随机译码器随仿真种子一起复现
+  static decodeFrame(
+    llr: number[],
+    parityCheck: SparseParityCheck,
+    decoder: DecoderSettings,
+    channel: ChannelConfig,
+    random?: RandomGenerator
+  ): DecoderOutput {
+    return DecodingService.decode(llr, parityCheck, {
+      ...decoder,
+      seed: decoder.seed ?? random?.nextUint32(),
+      llrInput: true,
+      channelType: channel.type === 'BSC' || channel.type === 'BEC' ? channel.type : 'AWGN-SOFT',
+      snr: channel.snr,
+      crossoverProb: channel.crossoverProb,
+      erasureProb: channel.erasureProb
+    });
+  }
   
-  static generateRandomBits(length: number): number[] {
-    // 使用更好的伪随机数生成策略，而不是完全随机
-    // 生成具有特定模式的测试数据，更有利于算法性能测试
-    const bits = Array(length).fill(0);
-    
-    // 使用线性反馈移位寄存器(LFSR)生成伪随机序列
-    // 这样的序列更适合纠错码测试，因为具有良好的统计特性
-    let lfsr = 0x1; // 初始种子
-    const taps = 0x12; // 反馈多项式 (x^4 + x^1 + 1)
-    
-    for (let i = 0; i < length; i++) {
-      bits[i] = lfsr & 1; // 取最低位
-      
-      // LFSR移位和反馈
-      const feedback = ((lfsr & taps) !== 0) ? 1 : 0;
-      lfsr = (lfsr >> 1) | (feedback << 15);
-      
-      // 防止全零状态
-      if (lfsr === 0) lfsr = 0x1;
+  // 实际执行的校验→变量消息更新次数；固定调度（泛洪、分层）每次迭代更新全部 E 条边
+  static messageUpdates(result: DecoderOutput, parityCheck: SparseParityCheck): number {
+    return result.messageUpdates ?? result.iterations * SparseMatrixService.edgeCount(parityCheck);
+  }
+
+  static generateRandomBits(length: number, random: RandomGenerator): number[] {
+    return Array.from({ length }, () => random.bit());
+  }
+
+  // 使用G矩阵编码
+  static encodeWithGenerator(information: number[], G: number[][]): number[] {
+    const n = G[0].length;
+    const k = G.length;
+
+    if (information.length !== k) {
+      throw new Error(`信息位长度 ${information.length} 与G矩阵行数 ${k} 不匹配`);
     }
-    
-    return bits;
+
+    const codeword = new Array(n).fill(0);
+    for (let i = 0; i < k; i++) {
+      for (let j = 0; j < n; j++) {
+        codeword[j] ^= information[i] * G[i][j];
+      }
+    }
+
+    return codeword;
+  }
+
+  // 仿真编码器：优先使用ALT编码（一次预处理，每帧线性时间），预处理失败时回退到G矩阵乘法
+  static createEncoder(parityCheck: SparseParityCheck, G: number[][]): (information: number[]) => number[] {
+    try {
+      const encoder = ALTEncoderService.encoderFor(parityCheck);
+      if (encoder.k === G.length) {
+        return information => ALTEncoderService.encode(encoder, information);
+      }
+    } catch (error) {
+      console.warn('⚠️ ALT编码器预处理失败，改用G矩阵编码:', error instanceof Error ? error.message : error);
+    }
+    return information => this.encodeWithGenerator(information, G);
   }
 
-  static addRandomErrors(codeword: number[], errorRate: number): number[] {
+  static addRandomErrors(codeword: number[], errorRate: number, random: RandomGenerator): number[] {
     const corrupted = [...codeword];
     // 修复：确保至少有1个错误，除非错误率为0
     const targetErrors = errorRate === 0 ? 0 : Math.max(1, Math.floor(codeword.length * errorRate));
@@ -77,36 +225,13 @@ export class TestService {
       return corrupted; // 没有错误需要添加
     }
     
-    // 使用均匀分布的错误位置
-    const errorInterval = Math.floor(codeword.length / targetErrors);
-    let errorsAdded = 0;
-    
-    for (let i = 0; i < codeword.length && errorsAdded < targetErrors; i += errorInterval) {
-      // 添加错误位置的微调，避免过于规律
-      const adjustedPos = (i + errorsAdded % 3) % codeword.length;
-      corrupted[adjustedPos] = 1 - corrupted[adjustedPos];
-      errorsAdded++;
-    }
-    
-    // 如果还需要更多错误，填补剩余的
-    while (errorsAdded < targetErrors) {
-      const pos = (errorsAdded * 7 + 3) % codeword.length; // 使用素数跳跃
-      if (corrupted[pos] === codeword[pos]) { // 只在还没有错误的位置添加
-        corrupted[pos] = 1 - corrupted[pos];
-        errorsAdded++;
-      } else {
-        // 寻找下一个没有错误的位置
-        let nextPos = (pos + 1) % codeword.length;
-        while (nextPos !== pos && corrupted[nextPos] !== codeword[nextPos]) {
-          nextPos = (nextPos + 1) % codeword.length;
-        }
-        if (nextPos !== pos) {
-          corrupted[nextPos] = 1 - corrupted[nextPos];
-          errorsAdded++;
-        } else {
-          break; // 防止无限循环
-        }
-      }
+    // 部分 Fisher–Yates 洗牌：从全部位置中无放回地抽取 targetErrors 个错误位置
+    const positions = Array.from({ length: codeword.length }, (_, index) => index);
+    const count = Math.min(targetErrors, codeword.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + random.int(positions.length - i);
+      [positions[i], positions[j]] = [positions[j], positions[i]];
+      corrupted[positions[i]] = 1 - corrupted[positions[i]];
     }
 
     return corrupted;
@@ -122,476 +247,159 @@ export class TestService {
     return corrupted;
   }
 
+  // 错误率仿真的一帧：random 逐比特以 errorRate 翻转，erasure 以 errorRate 擦除为 -1，
+  // burst 以 errorRate 的概率出现一个长 burstLength 的突发，gilbert-elliott 经 errorRateChannel 给出的突发信道
+  static addErrors(
+    codeword: number[],
+    errorRate: number,
+    errorType: ErrorPattern,
+    burstLength: number | undefined,
+    channel: ChannelConfig,
+    random: RandomGenerator
+  ): { received: number[], errorCount: number } {
+    if (errorType === 'gilbert-elliott') {
+      const { received, errorCount } = ChannelService.transmitThroughChannel(codeword, channel, random);
+      return { received, errorCount };
+    }
+
+    if (errorType === 'burst') {
+      if (!burstLength || random.next() >= errorRate) {
+        return { received: [...codeword], errorCount: 0 };
+      }
+      const burstStart = random.int(codeword.length - burstLength + 1);
+      const received = this.addBurstErrors(codeword, burstStart, burstLength);
+      return { received, errorCount: Math.min(burstLength, codeword.length - burstStart) };
+    }
+
+    const received = [...codeword];
+    let errorCount = 0;
+    for (let i = 0; i < received.length; i++) {
+      if (random.next() < errorRate) {
+        received[i] = errorType === 'erasure' ? -1 : 1 - received[i];
+        errorCount++;
+      }
+    }
+
+    return { received, errorCount };
+  }
+
+  // 按错误率仿真 BER：各错误率下编码随机信息位、加错误、用信道 LLR 译码
   static runBERAnalysis(
-    H: number[][],
+    H: ParityCheckInput,
     G: number[][],
     errorRates: number[],
     testsPerPoint: number = 100,
-    errorType: 'random' | 'burst' = 'random',
+    errorType: ErrorPattern = 'random',
     burstLength: number = 3,
-    maxIterations: number = 50,
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'gallager-a'
+    decoder: DecoderSettings = { algorithm: 'gallager-a', maxIterations: 50 },
+    random: RandomGenerator = RandomService.create(),
+    burst: BurstChannelParameters = ChannelService.DEFAULT_BURST
   ): BERAnalysisResult[] {
-    const results: BERAnalysisResult[] = [];
-    
-    for (const errorRate of errorRates) {
-      console.log(`🔧 [后端] 开始测试错误率 ${errorRate}，使用算法: ${algorithm}`);
-      
-      let totalErrors = 0;
-      let correctedErrors = 0;
-      let totalIterations = 0;
-      let convergenceCount = 0;
-      let successfulDecodings = 0;
-      let totalDecodedErrors = 0; // 新增：用于累加解码后的错误比特数
-      
-      for (let test = 0; test < testsPerPoint; test++) {
-        const original = this.generateRandomBits(G.length);
-        
-        const encodingResult = LDPCService.encode(original, G);
-        if (!encodingResult.success) {
-          continue;
-        }
-        
-        const transmitted = encodingResult.codeword;
-        
-        let received: number[];
-        if (errorType === 'random') {
-          received = this.addRandomErrors(transmitted, errorRate);
-        } else {
-          // 使用确定性的突发错误位置，而不是随机位置
-          const burstStart = (test * 7) % Math.max(1, transmitted.length - burstLength);
-          received = this.addBurstErrors(transmitted, burstStart, burstLength);
-        }
+    // 稀疏校验矩阵与编码器在整个仿真中只构建一次
+    const parityCheck = SparseMatrixService.from(H);
+    const encode = this.createEncoder(parityCheck, G);
 
-        const decodingResult = LDPCService.decode(received, H, maxIterations, algorithm);
-        
-        // 计算传输错误
-        const transmissionErrors = transmitted.reduce((count, bit, index) => 
-          count + (bit !== received[index] ? 1 : 0), 0
-        );
-        
-        // 计算解码后的错误：比较解码结果与原始码字
-        const decodedErrors = transmitted.reduce((count, bit, index) => 
-          count + (bit !== decodingResult.decoded[index] ? 1 : 0), 0
-        );
-        
-        // 调试信息：每100次测试打印一次
-        if (test % 100 === 0) {
-          console.log(`🔧 [后端] 错误率 ${errorRate}, 算法 ${algorithm}, 测试 ${test}:`);
-          console.log(`  - 传输错误: ${transmissionErrors}/${transmitted.length}`);
-          console.log(`  - 解码错误: ${decodedErrors}/${transmitted.length}`);
-          console.log(`  - 解码成功: ${decodingResult.success}`);
-          console.log(`  - 解码消息: ${decodingResult.message}`);
-          console.log(`  - 迭代次数: ${decodingResult.iterations}`);
-        }
-        
-        // 解码正确性判断：解码成功且校验子为零
-        const decodedCorrectly = decodingResult.success;
-
-        totalErrors += transmissionErrors;
-        if (decodedCorrectly) {
-          correctedErrors += transmissionErrors;
-          successfulDecodings++;
-        }
-        
-        // 累加解码后的错误比特数（用于计算BER）
-        totalDecodedErrors += decodedErrors;
-        
-        totalIterations += decodingResult.iterations;
-        if (decodingResult.success) {
-          convergenceCount++;
+    return errorRates.map(errorRate => {
+      const channel = this.errorRateChannel(errorRate, errorType, burstLength, parityCheck.n, burst);
+      const tally = this.emptyTally();
+
+      for (let test = 0; test < testsPerPoint; test++) {
+        const codeword = encode(this.generateRandomBits(G.length, random));
+        const { received, errorCount } = this.addErrors(codeword, errorRate, errorType, burstLength, channel, random);
+        if (errorCount > 0) {
+          const llr = ChannelService.hardDecisionLLR(received, channel);
+          this.countFrame(tally, codeword, this.decodeFrame(llr, parityCheck, decoder, channel, random), parityCheck);
         }
       }
 
-      console.log(`🔧 [后端] 错误率 ${errorRate} 完成:`);
-      console.log(`  - 总测试: ${testsPerPoint}`);
-      console.log(`  - 成功解码: ${successfulDecodings}`);
-      console.log(`  - 总解码错误: ${totalDecodedErrors}`);
-      console.log(`  - 平均BER: ${(totalDecodedErrors / (testsPerPoint * G[0].length)).toFixed(6)}`);
-
-      // 修正BER计算：使用解码后的错误比特数
-      const totalTransmittedBits = testsPerPoint * G[0].length;
-      const ber = totalDecodedErrors / totalTransmittedBits;
-      // 纠错率：成功解码的比例
-      const correctionRate = successfulDecodings / testsPerPoint;
-      const avgIterations = totalIterations / testsPerPoint;
-      const convergenceRate = convergenceCount / testsPerPoint;
-
-      results.push({
-        errorRate,
-        ber,
-        correctionRate,
-        totalTests: testsPerPoint,
-        totalErrors,
-        correctedErrors: successfulDecodings,
-        avgIterations,
-        convergenceRate
-      });
-    }
-
-    return results;
+      console.log(`🔧 [BER分析] 错误率 ${errorRate}: 含错帧 ${tally.errorCount}, 纠正 ${tally.correctedCount}`);
+      return { errorRate, ...this.pointStatistics(tally, testsPerPoint, parityCheck.n) };
+    });
   }
 
-  // 新增：真正的算法对比方法
+  // 算法对比：每个错误率下所有译码器译同一批帧，差异只来自译码器
   static runAlgorithmComparison(
-    H: number[][],
+    H: ParityCheckInput,
     G: number[][],
     errorRates: number[],
     testsPerPoint: number = 100,
-    errorType: 'random' | 'burst' = 'random',
+    errorType: ErrorPattern = 'random',
     burstLength: number = 3,
-    maxIterations: number = 50,
-    algorithms: Array<'gallager-a' | 'belief-propagation' | 'min-sum'> = ['gallager-a', 'belief-propagation', 'min-sum']
+    decoders: LabeledDecoderSettings[] = (['gallager-a', 'belief-propagation', 'min-sum'] as const)
+      .map(algorithm => ({ algorithm, maxIterations: 50 })),
+    random: RandomGenerator = RandomService.create(),
+    burst: BurstChannelParameters = ChannelService.DEFAULT_BURST
   ): AlgorithmComparisonResult[] {
-    const comparisonResults: AlgorithmComparisonResult[] = [];
-    
-    console.log(`🔧 [后端] 开始算法对比：${algorithms.join(', ')}`);
-    
-    for (const errorRate of errorRates) {
-      console.log(`🔧 [后端] 测试错误率 ${errorRate}`);
-      
-      // 为每个错误率生成固定的测试数据集
-      const testDataset: Array<{
-        original: number[];
-        transmitted: number[];
-        received: number[];
-      }> = [];
-      
-      // 生成固定的测试数据
+    const parityCheck = SparseMatrixService.from(H);
+    const encode = this.createEncoder(parityCheck, G);
+
+    return errorRates.map(errorRate => {
+      const channel = this.errorRateChannel(errorRate, errorType, burstLength, parityCheck.n, burst);
+
+      const frames: Array<{ codeword: number[]; llr: number[] }> = [];
       for (let test = 0; test < testsPerPoint; test++) {
-        const original = this.generateRandomBits(G.length);
-        
-        const encodingResult = LDPCService.encode(original, G);
-        if (!encodingResult.success) {
-          continue;
-        }
-        
-        const transmitted = encodingResult.codeword;
-        
-        let received: number[];
-        if (errorType === 'random') {
-          received = this.addRandomErrors(transmitted, errorRate);
-        } else {
-          const burstStart = (test * 7) % Math.max(1, transmitted.length - burstLength);
-          received = this.addBurstErrors(transmitted, burstStart, burstLength);
+        const codeword = encode(this.generateRandomBits(G.length, random));
+        const { received, errorCount } = this.addErrors(codeword, errorRate, errorType, burstLength, channel, random);
+        if (errorCount > 0) {
+          frames.push({ codeword, llr: ChannelService.hardDecisionLLR(received, channel) });
         }
-        
-        testDataset.push({
-          original,
-          transmitted,
-          received
-        });
       }
-      
-      console.log(`🔧 [后端] 生成了 ${testDataset.length} 个测试样本`);
-      
-      // 对每种算法处理相同的测试数据
-      const algorithmResults = [];
-      
-      for (const algorithm of algorithms) {
-        console.log(`🔧 [后端] 测试算法: ${algorithm}`);
-        
-        let totalErrors = 0;
-        let correctedErrors = 0;
-        let totalIterations = 0;
-        let convergenceCount = 0;
-        let successfulDecodings = 0;
-        let totalDecodedErrors = 0;
-        
-        // 用当前算法处理所有测试数据
-        for (let testIndex = 0; testIndex < testDataset.length; testIndex++) {
-          const testData = testDataset[testIndex];
-          const decodingResult = LDPCService.decode(testData.received, H, maxIterations, algorithm);
-          
-          // 计算传输错误
-          const transmissionErrors = testData.transmitted.reduce((count, bit, index) => 
-            count + (bit !== testData.received[index] ? 1 : 0), 0
-          );
-          
-          // 计算解码后的错误
-          const decodedErrors = testData.transmitted.reduce((count, bit, index) => 
-            count + (bit !== decodingResult.decoded[index] ? 1 : 0), 0
-          );
-          
-          // 调试信息：前几个测试打印详细信息
-          if (testIndex < 3) {
-            console.log(`🔧 [后端] ${algorithm} 测试 ${testIndex}:`);
-            console.log(`  - 传输错误: ${transmissionErrors}/${testData.transmitted.length}`);
-            console.log(`  - 解码错误: ${decodedErrors}/${testData.transmitted.length}`);
-            console.log(`  - 解码成功: ${decodingResult.success}`);
-            console.log(`  - 原始数据: [${testData.transmitted.slice(0, 10).join(',')}...]`);
-            console.log(`  - 接收数据: [${testData.received.slice(0, 10).join(',')}...]`);
-            console.log(`  - 解码结果: [${decodingResult.decoded.slice(0, 10).join(',')}...]`);
-          }
-          
-          // 解码正确性判断
-          const decodedCorrectly = decodingResult.success;
-
-          totalErrors += transmissionErrors;
-          if (decodedCorrectly) {
-            correctedErrors += transmissionErrors;
-            successfulDecodings++;
-          }
-          
-          totalDecodedErrors += decodedErrors;
-          totalIterations += decodingResult.iterations;
-          
-          if (decodingResult.success) {
-            convergenceCount++;
-          }
+
+      const algorithms = decoders.map(decoder => {
+        const tally = this.emptyTally();
+        for (const frame of frames) {
+          this.countFrame(tally, frame.codeword, this.decodeFrame(frame.llr, parityCheck, decoder, channel, random), parityCheck);
         }
-        
-        // 计算该算法的性能指标
-        // 修复BER计算：BER = 解码后剩余错误比特数 / 总传输比特数
-        const totalTransmittedBits = testDataset.length * G[0].length; // 总传输比特数
-        const ber = totalDecodedErrors / totalTransmittedBits;
-        const correctionRate = successfulDecodings / testDataset.length;
-        const avgIterations = totalIterations / testDataset.length;
-        const convergenceRate = convergenceCount / testDataset.length;
-        
-        console.log(`🔧 [后端] ${algorithm} 详细统计:`);
-        console.log(`  - 测试样本数: ${testDataset.length}`);
-        console.log(`  - 码字长度: ${G[0].length}`);
-        console.log(`  - 总传输比特: ${totalTransmittedBits}`);
-        console.log(`  - 解码后错误比特: ${totalDecodedErrors}`);
-        console.log(`  - 成功解码次数: ${successfulDecodings}`);
-        console.log(`  - BER: ${ber.toFixed(6)}`);
-        
-        algorithmResults.push({
-          name: algorithm,
-          ber,
-          correctionRate,
-          totalTests: testDataset.length,
-          totalErrors,
-          correctedErrors: successfulDecodings,
-          avgIterations,
-          convergenceRate
-        });
-        
-        console.log(`🔧 [后端] ${algorithm} 结果: BER=${ber.toFixed(6)}, 纠错率=${correctionRate.toFixed(4)}`);
-      }
-      
-      comparisonResults.push({
-        errorRate,
-        algorithms: algorithmResults
+        return {
+          name: decoder.label || decoder.algorithm,
+          ...this.pointStatistics(tally, testsPerPoint, parityCheck.n),
+          avgMessageUpdates: tally.convergenceCount > 0 ? tally.totalUpdates / tally.convergenceCount : 0
+        };
       });
-    }
-    
-    console.log('✅ [后端] 算法对比完成');
-    return comparisonResults;
+
+      console.log(`🔧 [算法比较] 错误率 ${errorRate} 完成`);
+      return { errorRate, algorithms };
+    });
   }
 
-  // Channel performance comparison method
+  // 信道对比：各 SNR 下逐个信道传输新编码的帧并用信道 LLR 译码；errorType 与 burstLength 不参与仿真，保留以兼容调用方
   static runChannelComparison(
-    H: number[][],
+    H: ParityCheckInput,
     G: number[][],
     snrRange: number[],
     testsPerPoint: number = 100,
     errorType: 'random' | 'burst' = 'random',
     burstLength: number = 3,
-    maxIterations: number = 50,
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'belief-propagation',
-    channels: Array<'BSC' | 'AWGN' | 'Rayleigh'> = ['BSC', 'AWGN', 'Rayleigh']
+    decoder: DecoderSettings = this.DEFAULT_DECODER,
+    channels: SimulationChannel[] = ['BSC', 'AWGN', 'Rayleigh'],
+    random: RandomGenerator = RandomService.create(),
+    modulation: ModulationSettings = {},
+    burst: BurstChannelParameters = ChannelService.DEFAULT_BURST
   ): ChannelComparisonResult[] {
-    const comparisonResults: ChannelComparisonResult[] = [];
-    
-    console.log(`🔧 [Backend] Starting channel comparison: ${channels.join(', ')}`);
-    console.log(`🔧 [Backend] Using algorithm: ${algorithm}`);
-    
-    for (const snr of snrRange) {
-      console.log(`🔧 [Backend] Testing SNR ${snr}dB`);
-      
-      // Generate fixed test dataset for each SNR level
-      const testDataset: Array<{
-        original: number[];
-        transmitted: number[];
-      }> = [];
-      
-      // Generate fixed test data
-      for (let test = 0; test < testsPerPoint; test++) {
-        const original = this.generateRandomBits(G.length);
-        const transmitted = LDPCService.encode(original, G, [], H).codeword;
-        testDataset.push({ original, transmitted });
-      }
-      
-      console.log(`🔧 [Backend] Generated ${testDataset.length} test samples for SNR ${snr}dB`);
-      
-      const channelResults: ChannelComparisonResult['channels'] = [];
-      
-      // Test each channel type with the same dataset
-      for (const channelType of channels) {
-        console.log(`🔧 [Backend] Testing channel: ${channelType}`);
-        
-        let totalErrors = 0;
-        let correctedErrors = 0;
-        let successfulDecodings = 0;
-        let totalDecodedErrors = 0;
-        let totalIterations = 0;
-        let convergenceCount = 0;
-        
-        for (let testIndex = 0; testIndex < testDataset.length; testIndex++) {
-          const testData = testDataset[testIndex];
-          
-          // Simulate channel transmission based on SNR and channel type
-          const received = this.simulateChannelTransmission(testData.transmitted, snr, channelType);
-          
-          // Decode using specified algorithm
-          const decodingResult = LDPCService.decode(received, H, maxIterations, algorithm);
-          
-          // Calculate transmission errors
-          const transmissionErrors = testData.transmitted.reduce((count, bit, index) => 
-            count + (bit !== received[index] ? 1 : 0), 0
-          );
-          
-          // Calculate decoding errors
-          const decodedErrors = testData.transmitted.reduce((count, bit, index) => 
-            count + (bit !== decodingResult.decoded[index] ? 1 : 0), 0
-          );
-          
-          // Debug info for first few tests
-          if (testIndex < 3) {
-            console.log(`🔧 [Backend] ${channelType} test ${testIndex}:`);
-            console.log(`  - Transmission errors: ${transmissionErrors}/${testData.transmitted.length}`);
-            console.log(`  - Decoding errors: ${decodedErrors}/${testData.transmitted.length}`);
-            console.log(`  - Decoding success: ${decodingResult.success}`);
-          }
-          
-          const decodedCorrectly = decodingResult.success;
-          
-          totalErrors += transmissionErrors;
-          if (decodedCorrectly) {
-            correctedErrors += transmissionErrors;
-            successfulDecodings++;
-          }
-          
-          totalDecodedErrors += decodedErrors;
-          totalIterations += decodingResult.iterations;
-          
-          if (decodingResult.success) {
-            convergenceCount++;
-          }
-        }
-        
-        // Calculate performance metrics for this channel
-        const totalTransmittedBits = testDataset.length * G[0].length;
-        const ber = totalDecodedErrors / totalTransmittedBits;
-        const correctionRate = successfulDecodings / testDataset.length;
-        const avgIterations = totalIterations / testDataset.length;
-        const convergenceRate = convergenceCount / testDataset.length;
-        
-        console.log(`🔧 [Backend] ${channelType} detailed statistics:`);
-        console.log(`  - Test samples: ${testDataset.length}`);
-        console.log(`  - Codeword length: ${G[0].length}`);
-        console.log(`  - Total transmitted bits: ${totalTransmittedBits}`);
-        console.log(`  - Decoded error bits: ${totalDecodedErrors}`);
-        console.log(`  - Successful decodings: ${successfulDecodings}`);
-        console.log(`  - BER: ${ber.toFixed(6)}`);
-        
-        channelResults.push({
-          name: channelType,
-          ber,
-          correctionRate,
-          totalTests: testDataset.length,
-          totalErrors,
-          correctedErrors: successfulDecodings,
-          avgIterations,
-          convergenceRate
-        });
-        
-        console.log(`🔧 [Backend] ${channelType} result: BER=${ber.toFixed(6)}, correction rate=${correctionRate.toFixed(4)}`);
-      }
-      
-      comparisonResults.push({
-        snr,
-        channels: channelResults
-      });
-    }
-    
-    console.log('✅ [Backend] Channel comparison completed');
-    return comparisonResults;
-  }
+    const parityCheck = SparseMatrixService.from(H);
+    const encode = this.createEncoder(parityCheck, G);
+    // Eb/N0 按码率 k/n 换算为 Es/N0
+    const codedModulation: ModulationSettings = { ...modulation, codeRate: G.length / parityCheck.n };
 
-  // Simulate channel transmission for different channel types
-  private static simulateChannelTransmission(transmitted: number[], snr: number, channelType: string): number[] {
-    const received = [...transmitted];
-    
-    // Calculate noise variance from SNR
-    const snrLinear = Math.pow(10, snr / 10);
-    const noiseVariance = 1 / snrLinear;
-    
-    switch (channelType) {
-      case 'BSC': {
-        // Binary Symmetric Channel - improved crossover probability calculation
-        // For BSC, crossover probability = Q(sqrt(2*SNR)) where Q is the Q-function
-        const crossoverProb = 0.5 * this.erfc(Math.sqrt(snrLinear));
-        for (let i = 0; i < received.length; i++) {
-          if (Math.random() < crossoverProb) {
-            received[i] = 1 - received[i]; // Flip bit
+    return snrRange.map(snr => {
+      const results = channels.map(channelType => {
+        const channel = this.channelAtSNR(channelType, snr, codedModulation, burst);
+        const tally = this.emptyTally();
+
+        for (let test = 0; test < testsPerPoint; test++) {
+          const codeword = encode(this.generateRandomBits(G.length, random));
+          const { llr, errorCount } = this.transmit(codeword, channel, random);
+          if (errorCount > 0) {
+            this.countFrame(tally, codeword, this.decodeFrame(llr, parityCheck, decoder, channel, random), parityCheck);
           }
         }
-        break;
-      }
-      
-      case 'AWGN': {
-        // Additive White Gaussian Noise Channel - BPSK with optimal detection
-        for (let i = 0; i < received.length; i++) {
-          const signal = transmitted[i] === 0 ? -1 : 1; // BPSK mapping: 0->-1, 1->+1
-          const noise = this.gaussianRandom(0, Math.sqrt(noiseVariance));
-          const receivedSignal = signal + noise;
-          received[i] = receivedSignal > 0 ? 1 : 0; // Hard decision
-        }
-        break;
-      }
-      
-      case 'Rayleigh': {
-        // Rayleigh Fading Channel - more realistic implementation
-        for (let i = 0; i < received.length; i++) {
-          const signal = transmitted[i] === 0 ? -1 : 1;
-          // Rayleigh fading with scale parameter σ = 1/√2 (for unit average power)
-          const fadingGain = this.rayleighRandom(1.0 / Math.sqrt(2));
-          const noise = this.gaussianRandom(0, Math.sqrt(noiseVariance));
-          const receivedSignal = fadingGain * signal + noise;
-          received[i] = receivedSignal > 0 ? 1 : 0;
-        }
-        break;
-      }
-    }
-    
-    return received;
-  }
 
-  // Generate Gaussian random number using Box-Muller transform
-  private static gaussianRandom(mean: number = 0, std: number = 1): number {
-    const u = Math.random();
-    const v = Math.random();
-    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
-    return mean + std * z;
-  }
-
-  // Generate Rayleigh-distributed random number
-  private static rayleighRandom(scale: number = 1): number {
-    const u = Math.random();
-    return scale * Math.sqrt(-2 * Math.log(u));
-  }
+        return { name: channelType, ...this.pointStatistics(tally, testsPerPoint, parityCheck.n) };
+      });
 
-  // Complementary error function approximation
-  private static erfc(x: number): number {
-    // Approximation of erfc(x) using rational function
-    const a1 = -1.26551223;
-    const a2 = 1.00002368;
-    const a3 = 0.37409196;
-    const a4 = 0.09678418;
-    const a5 = -0.18628806;
-    const a6 = 0.27886807;
-    const a7 = -1.13520398;
-    const a8 = 1.48851587;
-    const a9 = -0.82215223;
-    const a10 = 0.17087277;
-
-    const t = 1.0 / (1.0 + 0.5 * Math.abs(x));
-    const tau = t * Math.exp(-x * x + a1 + t * (a2 + t * (a3 + t * (a4 + t * (a5 + t * (a6 + t * (a7 + t * (a8 + t * (a9 + t * a10)))))))));
-
-    return x >= 0 ? tau : 2.0 - tau;
+      console.log(`🔧 [信道比较] SNR ${snr}dB 完成`);
+      return { snr, channels: results };
+    });
   }
 
   static getBERAnalysisSummary(results: BERAnalysisResult[]): {
@@ -657,4 +465,34 @@ export class TestService {
       recommendations
     };
   }
-}
\ No newline at end of file
+
+  private static emptyTally(): FrameTally {
+    return { errorCount: 0, correctedCount: 0, totalIterations: 0, totalUpdates: 0, convergenceCount: 0 };
+  }
+
+  // 记录一个含错误帧的译码结果：收敛且等于原码字才算纠正
+  private static countFrame(tally: FrameTally, codeword: number[], result: DecoderOutput, parityCheck: SparseParityCheck): void {
+    tally.errorCount++;
+    tally.totalIterations += result.iterations;
+    if (result.success) {
+      tally.convergenceCount++;
+      tally.totalUpdates += this.messageUpdates(result, parityCheck);
+      if (result.decoded.every((bit, index) => bit === codeword[index])) {
+        tally.correctedCount++;
+      }
+    }
+  }
+
+  private static pointStatistics(tally: FrameTally, testsPerPoint: number, n: number) {
+    const { errorCount, correctedCount, totalIterations, convergenceCount } = tally;
+    return {
+      ber: errorCount > 0 ? (errorCount - correctedCount) / (testsPerPoint * n) : 0,
+      correctionRate: errorCount > 0 ? correctedCount / errorCount : 1,
+      totalTests: testsPerPoint,
+      totalErrors: errorCount,
+      correctedErrors: correctedCount,
+      avgIterations: convergenceCount > 0 ? totalIterations / convergenceCount : 0,
+      convergenceRate: testsPerPoint > 0 ? convergenceCount / testsPerPoint : 0
+    };
+  }
+}
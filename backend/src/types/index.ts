@@ -10,6 +10,7 @@ export interface GraphEdge {
   id: string;
   source: string;
   target: string;
+  coefficient?: number; // 非二元码的边标签（GF(q) 非零元素），缺省为 1
 }
 
 export interface LDPCGraph {
@@ -22,7 +23,8 @@ export interface MatrixGenerationResult {
   G: number[][];
   n: number;
   k: number;
-  minDistance: number;
+  minDistance: number;               // 仅当 minDistanceAnalysis.status 为 'exact' 时是精确值，否则为上界
+  minDistanceAnalysis?: MinimumDistanceResult;
   isValid: boolean;
   columnPermutation?: number[];
 }
@@ -32,6 +34,11 @@ export interface EncodingResult {
   success: boolean;
   message?: string;
   error?: string;
+  method?: EncodingMethod;
+  k?: number;                      // 不经过G编码时由H确定的信息位数
+  informationPositions?: number[]; // 信息位在码字中的位置（非系统形排列时不是前k位）
+  gap?: number;                    // ALT 编码的间隙 g
+  parityStructure?: ParityStructure; // 递推编码所用的校验部分结构
 }
 
 export interface DecodingResult {
@@ -42,6 +49,17 @@ export interface DecodingResult {
   message?: string;
 }
 
+// 擦除译码（剥离 / 剥离+ML）的附加信息；未恢复的擦除位在 decoded 中保持 -1
+export interface ErasureDecodingInfo {
+  initialErasures: number;
+  peeledBits: number;          // 剥离阶段恢复的比特数
+  mlResolvedBits: number;      // ML 消元阶段恢复的比特数
+  stoppingSet: number[];       // 剥离停止时剩余的擦除位（停止集的并）
+  stoppingSetChecks: number[]; // 与停止集相连的校验
+  unresolved: number[];        // ML 之后仍无法唯一确定的比特
+  consistent: boolean;         // 已知比特是否满足所有校验
+}
+
 export interface ErrorTestConfig {
   errorType: 'random' | 'burst';
   errorRate: number;
@@ -95,4 +113,157 @@ export interface MatrixAnalysisResult {
 export interface MatrixValidationResult {
   isValid: boolean;
   errors: string[];
-}
\ No newline at end of file
+}
+
+export interface TannerCycle {
+  length: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  edges: [number, number][];
+  edgeIds?: string[];
+}
+
+export interface GirthAnalysisResult {
+  girth: number | null;
+  maxCycleLength: number;
+  cycleCounts: Record<number, number>; // countsTruncated 时为下界
+  variableNodes: {
+    index: number;
+    localGirth: number | null;
+    cycleCounts: Record<number, number> | null; // 搜索预算用完前未计完的节点为 null
+  }[];
+  shortestCycles: TannerCycle[];
+  truncated: boolean;       // 最短环列表不完整（达到 maxCycles 或搜索预算）
+  countsTruncated: boolean; // 短环计数用完搜索预算，计数为下界
+}
+
+export interface QCBaseMatrix {
+  baseMatrix: number[][]; // 循环移位指数，-1 表示全零块
+  Z: number;              // 提升因子（循环块大小）
+}
+
+export interface QCExpansionResult extends QCBaseMatrix {
+  H: number[][];
+  graph: LDPCGraph;
+  n: number;
+  m: number;
+}
+
+// 稀疏校验矩阵：同时保存按行（CSR）与按列（CSC）的邻接关系。
+// 边按 CSR 顺序编号，解码器可以按边编号存放消息
+export interface SparseParityCheck {
+  m: number;
+  n: number;
+  rowPtr: Int32Array;  // 长度 m+1，校验 i 的边为 rowPtr[i] .. rowPtr[i+1]-1
+  colIdx: Int32Array;  // 长度 E，每条边连接的比特
+  colPtr: Int32Array;  // 长度 n+1，比特 j 的边位于 CSC 位置 colPtr[j] .. colPtr[j+1]-1
+  rowIdx: Int32Array;  // 长度 E，CSC 位置对应的校验
+  colEdge: Int32Array; // 长度 E，CSC 位置对应的边编号（CSR 顺序）
+}
+
+// GF(2^p) 上的稀疏校验矩阵：结构与二元情形相同，coefficient[e] 为边 e（CSR 顺序）的非零标签
+export interface NonBinaryParityCheck {
+  p: number;
+  q: number;
+  structure: SparseParityCheck;
+  coefficient: Int32Array;
+}
+
+// JSON 传输用的紧凑格式：rows[i] 为第 i 行中值为1的列下标
+export interface SparseMatrixPayload {
+  m: number;
+  n: number;
+  rows: number[][];
+}
+
+// 按位压缩的GF(2)矩阵：每行存为 Uint32Array，第 j 列位于 words[j >>> 5] 的第 (j & 31) 位
+export interface PackedGF2Matrix {
+  rows: number;
+  cols: number;
+  data: Uint32Array[];
+}
+
+// 编码方式：systematic 按 [u | p] 求解 H_p·p = H_u·u；generator 为 u·G；alt 为 Richardson–Urbanke 近似下三角编码
+export type EncodingMethod = 'systematic' | 'generator' | 'alt' | 'dual-diagonal';
+
+// 校验部分（H 的后 m 列）的可递推结构，Z 为块大小（Z=1 即逐比特结构）
+//   dual-diagonal：前 Z 列为 h_b（各块行之和为置换矩阵），其余列为块双对角阶梯（802.11n、802.16e）
+//   accumulate：整个校验部分为块下双对角（累加器，RA/IRA 码）
+export interface ParityStructure {
+  type: 'dual-diagonal' | 'accumulate';
+  Z: number;
+}
+
+export interface ParityStructureAnalysis {
+  qualifies: boolean;
+  structure?: ParityStructure;
+  declared: boolean;
+  reason?: string;
+}
+
+// Richardson–Urbanke 近似下三角（ALT）编码器的预处理结果
+// 行列置换后 H = [A B T; C D E]，T 为下三角且对角线全1，gap 为 D 的维数 g
+export interface ALTEncoder {
+  n: number;
+  m: number;
+  k: number;
+  gap: number;
+  informationColumns: number[]; // 信息位 s 所在列（A/C），升序
+  gapColumns: number[];         // 间隙校验位 p1 所在列（B/D）
+  triangularRows: number[];     // T 的行，按对角线顺序
+  triangularColumns: number[];  // T 的对角线列（校验位 p2）
+  gapRows: number[];            // 参与求 p1 的 C/D/E 行（已去除线性相关行）
+  phiInverse: PackedGF2Matrix;  // φ = D + E·T⁻¹·B 的逆（g×g）
+  parityCheck: SparseParityCheck;
+}
+
+// 最小距离分析：exact 为精确值；bounded 为时间限制内得到的下界/上界；unavailable 表示没有有效的生成矩阵
+export interface MinimumDistanceResult {
+  status: 'exact' | 'bounded' | 'unavailable';
+  minDistance: number;                 // exact 时为精确值，bounded 时为上界（已找到的最轻非零码字）
+  lowerBound: number;
+  upperBound: number;
+  method: 'enumeration' | 'brouwer-zimmermann' | 'none';
+  weightEnumerator?: number[];         // A_w（w = 0..n），仅在小码穷举完成时给出
+  minimumWeightSupport?: number[];     // 达到上界的码字中为1的位置
+  informationSets?: number;            // Brouwer–Zimmermann 使用的信息集个数
+  searchedWeight?: number;             // 已在全部信息集上穷举完成的信息位重量
+  timedOut: boolean;
+  elapsedMs: number;
+}
+
+// 停止集：变量节点集合 S，S 的每个相邻校验都至少连接 S 中两个节点（BEC 下迭代译码无法恢复）
+export interface StoppingSet {
+  size: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  edges: [number, number][]; // [校验, 比特]
+  edgeIds?: string[];
+}
+
+export interface StoppingSetAnalysisResult {
+  sizeLimit: number;
+  stoppingDistance: number | null; // 找到的最小停止集大小（搜索未截断时为精确的停止距离）
+  sizeCounts: Record<number, number>;
+  sets: StoppingSet[];
+  truncated: boolean;
+}
+
+// 基本 (a,b) 陷阱集：a 个变量节点，诱导子图中校验度数均为1或2，b 为度数1（不满足）的校验个数
+export interface TrappingSet {
+  a: number;
+  b: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  unsatisfiedChecks: number[];
+  edges: [number, number][];
+  edgeIds?: string[];
+}
+
+export interface TrappingSetAnalysisResult {
+  maxA: number;
+  maxB: number;
+  counts: Record<string, number>; // 键为 "(a,b)"
+  sets: TrappingSet[];
+  truncated: boolean;
+}
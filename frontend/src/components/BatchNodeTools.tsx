@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
+import { graphAPI } from '../services/api';
 
 const Container = styled.div`
   display: flex;
@@ -139,11 +140,16 @@ const ButtonRow = styled.div`
 `;
 
 export const BatchNodeTools: React.FC = () => {
-  const { addNode, nodes, clearGraph } = useGraphStore();
+  const { addNode, nodes, clearGraph, loadGraph } = useGraphStore();
   
   const [bitCount, setBitCount] = useState(6);
   const [checkCount, setCheckCount] = useState(3);
   const [layoutType, setLayoutType] = useState<'horizontal' | 'grid' | 'circular'>('horizontal');
+  const [pegBits, setPegBits] = useState(12);
+  const [pegChecks, setPegChecks] = useState(6);
+  const [pegDistribution, setPegDistribution] = useState('3:1');
+  const [pegStatus, setPegStatus] = useState<string | null>(null);
+  const [pegRunning, setPegRunning] = useState(false);
 
   // Preset LDPC code configurations
   const presets = [
@@ -204,6 +210,43 @@ export const BatchNodeTools: React.FC = () => {
     }
   };
 
+  // 解析 "2:0.5, 3:0.5" 形式的度分布
+  const parseDistribution = (text: string): Record<number, number> | null => {
+    const distribution: Record<number, number> = {};
+    for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+      const [degree, fraction] = part.split(':').map(v => parseFloat(v));
+      if (!Number.isInteger(degree) || degree < 1 || !(fraction > 0)) {
+        return null;
+      }
+      distribution[degree] = fraction;
+    }
+    return Object.keys(distribution).length > 0 ? distribution : null;
+  };
+
+  const buildPEGCode = async () => {
+    const degreeDistribution = parseDistribution(pegDistribution);
+    if (!degreeDistribution) {
+      setPegStatus('Invalid degree distribution, expected e.g. "2:0.5, 3:0.5"');
+      return;
+    }
+
+    setPegRunning(true);
+    setPegStatus(null);
+    try {
+      const result = await graphAPI.autoConnect({ nodes: [], edges: [] }, 'peg', {
+        degreeDistribution,
+        bitCount: pegBits,
+        checkCount: pegChecks
+      });
+      loadGraph(result.graph);
+      setPegStatus(`Built ${result.statistics.connections} edges, girth ${result.statistics.girth ?? '∞'}`);
+    } catch (error: any) {
+      setPegStatus(error.message);
+    } finally {
+      setPegRunning(false);
+    }
+  };
+
   const autoLayout = () => {
     // TODO: Implement automatic layout algorithm
     console.log('Auto layout not implemented yet');
@@ -354,6 +397,49 @@ export const BatchNodeTools: React.FC = () => {
         </ButtonRow>
       </Section>
 
+      <Section>
+        <SectionTitle>PEG Construction</SectionTitle>
+
+        <FormGroup>
+          <Label>Code Length (n)</Label>
+          <Input
+            type="number"
+            min="2"
+            max="2000"
+            value={pegBits}
+            onChange={(e) => setPegBits(parseInt(e.target.value) || 2)}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label>Number of Check Nodes (m)</Label>
+          <Input
+            type="number"
+            min="1"
+            max="1000"
+            value={pegChecks}
+            onChange={(e) => setPegChecks(parseInt(e.target.value) || 1)}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label>Variable Degree Distribution (degree:fraction)</Label>
+          <Input
+            value={pegDistribution}
+            placeholder="2:0.5, 3:0.3, 4:0.2"
+            onChange={(e) => setPegDistribution(e.target.value)}
+          />
+        </FormGroup>
+
+        <Button onClick={buildPEGCode} disabled={pegRunning} style={{ width: '100%' }}>
+          {pegRunning ? 'Building...' : 'Build PEG Code'}
+        </Button>
+
+        {pegStatus && (
+          <div style={{ marginTop: '8px', fontSize: '11px', color: '#999' }}>{pegStatus}</div>
+        )}
+      </Section>
+
       <Section>
         <SectionTitle>Layout Tools</SectionTitle>
         
@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
+import { matrixAPI, GirthAnalysisResponse, MinDistanceResponse, StoppingSetResponse, TrappingSetResponse } from '../services/api';
 
 const Container = styled.div`
   display: flex;
@@ -116,6 +117,63 @@ const RecommendationBox = styled.div<{ type: 'info' | 'warning' | 'success' }>`
   margin-top: 8px;
 `;
 
+const CycleList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  max-height: 200px;
+  overflow-y: auto;
+  margin-top: 12px;
+`;
+
+const CycleItem = styled.button<{ $active: boolean }>`
+  background: ${({ $active }) => $active ? '#92400e' : '#2a2a2a'};
+  border: 1px solid ${({ $active }) => $active ? '#f59e0b' : '#444'};
+  border-radius: 4px;
+  color: #ddd;
+  font-size: 11px;
+  padding: 6px 8px;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    border-color: #f59e0b;
+  }
+`;
+
+const SearchRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 11px;
+  color: #999;
+`;
+
+const LimitInput = styled.input`
+  width: 48px;
+  background: #2a2a2a;
+  border: 1px solid #444;
+  border-radius: 4px;
+  color: #ddd;
+  font-size: 11px;
+  padding: 4px 6px;
+`;
+
+const SearchButton = styled.button`
+  background: #2a2a2a;
+  border: 1px solid #f59e0b;
+  border-radius: 4px;
+  color: #f59e0b;
+  font-size: 11px;
+  padding: 4px 10px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
 const RecommendationTitle = styled.div`
   font-weight: bold;
   margin-bottom: 4px;
@@ -132,15 +190,16 @@ interface CodeProperties {
   k: number;           // 信息位长度
   m: number;           // 校验位长度
   rate: number;        // 码率
-  minDistance: number; // 最小距离
-  correctionCapability: number; // 纠错能力
+  minDistance: number | null; // 最小距离（精确值或上界，见 minDistanceStatus）
+  minDistanceStatus: 'exact' | 'bounded' | 'unavailable' | null;
+  correctionCapability: number | null; // 纠错能力
   density: number;     // 密度
   regularity: {
     isRegular: boolean;
     bitNodeDegree: number;
     checkNodeDegree: number;
   };
-  girth: number;      // 围长
+  girth: number | null; // 围长（无环时为 null）
   performance: {
     theoreticalLimit: number;
     expectedPerformance: number;
@@ -148,9 +207,22 @@ interface CodeProperties {
   };
 }
 
+// 后端分析请求的防抖时间（毫秒）
+const ANALYSIS_DEBOUNCE_MS = 300;
+
 export const CodeAnalysis: React.FC = () => {
-  const { nodes, edges, matrixData } = useGraphStore();
+  const { nodes, edges, matrixData, setHighlight, clearHighlight } = useGraphStore();
   const [analysis, setAnalysis] = useState<CodeProperties | null>(null);
+  const [girthResult, setGirthResult] = useState<GirthAnalysisResponse | null>(null);
+  const [distanceResult, setDistanceResult] = useState<MinDistanceResponse | null>(null);
+  const [stoppingResult, setStoppingResult] = useState<StoppingSetResponse | null>(null);
+  const [trappingResult, setTrappingResult] = useState<TrappingSetResponse | null>(null);
+  const [stoppingLimit, setStoppingLimit] = useState(8);
+  const [trappingMaxA, setTrappingMaxA] = useState(6);
+  const [trappingMaxB, setTrappingMaxB] = useState(2);
+  const [searching, setSearching] = useState<'stopping' | 'trapping' | null>(null);
+  // 当前高亮的条目，如 "cycle-0"、"stopping-2"、"trapping-1"
+  const [activeItem, setActiveItem] = useState<string | null>(null);
 
   useEffect(() => {
     if (nodes.length > 0) {
@@ -158,7 +230,123 @@ export const CodeAnalysis: React.FC = () => {
     } else {
       setAnalysis(null);
     }
-  }, [nodes, edges, matrixData]);
+  }, [nodes, edges, matrixData, girthResult, distanceResult]);
+
+  // H 只取决于节点类型、标签（决定行列顺序）和边的端点；拖动节点只改位置，不应触发重新分析
+  const structureKey = useMemo(() => JSON.stringify([
+    nodes.map(n => `${n.type}:${n.id}:${n.label}`).sort(),
+    edges.map(e => [e.source, e.target].sort().join('|')).sort()
+  ]), [nodes, edges]);
+
+  // 围长和短环统计由后端精确计算
+  useEffect(() => {
+    let cancelled = false;
+    setActiveItem(null);
+    setStoppingResult(null);
+    setTrappingResult(null);
+    clearHighlight();
+
+    const hasBothTypes = nodes.some(n => n.type === 'bit') && nodes.some(n => n.type === 'check');
+    if (!hasBothTypes || edges.length === 0) {
+      setGirthResult(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      matrixAPI.girth({ nodes, edges })
+        .then(result => {
+          if (!cancelled) setGirthResult(result);
+        })
+        .catch(error => {
+          console.error('Girth analysis failed:', error);
+          if (!cancelled) setGirthResult(null);
+        });
+    }, ANALYSIS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [structureKey]);
+
+  // 最小距离：小码精确计算，大码在时间限制内给出上下界
+  useEffect(() => {
+    let cancelled = false;
+
+    const hasBothTypes = nodes.some(n => n.type === 'bit') && nodes.some(n => n.type === 'check');
+    if (!hasBothTypes || edges.length === 0) {
+      setDistanceResult(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      matrixAPI.minDistance({ nodes, edges }, 2000)
+        .then(result => {
+          if (!cancelled) setDistanceResult(result);
+        })
+        .catch(error => {
+          console.error('Minimum distance analysis failed:', error);
+          if (!cancelled) setDistanceResult(null);
+        });
+    }, ANALYSIS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [structureKey]);
+
+  const nodeLabel = (nodeId: string | undefined, fallback: string) =>
+    nodes.find(n => n.id === nodeId)?.label || fallback;
+
+  // 在图中高亮一个子图（环、停止集或陷阱集），再次点击取消
+  const toggleHighlight = (
+    key: string,
+    item: { variableNodes: number[]; checkNodes: number[]; edgeIds?: string[] },
+    ids: { bitNodeIds?: string[]; checkNodeIds?: string[] }
+  ) => {
+    if (activeItem === key) {
+      setActiveItem(null);
+      clearHighlight();
+      return;
+    }
+
+    const nodeIds = [
+      ...item.variableNodes.map(v => ids.bitNodeIds?.[v]),
+      ...item.checkNodes.map(c => ids.checkNodeIds?.[c])
+    ].filter((id): id is string => !!id);
+
+    setActiveItem(key);
+    setHighlight(nodeIds, item.edgeIds || []);
+  };
+
+  // 停止集/陷阱集搜索开销较大，仅在用户点击时执行
+  const searchStoppingSets = async () => {
+    setSearching('stopping');
+    try {
+      setStoppingResult(await matrixAPI.stoppingSets({ nodes, edges }, stoppingLimit));
+    } catch (error) {
+      console.error('Stopping set analysis failed:', error);
+      setStoppingResult(null);
+    } finally {
+      setSearching(null);
+    }
+  };
+
+  const searchTrappingSets = async () => {
+    setSearching('trapping');
+    try {
+      setTrappingResult(await matrixAPI.trappingSets({ nodes, edges }, trappingMaxA, trappingMaxB));
+    } catch (error) {
+      console.error('Trapping set analysis failed:', error);
+      setTrappingResult(null);
+    } finally {
+      setSearching(null);
+    }
+  };
+
+  const bitLabels = (variableNodes: number[], ids: { bitNodeIds?: string[] }) =>
+    variableNodes.map(v => nodeLabel(ids.bitNodeIds?.[v], `B${v + 1}`)).join(', ');
 
   const analyzeCode = () => {
     const bitNodes = nodes.filter(n => n.type === 'bit');
@@ -186,15 +374,14 @@ export const CodeAnalysis: React.FC = () => {
     const isRegular = bitDegrees.every(deg => deg === bitDegrees[0]) && 
                      checkDegrees.every(deg => deg === checkDegrees[0]);
 
-    // 估算最小距离 (简化计算)
-    const minDistance = Math.max(2, Math.min(4, Math.floor(Math.random() * 3) + 2));
+    const distance = distanceResult?.analysis;
+    const minDistance = distance && distance.status !== 'unavailable' ? distance.minDistance : null;
     
     // 计算密度
     const totalPossibleEdges = n * m;
     const density = totalPossibleEdges > 0 ? (edges.length / totalPossibleEdges) * 100 : 0;
 
-    // 估算围长 (简化)
-    const girth = edges.length > 0 ? Math.max(4, 6 - Math.floor(density / 10)) : 0;
+    const girth = girthResult ? girthResult.analysis.girth : null;
 
     // 性能估算
     const shannonLimit = 1; // 简化的香农极限
@@ -208,7 +395,8 @@ export const CodeAnalysis: React.FC = () => {
       m,
       rate,
       minDistance,
-      correctionCapability: Math.floor((minDistance - 1) / 2),
+      minDistanceStatus: distance ? distance.status : null,
+      correctionCapability: minDistance !== null ? Math.floor((minDistance - 1) / 2) : null,
       density,
       regularity: {
         isRegular,
@@ -263,7 +451,7 @@ export const CodeAnalysis: React.FC = () => {
       });
     }
 
-    if (analysis.girth < 6) {
+    if (analysis.girth !== null && analysis.girth < 6) {
       recommendations.push({
         type: 'warning' as const,
         title: 'Small Girth',
@@ -319,11 +507,19 @@ export const CodeAnalysis: React.FC = () => {
             <MetricLabel>Code Rate (R)</MetricLabel>
           </MetricCard>
           <MetricCard>
-            <MetricValue>{analysis.minDistance}</MetricValue>
-            <MetricLabel>Minimum Distance (d)</MetricLabel>
+            <MetricValue>
+              {analysis.minDistanceStatus === 'bounded' && distanceResult
+                ? `${distanceResult.analysis.lowerBound}–${distanceResult.analysis.upperBound}`
+                : analysis.minDistance ?? '—'}
+            </MetricValue>
+            <MetricLabel>
+              Minimum Distance (d){analysis.minDistanceStatus === 'bounded' ? ', bounds' : analysis.minDistanceStatus === 'exact' ? ', exact' : ''}
+            </MetricLabel>
           </MetricCard>
           <MetricCard>
-            <MetricValue>{analysis.correctionCapability}</MetricValue>
+            <MetricValue>
+              {analysis.correctionCapability === null ? '—' : `${analysis.minDistanceStatus === 'bounded' ? '≤ ' : ''}${analysis.correctionCapability}`}
+            </MetricValue>
             <MetricLabel>Error Correction Capability (t)</MetricLabel>
           </MetricCard>
         </AnalysisGrid>
@@ -344,8 +540,8 @@ export const CodeAnalysis: React.FC = () => {
             <MetricLabel>Theoretical Efficiency</MetricLabel>
           </MetricCard>
           <MetricCard>
-            <MetricValue>{analysis.girth}</MetricValue>
-            <MetricLabel>Estimated Girth</MetricLabel>
+            <MetricValue>{analysis.girth ?? '∞'}</MetricValue>
+            <MetricLabel>Girth</MetricLabel>
           </MetricCard>
           <MetricCard>
             <MetricValue>{analysis.regularity.isRegular ? 'Regular' : 'Irregular'}</MetricValue>
@@ -361,6 +557,201 @@ export const CodeAnalysis: React.FC = () => {
         )}
       </Section>
 
+      {distanceResult?.analysis.weightEnumerator && (
+        <Section>
+          <SectionTitle>Weight Enumerator</SectionTitle>
+
+          <AnalysisGrid>
+            {distanceResult.analysis.weightEnumerator
+              .map((count, weight) => ({ weight, count }))
+              .filter(({ weight, count }) => weight > 0 && count > 0)
+              .map(({ weight, count }) => (
+                <MetricCard key={weight}>
+                  <MetricValue>{count}</MetricValue>
+                  <MetricLabel>A<sub>{weight}</sub></MetricLabel>
+                </MetricCard>
+              ))}
+          </AnalysisGrid>
+        </Section>
+      )}
+
+      {distanceResult?.analysis.status === 'bounded' && (
+        <Section>
+          <div style={{ fontSize: '11px', color: '#999' }}>
+            Brouwer–Zimmermann search over {distanceResult.analysis.informationSets} information sets stopped after
+            {' '}{distanceResult.analysis.elapsedMs} ms (information weight ≤ {distanceResult.analysis.searchedWeight} exhausted):
+            {' '}{distanceResult.analysis.lowerBound} ≤ d ≤ {distanceResult.analysis.upperBound}.
+          </div>
+        </Section>
+      )}
+
+      {girthResult && (
+        <Section>
+          <SectionTitle>Short Cycles</SectionTitle>
+
+          <AnalysisGrid>
+            {Object.entries(girthResult.analysis.cycleCounts).map(([length, count]) => (
+              <MetricCard key={length}>
+                <MetricValue>{count}</MetricValue>
+                <MetricLabel>{length}-Cycles</MetricLabel>
+              </MetricCard>
+            ))}
+          </AnalysisGrid>
+
+          {girthResult.analysis.shortestCycles.length > 0 && (
+            <CycleList>
+              {girthResult.analysis.shortestCycles.map((cycle, index) => (
+                <CycleItem
+                  key={index}
+                  $active={activeItem === `cycle-${index}`}
+                  onClick={() => toggleHighlight(`cycle-${index}`, cycle, girthResult)}
+                >
+                  {cycle.length}-cycle: {cycle.variableNodes.map(v => nodeLabel(girthResult.bitNodeIds?.[v], `B${v + 1}`)).join(' → ')}
+                  {' '}via {cycle.checkNodes.map(c => nodeLabel(girthResult.checkNodeIds?.[c], `C${c + 1}`)).join(', ')}
+                </CycleItem>
+              ))}
+            </CycleList>
+          )}
+
+          {girthResult.analysis.countsTruncated && (
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#999' }}>
+              Search budget exhausted: cycle counts are lower bounds. The girth is exact.
+            </div>
+          )}
+
+          {girthResult.analysis.truncated && (
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#999' }}>
+              Only the first {girthResult.analysis.shortestCycles.length} shortest cycles are listed.
+            </div>
+          )}
+        </Section>
+      )}
+
+      {girthResult && (
+        <Section>
+          <SectionTitle>Stopping Sets</SectionTitle>
+
+          <SearchRow>
+            Size ≤
+            <LimitInput
+              type="number"
+              min={1}
+              max={20}
+              value={stoppingLimit}
+              onChange={e => setStoppingLimit(Math.max(1, Math.min(20, parseInt(e.target.value) || 1)))}
+            />
+            <SearchButton onClick={searchStoppingSets} disabled={searching !== null}>
+              {searching === 'stopping' ? 'Searching...' : 'Search'}
+            </SearchButton>
+          </SearchRow>
+
+          {stoppingResult && (
+            <>
+              <AnalysisGrid style={{ marginTop: '12px' }}>
+                <MetricCard>
+                  <MetricValue>{stoppingResult.analysis.stoppingDistance ?? '—'}</MetricValue>
+                  <MetricLabel>Stopping Distance</MetricLabel>
+                </MetricCard>
+                {Object.entries(stoppingResult.analysis.sizeCounts).map(([size, count]) => (
+                  <MetricCard key={size}>
+                    <MetricValue>{count}</MetricValue>
+                    <MetricLabel>Size {size}</MetricLabel>
+                  </MetricCard>
+                ))}
+              </AnalysisGrid>
+
+              {stoppingResult.analysis.sets.length > 0 && (
+                <CycleList>
+                  {stoppingResult.analysis.sets.map((set, index) => (
+                    <CycleItem
+                      key={index}
+                      $active={activeItem === `stopping-${index}`}
+                      onClick={() => toggleHighlight(`stopping-${index}`, set, stoppingResult)}
+                    >
+                      Size {set.size}: {bitLabels(set.variableNodes, stoppingResult)}
+                    </CycleItem>
+                  ))}
+                </CycleList>
+              )}
+
+              <div style={{ marginTop: '8px', fontSize: '11px', color: '#999' }}>
+                {stoppingResult.analysis.truncated
+                  ? 'Search budget exhausted: counts are partial and the stopping distance shown is only an upper bound.'
+                  : stoppingResult.analysis.sets.length === 0
+                    ? `No stopping sets of size ≤ ${stoppingResult.analysis.sizeLimit}.`
+                    : `Exhaustive up to size ${stoppingResult.analysis.sizeLimit}.`}
+              </div>
+            </>
+          )}
+        </Section>
+      )}
+
+      {girthResult && (
+        <Section>
+          <SectionTitle>Elementary Trapping Sets</SectionTitle>
+
+          <SearchRow>
+            a ≤
+            <LimitInput
+              type="number"
+              min={2}
+              max={12}
+              value={trappingMaxA}
+              onChange={e => setTrappingMaxA(Math.max(2, Math.min(12, parseInt(e.target.value) || 2)))}
+            />
+            b ≤
+            <LimitInput
+              type="number"
+              min={0}
+              max={6}
+              value={trappingMaxB}
+              onChange={e => setTrappingMaxB(Math.max(0, Math.min(6, parseInt(e.target.value) || 0)))}
+            />
+            <SearchButton onClick={searchTrappingSets} disabled={searching !== null}>
+              {searching === 'trapping' ? 'Searching...' : 'Search'}
+            </SearchButton>
+          </SearchRow>
+
+          {trappingResult && (
+            <>
+              <AnalysisGrid style={{ marginTop: '12px' }}>
+                {Object.entries(trappingResult.analysis.counts).map(([label, count]) => (
+                  <MetricCard key={label}>
+                    <MetricValue>{count}</MetricValue>
+                    <MetricLabel>{label}</MetricLabel>
+                  </MetricCard>
+                ))}
+              </AnalysisGrid>
+
+              {trappingResult.analysis.sets.length > 0 && (
+                <CycleList>
+                  {trappingResult.analysis.sets.map((set, index) => (
+                    <CycleItem
+                      key={index}
+                      $active={activeItem === `trapping-${index}`}
+                      onClick={() => toggleHighlight(`trapping-${index}`, set, trappingResult)}
+                    >
+                      ({set.a},{set.b}): {bitLabels(set.variableNodes, trappingResult)}
+                      {set.unsatisfiedChecks.length > 0 && (
+                        <> · unsatisfied {set.unsatisfiedChecks.map(c => nodeLabel(trappingResult.checkNodeIds?.[c], `C${c + 1}`)).join(', ')}</>
+                      )}
+                    </CycleItem>
+                  ))}
+                </CycleList>
+              )}
+
+              <div style={{ marginTop: '8px', fontSize: '11px', color: '#999' }}>
+                {trappingResult.analysis.truncated
+                  ? 'Search budget exhausted: only part of the trapping sets were enumerated.'
+                  : trappingResult.analysis.sets.length === 0
+                    ? `No elementary trapping sets with a ≤ ${trappingResult.analysis.maxA}, b ≤ ${trappingResult.analysis.maxB}.`
+                    : `Exhaustive for a ≤ ${trappingResult.analysis.maxA}, b ≤ ${trappingResult.analysis.maxB}.`}
+              </div>
+            </>
+          )}
+        </Section>
+      )}
+
       <Section>
         <SectionTitle>Comparison with Classical Codes</SectionTitle>
         
@@ -377,7 +768,7 @@ export const CodeAnalysis: React.FC = () => {
             <tr style={{ background: '#1e3a8a' }}>
               <TableCell><strong>Current LDPC Code</strong></TableCell>
               <TableCell><strong>{analysis.rate.toFixed(3)}</strong></TableCell>
-              <TableCell><strong>{analysis.minDistance}</strong></TableCell>
+              <TableCell><strong>{analysis.minDistanceStatus === 'bounded' ? `≤ ${analysis.minDistance}` : analysis.minDistance ?? '—'}</strong></TableCell>
               <TableCell><strong>In Design</strong></TableCell>
             </tr>
             {theoreticalComparisons.map((code, index) => (
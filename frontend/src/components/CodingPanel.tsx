@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
-import { codingAPI, matrixAPI } from '../services/api';
+import { useDecoderStore, decoderHasParameter } from '../stores/decoderStore';
+import { codingAPI, matrixAPI, DecodingAlgorithm } from '../services/api';
 import { LDPCGraph } from '../types';
 
 const Container = styled.div`
@@ -179,8 +180,6 @@ const SuccessMessage = styled.div`
   border-radius: 4px;
 `;
 
-type DecodingAlgorithm = 'belief-propagation' | 'min-sum' | 'sum-product' | 'gallager-a' | 'gallager-b' | 'layered';
-
 interface EncodingResult {
   codeword: number[];
   success: boolean;
@@ -198,7 +197,7 @@ interface DecodingResult {
 }
 
 export const CodingPanel: React.FC = () => {
-  const { nodes, edges, matrixData, exportGraph, setMatrixData: setGlobalMatrixData, setDecodingResult: setGlobalDecodingResult } = useGraphStore();
+  const { nodes, edges, matrixData, exportGraph, setMatrixData: setGlobalMatrixData, setDecodingResult: setGlobalDecodingResult, setMessagePlayback } = useGraphStore();
   const [activeTab, setActiveTab] = useState<'encode' | 'decode'>('encode');
   
   // Encoding related state
@@ -212,51 +211,21 @@ export const CodingPanel: React.FC = () => {
   const [maxIterations, setMaxIterations] = useState(50);
   const [scalingFactor, setScalingFactor] = useState(0.75);
   const [damping, setDamping] = useState(0.0);
+  const [admmPenalty, setAdmmPenalty] = useState(3);
   const [earlyTermination, setEarlyTermination] = useState(true);
   const [llrInput, setLlrInput] = useState(false);
+  const [recordMessages, setRecordMessages] = useState(false);
   const [receivedData, setReceivedData] = useState('1 1 1 1');
   const [decodingResult, setDecodingResult] = useState<DecodingResult | null>(null);
   const [decodingLoading, setDecodingLoading] = useState(false);
   const [decodingError, setDecodingError] = useState<string | null>(null);
 
-  const algorithmInfos = {
-    'belief-propagation': {
-      name: 'Belief Propagation',
-      description: 'Soft-decision iterative decoding algorithm based on message passing, optimal performance but high complexity',
-      complexity: 'High',
-      performance: 'Optimal'
-    },
-    'min-sum': {
-      name: 'Min-Sum',
-      description: 'Simplified version of belief propagation, lower computational complexity, slightly reduced performance',
-      complexity: 'Medium',
-      performance: 'Good'
-    },
-    'sum-product': {
-      name: 'Sum-Product',
-      description: 'Sum-product algorithm, equivalent to belief propagation, suitable for probability calculations',
-      complexity: 'High',
-      performance: 'Optimal'
-    },
-    'gallager-a': {
-      name: 'Gallager-A',
-      description: 'Hard decision decoding algorithm based on majority decision, simple implementation',
-      complexity: 'Low',
-      performance: 'Fair'
-    },
-    'gallager-b': {
-      name: 'Gallager-B',
-      description: 'Enhanced version of Gallager-A, includes threshold decision',
-      complexity: 'Low',
-      performance: 'Fair'
-    },
-    'layered': {
-      name: 'Layered Decoding',
-      description: 'Efficient decoding algorithm with layer-wise processing, fast convergence',
-      complexity: 'Medium',
-      performance: 'Good'
-    }
-  };
+  const { decoders, loadDecoders, getDecoder } = useDecoderStore();
+  const decoder = getDecoder(algorithm);
+
+  useEffect(() => {
+    loadDecoders();
+  }, [loadDecoders]);
 
   const handleEncode = async () => {
     setEncodingLoading(true);
@@ -377,12 +346,25 @@ export const CodingPanel: React.FC = () => {
     setDecodingError(null);
     setDecodingResult(null);
     setGlobalDecodingResult(null);
+    setMessagePlayback(null);
     
     try {
+      // 擦除译码器的硬判决输入允许 -1（擦除），按 BEC 换算 LLR
+      const erasureInput = !!decoder?.inputs.includes('erasure') && !llrInput;
       const received = receivedData.trim().split(/\s+/).map(bit => {
+        if (llrInput) {
+          const value = parseFloat(bit);
+          if (isNaN(value)) {
+            throw new Error('LLR input must be numbers');
+          }
+          return value;
+        }
         const num = parseInt(bit);
+        if (erasureInput && num === -1) {
+          return num;
+        }
         if (isNaN(num) || (num !== 0 && num !== 1)) {
-          throw new Error('Received data must be 0 or 1');
+          throw new Error(erasureInput ? 'Received data must be -1 (erasure), 0 or 1' : 'Received data must be 0 or 1');
         }
         return num;
       });
@@ -433,8 +415,22 @@ export const CodingPanel: React.FC = () => {
         }
       }
 
-      // 调用解码API
-      const response = await codingAPI.decode(received, graphData, maxIterations, algorithm);
+      // 调用解码API；记录消息时额外返回可在图上回放的逐次消息
+      const response = await codingAPI.decodeEnhanced(received, graphData, {
+        algorithm,
+        maxIterations,
+        scalingFactor: needsScaling ? scalingFactor : undefined,
+        damping: needsDamping && damping > 0 ? damping : undefined,
+        admmPenalty: needsPenalty ? admmPenalty : undefined,
+        earlyTermination,
+        llrInput,
+        channelType: erasureInput ? 'BEC' : undefined,
+        recordMessages
+      });
+
+      if (response.playback) {
+        setMessagePlayback(response.playback.frames.length > 0 ? response.playback : null);
+      }
 
       const decodingResultData = {
         decoded: response.decoded,
@@ -452,19 +448,6 @@ export const CodingPanel: React.FC = () => {
       // 更新全局状态
       setGlobalDecodingResult(decodingResultData);
       
-      // 如果解码响应包含矩阵信息，更新全局矩阵数据
-      if (response.H && response.G && response.n && response.k) {
-        const matrixData = {
-          H: response.H,
-          G: response.G,
-          n: response.n,
-          k: response.k,
-          minDistance: response.minDistance || 0,
-          isValid: true
-        };
-        console.log('从解码响应更新矩阵数据:', matrixData);
-        setGlobalMatrixData(matrixData);
-      }
     } catch (error: any) {
       setDecodingError(error.response?.data?.message || error.message || 'Decoding failed');
     } finally {
@@ -472,8 +455,9 @@ export const CodingPanel: React.FC = () => {
     }
   };
 
-  const needsScaling = algorithm === 'min-sum' || algorithm === 'layered';
-  const needsDamping = algorithm === 'belief-propagation' || algorithm === 'sum-product';
+  const needsScaling = decoderHasParameter(decoder, 'scalingFactor');
+  const needsDamping = decoderHasParameter(decoder, 'damping');
+  const needsPenalty = decoderHasParameter(decoder, 'admmPenalty');
 
   // 计算码参数
   const k = matrixData ? matrixData.k : 0;
@@ -575,27 +559,28 @@ export const CodingPanel: React.FC = () => {
                 value={algorithm} 
                 onChange={(e) => setAlgorithm(e.target.value as DecodingAlgorithm)}
               >
-                <option value="belief-propagation">Belief Propagation (BP)</option>
-                <option value="min-sum">Min-Sum</option>
-                <option value="sum-product">Sum-Product</option>
-                <option value="gallager-a">Gallager-A</option>
-                <option value="gallager-b">Gallager-B</option>
-                <option value="layered">Layered Decoding</option>
+                {decoders.length === 0 && <option value={algorithm}>{algorithm}</option>}
+                {decoders.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
               </Select>
             </FormGroup>
 
-            <AlgorithmInfo>
-              <div style={{ fontWeight: 'bold', color: '#4a9eff', marginBottom: '4px' }}>
-                {algorithmInfos[algorithm].name}
-              </div>
-              <div style={{ marginBottom: '8px' }}>
-                {algorithmInfos[algorithm].description}
-              </div>
-              <div style={{ display: 'flex', gap: '16px', color: '#999' }}>
-                <span>Complexity: {algorithmInfos[algorithm].complexity}</span>
-                <span>Performance: {algorithmInfos[algorithm].performance}</span>
-              </div>
-            </AlgorithmInfo>
+            {decoder && (
+              <AlgorithmInfo>
+                <div style={{ fontWeight: 'bold', color: '#4a9eff', marginBottom: '4px' }}>
+                  {decoder.name}
+                </div>
+                <div style={{ marginBottom: '8px' }}>
+                  {decoder.description}
+                </div>
+                <div style={{ display: 'flex', gap: '16px', color: '#999' }}>
+                  <span>Complexity: {decoder.complexity}</span>
+                  <span>Performance: {decoder.performance}</span>
+                  <span>Channels: {decoder.channels.join(' / ')}</span>
+                </div>
+              </AlgorithmInfo>
+            )}
 
             <FormGroup>
               <Label>Maximum Iterations</Label>
@@ -636,6 +621,20 @@ export const CodingPanel: React.FC = () => {
               </FormGroup>
             )}
 
+            {needsPenalty && (
+              <FormGroup>
+                <Label>ADMM 罚参数 μ</Label>
+                <Input
+                  type="number"
+                  min="0.1"
+                  max="100"
+                  step="0.5"
+                  value={admmPenalty}
+                  onChange={(e) => setAdmmPenalty(parseFloat(e.target.value) || 3)}
+                />
+              </FormGroup>
+            )}
+
             <FormGroup>
               <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                 <input
@@ -665,6 +664,21 @@ export const CodingPanel: React.FC = () => {
                 </Label>
               </div>
             </FormGroup>
+
+            <FormGroup>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="recordMessages"
+                  checked={recordMessages}
+                  onChange={(e) => setRecordMessages(e.target.checked)}
+                  style={{ margin: 0 }}
+                />
+                <Label htmlFor="recordMessages" style={{ margin: 0, cursor: 'pointer' }}>
+                  记录消息（在 Tanner 图上逐次回放）
+                </Label>
+              </div>
+            </FormGroup>
           </Section>
 
           <Section>
@@ -705,7 +719,7 @@ export const CodingPanel: React.FC = () => {
                 <ResultItem>
                   <span>Algorithm Used:</span>
                   <span style={{ fontWeight: 'bold', color: '#4a9eff' }}>
-                    {decodingResult.algorithm ? algorithmInfos[decodingResult.algorithm]?.name || decodingResult.algorithm : algorithmInfos[algorithm].name}
+                    {getDecoder(decodingResult.algorithm || algorithm)?.name || decodingResult.algorithm || algorithm}
                   </span>
                 </ResultItem>
                 <ResultItem>
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
-import { codingAPI } from '../services/api';
+import { codingAPI, SoftOutput, DecodingAlgorithm } from '../services/api';
+import { useDecoderStore } from '../stores/decoderStore';
 import { ChannelConfig } from './ChannelModule';
 
 const Container = styled.div`
@@ -266,42 +267,117 @@ const StatsRow = styled.div`
   font-size: 10px;
 `;
 
+const ChartHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-top: 16px;
+  margin-bottom: 8px;
+  font-size: 12px;
+  font-weight: 600;
+  color: #d1d5db;
+`;
+
+const ViewToggle = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+
+const ViewButton = styled.button<{ $active: boolean }>`
+  padding: 4px 8px;
+  border-radius: 6px;
+  border: 1px solid rgba(139, 92, 246, ${({ $active }) => ($active ? 0.6 : 0.2)});
+  background: ${({ $active }) => ($active ? 'rgba(139, 92, 246, 0.25)' : 'transparent')};
+  color: #e2e8f0;
+  font-size: 11px;
+  cursor: pointer;
+`;
+
 interface DecodingResult {
   decoded: number[];
   success: boolean;
   iterations: number;
   correctedErrors: number;
   message?: string;
+  softOutput?: SoftOutput;
 }
 
+type SoftOutputView = 'app' | 'extrinsic' | 'reliability';
+
+const SOFT_OUTPUT_VIEWS: Array<{ value: SoftOutputView; label: string }> = [
+  { value: 'app', label: 'APP LLR' },
+  { value: 'extrinsic', label: 'Extrinsic' },
+  { value: 'reliability', label: 'Reliability' }
+];
+
+// 逐比特柱状图：LLR 以零线为中心，正（比特0）向上为蓝色，负（比特1）向下为红色；可靠度在 0.5–1 之间向上绘制
+const SoftOutputChart: React.FC<{ softOutput: SoftOutput; view: SoftOutputView }> = ({ softOutput, view }) => {
+  const values = softOutput[view];
+  const width = 360;
+  const height = 120;
+  const barWidth = width / Math.max(1, values.length);
+  const isReliability = view === 'reliability';
+  const baseline = isReliability ? height : height / 2;
+  const maxMagnitude = isReliability ? 1 : Math.max(1e-9, ...values.map(Math.abs));
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${width} ${height + 14}`} style={{ background: '#0a0a0a', borderRadius: 6 }}>
+      {values.map((value, j) => {
+        const scaled = isReliability
+          ? Math.max(0, (value - 0.5) / 0.5) * height
+          : (Math.abs(value) / maxMagnitude) * (height / 2);
+        const y = isReliability || value >= 0 ? baseline - scaled : baseline;
+        const color = isReliability
+          ? `hsl(${Math.round(120 * scaled / height)}, 70%, 50%)`
+          : value >= 0 ? '#3b82f6' : '#ef4444';
+        return (
+          <rect key={j} x={j * barWidth + barWidth * 0.1} y={y} width={barWidth * 0.8} height={Math.max(0.5, scaled)} fill={color}>
+            <title>{`bit ${j}: ${value.toFixed(3)}`}</title>
+          </rect>
+        );
+      })}
+      <line x1={0} y1={baseline} x2={width} y2={baseline} stroke="#475569" strokeWidth={0.5} />
+      <text x={2} y={height + 11} fill="#9ca3af" fontSize={9}>
+        {isReliability ? 'P(correct): 0.5 – 1' : `max |LLR| = ${maxMagnitude.toFixed(2)}`}
+      </text>
+    </svg>
+  );
+};
+
 interface DecoderModuleProps {
   channelConfig?: ChannelConfig;
 }
 
 export const DecoderModule: React.FC<DecoderModuleProps> = ({ channelConfig }) => {
   const { matrixData, setDecodingResult, exportGraph } = useGraphStore();
-  const [algorithm, setAlgorithm] = useState<'gallager-a' | 'belief-propagation' | 'min-sum'>('gallager-a');
+  const { decoders, loadDecoders, getDecoder } = useDecoderStore();
+  const [algorithm, setAlgorithm] = useState<DecodingAlgorithm>('gallager-a');
   const [receivedBits, setReceivedBits] = useState('1 0 1 1');
   const [status, setStatus] = useState<'ready' | 'decoding' | 'success' | 'error'>('ready');
   const [error, setError] = useState<string>('');
+  const [softOutput, setSoftOutput] = useState<SoftOutput | null>(null);
+  const [softOutputView, setSoftOutputView] = useState<SoftOutputView>('app');
+
+  useEffect(() => {
+    loadDecoders();
+  }, [loadDecoders]);
 
   // Intelligent algorithm recommendation based on channel configuration
+  const getRecommendedAlgorithm = (): DecodingAlgorithm => {
+    if (!channelConfig || channelConfig.type === 'BSC') {
+      // BSC hard decision channel uses Gallager-A
+      return 'gallager-a';
+    }
+    if (channelConfig.type === 'AWGN' && channelConfig.snr !== undefined && channelConfig.snr > 6) {
+      return 'min-sum'; // High SNR: Min-Sum performance close to BP but lower complexity
+    }
+    // Low SNR AWGN and Rayleigh fading: BP has better performance
+    return 'belief-propagation';
+  };
+
   useEffect(() => {
     if (channelConfig) {
-      if (channelConfig.type === 'BSC') {
-        // BSC hard decision channel uses Gallager-A
-        setAlgorithm('gallager-a');
-      } else if (channelConfig.type === 'AWGN') {
-        // AWGN soft decision channel, choose algorithm based on SNR
-        if (channelConfig.snr !== undefined && channelConfig.snr > 6) {
-          setAlgorithm('min-sum'); // High SNR: Min-Sum performance close to BP but lower complexity
-        } else {
-          setAlgorithm('belief-propagation'); // Low SNR: BP has better performance
-        }
-      } else if (channelConfig.type === 'Rayleigh') {
-        // Rayleigh fading channel uses BP to handle fading
-        setAlgorithm('belief-propagation');
-      }
+      setAlgorithm(getRecommendedAlgorithm());
     }
   }, [channelConfig]);
 
@@ -341,6 +417,7 @@ export const DecoderModule: React.FC<DecoderModuleProps> = ({ channelConfig }) =
     setStatus('decoding');
     setError('');
     setDecodingResult(null);
+    setSoftOutput(null);
 
     try {
       // 解析接收数据
@@ -393,12 +470,20 @@ export const DecoderModule: React.FC<DecoderModuleProps> = ({ channelConfig }) =
           edgeCount: graphData.edges.length 
         });
         
-        // 调用解码API
-        console.log('🔧 [前端] 调用 codingAPI.decode...');
-        const response = await codingAPI.decode(bits, graphData, maxIterations, algorithm);
+        // 调用增强解码API：软判决信道直接输入 LLR，并请求逐比特软输出
+        const isSoftChannel = !!channelConfig && channelConfig.type !== 'BSC';
+        console.log('🔧 [前端] 调用 codingAPI.decodeEnhanced...');
+        const response = await codingAPI.decodeEnhanced(bits, graphData, {
+          algorithm,
+          maxIterations,
+          llrInput: isSoftChannel,
+          channelType: isSoftChannel ? 'AWGN-SOFT' : 'BSC',
+          softOutput: true
+        });
         console.log('✅ [前端] API调用成功，响应:', response);
         
         decodingResult = response;
+        setSoftOutput(response.softOutput ?? null);
       } catch (apiError: any) {
         console.error('❌ [前端] 解码API调用失败:', apiError);
         console.error('❌ [前端] 错误详情:', apiError.response?.data || apiError.message);
@@ -447,44 +532,20 @@ export const DecoderModule: React.FC<DecoderModuleProps> = ({ channelConfig }) =
   };
 
 
-  const getAlgorithmName = (alg: string): string => {
-    switch (alg) {
-      case 'gallager-a': return 'Gallager-A';
-      case 'belief-propagation': return 'BP';
-      case 'min-sum': return 'Min-Sum';
-      default: return alg;
-    }
-  };
+  const getAlgorithmName = (alg: string): string => getDecoder(alg)?.name || alg;
 
+  // 下拉框选项来自后端译码器注册表，按当前信道筛选
   const getAlgorithmOptions = () => {
-    if (!channelConfig) {
-      return [
-        { value: 'gallager-a', label: 'Gallager-A', complexity: 'Low', performance: 'Medium' }
-      ];
-    }
-
-    switch (channelConfig.type) {
-      case 'BSC':
-        return [
-          { value: 'gallager-a', label: 'Gallager-A (Recommended)', complexity: 'Low', performance: 'Medium' },
-          { value: 'belief-propagation', label: 'BP (Hard Decision)', complexity: 'High', performance: 'High' }
-        ];
-      case 'AWGN':
-        return [
-          { value: 'belief-propagation', label: 'BP (Recommended)', complexity: 'High', performance: 'Highest' },
-          { value: 'min-sum', label: 'Min-Sum', complexity: 'Medium', performance: 'High' },
-          { value: 'gallager-a', label: 'Gallager-A', complexity: 'Low', performance: 'Low' }
-        ];
-      case 'Rayleigh':
-        return [
-          { value: 'belief-propagation', label: 'BP (Recommended)', complexity: 'High', performance: 'Highest' },
-          { value: 'min-sum', label: 'Min-Sum', complexity: 'Medium', performance: 'High' }
-        ];
-      default:
-        return [
-          { value: 'gallager-a', label: 'Gallager-A', complexity: 'Low', performance: 'Medium' }
-        ];
-    }
+    const channel = channelConfig?.type || 'BSC';
+    const recommended = getRecommendedAlgorithm();
+    return decoders
+      .filter(decoder => decoder.channels.includes(channel))
+      .map(decoder => ({
+        value: decoder.id,
+        label: decoder.id === recommended ? `${decoder.name} (Recommended)` : decoder.name,
+        complexity: decoder.complexity,
+        performance: decoder.performance
+      }));
   };
 
   const getStatusText = () => {
@@ -556,6 +617,30 @@ export const DecoderModule: React.FC<DecoderModuleProps> = ({ channelConfig }) =
         </InfoBox>
       )}
 
+      {softOutput && (
+        <>
+          <ChartHeader>
+            <span>Soft Output per Bit</span>
+            <ViewToggle>
+              {SOFT_OUTPUT_VIEWS.map(option => (
+                <ViewButton
+                  key={option.value}
+                  $active={softOutputView === option.value}
+                  onClick={() => setSoftOutputView(option.value)}
+                >
+                  {option.label}
+                </ViewButton>
+              ))}
+            </ViewToggle>
+          </ChartHeader>
+          <SoftOutputChart softOutput={softOutput} view={softOutputView} />
+        </>
+      )}
+
+      {status !== 'ready' && status !== 'decoding' && !softOutput && getDecoder(algorithm)?.softOutput === false && (
+        <InfoBox>{getAlgorithmName(algorithm)} is a hard-decision decoder and has no soft output.</InfoBox>
+      )}
+
       {error && (
         <ErrorBox>
           Error: {error}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
-import { codingAPI } from '../services/api';
+import { codingAPI, EncodingMethod } from '../services/api';
 
 const Container = styled.div`
   background: rgba(30, 30, 46, 0.6);
@@ -112,6 +112,35 @@ const Input = styled.input`
   }
 `;
 
+const Select = styled.select`
+  width: 100%;
+  padding: 12px 16px;
+  background: rgba(15, 15, 35, 0.8);
+  backdrop-filter: blur(12px);
+  border: 1px solid rgba(99, 102, 241, 0.3);
+  border-radius: 10px;
+  color: #e2e8f0;
+  font-size: 13px;
+  cursor: pointer;
+  transition: all 0.3s cubic-bezier(0.4, 0, 0.2, 1);
+
+  &:focus {
+    outline: none;
+    border-color: rgba(16, 185, 129, 0.6);
+    box-shadow: 0 0 0 3px rgba(16, 185, 129, 0.1);
+  }
+
+  option {
+    background: rgba(15, 15, 35, 0.95);
+    color: #e2e8f0;
+  }
+
+  &:disabled {
+    color: #6b7280;
+    cursor: not-allowed;
+  }
+`;
+
 const Button = styled.button`
   width: 100%;
   padding: 14px 20px;
@@ -234,6 +263,7 @@ interface EncodingResult {
 export const EncoderModule: React.FC = () => {
   const { matrixData, setEncodingResult } = useGraphStore();
   const [messageBits, setMessageBits] = useState('1 0 1');
+  const [encodingMethod, setEncodingMethod] = useState<EncodingMethod>('systematic');
   const [status, setStatus] = useState<'ready' | 'encoding' | 'success' | 'error'>('ready');
   const [error, setError] = useState<string>('');
   const { nodes, edges, exportGraph } = useGraphStore();
@@ -281,7 +311,7 @@ export const EncoderModule: React.FC = () => {
         console.log('🔧 Number of bit nodes:', graphData.nodes.filter(n => n.type === 'bit').length);
         console.log('🔧 Number of check nodes:', graphData.nodes.filter(n => n.type === 'check').length);
         
-        const response = await codingAPI.encode(bits, graphData);
+        const response = await codingAPI.encode(bits, graphData, encodingMethod);
         console.log('🔧 Encoding API response:', response);
         encodingResult = response;
       } catch (apiError: any) {
@@ -389,6 +419,20 @@ export const EncoderModule: React.FC = () => {
         />
       </FormRow>
 
+      <FormRow>
+        <Label>Encoding Method</Label>
+        <Select
+          value={encodingMethod}
+          onChange={(e) => setEncodingMethod(e.target.value as EncodingMethod)}
+          disabled={!matrixData}
+        >
+          <option value="systematic">Systematic (solve H_p·p = H_u·u)</option>
+          <option value="generator">Generator Matrix (u·G)</option>
+          <option value="dual-diagonal">Dual-Diagonal Recursion (802.11n / 802.16e)</option>
+          <option value="alt">Approximate Lower-Triangular (Richardson–Urbanke)</option>
+        </Select>
+      </FormRow>
+
       <Button
         onClick={handleEncode}
         disabled={!canEncode}
@@ -1,4 +1,4 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { useGraphStore } from '../stores/graphStore';
 import { GraphNode } from '../types';
 import styled from 'styled-components';
@@ -43,7 +43,7 @@ const Canvas = styled.svg<{ $isPanning?: boolean; $currentTool?: string }>`
   }};
 `;
 
-const NodeElement = styled.g<{ selected: boolean; type: 'bit' | 'check'; $currentTool?: string }>`
+const NodeElement = styled.g<{ selected: boolean; type: 'bit' | 'check'; $currentTool?: string; $highlighted?: boolean }>`
   filter: none;
   cursor: ${({ $currentTool }) => $currentTool === 'connect' ? 'crosshair' : 'pointer'};
   
@@ -55,14 +55,16 @@ const NodeElement = styled.g<{ selected: boolean; type: 'bit' | 'check'; $curren
           ? 'url(#bitGradient)' 
           : 'url(#checkGradient)'
     };
-    stroke: ${({ selected, type }) => 
+    stroke: ${({ selected, type, $highlighted }) => 
       selected 
         ? '#ffffff' 
-        : type === 'bit'
-          ? 'rgba(255, 255, 255, 0.3)'
-          : 'rgba(0, 0, 0, 0.3)'
+        : $highlighted
+          ? '#f59e0b'
+          : type === 'bit'
+            ? 'rgba(255, 255, 255, 0.3)'
+            : 'rgba(0, 0, 0, 0.3)'
     };
-    stroke-width: ${({ selected }) => selected ? '3' : '2'};
+    stroke-width: ${({ selected, $highlighted }) => selected || $highlighted ? '3' : '2'};
     transition: stroke 0.2s ease;
     filter: none;
   }
@@ -102,9 +104,9 @@ const EdgeElement = styled.line`
   }
 `;
 
-const EdgeVisual = styled.line<{ $selected: boolean }>`
-  stroke: ${({ $selected }) => $selected ? '#6366f1' : '#94a3b8'};
-  stroke-width: ${({ $selected }) => $selected ? 3 : 2};
+const EdgeVisual = styled.line<{ $selected: boolean; $highlighted?: boolean }>`
+  stroke: ${({ $selected, $highlighted }) => $selected ? '#6366f1' : $highlighted ? '#f59e0b' : '#94a3b8'};
+  stroke-width: ${({ $selected, $highlighted }) => $selected || $highlighted ? 3 : 2};
   transition: stroke 0.2s ease;
   pointer-events: none;
   opacity: 1;
@@ -264,6 +266,78 @@ const ToolButton = styled.button<{ $active?: boolean }>`
   }
 `;
 
+const EdgeLabelPanel = styled.div`
+  position: absolute;
+  bottom: 16px;
+  left: 16px;
+  z-index: 100;
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  background: rgba(15, 15, 35, 0.95);
+  backdrop-filter: blur(16px);
+  padding: 10px 14px;
+  border-radius: 12px;
+  border: 1px solid rgba(99, 102, 241, 0.2);
+  box-shadow: 0 8px 25px rgba(0, 0, 0, 0.3);
+  color: #e2e8f0;
+  font-size: 12px;
+
+  input {
+    width: 64px;
+    padding: 6px 8px;
+    background: rgba(68, 71, 90, 0.4);
+    color: #e2e8f0;
+    border: 1px solid rgba(99, 102, 241, 0.3);
+    border-radius: 6px;
+    font-size: 12px;
+  }
+`;
+
+const EdgeLabel = styled.text`
+  fill: #a5b4fc;
+  font-size: 10px;
+  font-weight: 700;
+  text-anchor: middle;
+  dominant-baseline: central;
+  pointer-events: none;
+  user-select: none;
+`;
+
+const PlaybackBar = styled.div`
+  position: absolute;
+  bottom: 16px;
+  left: 50%;
+  transform: translateX(-50%);
+  z-index: 100;
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  background: rgba(15, 15, 35, 0.95);
+  backdrop-filter: blur(16px);
+  padding: 10px 14px;
+  border-radius: 12px;
+  border: 1px solid rgba(99, 102, 241, 0.2);
+  box-shadow: 0 8px 25px rgba(0, 0, 0, 0.3);
+  color: #e2e8f0;
+  font-size: 12px;
+
+  input[type='range'] {
+    width: 160px;
+  }
+`;
+
+// 回放配色：校验→变量消息为正（倾向比特0）为蓝色，为负为红色；校验满足为绿色，不满足为红色
+const PLAYBACK_COLORS = {
+  positive: '#3b82f6',
+  negative: '#ef4444',
+  satisfied: '#10b981',
+  unsatisfied: '#ef4444'
+};
+
+// 非二元码的边标签为 GF(2^p) 的非零元素，p ≤ 8
+const MAX_EDGE_COEFFICIENT = 255;
+
 type Tool = 'select' | 'bit' | 'check' | 'connect';
 
 export const GraphEditor: React.FC = () => {
@@ -272,11 +346,14 @@ export const GraphEditor: React.FC = () => {
     edges,
     selectedNodes,
     selectedEdges,
+    highlightedNodes,
+    highlightedEdges,
     addNode,
     removeNode,
     moveNode,
     addEdge,
     removeEdge,
+    updateEdge,
     selectNode,
     selectEdge,
     removeSelectedEdges,
@@ -288,6 +365,8 @@ export const GraphEditor: React.FC = () => {
     redo,
     canUndo,
     canRedo,
+    messagePlayback,
+    setMessagePlayback,
     } = useGraphStore();
 
   const [currentTool, setCurrentTool] = useState<Tool>('select');
@@ -306,6 +385,68 @@ export const GraphEditor: React.FC = () => {
   
   const svgRef = useRef<SVGSVGElement>(null);
 
+  // Message-passing playback state
+  const [playbackFrame, setPlaybackFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const playbackView = useMemo(() => {
+    if (!messagePlayback || messagePlayback.frames.length === 0) return null;
+    const edgeIndex = new Map<string, number>();
+    messagePlayback.edgeIds.forEach((id, e) => {
+      if (id) edgeIndex.set(id, e);
+    });
+    const checkIndex = new Map(messagePlayback.checkNodeIds.map((id, i) => [id, i]));
+    const bitIndex = new Map(messagePlayback.bitNodeIds.map((id, j) => [id, j]));
+    // 所有帧共用同一幅度标尺，便于观察消息随迭代增强
+    const maxMagnitude = messagePlayback.frames.reduce((max, frame) =>
+      frame.checkToVariable.reduce((m, value) => Math.max(m, Math.abs(value)), max), 0) || 1;
+    return { edgeIndex, checkIndex, bitIndex, maxMagnitude };
+  }, [messagePlayback]);
+
+  const frameCount = messagePlayback?.frames.length ?? 0;
+  const currentFrame = playbackView && messagePlayback
+    ? messagePlayback.frames[Math.min(playbackFrame, frameCount - 1)]
+    : null;
+
+  React.useEffect(() => {
+    setPlaybackFrame(0);
+    setIsPlaying(false);
+  }, [messagePlayback]);
+
+  React.useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPlaybackFrame(frame => {
+        if (frame + 1 >= frameCount) {
+          setIsPlaying(false);
+          return frame;
+        }
+        return frame + 1;
+      });
+    }, 800);
+    return () => clearInterval(timer);
+  }, [isPlaying, frameCount]);
+
+  const getEdgePlaybackStyle = (edgeId: string): React.CSSProperties | undefined => {
+    if (!currentFrame || !playbackView) return undefined;
+    const e = playbackView.edgeIndex.get(edgeId);
+    if (e === undefined) return undefined;
+    const value = currentFrame.checkToVariable[e];
+    const strength = Math.min(1, Math.abs(value) / playbackView.maxMagnitude);
+    return {
+      stroke: value >= 0 ? PLAYBACK_COLORS.positive : PLAYBACK_COLORS.negative,
+      strokeWidth: 1 + 4 * strength,
+      opacity: 0.3 + 0.7 * strength
+    };
+  };
+
+  const getNodePlaybackStroke = (nodeId: string): string | undefined => {
+    if (!currentFrame || !playbackView) return undefined;
+    const i = playbackView.checkIndex.get(nodeId);
+    if (i === undefined) return undefined;
+    return currentFrame.unsatisfiedChecks.includes(i) ? PLAYBACK_COLORS.unsatisfied : PLAYBACK_COLORS.satisfied;
+  };
+
   const addNodeWithAutoLayout = useCallback((nodeType: 'bit' | 'check') => {
     const existingNodes = nodes.filter(n => n.type === nodeType);
     const nodeIndex = existingNodes.length + 1;
@@ -504,11 +645,15 @@ export const GraphEditor: React.FC = () => {
     } else if (e.key === 'F1' || (e.key.toLowerCase() === 'h' && !e.ctrlKey)) {
       e.preventDefault();
       setShowHelp(!showHelp);
+    } else if (e.key === 'ArrowRight' && frameCount > 0) {
+      setPlaybackFrame(frame => Math.min(frameCount - 1, frame + 1));
+    } else if (e.key === 'ArrowLeft' && frameCount > 0) {
+      setPlaybackFrame(frame => Math.max(0, frame - 1));
     } else if (e.key === 'Home' || (e.ctrlKey && e.key === '0')) {
       e.preventDefault();
       setPan({ x: 0, y: 0 });
     }
-  }, [selectedNodes, selectedEdges, removeNode, removeSelectedEdges, clearSelection, setCurrentTool, selectAll, copy, paste, undo, redo, showHelp, addNodeWithAutoLayout]);
+  }, [selectedNodes, selectedEdges, removeNode, removeSelectedEdges, clearSelection, setCurrentTool, selectAll, copy, paste, undo, redo, showHelp, addNodeWithAutoLayout, frameCount]);
 
   React.useEffect(() => {
     document.addEventListener('keydown', handleKeyDown);
@@ -534,6 +679,10 @@ export const GraphEditor: React.FC = () => {
     }
   }, [currentTool, selectEdge]);
 
+  const labelledEdge = currentTool === 'select' && selectedEdges.length === 1
+    ? edges.find(edge => edge.id === selectedEdges[0])
+    : undefined;
+
   return (
     <EditorContainer $currentTool={currentTool}>
       <Toolbar>
@@ -666,9 +815,63 @@ export const GraphEditor: React.FC = () => {
             <span>Drag Canvas</span>
             <span className="key">Left Mouse Drag</span>
           </div>
+          <div className="shortcut">
+            <span>Edit GF(q) Edge Label</span>
+            <span className="key">Click Edge</span>
+          </div>
         </div>
       </HelpPanel>
 
+      {labelledEdge && (
+        <EdgeLabelPanel>
+          <span>GF(q) edge label</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_EDGE_COEFFICIENT}
+            value={labelledEdge.coefficient ?? 1}
+            onKeyDown={(e) => e.nativeEvent.stopPropagation()}
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              if (value >= 1 && value <= MAX_EDGE_COEFFICIENT) {
+                updateEdge(labelledEdge.id, { coefficient: value === 1 ? undefined : value });
+              }
+            }}
+          />
+          <span style={{ color: '#94a3b8' }}>1–{MAX_EDGE_COEFFICIENT}, ignored by binary codes</span>
+        </EdgeLabelPanel>
+      )}
+
+      {currentFrame && (
+        <PlaybackBar>
+          <ToolButton onClick={() => setPlaybackFrame(frame => Math.max(0, frame - 1))}>◀</ToolButton>
+          <ToolButton $active={isPlaying} onClick={() => {
+            if (!isPlaying && playbackFrame >= frameCount - 1) setPlaybackFrame(0);
+            setIsPlaying(!isPlaying);
+          }}>
+            {isPlaying ? 'Pause' : 'Play'}
+          </ToolButton>
+          <ToolButton onClick={() => setPlaybackFrame(frame => Math.min(frameCount - 1, frame + 1))}>▶</ToolButton>
+          <input
+            type="range"
+            min={0}
+            max={frameCount - 1}
+            value={Math.min(playbackFrame, frameCount - 1)}
+            onChange={(e) => setPlaybackFrame(Number(e.target.value))}
+          />
+          <span>
+            Iteration {currentFrame.iteration} / {messagePlayback!.frames[frameCount - 1].iteration}
+            {' · '}
+            <span style={{ color: currentFrame.unsatisfiedChecks.length === 0 ? PLAYBACK_COLORS.satisfied : PLAYBACK_COLORS.unsatisfied }}>
+              {currentFrame.unsatisfiedChecks.length} unsatisfied
+            </span>
+          </span>
+          <span style={{ color: PLAYBACK_COLORS.positive }}>+ (bit 0)</span>
+          <span style={{ color: PLAYBACK_COLORS.negative }}>− (bit 1)</span>
+          <ToolButton onClick={() => setMessagePlayback(null)}>Close</ToolButton>
+        </PlaybackBar>
+      )}
+
               <Canvas
           ref={svgRef}
           onClick={handleCanvasClick}
@@ -748,7 +951,17 @@ export const GraphEditor: React.FC = () => {
                 x2={targetNode.position.x}
                 y2={targetNode.position.y}
                 $selected={isSelected}
+                $highlighted={highlightedEdges.includes(edge.id)}
+                style={getEdgePlaybackStyle(edge.id)}
               />
+              {edge.coefficient !== undefined && edge.coefficient !== 1 && (
+                <EdgeLabel
+                  x={(sourceNode.position.x + targetNode.position.x) / 2}
+                  y={(sourceNode.position.y + targetNode.position.y) / 2 - 8}
+                >
+                  {edge.coefficient}
+                </EdgeLabel>
+              )}
             </EdgeGroup>
           );
         })}
@@ -758,6 +971,7 @@ export const GraphEditor: React.FC = () => {
           <NodeElement
             key={node.id}
             selected={selectedNodes.includes(node.id)}
+            $highlighted={highlightedNodes.includes(node.id)}
             type={node.type}
             $currentTool={currentTool}
             onMouseDown={(e) => handleNodeMouseDown(e, node.id)}
@@ -775,8 +989,19 @@ export const GraphEditor: React.FC = () => {
               cx={node.position.x} 
               cy={node.position.y} 
               r={getNodeRadius(node.type)} 
+              style={getNodePlaybackStroke(node.id) ? { stroke: getNodePlaybackStroke(node.id), strokeWidth: 3 } : undefined}
             />
             <text x={node.position.x} y={node.position.y}>{node.label}</text>
+            {/* 回放时在比特节点下方显示当前判决 */}
+            {currentFrame && playbackView?.bitIndex.has(node.id) && (
+              <text
+                x={node.position.x}
+                y={node.position.y + getNodeRadius(node.type) + 10}
+                style={{ fill: '#e2e8f0', fontSize: '10px' }}
+              >
+                {currentFrame.decoded[playbackView.bitIndex.get(node.id)!]}
+              </text>
+            )}
           </NodeElement>
         ))}
 
@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
 import { matrixAPI } from '../services/api';
-import { MatrixData } from '../types';
+import { MatrixData, QCBaseMatrix } from '../types';
+import { QCBaseMatrixEditor } from './QCBaseMatrixEditor';
 
 const Container = styled.div`
   display: flex;
@@ -258,10 +259,60 @@ const ErrorMessage = styled.div`
   }
 `;
 
+// 超过该单元数时不再逐个渲染矩阵元素
+const MAX_RENDERED_CELLS = 20000;
+
+const DEFAULT_BASE_MATRIX: QCBaseMatrix = {
+  baseMatrix: [
+    [0, 1, 2, -1, 0, -1],
+    [2, -1, 0, 1, -1, 0],
+    [-1, 0, 1, 2, 0, 0]
+  ],
+  Z: 4
+};
+
+// 最小距离只有在搜索完成时才是精确值，否则显示搜索得到的上下界
+const formatMinDistance = (matrixData: MatrixData): string => {
+  const analysis = matrixData.minDistanceAnalysis;
+  if (!analysis || analysis.status === 'exact') {
+    return `${matrixData.minDistance}`;
+  }
+  if (analysis.status === 'unavailable') {
+    return 'unavailable';
+  }
+  return `${analysis.lowerBound} ≤ d ≤ ${analysis.upperBound} (bounded)`;
+};
+
 export const MatrixPanel: React.FC = () => {
-  const { nodes, edges, matrixData, setMatrixData: setGlobalMatrixData, clearMatrixData, exportGraph, validateGraph } = useGraphStore();
+  const { nodes, edges, matrixData, qcBaseMatrix, setMatrixData: setGlobalMatrixData, setQCBaseMatrix, clearMatrixData, exportGraph, validateGraph, loadGraph } = useGraphStore();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [baseDraft, setBaseDraft] = useState<QCBaseMatrix>(qcBaseMatrix || DEFAULT_BASE_MATRIX);
+  const [expanding, setExpanding] = useState(false);
+
+  // 加载QC码（模板或展开结果）时同步基矩阵草稿
+  useEffect(() => {
+    if (qcBaseMatrix) {
+      setBaseDraft(qcBaseMatrix);
+    }
+  }, [qcBaseMatrix]);
+
+  const expandBaseMatrix = async () => {
+    setExpanding(true);
+    setError(null);
+
+    try {
+      const result = await matrixAPI.qcExpand(baseDraft.baseMatrix, baseDraft.Z);
+      console.log(`✅ QC expansion: ${result.m} × ${result.n}`);
+      loadGraph(result.graph);
+      setQCBaseMatrix({ baseMatrix: result.baseMatrix, Z: result.Z });
+    } catch (err: any) {
+      console.error('QC expansion failed:', err);
+      setError(`Base matrix expansion error: ${err.message}`);
+    } finally {
+      setExpanding(false);
+    }
+  };
 
   const generateMatrices = async () => {
     console.log('🚀 Generate matrix button clicked');
@@ -315,6 +366,7 @@ export const MatrixPanel: React.FC = () => {
           n: result.n || result.matrices.n,
           k: result.k || result.matrices.k,
           minDistance: result.minDistance || result.matrices.minDistance,
+          minDistanceAnalysis: result.matrices.minDistanceAnalysis,
           isValid: result.isValid || result.matrices.isValid,
         };
         
@@ -344,11 +396,18 @@ export const MatrixPanel: React.FC = () => {
   const renderMatrix = (matrix: number[][], title: string) => {
     if (!matrix || matrix.length === 0) return null;
 
+    const tooLarge = matrix.length * (matrix[0]?.length || 0) > MAX_RENDERED_CELLS;
+
     return (
       <Section>
         <SectionTitle>{title}</SectionTitle>
         <MatrixContainer>
-          {matrix.map((row, i) => (
+          {tooLarge ? (
+            <div style={{ color: '#9ca3af' }}>
+              Matrix too large to display element by element
+              {qcBaseMatrix && ' — see the QC base matrix above'}
+            </div>
+          ) : matrix.map((row, i) => (
             <MatrixRow key={i}>
               {row.map((cell, j) => (
                 <MatrixCell key={j} value={cell}>
@@ -406,6 +465,16 @@ export const MatrixPanel: React.FC = () => {
         )}
       </Section>
 
+      <Section>
+        <SectionTitle>QC Base Matrix</SectionTitle>
+        <QCBaseMatrixEditor
+          value={baseDraft}
+          onChange={setBaseDraft}
+          onExpand={expandBaseMatrix}
+          expanding={expanding}
+        />
+      </Section>
+
       {loading && (
         <LoadingSpinner>
           Generating matrices...
@@ -435,11 +504,14 @@ export const MatrixPanel: React.FC = () => {
               </InfoItem>
               <InfoItem>
                 <span>Minimum Distance:</span>
-                <span>{matrixData.minDistance}</span>
+                <span>{formatMinDistance(matrixData)}</span>
               </InfoItem>
               <InfoItem>
                 <span>Error Correction Capability:</span>
-                <span>{Math.floor((matrixData.minDistance - 1) / 2)}</span>
+                <span>
+                  {matrixData.minDistanceAnalysis?.status === 'bounded' && '≤ '}
+                  {Math.floor((matrixData.minDistance - 1) / 2)}
+                </span>
               </InfoItem>
             </InfoGrid>
           </Section>
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { QCBaseMatrix } from '../types';
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+`;
+
+const Button = styled.button`
+  padding: 6px 12px;
+  background: #4a9eff;
+  color: white;
+  border: none;
+  border-radius: 3px;
+  cursor: pointer;
+  font-size: 11px;
+  transition: background 0.2s ease;
+
+  &:hover {
+    background: #357abd;
+  }
+
+  &:disabled {
+    background: #666;
+    cursor: not-allowed;
+  }
+`;
+
+const ToolBar = styled.div`
+  display: flex;
+  gap: 8px;
+  flex-wrap: wrap;
+  align-items: center;
+`;
+
+const LiftingInput = styled.input`
+  width: 70px;
+  padding: 5px 8px;
+  background: #2a2a2a;
+  border: 1px solid #444;
+  border-radius: 3px;
+  color: white;
+  font-size: 11px;
+`;
+
+const BaseTable = styled.table`
+  border-collapse: collapse;
+  font-family: 'Courier New', monospace;
+  font-size: 11px;
+  background: #0a0a0a;
+  border: 1px solid #333;
+`;
+
+const BaseCell = styled.td<{ $zero: boolean }>`
+  width: 34px;
+  height: 25px;
+  text-align: center;
+  border: 1px solid #333;
+  background: ${({ $zero }) => $zero ? '#1a1a1a' : '#4a9eff30'};
+
+  input {
+    width: 100%;
+    height: 100%;
+    background: transparent;
+    border: none;
+    text-align: center;
+    color: ${({ $zero }) => $zero ? '#555' : 'white'};
+    font-size: 11px;
+    font-family: 'Courier New', monospace;
+
+    &:focus {
+      outline: 2px solid #4a9eff;
+      background: #2a2a2a;
+    }
+  }
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 80px;
+  background: #1a1a1a;
+  border: 1px solid #444;
+  border-radius: 4px;
+  color: #ddd;
+  font-family: 'Courier New', monospace;
+  font-size: 11px;
+  padding: 8px;
+  box-sizing: border-box;
+`;
+
+const StatusBar = styled.div`
+  background: #1e1e1e;
+  border: 1px solid #333;
+  border-radius: 4px;
+  padding: 8px;
+  font-size: 11px;
+  color: #999;
+`;
+
+interface QCBaseMatrixEditorProps {
+  value: QCBaseMatrix;
+  onChange: (value: QCBaseMatrix) => void;
+  onExpand?: () => void;
+  expanding?: boolean;
+}
+
+// 基矩阵文本格式：每行一行，元素以空格或逗号分隔，-1 表示全零块
+const parseBaseMatrix = (text: string): number[][] | null => {
+  const rows = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => line.split(/[\s,]+/).map(v => parseInt(v)));
+
+  if (rows.length === 0 || rows.some(row => row.length !== rows[0].length || row.some(v => isNaN(v) || v < -1))) {
+    return null;
+  }
+  return rows;
+};
+
+export const QCBaseMatrixEditor: React.FC<QCBaseMatrixEditorProps> = ({
+  value,
+  onChange,
+  onExpand,
+  expanding = false,
+}) => {
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const { baseMatrix, Z } = value;
+  const mb = baseMatrix.length;
+  const nb = baseMatrix[0]?.length || 0;
+
+  const updateCell = (row: number, col: number, text: string) => {
+    const shift = parseInt(text);
+    if (isNaN(shift) || shift < -1) return;
+
+    onChange({
+      Z,
+      baseMatrix: baseMatrix.map((r, i) => i === row ? r.map((c, j) => j === col ? shift : c) : [...r])
+    });
+  };
+
+  const addRow = () => {
+    onChange({ Z, baseMatrix: [...baseMatrix, Array(Math.max(1, nb)).fill(-1)] });
+  };
+
+  const addColumn = () => {
+    onChange({ Z, baseMatrix: baseMatrix.map(row => [...row, -1]) });
+  };
+
+  const removeRow = () => {
+    if (mb <= 1) return;
+    onChange({ Z, baseMatrix: baseMatrix.slice(0, -1) });
+  };
+
+  const removeColumn = () => {
+    if (nb <= 1) return;
+    onChange({ Z, baseMatrix: baseMatrix.map(row => row.slice(0, -1)) });
+  };
+
+  const applyImport = () => {
+    const parsed = parseBaseMatrix(importText);
+    if (!parsed) {
+      setImportError('Each row must contain the same number of integers ≥ -1');
+      return;
+    }
+    setImportError(null);
+    setShowImport(false);
+    onChange({ Z, baseMatrix: parsed });
+  };
+
+  const nonZeroBlocks = baseMatrix.reduce((sum, row) => sum + row.filter(v => v >= 0).length, 0);
+
+  return (
+    <Container>
+      <ToolBar>
+        <span style={{ fontSize: '11px', color: '#999' }}>Lifting size Z</span>
+        <LiftingInput
+          type="number"
+          min="1"
+          value={Z}
+          onChange={(e) => onChange({ baseMatrix, Z: Math.max(1, parseInt(e.target.value) || 1) })}
+        />
+        <Button onClick={addRow}>Add Row</Button>
+        <Button onClick={addColumn}>Add Column</Button>
+        <Button onClick={removeRow} disabled={mb <= 1}>Remove Row</Button>
+        <Button onClick={removeColumn} disabled={nb <= 1}>Remove Column</Button>
+        <Button onClick={() => {
+          setImportText(baseMatrix.map(row => row.join(' ')).join('\n'));
+          setShowImport(!showImport);
+        }}>
+          {showImport ? 'Cancel' : 'Edit as Text'}
+        </Button>
+      </ToolBar>
+
+      {showImport ? (
+        <>
+          <TextArea value={importText} onChange={(e) => setImportText(e.target.value)} />
+          {importError && <div style={{ color: '#ff6b6b', fontSize: '11px' }}>{importError}</div>}
+          <ToolBar>
+            <Button onClick={applyImport}>Apply</Button>
+          </ToolBar>
+        </>
+      ) : (
+        <div style={{ maxHeight: '300px', overflow: 'auto' }}>
+          <BaseTable>
+            <tbody>
+              {baseMatrix.map((row, i) => (
+                <tr key={i}>
+                  {row.map((shift, j) => (
+                    <BaseCell key={j} $zero={shift < 0}>
+                      <input
+                        type="number"
+                        min="-1"
+                        value={shift}
+                        onChange={(e) => updateCell(i, j, e.target.value)}
+                      />
+                    </BaseCell>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </BaseTable>
+        </div>
+      )}
+
+      <StatusBar>
+        Base matrix: {mb} × {nb} | Non-zero blocks: {nonZeroBlocks} |
+        Expanded H: {mb * Z} × {nb * Z}
+      </StatusBar>
+
+      {onExpand && (
+        <ToolBar>
+          <Button onClick={onExpand} disabled={expanding || mb === 0 || nb === 0}>
+            {expanding ? 'Expanding...' : 'Expand to Graph'}
+          </Button>
+        </ToolBar>
+      )}
+    </Container>
+  );
+};
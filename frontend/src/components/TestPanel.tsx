@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { useGraphStore } from '../stores/graphStore';
-import { testAPI } from '../services/api';
+import { useDecoderStore, decoderFitsCode } from '../stores/decoderStore';
+import { testAPI, DecodingAlgorithm, DecoderInfo, QuantizationConfig, ModulationScheme, ModulationSettings, SimulationChannel, SimulationChannelOptions, BurstChannelParameters } from '../services/api';
 
 const Container = styled.div`
   display: flex;
@@ -177,12 +178,79 @@ const ToggleButton = styled.button<{ $active: boolean }>`
   }
 `;
 
+// 算法对比中各译码器的曲线颜色；算法列表、名称与能力来自后端译码器注册表，
+// 新注册的译码器按其在注册表中的位置取备用颜色
+const ALGORITHM_COLORS: Record<string, string> = {
+  'gallager-a': '#f59e0b',
+  'gallager-b': '#a855f7',
+  'belief-propagation': '#10b981',
+  'sum-product': '#ec4899',
+  'min-sum': '#3b82f6',
+  'layered': '#06b6d4',
+  'peeling': '#84cc16',
+  'peeling-ml': '#eab308',
+  'residual-bp': '#f97316',
+  'node-wise-rbp': '#14b8a6',
+  'wbf': '#ef4444',
+  'mwbf': '#6366f1',
+  'gdbf': '#78716c',
+  'pgdbf': '#be185d',
+  'admm-lp': '#0f766e'
+};
+
+const FALLBACK_COLORS = ['#f43f5e', '#8b5cf6', '#22c55e', '#0ea5e9', '#d946ef', '#facc15'];
+
+const configInputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  background: '#374151',
+  border: '1px solid #4b5563',
+  borderRadius: '4px',
+  color: '#e2e8f0',
+  fontSize: '13px'
+};
+
+const configLabelStyle: React.CSSProperties = {
+  color: '#94a3b8',
+  fontSize: '13px',
+  display: 'block',
+  marginBottom: '6px'
+};
+
 export const TestPanel: React.FC = () => {
-  const { matrixData } = useGraphStore();
+  const { matrixData, exportGraph } = useGraphStore();
+  const { decoders, loadDecoders, getDecoder } = useDecoderStore();
+
+  useEffect(() => {
+    loadDecoders();
+  }, [loadDecoders]);
+
+  // 擦除译码器只适用于 BEC，不参与按比特翻转错误率的算法对比；ML 等参考译码器只在码足够小时参与，画成虚线
+  const fitsCode = (decoder: DecoderInfo | undefined) =>
+    !!matrixData && decoderFitsCode(decoder, matrixData.n, matrixData.k);
+  const comparedAlgorithms = decoders.filter(decoder => decoder.family !== 'erasure' && fitsCode(decoder)).map(decoder => decoder.id);
+  const mlBoundAvailable = fitsCode(getDecoder('ml'));
+  const supportsOSD = (algorithm: DecodingAlgorithm) => !!getDecoder(algorithm)?.osd;
+  const supportsFixedPoint = (algorithm: DecodingAlgorithm) => !!getDecoder(algorithm)?.quantization;
+
+  const algorithmStyle = (algorithm: DecodingAlgorithm) => {
+    const decoder = getDecoder(algorithm);
+    const index = decoders.findIndex(d => d.id === algorithm);
+    return {
+      name: decoder?.name || algorithm,
+      color: ALGORITHM_COLORS[algorithm] || FALLBACK_COLORS[Math.max(0, index) % FALLBACK_COLORS.length],
+      desc: decoder ? (decoder.reference ? 'Reference bound' : `${decoder.family} decision · ${decoder.complexity} complexity`) : '',
+      dashed: !!decoder?.reference
+    };
+  };
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [comparisonType, setComparisonType] = useState<'algorithm' | 'channel' | 'ber-fer'>('algorithm');
+  // 仿真种子：留空时由后端随机选取，结果中回显实际种子以便复现
+  const [seed, setSeed] = useState('');
+  const seedValue = seed.trim() === '' ? undefined : Number(seed);
+  const seedValid = seedValue === undefined || (Number.isInteger(seedValue) && seedValue >= 0 && seedValue <= 4294967295);
 
   const errorRates = [0.001, 0.005, 0.01, 0.02, 0.05, 0.1];
   const snrRange = [-2, -1.5, -1, -0.5, 0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5]; // More points for smoother curves
@@ -192,10 +260,51 @@ export const TestPanel: React.FC = () => {
     snrRange: { min: -2, max: 8, steps: 21 },
     framesPerPoint: 10000,
     maxErrors: 100,
-    algorithm: 'belief-propagation' as 'gallager-a' | 'belief-propagation' | 'min-sum',
-    channelType: 'AWGN' as 'AWGN' | 'BSC' | 'Rayleigh'
+    algorithm: 'belief-propagation' as DecodingAlgorithm,
+    channelType: 'AWGN' as SimulationChannel,
+    modulation: 'BPSK' as ModulationScheme,
+    demapper: 'exact' as NonNullable<ModulationSettings['demapper']>,
+    snrType: 'EsN0' as NonNullable<ModulationSettings['snrType']>,
+    // 突发信道：好状态取当前 SNR，坏状态低 badStatePenalty dB；Gilbert–Elliott 为其硬判决版本
+    burst: { pGoodToBad: 0.01, pBadToGood: 0.1, badStatePenalty: 10 } as Pick<BurstChannelParameters, 'pGoodToBad' | 'pBadToGood' | 'badStatePenalty'>,
+    osdOrder: null as number | null,
+    fixedPoint: false,
+    mlBound: false,
+    // 非二元对比：0 为关闭，否则为 GF(2^p) 的 p；H 取自图的边标签
+    nonBinaryDegree: 0,
+    randomEdgeLabels: true,
+    quantization: {
+      channelBits: 6,
+      messageBits: 6,
+      fractionalBits: 2,
+      saturation: 'symmetric',
+      rounding: 'nearest'
+    } as QuantizationConfig
   });
 
+  const fixedPointActive = berferConfig.fixedPoint && supportsFixedPoint(berferConfig.algorithm);
+  // 解映射只对软输出信道上的高阶调制有意义；BSC/BEC/Gilbert–Elliott 取同一调制的硬判决误码率，Markov-AWGN 只支持 BPSK
+  const burstChannel = berferConfig.channelType === 'Gilbert-Elliott' || berferConfig.channelType === 'Markov-AWGN';
+  const modulationAvailable = berferConfig.channelType !== 'Markov-AWGN';
+  const softDemapping = modulationAvailable && berferConfig.modulation !== 'BPSK'
+    && (berferConfig.channelType === 'AWGN' || berferConfig.channelType === 'Rayleigh');
+  const channelOptions: SimulationChannelOptions = {
+    modulation: modulationAvailable ? berferConfig.modulation : 'BPSK',
+    demapper: berferConfig.demapper,
+    snrType: berferConfig.snrType,
+    burst: burstChannel ? berferConfig.burst : undefined
+  };
+  const updateBurst = (changes: Partial<BurstChannelParameters>) => {
+    setBerferConfig(prev => ({ ...prev, burst: { ...prev.burst, ...changes } }));
+  };
+
+  const updateQuantization = (changes: Partial<QuantizationConfig>) => {
+    setBerferConfig(prev => ({
+      ...prev,
+      quantization: { ...prev.quantization, ...changes }
+    }));
+  };
+
   const runBERAnalysis = async () => {
     setLoading(true);
     setError(null);
@@ -214,7 +323,12 @@ export const TestPanel: React.FC = () => {
         // Algorithm comparison
         console.log('🔧 [Frontend] Starting algorithm comparison...');
 
-        const algorithms: Array<'gallager-a' | 'belief-propagation' | 'min-sum'> = ['gallager-a', 'belief-propagation', 'min-sum'];
+        const algorithms = comparedAlgorithms;
+        if (algorithms.length === 0) {
+          setError('Decoder list is not loaded yet, please retry');
+          setLoading(false);
+          return;
+        }
         
         const comparisonResult = await testAPI.runAlgorithmComparison(
           graphData.H,
@@ -224,7 +338,9 @@ export const TestPanel: React.FC = () => {
           'random', // Fixed error type
           undefined, // Burst length
           50, // Fixed maximum iterations
-          algorithms
+          algorithms,
+          undefined,
+          seedValue
         );
 
         if (comparisonResult.success) {
@@ -233,14 +349,14 @@ export const TestPanel: React.FC = () => {
             errorRate: result.errorRate,
             algorithms: result.algorithms.map(alg => ({
               algorithm: alg.name,
-              algorithmName: alg.name === 'gallager-a' ? 'Gallager-A' : 
-                            alg.name === 'belief-propagation' ? 'Belief Propagation' : 'Min-Sum',
+              algorithmName: algorithmStyle(alg.name).name,
               ber: alg.ber,
               correctionRate: alg.correctionRate,
               totalTests: alg.totalTests,
               totalErrors: alg.totalErrors,
               correctedErrors: alg.correctedErrors,
               avgIterations: alg.avgIterations,
+              avgMessageUpdates: alg.avgMessageUpdates,
               convergenceRate: alg.convergenceRate
             }))
           }));
@@ -250,7 +366,8 @@ export const TestPanel: React.FC = () => {
           setResults({
             type: 'algorithm',
             results: groupedResults,
-            algorithms: algorithms
+            algorithms: algorithms,
+            seed: comparisonResult.metadata.seed
           });
         } else {
           throw new Error('Algorithm comparison API call failed');
@@ -272,7 +389,9 @@ export const TestPanel: React.FC = () => {
           undefined, // Burst length
           50, // Fixed maximum iterations
           'belief-propagation', // Fixed algorithm for channel comparison
-          channels
+          channels,
+          undefined,
+          seedValue
         );
 
         if (comparisonResult.success) {
@@ -297,7 +416,8 @@ export const TestPanel: React.FC = () => {
           setResults({
             type: 'channel',
             results: groupedResults,
-            channels: channels
+            channels: channels,
+            seed: comparisonResult.metadata.seed
           });
         } else {
           throw new Error('Channel comparison API call failed');
@@ -315,14 +435,40 @@ export const TestPanel: React.FC = () => {
           berferConfig.framesPerPoint,
           berferConfig.maxErrors,
           berferConfig.channelType,
-          berferConfig.algorithm
+          berferConfig.algorithm,
+          {
+            quantization: fixedPointActive ? berferConfig.quantization : undefined,
+            osdOrder: berferConfig.osdOrder !== null && supportsOSD(berferConfig.algorithm)
+              ? berferConfig.osdOrder
+              : undefined
+          },
+          berferConfig.mlBound && mlBoundAvailable,
+          seedValue,
+          channelOptions
         );
 
+        let nonBinary = null;
+        if (berferResult.success && berferConfig.nonBinaryDegree > 0) {
+          console.log(`🔧 [Frontend] Running GF(${1 << berferConfig.nonBinaryDegree}) comparison...`);
+          nonBinary = await testAPI.runNonBinaryBERFERAnalysis(
+            exportGraph(),
+            berferConfig.nonBinaryDegree,
+            berferConfig.snrRange,
+            Math.min(berferConfig.framesPerPoint, 1000),
+            berferConfig.maxErrors,
+            berferConfig.channelType,
+            { randomizeCoefficients: berferConfig.randomEdgeLabels, seed: seedValue },
+            channelOptions
+          );
+        }
+
         if (berferResult.success) {
           setResults({
             type: 'ber-fer',
             results: berferResult.results,
-            metadata: berferResult.metadata
+            metadata: berferResult.metadata,
+            nonBinary: nonBinary?.success ? nonBinary.results : null,
+            seed: berferResult.metadata.seed
           });
           console.log('✅ [Frontend] BER/FER analysis completed');
         } else {
@@ -337,7 +483,7 @@ export const TestPanel: React.FC = () => {
     }
   };
 
-  const canRunTest = !loading && matrixData?.H;
+  const canRunTest = !loading && matrixData?.H && seedValid;
 
   return (
     <Container>
@@ -502,9 +648,10 @@ export const TestPanel: React.FC = () => {
                     fontSize: '13px'
                   }}
                 >
-                  <option value="belief-propagation">Belief Propagation</option>
-                  <option value="gallager-a">Gallager-A</option>
-                  <option value="min-sum">Min-Sum</option>
+                  {decoders.length === 0 && <option value={berferConfig.algorithm}>{berferConfig.algorithm}</option>}
+                  {decoders.filter(decoder => !decoder.reference || fitsCode(decoder)).map(decoder => (
+                    <option key={decoder.id} value={decoder.id}>{decoder.name}</option>
+                  ))}
                 </select>
               </div>
 
@@ -531,12 +678,243 @@ export const TestPanel: React.FC = () => {
                   <option value="AWGN">AWGN Channel</option>
                   <option value="BSC">Binary Symmetric Channel</option>
                   <option value="Rayleigh">Rayleigh Fading Channel</option>
+                  <option value="BEC">Binary Erasure Channel</option>
+                  <option value="Gilbert-Elliott">Gilbert–Elliott Burst Channel</option>
+                  <option value="Markov-AWGN">Markov-Modulated AWGN</option>
+                </select>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '16px', marginTop: '16px' }}>
+              <div>
+                <label style={configLabelStyle}>Modulation (Gray mapping)</label>
+                <select
+                  value={modulationAvailable ? berferConfig.modulation : 'BPSK'}
+                  disabled={!modulationAvailable}
+                  onChange={(e) => setBerferConfig(prev => ({ ...prev, modulation: e.target.value as ModulationScheme }))}
+                  style={configInputStyle}
+                >
+                  <option value="BPSK">BPSK</option>
+                  <option value="QPSK">QPSK</option>
+                  <option value="8PSK">8-PSK</option>
+                  <option value="16QAM">16-QAM</option>
+                  <option value="64QAM">64-QAM</option>
+                  <option value="256QAM">256-QAM</option>
+                </select>
+              </div>
+              <div>
+                <label style={configLabelStyle}>Bit LLR demapper</label>
+                <select
+                  value={berferConfig.demapper}
+                  disabled={!softDemapping}
+                  onChange={(e) => setBerferConfig(prev => ({ ...prev, demapper: e.target.value as typeof prev.demapper }))}
+                  style={configInputStyle}
+                >
+                  <option value="exact">Exact (log-sum-exp)</option>
+                  <option value="max-log">Max-log</option>
+                </select>
+              </div>
+              <div>
+                <label style={configLabelStyle}>SNR axis</label>
+                <select
+                  value={berferConfig.snrType}
+                  onChange={(e) => setBerferConfig(prev => ({ ...prev, snrType: e.target.value as typeof prev.snrType }))}
+                  style={configInputStyle}
+                >
+                  <option value="EsN0">Es/N0 per symbol</option>
+                  <option value="EbN0">Eb/N0 per information bit</option>
+                </select>
+              </div>
+            </div>
+
+            {burstChannel && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '16px', marginTop: '16px' }}>
+                <div>
+                  <label style={configLabelStyle}>P(good → bad)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.001}
+                    value={berferConfig.burst.pGoodToBad}
+                    onChange={(e) => updateBurst({ pGoodToBad: Number(e.target.value) })}
+                    style={configInputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={configLabelStyle}>P(bad → good) · mean burst {berferConfig.burst.pBadToGood > 0 ? (1 / berferConfig.burst.pBadToGood).toFixed(1) : '∞'} bits</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={berferConfig.burst.pBadToGood}
+                    onChange={(e) => updateBurst({ pBadToGood: Number(e.target.value) })}
+                    style={configInputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={configLabelStyle}>Bad-state SNR penalty (dB)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={berferConfig.burst.badStatePenalty}
+                    onChange={(e) => updateBurst({ badStatePenalty: Number(e.target.value) })}
+                    style={configInputStyle}
+                  />
+                </div>
+              </div>
+            )}
+
+            {supportsOSD(berferConfig.algorithm) && (
+              <div style={{ marginTop: '16px', maxWidth: '50%' }}>
+                <label style={configLabelStyle}>OSD Post-processing (on decoder failure)</label>
+                <select
+                  value={berferConfig.osdOrder ?? ''}
+                  onChange={(e) => setBerferConfig(prev => ({
+                    ...prev,
+                    osdOrder: e.target.value === '' ? null : Number(e.target.value)
+                  }))}
+                  style={configInputStyle}
+                >
+                  <option value="">Off</option>
+                  {[0, 1, 2, 3].map(order => (
+                    <option key={order} value={order}>OSD-{order}</option>
+                  ))}
                 </select>
               </div>
+            )}
+
+            {mlBoundAvailable && (
+              <div style={{ marginTop: '16px' }}>
+                <label style={{ color: '#e2e8f0', fontSize: '13px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <input
+                    type="checkbox"
+                    checked={berferConfig.mlBound}
+                    onChange={(e) => setBerferConfig(prev => ({ ...prev, mlBound: e.target.checked }))}
+                  />
+                  ML lower bound (exhaustive ML decoding of the same frames)
+                </label>
+              </div>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginTop: '16px', alignItems: 'end' }}>
+              <div>
+                <label style={configLabelStyle}>Non-binary comparison (same graph over GF(q))</label>
+                <select
+                  value={berferConfig.nonBinaryDegree}
+                  onChange={(e) => setBerferConfig(prev => ({ ...prev, nonBinaryDegree: Number(e.target.value) }))}
+                  style={configInputStyle}
+                >
+                  <option value={0}>Off</option>
+                  {[2, 3, 4, 5, 6, 7, 8].map(p => (
+                    <option key={p} value={p}>GF({1 << p})</option>
+                  ))}
+                </select>
+              </div>
+              {berferConfig.nonBinaryDegree > 0 && (
+                <label style={{ color: '#e2e8f0', fontSize: '13px', display: 'flex', alignItems: 'center', gap: '8px', paddingBottom: '10px' }}>
+                  <input
+                    type="checkbox"
+                    checked={berferConfig.randomEdgeLabels}
+                    onChange={(e) => setBerferConfig(prev => ({ ...prev, randomEdgeLabels: e.target.checked }))}
+                  />
+                  Random non-zero edge labels (otherwise use the labels set in the graph editor)
+                </label>
+              )}
             </div>
+
+            {supportsFixedPoint(berferConfig.algorithm) && (
+              <div style={{ marginTop: '16px' }}>
+                <label style={{ color: '#e2e8f0', fontSize: '13px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <input
+                    type="checkbox"
+                    checked={berferConfig.fixedPoint}
+                    onChange={(e) => setBerferConfig(prev => ({ ...prev, fixedPoint: e.target.checked }))}
+                  />
+                  Fixed-point decoder (compared against floating point)
+                </label>
+
+                {berferConfig.fixedPoint && (
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '12px', marginTop: '12px' }}>
+                    <div>
+                      <label style={configLabelStyle}>Channel bits</label>
+                      <input
+                        type="number"
+                        min={2}
+                        max={24}
+                        value={berferConfig.quantization.channelBits}
+                        onChange={(e) => updateQuantization({ channelBits: Number(e.target.value) })}
+                        style={configInputStyle}
+                      />
+                    </div>
+                    <div>
+                      <label style={configLabelStyle}>Message bits</label>
+                      <input
+                        type="number"
+                        min={2}
+                        max={24}
+                        value={berferConfig.quantization.messageBits}
+                        onChange={(e) => updateQuantization({ messageBits: Number(e.target.value) })}
+                        style={configInputStyle}
+                      />
+                    </div>
+                    <div>
+                      <label style={configLabelStyle}>Fractional bits</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={23}
+                        value={berferConfig.quantization.fractionalBits}
+                        onChange={(e) => updateQuantization({ fractionalBits: Number(e.target.value) })}
+                        style={configInputStyle}
+                      />
+                    </div>
+                    <div>
+                      <label style={configLabelStyle}>Saturation</label>
+                      <select
+                        value={berferConfig.quantization.saturation}
+                        onChange={(e) => updateQuantization({ saturation: e.target.value as QuantizationConfig['saturation'] })}
+                        style={configInputStyle}
+                      >
+                        <option value="symmetric">Symmetric</option>
+                        <option value="twos-complement">Two's complement</option>
+                        <option value="wrap">Wrap-around</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label style={configLabelStyle}>Rounding</label>
+                      <select
+                        value={berferConfig.quantization.rounding}
+                        onChange={(e) => updateQuantization({ rounding: e.target.value as QuantizationConfig['rounding'] })}
+                        style={configInputStyle}
+                      >
+                        <option value="nearest">Nearest</option>
+                        <option value="floor">Floor</option>
+                        <option value="truncate">Truncate</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
         
+        <div style={{ marginBottom: '16px', maxWidth: '50%' }}>
+          <label style={configLabelStyle}>Random seed (blank for a fresh seed)</label>
+          <input
+            type="number"
+            min={0}
+            max={4294967295}
+            placeholder="random"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            style={{ ...configInputStyle, border: seedValid ? configInputStyle.border : '1px solid #ef4444' }}
+          />
+        </div>
+
         <Button onClick={runBERAnalysis} disabled={!canRunTest}>
           {loading ? 'Analyzing...' : 
             comparisonType === 'algorithm' ? 'Start Algorithm Comparison' :
@@ -581,6 +959,17 @@ export const TestPanel: React.FC = () => {
               : 'BER/FER vs SNR - Error Rate Curves'
             }
           </div>
+          {results.seed !== undefined && (
+            <div style={{ fontSize: '12px', color: '#94a3b8', marginBottom: '12px', textAlign: 'center' }}>
+              Seed {results.seed}
+              <button
+                onClick={() => setSeed(String(results.seed))}
+                style={{ marginLeft: '8px', background: 'none', border: '1px solid #4b5563', borderRadius: '4px', color: '#94a3b8', fontSize: '11px', cursor: 'pointer', padding: '1px 6px' }}
+              >
+                Reuse
+              </button>
+            </div>
+          )}
           
           <svg width="100%" height="400px" viewBox="0 0 800 400" style={{ 
             background: 'rgba(15, 15, 25, 0.8)',
@@ -695,12 +1084,6 @@ export const TestPanel: React.FC = () => {
             
             {/* Data lines and points */}
             {(() => {
-              const algorithmColors = {
-                'gallager-a': '#f59e0b',
-                'belief-propagation': '#10b981', 
-                'min-sum': '#3b82f6'
-              };
-              
               const channelColors = {
                 'BSC': '#f59e0b',
                 'AWGN': '#10b981',
@@ -711,7 +1094,7 @@ export const TestPanel: React.FC = () => {
               
               if (results.type === 'algorithm') {
                 return results.algorithms.map((algorithm: string) => {
-                  const color = algorithmColors[algorithm as keyof typeof algorithmColors];
+                  const { color, dashed } = algorithmStyle(algorithm);
                   const points = [];
                   const lines = [];
                   
@@ -755,7 +1138,8 @@ export const TestPanel: React.FC = () => {
                         
                         lines.push(
                           <line key={`${algorithm}-line-${index}`} x1={prevX} y1={prevY} x2={x} y2={y}
-                                stroke={color} strokeWidth="3" strokeLinecap="round" />
+                                stroke={color} strokeWidth="3" strokeLinecap="round"
+                                strokeDasharray={dashed ? '8,4' : undefined} />
                         );
                       }
                     }
@@ -827,6 +1211,35 @@ export const TestPanel: React.FC = () => {
                 const berLines = [];
                 const ferLines = [];
                 const uncodedLines = [];
+                // 定点译码时叠加同一批帧的浮点参考曲线（虚线）
+                const floatLines = [];
+                const toLogY = (value: number) => 350 - ((Math.log10(Math.max(value, 1e-6)) + 6) / 5) * 320;
+                // 非二元码对比曲线（紫色），SNR 点与二元仿真一致
+                const nonBinaryPoints = results.nonBinary?.snrPoints || [];
+                const nonBinaryLines = nonBinaryPoints.slice(1).flatMap((point: any, index: number) => {
+                  const prevPoint = nonBinaryPoints[index];
+                  const x1 = (index / (nonBinaryPoints.length - 1)) * 700 + 50;
+                  const x2 = ((index + 1) / (nonBinaryPoints.length - 1)) * 700 + 50;
+                  return [
+                    <line key={`nb-ber-line-${index}`} x1={x1} y1={toLogY(prevPoint.ber)} x2={x2} y2={toLogY(point.ber)}
+                          stroke="#a855f7" strokeWidth="2.5" strokeLinecap="round" />,
+                    <line key={`nb-fer-line-${index}`} x1={x1} y1={toLogY(prevPoint.fer)} x2={x2} y2={toLogY(point.fer)}
+                          stroke="#a855f7" strokeWidth="2" strokeDasharray="6,3" strokeLinecap="round" />
+                  ];
+                });
+                // ML 下界（黄色虚线，BER 较粗、FER 较细）
+                const mlLines = snrPoints.slice(1).flatMap((point: any, index: number) => {
+                  const prevPoint = snrPoints[index];
+                  if (!point.mlBound || !prevPoint.mlBound) return [];
+                  const x1 = (index / (snrPoints.length - 1)) * 700 + 50;
+                  const x2 = ((index + 1) / (snrPoints.length - 1)) * 700 + 50;
+                  return [
+                    <line key={`ml-ber-line-${index}`} x1={x1} y1={toLogY(prevPoint.mlBound.ber)} x2={x2} y2={toLogY(point.mlBound.ber)}
+                          stroke="#facc15" strokeWidth="2.5" strokeDasharray="8,4" strokeLinecap="round" />,
+                    <line key={`ml-fer-line-${index}`} x1={x1} y1={toLogY(prevPoint.mlBound.fer)} x2={x2} y2={toLogY(point.mlBound.fer)}
+                          stroke="#facc15" strokeWidth="1.5" strokeDasharray="3,3" strokeLinecap="round" />
+                  ];
+                });
                 
                 snrPoints.forEach((point: any, index: number) => {
                   const x = (index / (snrPoints.length - 1)) * 700 + 50;
@@ -902,16 +1315,29 @@ export const TestPanel: React.FC = () => {
                             stroke="#94a3b8" strokeWidth="2" strokeLinecap="round" 
                             strokeDasharray="8,4" />
                     );
+
+                    if (point.floatingPoint && prevPoint.floatingPoint) {
+                      floatLines.push(
+                        <line key={`float-ber-line-${index}`} x1={prevX} y1={toLogY(prevPoint.floatingPoint.ber)}
+                              x2={x} y2={toLogY(point.floatingPoint.ber)}
+                              stroke="#10b981" strokeWidth="2" strokeOpacity="0.6" strokeDasharray="4,3" />,
+                        <line key={`float-fer-line-${index}`} x1={prevX} y1={toLogY(prevPoint.floatingPoint.fer)}
+                              x2={x} y2={toLogY(point.floatingPoint.fer)}
+                              stroke="#ef4444" strokeWidth="2" strokeOpacity="0.6" strokeDasharray="4,3" />
+                      );
+                    }
                   }
                 });
                 
-                return [...uncodedLines, ...berLines, ...ferLines, ...uncodedPoints, ...berPoints, ...ferPoints];
+                return [...uncodedLines, ...floatLines, ...nonBinaryLines, ...mlLines, ...berLines, ...ferLines, ...uncodedPoints, ...berPoints, ...ferPoints];
               }
             })()}
             
             {/* Axis titles */}
             <text x="400" y="390" textAnchor="middle" fill="#e2e8f0" fontSize="14" fontWeight="600">
-              {results.type === 'algorithm' ? 'Error Rate (%)' : 'SNR (dB)'}
+              {results.type === 'algorithm' ? 'Error Rate (%)'
+                : results.type === 'ber-fer' ? `${results.metadata?.snrType === 'EbN0' ? 'Eb/N0' : 'Es/N0'} (dB)${results.metadata?.modulation && results.metadata.modulation !== 'BPSK' ? ` · ${results.metadata.modulation}` : ''}`
+                : 'SNR (dB)'}
             </text>
             <text x="15" y="190" textAnchor="middle" fill="#e2e8f0" fontSize="14" fontWeight="600" 
                   transform="rotate(-90 15 190)">
@@ -920,13 +1346,14 @@ export const TestPanel: React.FC = () => {
             
             {/* Legend - placed directly in top-right corner of chart */}
             <g transform="translate(600, 50)">
-              {results.type === 'algorithm' ? [
-                { color: '#f59e0b', name: 'Gallager-A', desc: 'Hard decision algorithm' },
-                { color: '#10b981', name: 'Belief Propagation', desc: 'Soft decision algorithm' },
-                { color: '#3b82f6', name: 'Min-Sum', desc: 'Simplified belief propagation' }
-              ].map((item, index) => (
+              {results.type === 'algorithm' ? results.algorithms.map((algorithm: DecodingAlgorithm) => algorithmStyle(algorithm)).map((item, index) => (
                 <g key={index} transform={`translate(0, ${index * 25})`}>
-                  <rect x="0" y="0" width="12" height="12" fill={item.color} rx="2" />
+                  {item.dashed ? (
+                    <line x1="0" y1="6" x2="12" y2="6" stroke={item.color} strokeWidth="2"
+                          strokeDasharray="4,2" strokeLinecap="round" />
+                  ) : (
+                    <rect x="0" y="0" width="12" height="12" fill={item.color} rx="2" />
+                  )}
                   <text x="20" y="9" fill="#e2e8f0" fontSize="12" fontWeight="600">
                     {item.name}
                   </text>
@@ -951,7 +1378,19 @@ export const TestPanel: React.FC = () => {
               )) : [
                 { color: '#10b981', name: 'Coded BER', desc: 'LDPC Coded Bit Error Rate' },
                 { color: '#ef4444', name: 'FER', desc: 'Frame Error Rate' },
-                { color: '#94a3b8', name: 'Uncoded BER', desc: 'Theoretical Uncoded BER', dashed: true }
+                { color: '#94a3b8', name: 'Uncoded BER', desc: 'Theoretical Uncoded BER', dashed: true },
+                ...(results.metadata?.decodingConfig?.quantization ? [
+                  { color: '#10b981', name: 'Float BER', desc: 'Floating-point reference', dashed: true },
+                  { color: '#ef4444', name: 'Float FER', desc: 'Floating-point reference', dashed: true }
+                ] : []),
+                ...(results.results.snrPoints?.some((point: any) => point.mlBound) ? [
+                  { color: '#facc15', name: 'ML BER', desc: 'Exhaustive ML lower bound', dashed: true },
+                  { color: '#facc15', name: 'ML FER', desc: 'Exhaustive ML lower bound', dashed: true }
+                ] : []),
+                ...(results.nonBinary ? [
+                  { color: '#a855f7', name: `GF(${results.nonBinary.codeParameters.q}) BER`, desc: `Non-binary FFT-SPA, ${results.nonBinary.codeParameters.binaryLength} bits` },
+                  { color: '#a855f7', name: `GF(${results.nonBinary.codeParameters.q}) FER`, desc: 'Non-binary frame error rate', dashed: true }
+                ] : [])
               ].map((item: any, index) => (
                 <g key={index} transform={`translate(0, ${index * 25})`}>
                   {item.dashed ? (
@@ -970,6 +1409,38 @@ export const TestPanel: React.FC = () => {
               ))}
             </g>
           </svg>
+
+          {/* 收敛速度：不同调度达到收敛所需的消息更新次数 */}
+          {results.type === 'algorithm' && (
+            <table style={{ width: '100%', marginTop: '16px', borderCollapse: 'collapse', fontSize: '13px', color: '#e2e8f0' }}>
+              <thead>
+                <tr style={{ color: '#94a3b8', textAlign: 'left' }}>
+                  <th style={{ padding: '6px 8px' }}>Algorithm</th>
+                  <th style={{ padding: '6px 8px' }}>Avg. iterations</th>
+                  <th style={{ padding: '6px 8px' }}>Avg. message updates</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.algorithms.map((algorithm: DecodingAlgorithm) => {
+                  const entries = results.results
+                    .map((point: any) => point.algorithms.find((alg: any) => alg.algorithm === algorithm))
+                    .filter((alg: any) => alg && alg.avgMessageUpdates > 0);
+                  const average = (key: string) => entries.length > 0
+                    ? entries.reduce((sum: number, alg: any) => sum + alg[key], 0) / entries.length
+                    : 0;
+                  return (
+                    <tr key={algorithm} style={{ borderTop: '1px solid rgba(99, 102, 241, 0.2)' }}>
+                      <td style={{ padding: '6px 8px', color: algorithmStyle(algorithm).color, fontWeight: 600 }}>
+                        {algorithmStyle(algorithm).name}
+                      </td>
+                      <td style={{ padding: '6px 8px' }}>{average('avgIterations').toFixed(2)}</td>
+                      <td style={{ padding: '6px 8px' }}>{Math.round(average('avgMessageUpdates'))}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
         </Section>
       )}
     </Container>
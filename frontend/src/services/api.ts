@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { LDPCGraph, MatrixData, ErrorTestResult } from '../types';
+import { LDPCGraph, MatrixData, ErrorTestResult, GirthAnalysis, QCBaseMatrix, SparseMatrixPayload, MinimumDistanceAnalysis, StoppingSetAnalysis, TrappingSetAnalysis, MessagePlayback } from '../types';
 
 const API_BASE_URL = (import.meta as any).env?.VITE_API_URL || '';
 
@@ -33,6 +33,63 @@ api.interceptors.response.use(
   }
 );
 
+// 将稠密H转换为稀疏传输格式，大码的请求体随非零元素数而非 m×n 增长
+export const toSparsePayload = (H: number[][]): SparseMatrixPayload => ({
+  m: H.length,
+  n: H[0]?.length || 0,
+  rows: H.map(row => row.reduce<number[]>((ones, value, j) => {
+    if (value === 1) ones.push(j);
+    return ones;
+  }, [])),
+});
+
+export interface AutoConnectOptions {
+  // PEG: 变量节点度分布（度数 -> 节点比例）
+  degreeDistribution?: Record<number, number>;
+  // PEG: 图中没有节点时新建的节点数量
+  bitCount?: number;
+  checkCount?: number;
+}
+
+export interface QCExpansionResponse extends QCBaseMatrix {
+  success: boolean;
+  H: number[][];
+  graph: LDPCGraph;
+  n: number;
+  m: number;
+  error?: string;
+}
+
+export interface MinDistanceResponse {
+  success: boolean;
+  analysis: MinimumDistanceAnalysis;
+  error?: string;
+}
+
+export interface GirthAnalysisResponse {
+  success: boolean;
+  analysis: GirthAnalysis;
+  bitNodeIds?: string[];
+  checkNodeIds?: string[];
+  error?: string;
+}
+
+export interface StoppingSetResponse {
+  success: boolean;
+  analysis: StoppingSetAnalysis;
+  bitNodeIds?: string[];
+  checkNodeIds?: string[];
+  error?: string;
+}
+
+export interface TrappingSetResponse {
+  success: boolean;
+  analysis: TrappingSetAnalysis;
+  bitNodeIds?: string[];
+  checkNodeIds?: string[];
+  error?: string;
+}
+
 export interface MatrixGenerationResponse {
   success: boolean;
   H: number[][];
@@ -47,6 +104,7 @@ export interface MatrixGenerationResponse {
     n: number;
     k: number;
     minDistance: number;
+    minDistanceAnalysis?: MinimumDistanceAnalysis;
     isValid: boolean;
   };
   analysis: {
@@ -60,10 +118,21 @@ export interface MatrixGenerationResponse {
   error?: string;
 }
 
+export type EncodingMethod = 'systematic' | 'generator' | 'alt' | 'dual-diagonal';
+
+export interface ParityStructure {
+  type: 'dual-diagonal' | 'accumulate';
+  Z: number;
+}
+
 export interface EncodingResponse {
   codeword: number[];
   success: boolean;
   message?: string;
+  method?: EncodingMethod;
+  informationPositions?: number[];
+  gap?: number;
+  parityStructure?: ParityStructure;
   H?: number[][];
   G?: number[][];
   n?: number;
@@ -116,6 +185,81 @@ export interface SimulationResponse {
   error?: string;
 }
 
+// 译码器 id，由后端注册表提供（GET /api/coding/algorithms）
+export type DecodingAlgorithm = string;
+
+// 注册表中的参数模式；number 型的 exclusiveMin 表示区间 (min, max]
+export interface DecoderParameterInfo {
+  name: string;
+  label: string;
+  type: 'integer' | 'number' | 'boolean';
+  description: string;
+  default?: number | boolean;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+}
+
+export interface DecoderInfo {
+  id: DecodingAlgorithm;
+  name: string;
+  description: string;
+  family: 'soft' | 'hard' | 'erasure';
+  complexity: 'Low' | 'Medium' | 'High';
+  performance: 'Fair' | 'Good' | 'Optimal';
+  inputs: Array<'hard' | 'llr' | 'erasure'>;
+  channels: Array<'BSC' | 'AWGN' | 'Rayleigh' | 'BEC'>;
+  parameters: DecoderParameterInfo[];
+  softOutput: boolean;
+  osd: boolean;
+  quantization: boolean;
+  reference?: { dimension: number; redundancy: number }; // 穷举参考译码器：k ≤ dimension 或 n − k ≤ redundancy
+}
+
+// 仿真中的错误模式；erasure 以错误率为擦除概率（BEC），gilbert-elliott 以错误率为坏状态的翻转概率
+export type ErrorPattern = 'random' | 'burst' | 'erasure' | 'gilbert-elliott';
+
+export type SimulationChannel = 'BSC' | 'AWGN' | 'Rayleigh' | 'BEC' | 'Gilbert-Elliott' | 'Markov-AWGN';
+
+// 两状态马尔可夫突发信道（Gilbert–Elliott / Markov-AWGN）的参数，未给出的字段取后端缺省值
+export interface BurstChannelParameters {
+  pGoodToBad: number;
+  pBadToGood: number;
+  errorProbGood: number;
+  errorProbBad: number;
+  badStatePenalty: number; // 坏状态比好状态低的 SNR（dB）
+}
+
+// 定点译码仿真参数（仅 min-sum / layered），1 LSB = 2^-fractionalBits
+export interface QuantizationConfig {
+  channelBits: number;
+  messageBits: number;
+  fractionalBits: number;
+  appBits?: number;
+  saturation: 'symmetric' | 'twos-complement' | 'wrap';
+  rounding: 'nearest' | 'floor' | 'truncate';
+  floatingPoint?: boolean; // 不舍入、不饱和，以浮点运行同一算法
+}
+
+// 仿真接口使用的译码参数；信道 LLR 由后端按仿真信道生成
+export interface DecoderSettings {
+  algorithm: DecodingAlgorithm;
+  maxIterations?: number;
+  scalingFactor?: number;
+  damping?: number;
+  earlyTermination?: boolean;
+  quantization?: QuantizationConfig;
+  osdOrder?: number; // 软判决译码失败后的 OSD-i 后处理阶数（0-3）
+  updateBudget?: number; // 残差调度的消息更新预算
+  reliabilityWeight?: number; // MWBF 中比特自身可靠度的权重 α
+  flipThreshold?: number; // PGDBF 的反转能量阈值；缺省时只翻转能量最小的比特
+  flipProbability?: number; // PGDBF 的翻转概率
+  seed?: number; // PGDBF 随机翻转的种子
+  admmPenalty?: number; // ADMM-LP 的罚参数 μ
+  admmTolerance?: number; // ADMM-LP 原始/对偶残差的停止容差
+  label?: string; // 仅算法对比使用，区分同一算法的不同参数
+}
+
 export interface BERAnalysisResponse {
   success: boolean;
   results: Array<{
@@ -146,9 +290,13 @@ export interface BERAnalysisResponse {
   metadata: {
     errorRates: number[];
     testsPerPoint: number;
-    errorType: 'random' | 'burst';
+    errorType: ErrorPattern;
     burstLength?: number;
+    burst?: BurstChannelParameters;
     maxIterations: number;
+    algorithm: DecodingAlgorithm;
+    decodingConfig: DecoderSettings;
+    seed: number; // 仿真种子，原样传回即可复现同一批帧
     timestamp: string;
   };
   error?: string;
@@ -205,10 +353,11 @@ export const graphAPI = {
 
   autoConnect: async (
     graph: LDPCGraph, 
-    strategy: 'random' | 'regular' | 'sparse' = 'random'
+    strategy: 'random' | 'regular' | 'sparse' | 'peg' = 'random',
+    options: AutoConnectOptions = {}
   ): Promise<{ graph: LDPCGraph; statistics: any }> => {
     try {
-      const response = await api.post('/api/graph/auto-connect', { graph, strategy });
+      const response = await api.post('/api/graph/auto-connect', { graph, strategy, ...options });
       return {
         graph: response.data.graph,
         statistics: response.data.statistics
@@ -243,8 +392,135 @@ export const matrixAPI = {
       throw new Error('矩阵分析失败');
     }
   },
+
+  qcExpand: async (baseMatrix: number[][], Z: number): Promise<QCExpansionResponse> => {
+    try {
+      const response = await api.post('/api/matrix/qc-expand', { baseMatrix, Z });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        const details = error.response.data.errors?.join('; ');
+        throw new Error(details || error.response.data.error || '基矩阵展开失败');
+      }
+      throw new Error('基矩阵展开失败');
+    }
+  },
+
+  girth: async (graph: LDPCGraph, maxCycleLength: number = 8): Promise<GirthAnalysisResponse> => {
+    try {
+      const response = await api.post('/api/matrix/girth', { graph, maxCycleLength });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || '围长分析失败');
+      }
+      throw new Error('围长分析失败');
+    }
+  },
+
+  minDistance: async (graph: LDPCGraph, timeLimitMs: number = 5000): Promise<MinDistanceResponse> => {
+    try {
+      const response = await api.post('/api/matrix/min-distance', { graph, timeLimitMs });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || '最小距离分析失败');
+      }
+      throw new Error('最小距离分析失败');
+    }
+  },
+
+  stoppingSets: async (graph: LDPCGraph, sizeLimit: number = 8): Promise<StoppingSetResponse> => {
+    try {
+      const response = await api.post('/api/matrix/stopping-sets', { graph, sizeLimit });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || '停止集分析失败');
+      }
+      throw new Error('停止集分析失败');
+    }
+  },
+
+  trappingSets: async (graph: LDPCGraph, maxA: number = 6, maxB: number = 2): Promise<TrappingSetResponse> => {
+    try {
+      const response = await api.post('/api/matrix/trapping-sets', { graph, maxA, maxB });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || '陷阱集分析失败');
+      }
+      throw new Error('陷阱集分析失败');
+    }
+  },
 };
 
+// 逐比特软输出：后验 LLR、外信息（后验减信道 LLR）与判决可靠度
+export interface SoftOutput {
+  app: number[];
+  extrinsic: number[];
+  reliability: number[];
+}
+
+// ADMM-LP 的收敛状态；整数且满足全部校验的 LP 解带有 ML 证书
+export interface LPCertificate {
+  converged: boolean;
+  integral: boolean;
+  mlCertificate: boolean;
+  fractionalBits: number;
+  objective: number;
+  primalResidual: number;
+  dualResidual: number;
+}
+
+export interface EnhancedDecodingResponse {
+  decoded: number[];
+  success: boolean;
+  iterations: number;
+  correctedErrors: number;
+  message?: string;
+  iterationHistory: any[];
+  messageUpdates?: number;
+  osdApplied: boolean;
+  softOutput?: SoftOutput;
+  lp?: LPCertificate;
+  playback?: MessagePlayback;
+}
+
+export interface GaloisFieldTables {
+  success: boolean;
+  p: number;
+  q: number;
+  polynomial: number;
+  addition: number[][];
+  multiplication: number[][];
+}
+
+export interface NonBinaryEncodingResponse {
+  success: boolean;
+  q: number;
+  n: number;
+  k: number;
+  H: number[][];
+  information: number[];
+  informationPositions: number[];
+  codeword: number[];
+  binaryImage: number[];
+}
+
+export interface NonBinaryDecodingResponse {
+  decoded: number[];
+  decodedBits: number[];
+  success: boolean;
+  iterations: number;
+  correctedErrors: number;
+  message: string;
+  symbolReliability: number[];
+  iterationHistory: Array<{ iteration: number; unsatisfiedChecks: number; decoded: number[] }>;
+  q: number;
+  algorithm: 'fft-spa';
+}
+
 export interface ChannelTransmitResponse {
   success: boolean;
   transmitted: number[];
@@ -252,6 +528,8 @@ export interface ChannelTransmitResponse {
   errors: number[];
   errorCount: number;
   channelLLR?: number[];
+  seed: number; // 本次噪声使用的种子
+  states?: number[]; // 突发信道各比特所处状态，1 为坏状态
   channelInfo: {
     name: string;
     description: string;
@@ -261,20 +539,39 @@ export interface ChannelTransmitResponse {
   error?: string;
 }
 
-export interface ChannelConfig {
-  type: 'BSC' | 'AWGN' | 'AWGN-SOFT' | 'Rayleigh' | 'BEC';
+export type ModulationScheme = 'BPSK' | 'QPSK' | '8PSK' | '16QAM' | '64QAM' | '256QAM';
+
+// 高阶调制（Gray 映射）与逐比特解映射；snrType 为 EbN0 时按码率与每符号比特数换算为 Es/N0
+export interface ModulationSettings {
+  modulation?: ModulationScheme;
+  demapper?: 'exact' | 'max-log';
+  snrType?: 'EsN0' | 'EbN0';
+}
+
+// BER/FER 仿真 channel 对象中除 type 以外的字段
+export type SimulationChannelOptions = ModulationSettings & { burst?: Partial<BurstChannelParameters> };
+
+export interface ChannelConfig extends ModulationSettings {
+  type: 'BSC' | 'AWGN' | 'AWGN-SOFT' | 'Rayleigh' | 'BEC' | 'Gilbert-Elliott' | 'Markov-AWGN';
   snr?: number;
   crossoverProb?: number;
   erasureProb?: number;
   variance?: number;
+  codeRate?: number;
+  burst?: Partial<BurstChannelParameters>;
 }
 
 export const codingAPI = {
-  encode: async (information: number[], graph: LDPCGraph): Promise<EncodingResponse> => {
+  encode: async (
+    information: number[],
+    graph: LDPCGraph,
+    method: EncodingMethod = 'systematic'
+  ): Promise<EncodingResponse> => {
     try {
       const response = await api.post('/api/coding/encode', {
         information,
         graph,
+        method,
       });
       console.log('API响应:', response.data);
       return response.data;
@@ -287,6 +584,18 @@ export const codingAPI = {
     }
   },
 
+  getAlgorithms: async (): Promise<DecoderInfo[]> => {
+    try {
+      const response = await api.get('/api/coding/algorithms');
+      return response.data.algorithms;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Failed to load decoders');
+      }
+      throw new Error('Failed to load decoders');
+    }
+  },
+
   decode: async (
     received: number[],
     graph: LDPCGraph,
@@ -309,11 +618,34 @@ export const codingAPI = {
     }
   },
 
-  channelTransmit: async (codeword: number[], channelConfig: ChannelConfig): Promise<ChannelTransmitResponse> => {
+  // DecodingService 的完整译码器；recordMessages 时返回按图边 id 映射的逐次消息（playback）
+  decodeEnhanced: async (
+    received: number[],
+    graph: LDPCGraph,
+    config: DecoderSettings & {
+      llrInput?: boolean;
+      channelType?: 'BSC' | 'AWGN' | 'BEC' | 'AWGN-SOFT';
+      recordMessages?: boolean;
+      softOutput?: boolean;
+    }
+  ): Promise<EnhancedDecodingResponse> => {
+    try {
+      const response = await api.post('/api/coding/decode-enhanced', { received, graph, config });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Decoding failed');
+      }
+      throw new Error('Decoding failed');
+    }
+  },
+
+  channelTransmit: async (codeword: number[], channelConfig: ChannelConfig, seed?: number): Promise<ChannelTransmitResponse> => {
     try {
       const response = await api.post('/api/coding/channel-transmit', {
         codeword,
         channelConfig,
+        seed,
       });
       return response.data;
     } catch (error: any) {
@@ -336,6 +668,52 @@ export const codingAPI = {
     }
   },
 
+  // 非二元码：H 由图的边标签（GF(q) 元素）构成
+  getFieldTables: async (p: number): Promise<GaloisFieldTables> => {
+    try {
+      const response = await api.get(`/api/coding/nonbinary/field/${p}`);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Failed to load GF(q) tables');
+      }
+      throw new Error('Failed to load GF(q) tables');
+    }
+  },
+
+  encodeNonBinary: async (
+    graph: LDPCGraph,
+    p: number,
+    information?: number[]
+  ): Promise<NonBinaryEncodingResponse> => {
+    try {
+      const response = await api.post('/api/coding/nonbinary/encode', { graph, p, information });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Non-binary encoding failed');
+      }
+      throw new Error('Non-binary encoding failed');
+    }
+  },
+
+  decodeNonBinary: async (
+    graph: LDPCGraph,
+    p: number,
+    input: { llr?: number[]; received?: number[]; crossoverProb?: number },
+    maxIterations: number = 50
+  ): Promise<NonBinaryDecodingResponse> => {
+    try {
+      const response = await api.post('/api/coding/nonbinary/decode', { graph, p, ...input, maxIterations });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Non-binary decoding failed');
+      }
+      throw new Error('Non-binary decoding failed');
+    }
+  },
+
   calculateChannelCapacity: async (channelConfig: ChannelConfig): Promise<any> => {
     try {
       const response = await api.post('/api/coding/channel-capacity', {
@@ -363,16 +741,20 @@ export interface AlgorithmComparisonResponse {
       totalErrors: number;
       correctedErrors: number;
       avgIterations: number;
+      avgMessageUpdates: number; // 每个收敛帧的平均校验→变量消息更新次数
       convergenceRate: number;
     }>;
   }>;
   metadata: {
     errorRates: number[];
     testsPerPoint: number;
-    errorType: 'random' | 'burst';
+    errorType: ErrorPattern;
     burstLength?: number;
+    burst?: BurstChannelParameters;
     maxIterations: number;
     algorithms: string[];
+    decoders: DecoderSettings[];
+    seed: number; // 仿真种子，原样传回即可复现同一批帧
     timestamp: string;
   };
   error?: string;
@@ -399,8 +781,14 @@ export interface ChannelComparisonResponse {
     errorType: 'random' | 'burst';
     burstLength?: number;
     maxIterations: number;
-    algorithm: string;
+    algorithm: DecodingAlgorithm;
+    decodingConfig: DecoderSettings;
     channels: string[];
+    modulation: ModulationScheme;
+    demapper: 'exact' | 'max-log';
+    snrType: 'EsN0' | 'EbN0';
+    burst?: BurstChannelParameters;
+    seed: number; // 仿真种子，原样传回即可复现同一批帧
     timestamp: string;
   };
   error?: string;
@@ -418,6 +806,15 @@ export interface BERFERAnalysisResponse {
       totalFrames: number;
       errorFrames: number;
       bitErrors: number;
+      floatingPoint?: {  // 定点译码时同一批帧的浮点参考
+        ber: number;
+        fer: number;
+        avgIterations: number;
+      };
+      mlBound?: {  // 同一批帧的 ML 译码结果，作为性能下界
+        ber: number;
+        fer: number;
+      };
       confidenceInterval?: {
         berLower: number;
         berUpper: number;
@@ -439,10 +836,56 @@ export interface BERFERAnalysisResponse {
   metadata: {
     simulationTime: number;
     totalFrames: number;
-    algorithm: string;
+    algorithm: DecodingAlgorithm;
+    decodingConfig: DecoderSettings;
+    channelType: string;
+    modulation: ModulationScheme;
+    demapper: 'exact' | 'max-log';
+    snrType: 'EsN0' | 'EbN0';
+    burst?: BurstChannelParameters;
+    snrRange: { min: number; max: number; steps: number };
+    framesPerPoint: number;
+    seed: number; // 仿真种子，原样传回即可复现同一批帧
+    timestamp: string;
+  };
+  error?: string;
+}
+
+export interface NonBinaryBERFERResponse {
+  success: boolean;
+  results: {
+    snrPoints: Array<{
+      snr: number;
+      ber: number;
+      fer: number;
+      ser: number; // 符号错误率
+      avgIterations: number;
+      totalFrames: number;
+      errorFrames: number;
+      bitErrors: number;
+    }>;
+    codeParameters: {
+      q: number;
+      n: number;
+      k: number;
+      binaryLength: number;
+      rate: number;
+    };
+    H: number[][];
+  };
+  metadata: {
+    simulationTime: number;
+    totalFrames: number;
+    algorithm: 'fft-spa';
+    maxIterations: number;
     channelType: string;
+    modulation: ModulationScheme;
+    demapper: 'exact' | 'max-log';
+    snrType: 'EsN0' | 'EbN0';
+    burst?: BurstChannelParameters;
     snrRange: { min: number; max: number; steps: number };
     framesPerPoint: number;
+    seed: number; // 仿真种子，原样传回即可复现同一批帧
     timestamp: string;
   };
   error?: string;
@@ -454,14 +897,17 @@ export const testAPI = {
     G: number[][],
     errorRates: number[] = [0.01, 0.02, 0.05, 0.1, 0.15, 0.2],
     testsPerPoint: number = 100,
-    errorType: 'random' | 'burst' = 'random',
+    errorType: ErrorPattern = 'random',
     burstLength?: number,
     maxIterations: number = 50,
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'gallager-a'
+    algorithm: DecodingAlgorithm = 'gallager-a',
+    decodingConfig?: Partial<DecoderSettings>,
+    seed?: number,
+    burst?: Partial<BurstChannelParameters>
   ): Promise<BERAnalysisResponse> => {
     try {
       const response = await api.post('/api/test/ber-analysis', {
-        H,
+        H: toSparsePayload(H),
         G,
         errorRates,
         testsPerPoint,
@@ -469,6 +915,9 @@ export const testAPI = {
         burstLength,
         maxIterations,
         algorithm,
+        decodingConfig,
+        seed,
+        burst,
       });
       return response.data;
     } catch (error: any) {
@@ -485,14 +934,17 @@ export const testAPI = {
     G: number[][],
     errorRates: number[] = [0.001, 0.005, 0.01, 0.02, 0.05, 0.1],
     testsPerPoint: number = 100,
-    errorType: 'random' | 'burst' = 'random',
+    errorType: ErrorPattern = 'random',
     burstLength?: number,
     maxIterations: number = 50,
-    algorithms: Array<'gallager-a' | 'belief-propagation' | 'min-sum'> = ['gallager-a', 'belief-propagation', 'min-sum']
+    algorithms: Array<DecodingAlgorithm | DecoderSettings> = ['gallager-a', 'belief-propagation', 'min-sum'],
+    decodingConfig?: Partial<DecoderSettings>,
+    seed?: number,
+    burst?: Partial<BurstChannelParameters>
   ): Promise<AlgorithmComparisonResponse> => {
     try {
       const response = await api.post('/api/test/algorithm-comparison', {
-        H,
+        H: toSparsePayload(H),
         G,
         errorRates,
         testsPerPoint,
@@ -500,6 +952,9 @@ export const testAPI = {
         burstLength,
         maxIterations,
         algorithms,
+        decodingConfig,
+        seed,
+        burst,
       });
       return response.data;
     } catch (error: any) {
@@ -519,12 +974,15 @@ export const testAPI = {
     errorType: 'random' | 'burst' = 'random',
     burstLength?: number,
     maxIterations: number = 50,
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'belief-propagation',
-    channels: Array<'BSC' | 'AWGN' | 'Rayleigh'> = ['BSC', 'AWGN', 'Rayleigh']
+    algorithm: DecodingAlgorithm = 'belief-propagation',
+    channels: SimulationChannel[] = ['BSC', 'AWGN', 'Rayleigh'],
+    decodingConfig?: Partial<DecoderSettings>,
+    seed?: number,
+    channelOptions?: SimulationChannelOptions
   ): Promise<ChannelComparisonResponse> => {
     try {
       const response = await api.post('/api/test/channel-comparison', {
-        H,
+        H: toSparsePayload(H),
         G,
         snrRange,
         testsPerPoint,
@@ -533,6 +991,9 @@ export const testAPI = {
         maxIterations,
         algorithm,
         channels,
+        decodingConfig,
+        seed,
+        ...channelOptions,
       });
       return response.data;
     } catch (error: any) {
@@ -544,18 +1005,50 @@ export const testAPI = {
   },
 
   // BER/FER curve analysis API
+  runNonBinaryBERFERAnalysis: async (
+    graph: LDPCGraph,
+    p: number,
+    snrRange: { min: number; max: number; steps: number },
+    framesPerPoint: number = 1000,
+    maxErrors: number = 100,
+    channelType: SimulationChannel = 'AWGN',
+    options: { maxIterations?: number; randomizeCoefficients?: boolean; seed?: number } = {},
+    channelOptions: SimulationChannelOptions = {}
+  ): Promise<NonBinaryBERFERResponse> => {
+    try {
+      const response = await api.post('/api/test/nonbinary-ber-fer', {
+        graph,
+        p,
+        snrRange,
+        simulation: { framesPerPoint, maxErrors },
+        channel: { type: channelType, ...channelOptions },
+        ...options
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw new Error(error.response.data.error || 'Non-binary BER/FER analysis failed');
+      }
+      throw new Error('Non-binary BER/FER analysis failed');
+    }
+  },
+
   runBERFERAnalysis: async (
     H: number[][],
     G: number[][],
     snrRange: { min: number; max: number; steps: number },
     framesPerPoint: number = 10000,
     maxErrors: number = 100,
-    channelType: 'AWGN' | 'BSC' | 'Rayleigh' = 'AWGN',
-    algorithm: 'gallager-a' | 'belief-propagation' | 'min-sum' = 'belief-propagation'
+    channelType: SimulationChannel = 'AWGN',
+    algorithm: DecodingAlgorithm = 'belief-propagation',
+    decodingConfig?: Partial<DecoderSettings>,
+    mlBound: boolean = false,
+    seed?: number,
+    channelOptions: SimulationChannelOptions = {}
   ): Promise<BERFERAnalysisResponse> => {
     try {
       const response = await api.post('/api/test/ber-fer-analysis', {
-        H,
+        H: toSparsePayload(H),
         G,
         snrRange,
         simulation: {
@@ -564,9 +1057,13 @@ export const testAPI = {
           maxTime: 300 // 5 minutes timeout
         },
         channel: {
-          type: channelType
+          type: channelType,
+          ...channelOptions
         },
-        algorithm
+        algorithm,
+        decodingConfig,
+        mlBound,
+        seed
       });
       return response.data;
     } catch (error: any) {
@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { codingAPI, DecoderInfo } from '../services/api';
+
+// 后端译码器注册表的本地副本：所有算法下拉框都从这里取选项
+interface DecoderStore {
+  decoders: DecoderInfo[];
+  loading: boolean;
+  error: string | null;
+  loadDecoders: () => Promise<void>;
+  getDecoder: (id: string) => DecoderInfo | undefined;
+}
+
+export const useDecoderStore = create<DecoderStore>((set, get) => ({
+  decoders: [],
+  loading: false,
+  error: null,
+
+  loadDecoders: async () => {
+    if (get().loading || get().decoders.length > 0) return;
+    set({ loading: true, error: null });
+    try {
+      const decoders = await codingAPI.getAlgorithms();
+      set({ decoders, loading: false });
+    } catch (error: any) {
+      console.error('❌ [前端] 加载译码器列表失败:', error);
+      set({ error: error.message || 'Failed to load decoders', loading: false });
+    }
+  },
+
+  getDecoder: (id) => get().decoders.find(decoder => decoder.id === id)
+}));
+
+// 参数模式中是否包含某个参数（如 scalingFactor、damping）
+export const decoderHasParameter = (decoder: DecoderInfo | undefined, name: string): boolean =>
+  !!decoder?.parameters.some(parameter => parameter.name === name);
+
+// 穷举参考译码器（ML、逐比特 MAP）只适用于 k 或 n − k 足够小的码，其余译码器不受限
+export const decoderFitsCode = (decoder: DecoderInfo | undefined, n: number, k: number): boolean =>
+  !!decoder && (!decoder.reference || k <= decoder.reference.dimension || n - k <= decoder.reference.redundancy);
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { GraphNode, GraphEdge, LDPCGraph, MatrixGenerationResult } from '../types';
+import { GraphNode, GraphEdge, LDPCGraph, MatrixGenerationResult, QCBaseMatrix, MessagePlayback } from '../types';
 
 interface EncodingResult {
   codeword: number[];
@@ -29,9 +29,13 @@ interface GraphStore {
   edges: GraphEdge[];
   selectedNodes: string[];
   selectedEdges: string[];
+  highlightedNodes: string[];
+  highlightedEdges: string[];
   matrixData: MatrixGenerationResult | null;
+  qcBaseMatrix: QCBaseMatrix | null;
   encodingResult: EncodingResult | null;
   decodingResult: DecodingResult | null;
+  messagePlayback: MessagePlayback | null;
   history: HistoryAction[];
   historyIndex: number;
   clipboard: { nodes: GraphNode[]; edges: GraphEdge[] } | null;
@@ -43,6 +47,7 @@ interface GraphStore {
   
   addEdge: (sourceId: string, targetId: string) => void;
   removeEdge: (edgeId: string) => void;
+  updateEdge: (edgeId: string, updates: Partial<Omit<GraphEdge, 'id' | 'source' | 'target'>>) => void;
   removeSelectedEdges: () => void;
   
   selectNode: (nodeId: string) => void;
@@ -50,6 +55,8 @@ interface GraphStore {
   selectEdge: (edgeId: string) => void;
   clearSelection: () => void;
   selectAll: () => void;
+  setHighlight: (nodeIds: string[], edgeIds: string[]) => void;
+  clearHighlight: () => void;
   
   undo: () => void;
   redo: () => void;
@@ -62,8 +69,10 @@ interface GraphStore {
   
   setMatrixData: (data: MatrixGenerationResult | null) => void;
   clearMatrixData: () => void;
+  setQCBaseMatrix: (qc: QCBaseMatrix | null) => void;
   setEncodingResult: (result: EncodingResult | null) => void;
   setDecodingResult: (result: DecodingResult | null) => void;
+  setMessagePlayback: (playback: MessagePlayback | null) => void;
   autoConnect: (strategy?: 'random' | 'regular' | 'sparse') => void;
   
   validateGraph: () => { isValid: boolean; errors: string[] };
@@ -77,9 +86,13 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
   edges: [],
   selectedNodes: [],
   selectedEdges: [],
+  highlightedNodes: [],
+  highlightedEdges: [],
   matrixData: null,
+  qcBaseMatrix: null,
   encodingResult: null,
   decodingResult: null,
+  messagePlayback: null,
   history: [],
   historyIndex: -1,
   clipboard: null,
@@ -220,6 +233,15 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
     });
   },
 
+  // 只修改边的属性（如非二元码的 GF(q) 标签），不改变连接关系
+  updateEdge: (edgeId, updates) => {
+    set((state) => ({
+      edges: state.edges.map((edge) =>
+        edge.id === edgeId ? { ...edge, ...updates } : edge
+      ),
+    }));
+  },
+
   selectNode: (nodeId) => {
     set((state) => ({
       selectedNodes: state.selectedNodes.includes(nodeId)
@@ -244,6 +266,10 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
     set({ matrixData: null });
   },
 
+  setQCBaseMatrix: (qc) => {
+    set({ qcBaseMatrix: qc });
+  },
+
   setEncodingResult: (result) => {
     set({ encodingResult: result });
   },
@@ -252,6 +278,10 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
     set({ decodingResult: result });
   },
 
+  setMessagePlayback: (playback) => {
+    set({ messagePlayback: playback });
+  },
+
   autoConnect: (strategy = 'random') => {
     const { nodes, edges } = get();
     const bitNodes = nodes.filter(n => n.type === 'bit');
@@ -416,9 +446,13 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
       edges: [],
       selectedNodes: [],
       selectedEdges: [],
+      highlightedNodes: [],
+      highlightedEdges: [],
       matrixData: null,
+      qcBaseMatrix: null,
       encodingResult: null,
       decodingResult: null,
+      messagePlayback: null,
     });
   },
 
@@ -428,9 +462,13 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
       edges: graph.edges,
       selectedNodes: [],
       selectedEdges: [],
+      highlightedNodes: [],
+      highlightedEdges: [],
       matrixData: null,
+      qcBaseMatrix: null,
       encodingResult: null,
       decodingResult: null,
+      messagePlayback: null,
     });
   },
 
@@ -595,6 +633,14 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
     }));
   },
 
+  setHighlight: (nodeIds, edgeIds) => {
+    set({ highlightedNodes: nodeIds, highlightedEdges: edgeIds });
+  },
+
+  clearHighlight: () => {
+    set({ highlightedNodes: [], highlightedEdges: [] });
+  },
+
   undo: () => {
     set((state) => {
       if (state.historyIndex < 0) return state;
@@ -10,6 +10,7 @@ export interface GraphEdge {
   id: string;
   source: string;
   target: string;
+  coefficient?: number; // 非二元码的边标签（GF(q) 非零元素），缺省为 1
 }
 
 export interface LDPCGraph {
@@ -22,7 +23,8 @@ export interface MatrixGenerationResult {
   G: number[][];
   n: number;
   k: number;
-  minDistance: number;
+  minDistance: number; // 仅当 minDistanceAnalysis.status 为 'exact' 时是精确值，否则为上界
+  minDistanceAnalysis?: MinimumDistanceAnalysis;
   isValid: boolean;
 }
 
@@ -67,4 +69,103 @@ export interface ErrorTestResult {
     errors: number;
     corrected: boolean;
   }>;
-}
\ No newline at end of file
+}
+
+export interface TannerCycle {
+  length: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  edges: [number, number][];
+  edgeIds?: string[];
+}
+
+export interface GirthAnalysis {
+  girth: number | null;
+  maxCycleLength: number;
+  cycleCounts: Record<number, number>;
+  variableNodes: Array<{
+    index: number;
+    localGirth: number | null;
+    cycleCounts: Record<number, number> | null; // 搜索预算用完前未计完的节点为 null
+  }>;
+  shortestCycles: TannerCycle[];
+  truncated: boolean;       // 最短环列表不完整（达到 maxCycles 或搜索预算）
+  countsTruncated: boolean; // 短环计数用完搜索预算，计数为下界
+}
+
+// 停止集：S 的每个相邻校验都至少连接 S 中两个节点
+export interface StoppingSet {
+  size: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  edges: [number, number][];
+  edgeIds?: string[];
+}
+
+export interface StoppingSetAnalysis {
+  sizeLimit: number;
+  stoppingDistance: number | null;
+  sizeCounts: Record<number, number>;
+  sets: StoppingSet[];
+  truncated: boolean;
+}
+
+// 基本 (a,b) 陷阱集：b 为不满足校验的个数
+export interface TrappingSet {
+  a: number;
+  b: number;
+  variableNodes: number[];
+  checkNodes: number[];
+  unsatisfiedChecks: number[];
+  edges: [number, number][];
+  edgeIds?: string[];
+}
+
+export interface TrappingSetAnalysis {
+  maxA: number;
+  maxB: number;
+  counts: Record<string, number>;
+  sets: TrappingSet[];
+  truncated: boolean;
+}
+
+export interface QCBaseMatrix {
+  baseMatrix: number[][]; // 循环移位指数，-1 表示全零块
+  Z: number;              // 提升因子
+}
+
+// 校验矩阵的紧凑传输格式：rows[i] 为第 i 行中值为1的列下标
+export interface SparseMatrixPayload {
+  m: number;
+  n: number;
+  rows: number[][];
+}
+
+export interface MinimumDistanceAnalysis {
+  status: 'exact' | 'bounded' | 'unavailable';
+  minDistance: number;
+  lowerBound: number;
+  upperBound: number;
+  method: 'enumeration' | 'brouwer-zimmermann' | 'none';
+  weightEnumerator?: number[];
+  minimumWeightSupport?: number[];
+  informationSets?: number;
+  searchedWeight?: number;
+  timedOut: boolean;
+  elapsedMs: number;
+}
+
+// 译码过程回放：edgeIds[e] 为 CSR 边 e 对应的图边 id，每帧记录该次迭代后的校验→变量消息
+export interface MessagePlaybackFrame {
+  iteration: number;
+  checkToVariable: number[];
+  unsatisfiedChecks: number[];
+  decoded: number[];
+}
+
+export interface MessagePlayback {
+  edgeIds: (string | null)[];
+  bitNodeIds: string[];
+  checkNodeIds: string[];
+  frames: MessagePlaybackFrame[];
+}